@@ -0,0 +1,143 @@
+// Audit Log API - Filterable view of tool calls and credential events, with CSV export
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  getAuditScope,
+  loadAuditEvents,
+  encodeAuditCursor,
+  parseAuditCursor,
+  AuditCursor,
+  AuditEvent,
+  AuditFilters,
+  AuditEventType,
+  AuditStatus,
+  AUDIT_EVENT_TYPES,
+  AUDIT_STATUSES
+} from '@/lib/audit/audit-log';
+import { tableToCsv } from '@/lib/export/tables';
+import { exportFileName } from '@/lib/export/conversation';
+import { listMemberships } from '@/lib/workspaces/workspaces';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const PAGE_SIZE = 100;
+const EXPORT_BATCH_SIZE = 1000;
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'created_at', 'event', 'status', 'user_email', 'user_id', 'workspace_id', 'server_name',
+  'connection_id', 'account_email', 'tool_name', 'resource', 'args_hash', 'result_bytes',
+  'duration_ms', 'error', 'ip_address', 'details'
+];
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseFilters(params: URLSearchParams): AuditFilters {
+  const event = params.get('event');
+  const status = params.get('status');
+
+  return {
+    event: AUDIT_EVENT_TYPES.includes(event as AuditEventType) ? event as AuditEventType : undefined,
+    status: AUDIT_STATUSES.includes(status as AuditStatus) ? status as AuditStatus : undefined,
+    user: params.get('user')?.trim() || undefined,
+    serverName: params.get('server')?.trim() || undefined,
+    toolName: params.get('tool')?.trim() || undefined,
+    resource: params.get('resource')?.trim() || undefined,
+    workspaceId: params.get('workspace') || undefined,
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to'))
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const scope = await getAuditScope(supabase, user);
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'Only workspace admins and audit admins can view the audit log' },
+        { status: 403 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const filters = parseFilters(params);
+
+    if (params.get('format') === 'csv') {
+      const events: AuditEvent[] = [];
+      let before: AuditCursor | undefined;
+
+      while (events.length < MAX_EXPORT_ROWS) {
+        const batch = await loadAuditEvents(supabase, scope, filters, EXPORT_BATCH_SIZE, before);
+        events.push(...batch);
+        if (batch.length < EXPORT_BATCH_SIZE) break;
+        before = batch[batch.length - 1];
+      }
+
+      // Emails, tool names and errors are user-influenced; tableToCsv escapes
+      // any cell a spreadsheet would otherwise run as a formula
+      const csv = tableToCsv({
+        name: 'Audit log',
+        columns: CSV_COLUMNS,
+        rows: events.slice(0, MAX_EXPORT_ROWS).map(event => CSV_COLUMNS.map(column => {
+          const value = event[column];
+          if (value === null || value === undefined) return null;
+          return typeof value === 'object' ? JSON.stringify(value) : value;
+        }))
+      });
+
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${exportFileName(`audit-log-${new Date().toISOString().substring(0, 10)}`, 'csv')}"`
+        }
+      });
+    }
+
+    const events = await loadAuditEvents(supabase, scope, filters, PAGE_SIZE, parseAuditCursor(params.get('before')));
+
+    // Workspaces the viewer can filter by
+    const workspaces = (await listMemberships(supabase, user.id))
+      .filter(membership => scope.all || scope.workspaceIds.includes(membership.workspace_id))
+      .map(membership => ({ id: membership.workspace_id, name: membership.workspace_name }));
+
+    return NextResponse.json({
+      events,
+      nextCursor: events.length === PAGE_SIZE ? encodeAuditCursor(events[events.length - 1]) : null,
+      scope: scope.all ? 'all' : 'workspaces',
+      workspaces,
+      eventTypes: AUDIT_EVENT_TYPES,
+      statuses: AUDIT_STATUSES
+    });
+  } catch (error: any) {
+    console.error('Error loading audit log:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load audit log' },
+      { status: 500 }
+    );
+  }
+}
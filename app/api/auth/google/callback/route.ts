@@ -1,62 +1,204 @@
 // Google OAuth Callback Route
 import { NextRequest, NextResponse } from 'next/server';
-import { getGoogleTokens } from '@/lib/auth/google';
+import { createClient } from '@supabase/supabase-js';
+import { getGoogleTokens, getGoogleAccountEmail } from '@/lib/auth/google';
+import { consumeOAuthState, OAuthStateFailure, OAUTH_BINDING_COOKIE } from '@/lib/auth/oauth-state';
 import { CredentialManager } from '@/lib/mcp/credential-manager';
+import { resolveOAuthServers } from '@/lib/mcp/manifest';
+import { checkRateLimit, rateLimitHeaders, clientAddress } from '@/lib/usage/rate-limit';
+import { getWorkspaceRole } from '@/lib/workspaces/workspaces';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const STATE_ERRORS: Record<OAuthStateFailure, { title: string; message: string }> = {
+  invalid: {
+    title: 'Invalid Request',
+    message: 'This sign-in link was altered or is not valid. Start the connection again from the chat page.'
+  },
+  expired: {
+    title: 'Link Expired',
+    message: 'This sign-in request took too long. Start the connection again from the chat page.'
+  },
+  replayed: {
+    title: 'Link Already Used',
+    message: 'This sign-in link has already been used. Start the connection again from the chat page.'
+  },
+  session_mismatch: {
+    title: 'Session Mismatch',
+    message: 'This sign-in was started in a different browser or session. Start the connection again from the window you are signed in with.'
+  }
+};
 
 export async function GET(request: NextRequest) {
+  // Set once the state identifies who is connecting, so failures after that are audited
+  let attempt: { userId: string; service: string; workspaceId?: string | null } | undefined;
+
   try {
     const searchParams = request.nextUrl.searchParams;
     const code = searchParams.get('code');
     const state = searchParams.get('state');
     const error = searchParams.get('error');
 
+    // No session here yet, so callbacks are limited per client address
+    const rateLimit = checkRateLimit('oauth', `callback:${clientAddress(request)}`);
+    if (!rateLimit.allowed) {
+      const response = errorPage(
+        'Too Many Attempts',
+        `Too many sign-in attempts. Wait ${rateLimit.retryAfterSeconds} seconds, then start the connection again from the chat page.`,
+        429
+      );
+      for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+        response.headers.set(name, value);
+      }
+      return response;
+    }
+
     if (error) {
-      // Redirect to chat page with error
-      return NextResponse.redirect(
-        new URL(`/chat?error=${encodeURIComponent(error)}`, request.url)
+      return errorPage(
+        error === 'access_denied' ? 'Access Not Granted' : 'Connection Failed',
+        error === 'access_denied'
+          ? 'You declined access on the Google consent screen.'
+          : `Google returned an error: ${error}`
       );
     }
 
     if (!code || !state) {
-      return NextResponse.redirect(
-        new URL('/chat?error=missing_parameters', request.url)
-      );
+      return errorPage('Invalid Request', 'The response from Google was missing required parameters.');
+    }
+
+    // Verify the signed state, consume its nonce and check it came back to the same browser
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const result = await consumeOAuthState(
+      supabase,
+      state,
+      request.cookies.get(OAUTH_BINDING_COOKIE)?.value
+    );
+
+    if (!result.ok) {
+      console.warn(`Rejected OAuth callback: ${result.reason}`);
+      const { title, message } = STATE_ERRORS[result.reason];
+      return errorPage(title, message);
     }
 
-    // Decode state to get user ID and service
-    const stateData = JSON.parse(Buffer.from(state, 'base64').toString());
-    const userId = stateData.userId;
-    const service = stateData.service || 'all';
+    const { userId, service, codeVerifier, workspaceId } = result.data;
+    attempt = { userId, service, workspaceId };
+
+    // The user may have lost admin rights while on the consent screen
+    if (workspaceId && (await getWorkspaceRole(supabase, workspaceId, userId)) !== 'admin') {
+      return errorPage('Not Allowed', 'Only workspace admins can connect accounts for the workspace.');
+    }
 
     // Exchange code for tokens
-    const tokens = await getGoogleTokens(code);
+    const tokens = await getGoogleTokens(code, codeVerifier);
 
-    console.log(`OAuth tokens received for service: ${service}, creating persistent credentials...`);
+    if (!tokens.refresh_token) {
+      return errorPage('Connection Failed', 'Google did not return offline access. Remove the app from your Google account permissions and try again.');
+    }
 
-    // Create credentials based on the service
-    const servicesToConnect = service === 'all' 
-      ? ['google-analytics', 'google-search-console']
-      : service === 'ga4'
-      ? ['google-analytics']
-      : ['google-search-console'];
+    console.log(`OAuth tokens received for service: ${service}, storing encrypted credentials...`);
 
-    for (const serverName of servicesToConnect) {
-      await CredentialManager.createCredentials(userId, serverName, {
+    // Label the connection with the Google account, so users can link several
+    const accountEmail = tokens.access_token ? await getGoogleAccountEmail(tokens.access_token) : undefined;
+
+    // Create credentials for every server covered by the requested service
+    const servers = resolveOAuthServers(service);
+
+    for (const { id: serverName } of servers) {
+      const credentials = await CredentialManager.createCredentials(userId, serverName, {
         access_token: tokens.access_token || undefined,
-        refresh_token: tokens.refresh_token!,
+        refresh_token: tokens.refresh_token,
         expiry_date: tokens.expiry_date || undefined
-      });
+      }, accountEmail, workspaceId || undefined);
       console.log(`Credentials stored successfully for ${serverName}, user:`, userId);
+
+      await recordAuditEvent({
+        event: 'oauth_connect',
+        userId,
+        workspaceId,
+        serverName,
+        connectionId: credentials.id,
+        accountEmail,
+        ipAddress: clientAddress(request),
+        details: { service }
+      });
     }
 
-    // Return HTML page that closes popup and notifies parent window
-    const serviceType = service === 'ga4' ? 'ga4' : service === 'gsc' ? 'gsc' : 'both';
-    
-    const html = `
+    return popupPage({
+      icon: '✅',
+      title: 'Connection Successful',
+      heading: 'Successfully Connected!',
+      message: accountEmail
+        ? `Linked ${accountEmail}. This window will close automatically...`
+        : 'This window will close automatically...',
+      // Notify parent window
+      notify: { type: 'oauth_success', services: servers.map(server => server.key), account: accountEmail || null },
+      autoClose: true
+    });
+  } catch (error: any) {
+    console.error('OAuth callback error:', error);
+    if (attempt) {
+      await recordAuditEvent({
+        event: 'oauth_connect',
+        userId: attempt.userId,
+        workspaceId: attempt.workspaceId,
+        status: 'failed',
+        error: error.message || String(error),
+        ipAddress: clientAddress(request),
+        details: { service: attempt.service }
+      });
+    }
+    return errorPage('Connection Failed', error.message || 'Something went wrong while connecting your account.');
+  }
+}
+
+function errorPage(heading: string, message: string, status: number = 400): NextResponse {
+  return popupPage({
+    icon: '⚠️',
+    title: 'Connection Failed',
+    heading,
+    message,
+    notify: { type: 'oauth_error', error: message },
+    autoClose: false,
+    status
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * HTML for the OAuth popup: shows the outcome and posts it to the opener
+ */
+function popupPage(options: {
+  icon: string;
+  title: string;
+  heading: string;
+  message: string;
+  notify: Record<string, unknown>;
+  autoClose: boolean;
+  status?: number;
+}): NextResponse {
+  // Escape `<` so the message can't close the script tag
+  const notify = JSON.stringify(options.notify).replace(/</g, '\\u003c');
+
+  const html = `
       <!DOCTYPE html>
       <html>
         <head>
-          <title>Connection Successful</title>
+          <title>${escapeHtml(options.title)}</title>
           <style>
             body {
               font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
@@ -70,8 +212,10 @@ export async function GET(request: NextRequest) {
             .container {
               text-align: center;
               color: white;
+              max-width: 380px;
+              padding: 0 20px;
             }
-            .success-icon {
+            .icon {
               font-size: 64px;
               margin-bottom: 20px;
               animation: scaleIn 0.5s ease-out;
@@ -82,39 +226,45 @@ export async function GET(request: NextRequest) {
             }
             h1 { margin: 0 0 10px 0; }
             p { opacity: 0.9; margin: 0; }
+            button {
+              margin-top: 24px;
+              padding: 8px 20px;
+              border: 1px solid rgba(255, 255, 255, 0.5);
+              border-radius: 8px;
+              background: rgba(255, 255, 255, 0.2);
+              color: white;
+              font-size: 14px;
+              cursor: pointer;
+            }
           </style>
         </head>
         <body>
           <div class="container">
-            <div class="success-icon">✅</div>
-            <h1>Successfully Connected!</h1>
-            <p>This window will close automatically...</p>
+            <div class="icon">${options.icon}</div>
+            <h1>${escapeHtml(options.heading)}</h1>
+            <p>${escapeHtml(options.message)}</p>
+            ${options.autoClose ? '' : '<button onclick="window.close()">Close window</button>'}
           </div>
           <script>
-            // Notify parent window
             if (window.opener) {
-              window.opener.postMessage({ 
-                type: 'oauth_success', 
-                service: '${serviceType}'
-              }, window.location.origin);
+              window.opener.postMessage(${notify}, window.location.origin);
             }
-            
+            ${options.autoClose ? `
             // Close window after a short delay
             setTimeout(() => {
               window.close();
-            }, 1500);
+            }, 1500);` : ''}
           </script>
         </body>
       </html>
     `;
-    
-    return new NextResponse(html, {
-      headers: { 'Content-Type': 'text/html' }
-    });
-  } catch (error: any) {
-    console.error('OAuth callback error:', error);
-    return NextResponse.redirect(
-      new URL(`/chat?error=${encodeURIComponent(error.message)}`, request.url)
-    );
-  }
+
+  const response = new NextResponse(html, {
+    status: options.status || 200,
+    headers: { 'Content-Type': 'text/html' }
+  });
+
+  // The binding is single-use along with the state
+  response.cookies.set(OAUTH_BINDING_COOKIE, '', { path: '/api/auth/google/callback', maxAge: 0 });
+  return response;
 }
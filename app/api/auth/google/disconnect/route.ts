@@ -2,6 +2,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CredentialManager } from '@/lib/mcp/credential-manager';
 import { mcpConnectionPool } from '@/lib/mcp/connection-pool';
+import { resolveOAuthServers } from '@/lib/mcp/manifest';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { clientAddress } from '@/lib/usage/rate-limit';
 import { createClient } from '@supabase/supabase-js';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -9,7 +12,8 @@ const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.
 
 export async function POST(request: NextRequest) {
   try {
-    const { service } = await request.json();
+    // `connectionId` disconnects a single linked account; otherwise every account for the service
+    const { service, connectionId } = await request.json();
 
     if (!service) {
       return NextResponse.json(
@@ -19,7 +23,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate service type
-    if (!['ga4', 'gsc', 'all'].includes(service)) {
+    const servers = resolveOAuthServers(service);
+    if (servers.length === 0) {
       return NextResponse.json(
         { error: 'Invalid service type' },
         { status: 400 }
@@ -48,25 +53,51 @@ export async function POST(request: NextRequest) {
 
     const userId = user.id; // Get userId from authenticated session
 
-    // Determine which services to disconnect
-    const servicesToDisconnect = service === 'all' 
-      ? ['google-analytics', 'google-search-console']
-      : service === 'ga4'
-      ? ['google-analytics']
-      : ['google-search-console'];
+    // Workspace connections are shared, so only the workspace's admins can remove them
+    const account = connectionId
+      ? (await CredentialManager.listConnections(userId)).find(connection => connection.id === connectionId)
+      : undefined;
+    if (account?.workspace_id && account.workspace_role !== 'admin') {
+      return NextResponse.json({ error: 'Only workspace admins can disconnect workspace accounts' }, { status: 403 });
+    }
 
     // Delete credentials and close active connections for each service
-    for (const serverName of servicesToDisconnect) {
+    for (const { id: serverName } of servers) {
       try {
         // Close active connection in pool first
-        await mcpConnectionPool.closeConnection(userId, serverName);
+        await mcpConnectionPool.closeConnection(account?.workspace_id || userId, serverName, connectionId);
         console.log(`Closed active connection for ${serverName}, user:`, userId);
         
         // Then delete credentials
-        await CredentialManager.deleteCredentials(userId, serverName);
+        const deleted = await CredentialManager.deleteCredentials(userId, serverName, connectionId);
         console.log(`Deleted credentials for ${serverName}, user:`, userId);
+
+        for (const row of deleted) {
+          await recordAuditEvent({
+            event: 'oauth_disconnect',
+            userId,
+            userEmail: user.email || null,
+            workspaceId: row.workspace_id,
+            serverName,
+            connectionId: row.id,
+            accountEmail: row.account_email,
+            ipAddress: clientAddress(request)
+          });
+        }
       } catch (error: any) {
         console.error(`Error disconnecting ${serverName}:`, error.message);
+        await recordAuditEvent({
+          event: 'oauth_disconnect',
+          userId,
+          userEmail: user.email || null,
+          workspaceId: account?.workspace_id,
+          serverName,
+          connectionId,
+          accountEmail: account?.account_email,
+          status: 'failed',
+          error: error.message,
+          ipAddress: clientAddress(request)
+        });
         // Continue with other services even if one fails
       }
     }
@@ -1,7 +1,15 @@
 // Google OAuth Authentication Route
 import { NextRequest, NextResponse } from 'next/server';
-import { getGoogleAuthUrl } from '@/lib/auth/google';
+import { createClient } from '@supabase/supabase-js';
+import { getGoogleAuthUrl, createPkcePair } from '@/lib/auth/google';
+import { createOAuthState, OAUTH_BINDING_COOKIE, OAUTH_BINDING_COOKIE_MAX_AGE } from '@/lib/auth/oauth-state';
 import { supabase } from '@/lib/supabase';
+import { resolveOAuthServers } from '@/lib/mcp/manifest';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/usage/rate-limit';
+import { getWorkspaceRole } from '@/lib/workspaces/workspaces';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,26 +26,59 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
     }
 
-    // Get service parameter (ga4, gsc, or all)
+    const rateLimit = checkRateLimit('oauth', user.id);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: `Too many connection attempts. Try again in ${rateLimit.retryAfterSeconds} seconds.`,
+          retryAfter: rateLimit.retryAfterSeconds
+        },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    // Get service parameter (a server key such as ga4/gsc, or all)
     const searchParams = request.nextUrl.searchParams;
-    const service = searchParams.get('service') as 'ga4' | 'gsc' | 'all' || 'all';
+    const service = searchParams.get('service') || 'all';
+    // Optional workspace to link the account for, shared with its members
+    const workspaceId = searchParams.get('workspace');
+
+    const servers = resolveOAuthServers(service);
+    if (servers.length === 0) {
+      return NextResponse.json({ error: 'Invalid service type' }, { status: 400 });
+    }
 
-    // Generate state parameter with user ID and service
-    const state = Buffer.from(JSON.stringify({
-      userId: user.id,
-      service: service,
-      timestamp: Date.now()
-    })).toString('base64');
+    // Signed one-time state, bound to this browser by a cookie, with a PKCE verifier
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
 
-    const authUrl = getGoogleAuthUrl(state, service);
+    if (workspaceId && (await getWorkspaceRole(serviceClient, workspaceId, user.id)) !== 'admin') {
+      return NextResponse.json({ error: 'Only workspace admins can connect accounts for the workspace' }, { status: 403 });
+    }
+
+    const { codeVerifier, codeChallenge } = await createPkcePair();
+    const { state, binding } = await createOAuthState(serviceClient, user.id, service, codeVerifier, workspaceId);
+
+    const authUrl = getGoogleAuthUrl(state, servers.flatMap(server => server.oauth!.scopes), codeChallenge);
     console.log("/Google Auth URL route");
     console.log('Auth URL:', authUrl.slice(0, 10));
     console.log('Service:', service);
     console.log('User ID:', user.id);
-    console.log('Timestamp:', Date.now());
-    console.log('State:', state);
 
-    return NextResponse.json({ authUrl });
+    const response = NextResponse.json({ authUrl });
+    response.cookies.set(OAUTH_BINDING_COOKIE, binding, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',  // Sent on the top-level redirect back from Google
+      path: '/api/auth/google/callback',
+      maxAge: OAUTH_BINDING_COOKIE_MAX_AGE
+    });
+
+    return response;
   } catch (error: any) {
     console.error('Error generating auth URL:', error);
     return NextResponse.json(
@@ -0,0 +1,55 @@
+// Tool Approval API - Approve or decline a tool call paused in a streaming chat
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { toolApprovalManager } from '@/lib/chat/approvals';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function POST(request: NextRequest) {
+  try {
+    const { approvalId, approved } = await request.json();
+
+    if (!approvalId || typeof approved !== 'boolean') {
+      return NextResponse.json(
+        { error: 'approvalId and approved are required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    if (!toolApprovalManager.respond(approvalId, user.id, approved)) {
+      return NextResponse.json(
+        { error: 'Approval not found or already answered' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, approvalId, approved });
+  } catch (error: any) {
+    console.error('Error answering tool approval:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to answer approval' },
+      { status: 500 }
+    );
+  }
+}
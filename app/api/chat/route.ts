@@ -1,21 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import { mcpConnectionPool } from '@/lib/mcp/connection-pool'
-import { CredentialManager } from '@/lib/mcp/credential-manager'
+import { toolApprovalManager } from '@/lib/chat/approvals'
+import { runAgentLoop, ApprovalRequest, ChatStreamEvent, ToolInvocation } from '@/lib/chat/agent'
+import { createEventStream, EVENT_STREAM_HEADERS } from '@/lib/chat/sse'
+import { prepareAgentSession, touchConversation, ConversationRow, CONVERSATION_COLUMNS } from '@/lib/chat/session'
+import { loadConversationHistory, saveUserMessage, saveAssistantMessage } from '@/lib/chat/messages'
+import { getContextBudget } from '@/lib/chat/context'
+import { updateConversationSummary } from '@/lib/chat/summary'
+import { resolveLLMConfig, createLLMProvider, validateLLMSelection } from '@/lib/llm/registry'
+import { LLMMessage } from '@/lib/llm/types'
+import { MeteredProvider } from '@/lib/usage/meter'
+import { recordUsage } from '@/lib/usage/usage'
+import { checkQuota, describeExceededQuota } from '@/lib/usage/quotas'
+import { checkRateLimit, rateLimitHeaders } from '@/lib/usage/rate-limit'
 import { createClient } from '@supabase/supabase-js'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
 export async function POST(request: NextRequest) {
-  try {
-    const { message, ga4Connected, gscConnected } = await request.json()
+  const startedAt = Date.now();
 
-    console.log('Chat request received:', message, ga4Connected, gscConnected)
+  try {
+    const { message, conversationId, services, stream, refresh } = await request.json()
 
     if (!message) {
       return NextResponse.json(
@@ -45,116 +51,93 @@ export async function POST(request: NextRequest) {
     }
 
     const userId = user.id; // Get userId from authenticated session
-    console.log('Chat request - User:', userId, 'GA4 Connected:', ga4Connected, 'GSC Connected:', gscConnected)
-
-    // Load recent conversation history (last 10 messages)
+    console.log('Chat request - User:', userId, 'Services:', services)
 
-    const { data: recentMessages } = await supabase
-      .from('messages')
-      .select('role, content')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(10);
-
-    // Reverse to get chronological order (oldest to newest)
-    const conversationHistory = (recentMessages || []).reverse();
-    console.log('Conversation history: ', conversationHistory)
-
-    // Set up MCP connections for available services
-    let allTools: any[] = [];
-    const mcpClients: { [key: string]: any } = {};
+    const rateLimit = checkRateLimit('chat', userId);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: `Too many messages. Try again in ${rateLimit.retryAfterSeconds} seconds.`,
+          retryAfter: rateLimit.retryAfterSeconds
+        },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
 
-    // Connect to GA4 if available
-    if (ga4Connected) {
-      try {
-        const credentials = await CredentialManager.getCredentials(userId, 'google-analytics');
-        console.log('GA4 credentials: ', credentials)
+    const quota = await checkQuota(supabase, userId);
+    if (quota.exceeded) {
+      return NextResponse.json(
+        { error: describeExceededQuota(quota), retryAfter: quota.retryAfterSeconds, quota: quota.exceeded },
+        { status: 429, headers: { 'Retry-After': String(quota.retryAfterSeconds) } }
+      );
+    }
 
-        if (credentials) {
-          const client = await mcpConnectionPool.getConnection(userId, 'google-analytics');
-          const tools = await client.listTools();
+    // Resolve the conversation, creating one for clients that don't send an id
+    let conversation: ConversationRow;
 
-          // Add service prefix to tool names to avoid conflicts
-          const ga4Tools = tools.map((tool: any) => ({
-            ...tool,
-            name: `ga4_${tool.name}`,
-            description: `[GA4] ${tool.description}`,
-            _originalName: tool.name,
-            _service: 'google-analytics'
-          }));
+    if (conversationId) {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select(CONVERSATION_COLUMNS)
+        .eq('id', conversationId)
+        .eq('user_id', userId)
+        .single();
 
-          allTools = [...allTools, ...ga4Tools];
-          mcpClients['google-analytics'] = client;
-          console.log('Dynamically loaded GA4 tools:', tools.map((t: any) => t.name));
-        } else {
-          console.log('No GA4 credentials found for user:', userId);
-        }
-      } catch (error) {
-        console.error('Error connecting to GA4 MCP:', error);
+      if (error || !data) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+      }
+      conversation = data;
+    } else {
+      const { data, error } = await supabase
+        .from('conversations')
+        .insert({ user_id: userId })
+        .select(CONVERSATION_COLUMNS)
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to create conversation: ${error?.message}`);
       }
+      conversation = data;
     }
 
-    // Connect to GSC if available
-    if (gscConnected) {
-      try {
-        const credentials = await CredentialManager.getCredentials(userId, 'google-search-console');
-
-        if (credentials) {
-          const client = await mcpConnectionPool.getConnection(userId, 'google-search-console');
-          const tools = await client.listTools();
-
-          // Add service prefix to tool names to avoid conflicts
-          const gscTools = tools.map((tool: any) => ({
-            ...tool,
-            name: `gsc_${tool.name}`,
-            description: `[GSC] ${tool.description}`,
-            _originalName: tool.name,
-            _service: 'google-search-console'
-          }));
-
-          allTools = [...allTools, ...gscTools];
-          mcpClients['google-search-console'] = client;
-          console.log('Dynamically loaded GSC tools:', tools.map((t: any) => t.name));
-        } else {
-          console.log('No GSC credentials found for user:', userId);
-        }
-      } catch (error) {
-        console.error('Error connecting to GSC MCP:', error);
-      }
+    // Resolve the LLM provider: conversation settings override deployment defaults,
+    // but only within the providers and models this deployment allows
+    const selectionError = validateLLMSelection({
+      provider: conversation.llm_provider,
+      model: conversation.llm_model
+    });
+    if (selectionError) {
+      return NextResponse.json({ error: selectionError }, { status: 400 });
     }
 
-    console.log('All tools: ', allTools.map(tool => tool.name))
-    
-    // Create system message with service context
-    let systemContent = 'You are a helpful assistant.';
-    const connectedServices: string[] = [];
+    const llmConfig = resolveLLMConfig({
+      provider: conversation.llm_provider,
+      model: conversation.llm_model
+    });
+    // Counts the tokens of every completion this request makes, including the summary and title
+    const provider = new MeteredProvider(createLLMProvider(llmConfig));
+    const budget = getContextBudget(llmConfig);
 
-    if (ga4Connected && mcpClients['google-analytics']) {
-      connectedServices.push('Google Analytics 4');
-    }
-    if (gscConnected && mcpClients['google-search-console']) {
-      connectedServices.push('Google Search Console');
-    }
+    // Load the recent turns that fit the budget before saving the new one; older
+    // turns are folded into the conversation's rolling summary
+    const conversationHistory = await loadConversationHistory(supabase, conversation, budget.historyTokens);
+    const summary = await updateConversationSummary(supabase, provider, llmConfig, conversation, conversationHistory.overflow);
+    console.log(`Conversation history: ${conversationHistory.messages.length} messages, ${conversationHistory.overflow.length} summarized`)
 
-    if (connectedServices.length > 0) {
-      systemContent += `\n\nYou have access to data from the following services: ${connectedServices.join(' and ')}. Use the available tools to answer questions with specific, accurate information from these services.`;
+    const userMessage = await saveUserMessage(supabase, userId, conversation.id, message);
 
-      if (connectedServices.length > 1) {
-        systemContent += `\n\nWhen answering questions, you can combine data from multiple services to provide comprehensive insights.`;
-      }
-    }
+    // Connect the requested MCP servers and describe them to the model
+    const { tools: allTools, mcpClients, systemContent } = await prepareAgentSession(supabase, userId, conversation, services);
 
     // Build messages array with conversation history
-    const messages: any[] = [
+    const messages: LLMMessage[] = [
       {
         role: 'system',
         content: systemContent,
       },
+      ...(summary ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${summary}` }] : []),
       // Add conversation history for context
-      ...conversationHistory.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
+      ...conversationHistory.messages,
       // Add current user message
       {
         role: 'user',
@@ -162,126 +145,78 @@ export async function POST(request: NextRequest) {
       },
     ];
 
-    // Agent loop: Keep calling tools until we have a final answer
-    const MAX_ITERATIONS = 5; // Prevent infinite loops
-    let iteration = 0;
-    let finalResponse = '';
-
-    if (allTools.length > 0) {
-      // Prepare functions for OpenAI
-      const functions = allTools.map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.inputSchema
-      }));
-
-      while (iteration < MAX_ITERATIONS) {
-        iteration++;
-        console.log(`\n=== Agent Iteration ${iteration} ===`);
-
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          messages: messages,
-          functions,
-          function_call: 'auto',
-        });
-
-        const choice = completion.choices[0];
-        const assistantMessage = choice.message;
-
-        // If no function call, we have the final answer
-        if (!assistantMessage.function_call) {
-          finalResponse = assistantMessage.content || 'No response';
-          console.log('Final answer received (no more tool calls)');
-          break;
-        }
-
-        // LLM wants to call a function
-        const functionCall = assistantMessage.function_call;
-        const functionName = functionCall.name;
-        const functionArgs = JSON.parse(functionCall.arguments || '{}');
-
-        console.log(`Tool called: ${functionName}`);
-        console.log(`Arguments:`, functionArgs);
+    // Identical tool calls reuse cached results unless the user asked for fresh data
+    const cache = { userId, bypass: refresh === true };
+
+    const meterUsage = (toolCalls: ToolInvocation[], error?: string) => recordUsage(supabase, {
+      userId,
+      conversationId: conversation.id,
+      source: 'chat',
+      model: llmConfig.model,
+      meter: provider,
+      toolCalls,
+      startedAt,
+      error
+    });
 
-        // Add assistant's function call to messages
-        messages.push({
-          role: 'assistant',
-          content: null,
-          function_call: functionCall,
-        });
+    // Streaming mode: forward token deltas and tool progress as Server-Sent Events
+    if (stream) {
+      const body = createEventStream<ChatStreamEvent>(async (send, signal) => {
+        let toolCalls: ToolInvocation[] = [];
+        let failure: string | undefined;
 
         try {
-          // Find the tool to determine which service to use
-          const tool = allTools.find(t => t.name === functionName);
-          if (!tool || !tool._service || !tool._originalName) {
-            throw new Error(`Tool ${functionName} not found or invalid`);
-          }
-
-          // Get the appropriate MCP client
-          const mcpClient = mcpClients[tool._service];
-          if (!mcpClient) {
-            throw new Error(`MCP client for ${tool._service} not available`);
-          }
-
-          // Call the tool with the original name (without prefix)
-          const toolResult = await mcpClient.callTool(tool._originalName, functionArgs);
-          console.log(`Tool result received from ${tool._service}:`, JSON.stringify(toolResult).substring(0, 200) + '...');
-
-          // Add function result to messages
-          messages.push({
-            role: 'function',
-            name: functionName,
-            content: JSON.stringify(toolResult),
+          // Side-effecting tools pause here until the user answers via /api/chat/approvals
+          const requestApproval = (call: ApprovalRequest) => {
+            const { approvalId, decision } = toolApprovalManager.create(userId);
+            send({ type: 'approval_required', approvalId, ...call });
+            return decision;
+          };
+
+          const result = await runAgentLoop({
+            provider, config: llmConfig, messages, tools: allTools, mcpClients, onEvent: send, requestApproval, cache, budget, signal
           });
+          toolCalls = result.toolCalls;
+          const saved = await saveAssistantMessage(supabase, userId, conversation.id, result.response, result.toolCalls);
+          send({ type: 'saved', userMessage, ...saved });
 
+          const title = await touchConversation(supabase, provider, llmConfig, conversation, message, result.response);
+          send({ type: 'conversation', conversationId: conversation.id, title });
         } catch (error: any) {
-          console.error(`Error calling tool ${functionName}:`, error);
-
-          // Add error message to conversation
-          messages.push({
-            role: 'function',
-            name: functionName,
-            content: JSON.stringify({
-              error: error.message,
-              message: 'Failed to execute tool. Please try a different approach.'
-            }),
-          });
+          console.error('Error during streamed chat:', error);
+          failure = error.message || 'Internal server error';
+          send({ type: 'error', error: failure! });
+        } finally {
+          // Tokens already spent are metered even if the client disconnected mid-run
+          await meterUsage(toolCalls, failure);
         }
+      });
 
-        // Continue loop - LLM will decide next action based on tool results
-      }
-
-      // If we hit max iterations without a final answer
-      if (iteration >= MAX_ITERATIONS && !finalResponse) {
-        console.warn('Max iterations reached, forcing final response');
-
-        // Ask LLM to provide final answer with what it has
-        messages.push({
-          role: 'system',
-          content: 'Please provide a final answer based on the information gathered so far.'
-        });
-
-        const finalCompletion = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          messages: messages,
-        });
-
-        finalResponse = finalCompletion.choices[0]?.message?.content || 'Unable to complete the request.';
-      }
+      return new Response(body, { headers: EVENT_STREAM_HEADERS });
+    }
 
-      return NextResponse.json({ response: finalResponse });
+    // Agent loop: Keep calling tools until we have a final answer
+    let result;
+    try {
+      result = await runAgentLoop({ provider, config: llmConfig, messages, tools: allTools, mcpClients, cache, budget });
+    } catch (error: any) {
+      await meterUsage([], error.message || 'Internal server error');
+      throw error;
     }
 
-    // Regular completion without function calling (no GA4 tools available)
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: messages,
+    const { assistantMessage, toolMessages } = await saveAssistantMessage(
+      supabase, userId, conversation.id, result.response, result.toolCalls
+    );
+    const title = await touchConversation(supabase, provider, llmConfig, conversation, message, result.response);
+    await meterUsage(result.toolCalls);
+
+    return NextResponse.json({
+      response: result.response,
+      conversationId: conversation.id,
+      title,
+      messageId: assistantMessage.id,
+      toolCalls: toolMessages
     })
-
-    finalResponse = completion.choices[0]?.message?.content || 'No response'
-
-    return NextResponse.json({ response: finalResponse })
   } catch (error: any) {
     console.error('Error:', error)
     return NextResponse.json(
@@ -290,4 +225,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
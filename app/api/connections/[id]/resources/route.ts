@@ -0,0 +1,61 @@
+// Linked Account Resources API - Lists the GA4 properties or GSC sites a Google connection can access
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { CredentialManager } from '@/lib/mcp/credential-manager';
+import { getServerManifest } from '@/lib/mcp/manifest';
+import { listGoogleResources } from '@/lib/google/resources';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const connection = (await CredentialManager.listConnections(user.id)).find(c => c.id === params.id);
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    const resource = getServerManifest(connection.server_name)?.oauth?.resource;
+    if (!resource) {
+      return NextResponse.json({ error: 'This service has no properties or sites to list' }, { status: 400 });
+    }
+
+    const credentials = await CredentialManager.getValidCredentials(user.id, connection.server_name, connection.id);
+    if (!credentials || credentials.needs_reauth) {
+      return NextResponse.json({ error: 'Reconnect this account to list its resources' }, { status: 409 });
+    }
+
+    const resources = await listGoogleResources(resource.kind, credentials);
+
+    return NextResponse.json({ kind: resource.kind, label: resource.label, resources });
+  } catch (error: any) {
+    console.error('Error listing Google resources:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list resources' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+// Linked Account API - Pin one of a user's (or, for admins, a workspace's) Google connections to a default property or site
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { CredentialManager } from '@/lib/mcp/credential-manager';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { defaultResource } = await request.json();
+
+    if (defaultResource !== null && typeof defaultResource !== 'string') {
+      return NextResponse.json({ error: 'defaultResource must be a string or null' }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const shared = (await CredentialManager.listConnections(user.id)).find(c => c.id === params.id);
+    if (shared?.workspace_id && shared.workspace_role !== 'admin') {
+      return NextResponse.json({ error: 'Only workspace admins can change a workspace account' }, { status: 403 });
+    }
+
+    const connection = await CredentialManager.setDefaultResource(
+      user.id,
+      params.id,
+      defaultResource?.trim() || null
+    );
+
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ connection });
+  } catch (error: any) {
+    console.error('Error updating connection:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update connection' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,16 +2,37 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { mcpConnectionPool } from '@/lib/mcp/connection-pool';
-import { CredentialManager } from '@/lib/mcp/credential-manager';
+import { CredentialManager, MCPConnectionSummary } from '@/lib/mcp/credential-manager';
+import { loadAvailableServers, isCustomServerId } from '@/lib/mcp/custom-servers';
+import { MCPServerManifest } from '@/lib/mcp/types';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
 interface ConnectionStatus {
   connected: boolean;
+  needsReauth?: boolean;  // Stored refresh token was revoked; prompt the user to reconnect
   error?: string;
 }
 
+interface AccountStatus extends ConnectionStatus {
+  id: string;                     // mcp_connections.id
+  email: string | null;
+  defaultResource: string | null;
+  workspace: { id: string; name: string | null; role: string | null } | null;  // Shared by a workspace
+}
+
+interface ServerStatus extends ConnectionStatus {
+  key: string;
+  id: string;
+  name: string;
+  shortName: string;
+  description: string;
+  custom: boolean;
+  resource?: { label: string; placeholder: string };
+  accounts: AccountStatus[];      // Linked Google accounts (OAuth servers only)
+}
+
 export async function GET(request: NextRequest) {
   try {
     // Verify user authentication from session token
@@ -36,22 +57,47 @@ export async function GET(request: NextRequest) {
 
     const userId = user.id;
 
-    // Check GA4 connection
-    const ga4Status: ConnectionStatus = await checkServiceConnection(
-      userId,
-      'google-analytics'
-    );
+    // Check every server in the manifest, then the user's custom servers
+    const availableServers = await loadAvailableServers(supabase, userId);
+    const linkedAccounts = await CredentialManager.listConnections(userId);
+
+    const servers: ServerStatus[] = await Promise.all(
+      availableServers.map(async (manifest) => {
+        const server = {
+          key: manifest.key,
+          id: manifest.id,
+          name: manifest.displayName,
+          shortName: manifest.shortName,
+          description: manifest.description,
+          custom: isCustomServerId(manifest.id),
+          resource: manifest.oauth?.resource
+        };
+
+        if (!manifest.oauth) {
+          return { ...server, accounts: [], ...(await checkServiceConnection(userId, manifest)) };
+        }
+
+        // OAuth servers: check each linked account; the server is connected if any account is
+        const accounts = await Promise.all(
+          linkedAccounts
+            .filter(account => account.server_name === manifest.id)
+            .map(account => checkAccountConnection(userId, manifest, account))
+        );
+        const working = accounts.filter(account => account.connected);
 
-    // Check GSC connection
-    const gscStatus: ConnectionStatus = await checkServiceConnection(
-      userId,
-      'google-search-console'
+        return {
+          ...server,
+          accounts,
+          connected: working.length > 0,
+          needsReauth: accounts.some(account => account.needsReauth),
+          ...(working.length === 0 && {
+            error: accounts.length === 0 ? 'No credentials found' : accounts[0].error
+          })
+        };
+      })
     );
 
-    return NextResponse.json({
-      ga4: ga4Status,
-      gsc: gscStatus
-    });
+    return NextResponse.json({ servers });
   } catch (error: any) {
     console.error('Error checking connection status:', error);
     return NextResponse.json(
@@ -62,25 +108,58 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Check if a specific service connection is working
+ * Check one linked Google account, refreshing its access token if it's about to expire
  */
-async function checkServiceConnection(
+async function checkAccountConnection(
   userId: string,
-  serverName: string
-): Promise<ConnectionStatus> {
+  manifest: MCPServerManifest,
+  account: MCPConnectionSummary
+): Promise<AccountStatus> {
+  const status = {
+    id: account.id,
+    email: account.account_email || null,
+    defaultResource: account.default_resource || null,
+    workspace: account.workspace_id
+      ? { id: account.workspace_id, name: account.workspace_name || null, role: account.workspace_role || null }
+      : null
+  };
+
   try {
-    // Check if credentials exist
-    const credentials = await CredentialManager.getCredentials(userId, serverName);
-    
-    if (!credentials) {
+    const credentials = await CredentialManager.getValidCredentials(userId, manifest.id, account.id);
+
+    if (!credentials || credentials.needs_reauth) {
       return {
+        ...status,
         connected: false,
-        error: 'No credentials found'
+        needsReauth: true,
+        error: `${manifest.displayName} access for ${credentials?.account_email || 'this account'} was revoked or expired. Reconnect to continue.`
       };
     }
 
+    return {
+      ...status,
+      email: credentials.account_email || null,
+      ...(await checkServiceConnection(userId, manifest, account.id, account.workspace_id))
+    };
+  } catch (error: any) {
+    return { ...status, connected: false, error: error.message || 'Connection verification failed' };
+  }
+}
+
+/**
+ * Check if a specific service connection is working
+ */
+async function checkServiceConnection(
+  userId: string,
+  manifest: MCPServerManifest,
+  connectionId?: string,
+  workspaceId?: string
+): Promise<ConnectionStatus> {
+  const serverName = manifest.id;
+
+  try {
     // Try to get/create connection from pool and verify it works
-    const client = await mcpConnectionPool.getConnection(userId, serverName);
+    const client = await mcpConnectionPool.getConnection(userId, serverName, manifest, connectionId);
     
     // Verify connection by listing tools (lightweight operation)
     await client.listTools();
@@ -93,7 +172,7 @@ async function checkServiceConnection(
     
     // Close any failed connection in the pool
     try {
-      await mcpConnectionPool.closeConnection(userId, serverName);
+      await mcpConnectionPool.closeConnection(workspaceId || userId, serverName, connectionId);
     } catch (closeError) {
       console.error('Error closing failed connection:', closeError);
     }
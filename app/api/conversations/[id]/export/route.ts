@@ -0,0 +1,92 @@
+// Conversation Export API - Downloads a whole conversation as Markdown or PDF
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { StoredMessage } from '@/lib/chat/messages';
+import { conversationToMarkdown, exportFileName } from '@/lib/export/conversation';
+import { conversationToPdf } from '@/lib/export/pdf';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'md';
+    if (format !== 'md' && format !== 'pdf') {
+      return NextResponse.json({ error: 'format must be md or pdf' }, { status: 400 });
+    }
+
+    const { data: conversation } = await supabase
+      .from('conversations')
+      .select('id, title')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const { data: messages, error } = await supabase
+      .from('messages')
+      .select('id, role, content, parent_message_id, tool_name, tool_error, created_at')
+      .eq('conversation_id', conversation.id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load messages: ${error.message}`);
+    }
+
+    const exported = {
+      title: conversation.title || 'Conversation',
+      messages: (messages || []) as StoredMessage[],
+      exportedAt: new Date()
+    };
+
+    if (format === 'md') {
+      return new NextResponse(conversationToMarkdown(exported), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${exportFileName(exported.title, 'md')}"`
+        }
+      });
+    }
+
+    const pdf = await conversationToPdf(exported);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${exportFileName(exported.title, 'pdf')}"`
+      }
+    });
+  } catch (error: any) {
+    console.error('Error exporting conversation:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to export conversation' },
+      { status: 500 }
+    );
+  }
+}
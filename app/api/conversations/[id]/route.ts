@@ -0,0 +1,70 @@
+// Conversation API - Sets a conversation's LLM provider and model
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { validateLLMSelection } from '@/lib/llm/registry';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    // Null (or empty) falls back to the deployment defaults
+    const changes = {
+      llm_provider: typeof body?.llm_provider === 'string' && body.llm_provider ? body.llm_provider : null,
+      llm_model: typeof body?.llm_model === 'string' && body.llm_model ? body.llm_model : null
+    };
+
+    const validationError = validateLLMSelection({ provider: changes.llm_provider, model: changes.llm_model });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .update(changes)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select('id, llm_provider, llm_model')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update conversation: ${error.message}`);
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation: data });
+  } catch (error: any) {
+    console.error('Error updating conversation:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+// Cron API - Runs due reports and monitors when triggered by an external scheduler
+//
+// For deployments where the in-process poller can't run (serverless, or
+// SCHEDULER=off). Call it every minute with `Authorization: Bearer $CRON_SECRET`.
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { createSchedulerClient, runScheduledJobs } from '@/lib/scheduler';
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization') || '';
+  if (!secret || !header.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const given = Buffer.from(header.substring('Bearer '.length));
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createSchedulerClient();
+    if (!supabase) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is required' }, { status: 500 });
+    }
+
+    const result = await runScheduledJobs(supabase);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error running scheduled jobs:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to run scheduled jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+// Invitation API - Accept or decline a workspace invitation addressed to the signed-in user
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { acceptInvitation, confirmedEmail } from '@/lib/workspaces/workspaces';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    if (!confirmedEmail(user)) {
+      return NextResponse.json({ error: 'Confirm your email address to accept invitations' }, { status: 403 });
+    }
+
+    const membership = await acceptInvitation(supabase, user, params.id);
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'Invitation not found. It may have expired, or it was sent to a different email address.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ membership });
+  } catch (error: any) {
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to accept invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const email = confirmedEmail(user);
+    if (!email) {
+      return NextResponse.json({ error: 'Confirm your email address to decline invitations' }, { status: 403 });
+    }
+
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('id', params.id)
+      .eq('email', email)
+      .is('accepted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to decline invitation: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error declining invitation:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to decline invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// LLM Providers API - Lists the providers configured for this deployment
+import { NextResponse } from 'next/server';
+import { getAvailableProviders, getAllowedModels, resolveLLMConfig } from '@/lib/llm/registry';
+
+export async function GET() {
+  try {
+    const defaults = resolveLLMConfig();
+
+    return NextResponse.json({
+      default: defaults,
+      providers: getAvailableProviders().map(provider => ({
+        id: provider.id,
+        name: provider.name,
+        defaultModel: provider.id === defaults.provider ? defaults.model : provider.defaultModel,
+        models: getAllowedModels(provider.id)
+      }))
+    });
+  } catch (error: any) {
+    console.error('Error listing LLM providers:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list providers' },
+      { status: 500 }
+    );
+  }
+}
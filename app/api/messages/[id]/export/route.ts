@@ -0,0 +1,101 @@
+// Message Data Export API - Lists and downloads the tool result tables behind an answer (CSV or XLSX)
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { extractResultTables, ResultTable } from '@/lib/chat/tables';
+import { tableToCsv, tablesToXlsx } from '@/lib/export/tables';
+import { exportFileName } from '@/lib/export/conversation';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get('format');
+    if (format && format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({ error: 'format must be csv or xlsx' }, { status: 400 });
+    }
+
+    const { data: toolMessages, error } = await supabase
+      .from('messages')
+      .select('tool_name, tool_arguments, tool_result, tool_tables')
+      .eq('parent_message_id', params.id)
+      .eq('user_id', user.id)
+      .eq('role', 'tool')
+      .is('tool_error', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load tool calls: ${error.message}`);
+    }
+
+    // Answers saved before tool_tables existed only have the (possibly truncated) raw result
+    const tables: ResultTable[] = (toolMessages || []).flatMap(message =>
+      message.tool_tables || extractResultTables(message.tool_name, message.tool_result, message.tool_arguments)
+    );
+
+    // Without a format, list the tables so the client can offer one CSV per table
+    if (!format) {
+      return NextResponse.json({
+        tables: tables.map((table, index) => ({ index, name: table.name, columns: table.columns, rowCount: table.rows.length }))
+      });
+    }
+
+    if (tables.length === 0) {
+      return NextResponse.json({ error: 'This answer has no tabular data to export' }, { status: 404 });
+    }
+
+    if (format === 'xlsx') {
+      const workbook = await tablesToXlsx(tables);
+      return new NextResponse(new Uint8Array(workbook), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${exportFileName(tables.length === 1 ? tables[0].name : 'answer-data', 'xlsx')}"`
+        }
+      });
+    }
+
+    // CSV holds one table; `table` picks which when the answer has several
+    const index = Number(searchParams.get('table') || 0);
+    const table = tables[index];
+    if (!table) {
+      return NextResponse.json({ error: `Table ${index} not found; this answer has ${tables.length}` }, { status: 404 });
+    }
+
+    return new NextResponse(tableToCsv(table), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFileName(table.name, 'csv')}"`
+      }
+    });
+  } catch (error: any) {
+    console.error('Error exporting answer data:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to export data' },
+      { status: 500 }
+    );
+  }
+}
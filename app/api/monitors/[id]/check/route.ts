@@ -0,0 +1,52 @@
+// Check Monitor API - Checks a metric monitor immediately, outside its schedule
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { loadMonitor } from '@/lib/monitors/monitors';
+import { checkMonitor } from '@/lib/monitors/runner';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const monitor = await loadMonitor(supabase, user.id, params.id);
+    if (!monitor) {
+      return NextResponse.json({ error: 'Monitor not found' }, { status: 404 });
+    }
+
+    // The check's own status says whether it worked or triggered
+    const check = await checkMonitor(supabase, monitor);
+    const updated = await loadMonitor(supabase, user.id, monitor.id);
+
+    return NextResponse.json({ check, monitor: updated });
+  } catch (error: any) {
+    console.error('Error checking metric monitor:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to check monitor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// Monitor Observations API - The stored daily series behind a metric monitor
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const MAX_DAYS = 365;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    // Latest days first so the limit keeps the recent end, then oldest first for charting
+    const { data, error } = await supabase
+      .from('monitor_observations')
+      .select('observed_date, value')
+      .eq('monitor_id', params.id)
+      .eq('user_id', user.id)
+      .order('observed_date', { ascending: false })
+      .limit(MAX_DAYS);
+
+    if (error) {
+      throw new Error(`Failed to load observations: ${error.message}`);
+    }
+
+    return NextResponse.json({ observations: (data || []).reverse() });
+  } catch (error: any) {
+    console.error('Error listing monitor observations:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list observations' },
+      { status: 500 }
+    );
+  }
+}
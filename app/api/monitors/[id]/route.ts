@@ -0,0 +1,135 @@
+// Metric Monitor API - Edit, pause or delete one of a user's monitors
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { loadMonitor, parseMonitorInput, validateMonitorInput, isMonitorConnectionValid } from '@/lib/monitors/monitors';
+import { getNextRunAt } from '@/lib/reports/reports';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const changes = await request.json();
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const monitor = await loadMonitor(supabase, user.id, params.id);
+    if (!monitor) {
+      return NextResponse.json({ error: 'Monitor not found' }, { status: 404 });
+    }
+
+    // Partial updates (e.g. just `enabled`) are validated as the whole monitor
+    const input = parseMonitorInput({ ...monitor, ...changes });
+    const validationError = validateMonitorInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!(await isMonitorConnectionValid(user.id, input))) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    // A changed series starts its alert history over
+    const seriesChanged = input.connection_id !== monitor.connection_id
+      || input.resource !== monitor.resource
+      || input.metric !== monitor.metric;
+
+    const { data, error } = await supabase
+      .from('metric_monitors')
+      .update({
+        ...input,
+        next_run_at: input.enabled ? getNextRunAt(input.cron, input.timezone).toISOString() : null,
+        ...(seriesChanged && { last_value: null, last_status: null, last_error: null, last_alerted_date: null }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', monitor.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to update monitor: ${error?.message}`);
+    }
+
+    if (seriesChanged) {
+      await supabase.from('monitor_observations').delete().eq('monitor_id', monitor.id);
+    }
+
+    return NextResponse.json({ monitor: data });
+  } catch (error: any) {
+    console.error('Error updating metric monitor:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update monitor' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    // Observations go with the monitor; its notifications and conversations stay
+    const { data, error } = await supabase
+      .from('metric_monitors')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Monitor not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting metric monitor:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete monitor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+// Metric Monitors API - List and create a user's metric monitors
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { parseMonitorInput, validateMonitorInput, isMonitorConnectionValid } from '@/lib/monitors/monitors';
+import { MONITOR_SOURCES } from '@/lib/monitors/sources';
+import { getNextRunAt } from '@/lib/reports/reports';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('metric_monitors')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load monitors: ${error.message}`);
+    }
+
+    // The metrics each server supports, for the monitor form
+    const sources = Object.entries(MONITOR_SOURCES).map(([serverName, source]) => ({
+      server_name: serverName,
+      label: source.label,
+      resource_label: source.resourceLabel,
+      lag_days: source.lagDays,
+      metrics: source.metrics
+    }));
+
+    return NextResponse.json({ monitors: data || [], sources });
+  } catch (error: any) {
+    console.error('Error listing metric monitors:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list monitors' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseMonitorInput(await request.json());
+
+    const validationError = validateMonitorInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    if (!(await isMonitorConnectionValid(user.id, input))) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const { data, error } = await supabase
+      .from('metric_monitors')
+      .insert({
+        user_id: user.id,
+        ...input,
+        next_run_at: input.enabled ? getNextRunAt(input.cron, input.timezone).toISOString() : null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save monitor: ${error.message}`);
+    }
+
+    return NextResponse.json({ monitor: data });
+  } catch (error: any) {
+    console.error('Error creating metric monitor:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create monitor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+// Notifications API - A user's in-app alerts and marking them read
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const PAGE_SIZE = 50;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load notifications: ${error.message}`);
+    }
+
+    const { count } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    return NextResponse.json({ notifications: data || [], unread: count || 0 });
+  } catch (error: any) {
+    console.error('Error listing notifications:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Mark notifications read: `{ ids: [...] }` or `{ all: true }`
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const ids: string[] = Array.isArray(body?.ids) ? body.ids.filter((id: any) => typeof id === 'string') : [];
+
+    if (body?.all !== true && ids.length === 0) {
+      return NextResponse.json({ error: 'ids or all is required' }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (body.all !== true) {
+      query = query.in('id', ids);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to update notifications: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error updating notifications:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
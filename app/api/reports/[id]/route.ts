@@ -0,0 +1,121 @@
+// Scheduled Report API - Edit, pause or delete one of a user's reports
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { loadReport, parseReportInput, validateReportInput, allowedReportRecipients, getNextRunAt } from '@/lib/reports/reports';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const changes = await request.json();
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const report = await loadReport(supabase, user.id, params.id);
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    // Partial updates (e.g. just `enabled`) are validated as the whole report
+    const input = parseReportInput({ ...report, ...changes });
+    const recipients = input.delivery_method === 'email' ? await allowedReportRecipients(supabase, user.id) : [];
+    const validationError = await validateReportInput(input, recipients);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('scheduled_reports')
+      .update({
+        ...input,
+        next_run_at: input.enabled ? getNextRunAt(input.cron, input.timezone).toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', report.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to update report: ${error?.message}`);
+    }
+
+    return NextResponse.json({ report: data });
+  } catch (error: any) {
+    console.error('Error updating scheduled report:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update report' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    // Run history goes with the report; the runs' conversations stay in the chat
+    const { data, error } = await supabase
+      .from('scheduled_reports')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting scheduled report:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete report' },
+      { status: 500 }
+    );
+  }
+}
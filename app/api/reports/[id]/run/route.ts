@@ -0,0 +1,63 @@
+// Run Report API - Runs a scheduled report immediately, outside its schedule
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { loadReport } from '@/lib/reports/reports';
+import { runReport } from '@/lib/reports/runner';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/usage/rate-limit';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const rateLimit = checkRateLimit('reportRun', user.id);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: `Too many report runs. Try again in ${rateLimit.retryAfterSeconds} seconds.`,
+          retryAfter: rateLimit.retryAfterSeconds
+        },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const report = await loadReport(supabase, user.id, params.id);
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    // Waits for the agent; the run's own status says whether it succeeded
+    const run = await runReport(supabase, report, 'manual');
+
+    return NextResponse.json({ run });
+  } catch (error: any) {
+    console.error('Error running scheduled report:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to run report' },
+      { status: 500 }
+    );
+  }
+}
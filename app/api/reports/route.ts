@@ -0,0 +1,104 @@
+// Scheduled Reports API - List and create a user's scheduled reports
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { parseReportInput, validateReportInput, allowedReportRecipients, getNextRunAt } from '@/lib/reports/reports';
+import { isEmailConfigured } from '@/lib/email';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('scheduled_reports')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load reports: ${error.message}`);
+    }
+
+    return NextResponse.json({ reports: data || [], emailConfigured: isEmailConfigured() });
+  } catch (error: any) {
+    console.error('Error listing scheduled reports:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list reports' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseReportInput(await request.json());
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const recipients = input.delivery_method === 'email' ? await allowedReportRecipients(supabase, user.id) : [];
+    const validationError = await validateReportInput(input, recipients);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('scheduled_reports')
+      .insert({
+        user_id: user.id,
+        ...input,
+        next_run_at: input.enabled ? getNextRunAt(input.cron, input.timezone).toISOString() : null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save report: ${error.message}`);
+    }
+
+    return NextResponse.json({ report: data });
+  } catch (error: any) {
+    console.error('Error creating scheduled report:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create report' },
+      { status: 500 }
+    );
+  }
+}
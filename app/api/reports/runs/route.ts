@@ -0,0 +1,65 @@
+// Report Runs API - History of a user's scheduled report runs
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const MAX_RUNS = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const reportId = searchParams.get('reportId');
+
+    let query = supabase
+      .from('report_runs')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('started_at', { ascending: false })
+      .limit(MAX_RUNS);
+
+    if (reportId) {
+      query = query.eq('report_id', reportId);
+    }
+
+    // Failed runs, or runs whose delivery failed
+    if (searchParams.get('failures') === 'true') {
+      query = query.or('status.eq.failed,delivery_status.eq.failed');
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load report runs: ${error.message}`);
+    }
+
+    return NextResponse.json({ runs: data || [] });
+  } catch (error: any) {
+    console.error('Error listing report runs:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list report runs' },
+      { status: 500 }
+    );
+  }
+}
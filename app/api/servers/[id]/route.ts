@@ -0,0 +1,116 @@
+// Custom MCP Server API - Enable, disable or remove one of a user's servers
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { mcpConnectionPool } from '@/lib/mcp/connection-pool';
+import { customServerId, toPublicCustomServer, CustomMCPServer } from '@/lib/mcp/custom-servers';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { enabled } = await request.json();
+
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be a boolean' }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('custom_mcp_servers')
+      .update({ enabled, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+    }
+
+    const server = data as CustomMCPServer;
+    if (!enabled) {
+      await mcpConnectionPool.closeConnection(user.id, customServerId(server.id));
+    }
+
+    return NextResponse.json({ server: toPublicCustomServer(server) });
+  } catch (error: any) {
+    console.error('Error updating custom server:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update server' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('custom_mcp_servers')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+    }
+
+    // Close any pooled connection so the server process stops
+    await mcpConnectionPool.closeConnection(user.id, customServerId((data as CustomMCPServer).id));
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting custom server:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete server' },
+      { status: 500 }
+    );
+  }
+}
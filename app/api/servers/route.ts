@@ -0,0 +1,113 @@
+// Custom MCP Servers API - List and register a user's own MCP servers
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import {
+  loadCustomServers,
+  parseCustomServerInput,
+  validateCustomServerInput,
+  toPublicCustomServer,
+  getStdioAllowlist,
+  encryptApiKey,
+  CustomMCPServer
+} from '@/lib/mcp/custom-servers';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const servers = await loadCustomServers(supabase, user.id, true);
+
+    return NextResponse.json({
+      servers: servers.map(toPublicCustomServer),
+      stdioAllowlist: getStdioAllowlist()
+    });
+  } catch (error: any) {
+    console.error('Error listing custom servers:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list servers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseCustomServerInput(await request.json());
+
+    const validationError = await validateCustomServerInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    // The id is chosen here so the encrypted API key can be bound to the row
+    const { api_key, ...fields } = input;
+    const id = randomUUID();
+
+    const { data, error } = await supabase
+      .from('custom_mcp_servers')
+      .insert({ id, user_id: user.id, ...fields, ...encryptApiKey(user.id, id, api_key) })
+      .select()
+      .single();
+
+    if (error) {
+      // Unique (user_id, tool_prefix) violation
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `Tool prefix "${input.tool_prefix}" is already in use` },
+          { status: 409 }
+        );
+      }
+      throw new Error(`Failed to save server: ${error.message}`);
+    }
+
+    return NextResponse.json({ server: toPublicCustomServer(data as CustomMCPServer) });
+  } catch (error: any) {
+    console.error('Error registering custom server:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to register server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+// Custom MCP Server Test API - Connects to an unsaved server and lists its tools
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  parseCustomServerInput,
+  validateCustomServerInput,
+  testCustomServer
+} from '@/lib/mcp/custom-servers';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseCustomServerInput(await request.json());
+
+    const validationError = await validateCustomServerInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    try {
+      const tools = await testCustomServer(input);
+
+      return NextResponse.json({
+        success: true,
+        tools: tools.map(tool => ({
+          name: `${input.tool_prefix}_${tool.name}`,
+          description: tool.description
+        }))
+      });
+    } catch (error: any) {
+      // A failed connection is a normal test outcome, not a server error
+      return NextResponse.json({
+        success: false,
+        error: error.message || 'Connection failed'
+      });
+    }
+  } catch (error: any) {
+    console.error('Error testing custom server:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to test server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+// Share API - Public, read-only access to a shared conversation snapshot
+//
+// No session: the token in the URL is the credential. GET returns the snapshot
+// for links without a password; password-protected links are opened with POST.
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { loadSharedLink, recordSharedLinkView, verifySharePassword, MAX_SHARE_PASSWORD_LENGTH } from '@/lib/sharing/shared-links';
+import { checkRateLimit, rateLimitHeaders, clientAddress } from '@/lib/usage/rate-limit';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// Snapshots never change, but a revoked or expired link must stop working
+const NO_STORE = { 'Cache-Control': 'no-store', 'X-Robots-Tag': 'noindex' };
+
+function supabaseClient() {
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+}
+
+async function openLink(token: string, password: string | null, request: NextRequest) {
+  const supabase = supabaseClient();
+  const link = await loadSharedLink(supabase, token);
+
+  if (!link) {
+    return NextResponse.json({ error: 'This link does not exist or was revoked' }, { status: 404, headers: NO_STORE });
+  }
+  if (link.expired) {
+    return NextResponse.json({ error: 'This link has expired' }, { status: 410, headers: NO_STORE });
+  }
+
+  if (link.passwordHash) {
+    if (password === null) {
+      return NextResponse.json(
+        { error: 'This link is password protected', requiresPassword: true, title: link.title },
+        { status: 401, headers: NO_STORE }
+      );
+    }
+
+    // Guess attempts are limited per client address
+    const rateLimit = checkRateLimit('share', clientAddress(request));
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: `Too many attempts. Try again in ${rateLimit.retryAfterSeconds}s.`, requiresPassword: true, title: link.title },
+        { status: 429, headers: { ...NO_STORE, ...rateLimitHeaders(rateLimit) } }
+      );
+    }
+
+    if (!(await verifySharePassword(password, link.passwordHash))) {
+      return NextResponse.json(
+        { error: 'Incorrect password', requiresPassword: true, title: link.title },
+        { status: 401, headers: NO_STORE }
+      );
+    }
+  }
+
+  await recordSharedLinkView(supabase, link.id);
+
+  return NextResponse.json({ snapshot: link.snapshot }, { headers: NO_STORE });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    return await openLink(params.token, null, request);
+  } catch (error: any) {
+    console.error('Error opening shared link:', error);
+    return NextResponse.json(
+      { error: 'Failed to open shared link' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { password } = await request.json();
+
+    if (typeof password !== 'string' || password.length > MAX_SHARE_PASSWORD_LENGTH) {
+      return NextResponse.json({ error: 'Password is required' }, { status: 400 });
+    }
+
+    return await openLink(params.token, password, request);
+  } catch (error: any) {
+    console.error('Error opening shared link:', error);
+    return NextResponse.json(
+      { error: 'Failed to open shared link' },
+      { status: 500 }
+    );
+  }
+}
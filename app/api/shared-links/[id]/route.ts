@@ -0,0 +1,55 @@
+// Shared Link API - Revoke one of a user's shared links
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('shared_links')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to revoke shared link: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Shared link not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error revoking shared link:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to revoke shared link' },
+      { status: 500 }
+    );
+  }
+}
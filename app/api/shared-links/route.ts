@@ -0,0 +1,106 @@
+// Shared Links API - List a user's shared links, or share a conversation or answer
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createSharedLink, listSharedLinks, MAX_SHARE_PASSWORD_LENGTH } from '@/lib/sharing/shared-links';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const MAX_EXPIRY_DAYS = 365;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const links = await listSharedLinks(supabase, user.id);
+
+    return NextResponse.json({ links });
+  } catch (error: any) {
+    console.error('Error listing shared links:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list shared links' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { conversationId, messageId, expiresInDays, password } = await request.json();
+
+    if (typeof conversationId !== 'string' || !conversationId) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 });
+    }
+    if (messageId !== undefined && messageId !== null && typeof messageId !== 'string') {
+      return NextResponse.json({ error: 'messageId must be a string' }, { status: 400 });
+    }
+    if (expiresInDays !== undefined && expiresInDays !== null
+      && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+      return NextResponse.json({ error: `expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}` }, { status: 400 });
+    }
+    if (password !== undefined && password !== null
+      && (typeof password !== 'string' || password.length > MAX_SHARE_PASSWORD_LENGTH)) {
+      return NextResponse.json({ error: `password must be at most ${MAX_SHARE_PASSWORD_LENGTH} characters` }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const link = await createSharedLink(supabase, user.id, {
+      conversationId,
+      messageId,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      password
+    });
+
+    if (!link) {
+      return NextResponse.json(
+        { error: messageId ? 'Answer not found' : 'Conversation not found, or it has no answers yet' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating shared link:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create shared link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,171 @@
+// Tool Catalog API - Lists tools per connected server and saves per-user toggles and approval overrides
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { mcpConnectionPool } from '@/lib/mcp/connection-pool';
+import { CredentialManager } from '@/lib/mcp/credential-manager';
+import { loadAvailableServers } from '@/lib/mcp/custom-servers';
+import {
+  loadToolSettings,
+  saveToolSetting,
+  isToolAllowedByPolicy,
+  isToolEnabled,
+  isSideEffectingTool,
+  toolRequiresApproval,
+  ToolSetting
+} from '@/lib/mcp/tool-settings';
+import { MCPTool } from '@/lib/mcp/types';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+interface CatalogTool {
+  name: string;
+  prefixedName: string;
+  description: string;
+  inputSchema: any;
+  enabled: boolean;
+  blockedByPolicy: boolean;
+  sideEffecting: boolean;         // From the server's annotations
+  requiresApproval: boolean;
+  approvalOverride: boolean | null;
+}
+
+interface CatalogServer {
+  id: string;
+  name: string;
+  shortName: string;
+  connected: boolean;
+  error?: string;
+  tools: CatalogTool[];
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const userId = user.id;
+    const availableServers = await loadAvailableServers(supabase, userId);
+    const toolSettings = await loadToolSettings(supabase, userId);
+
+    const servers: CatalogServer[] = await Promise.all(
+      availableServers.map(async (manifest) => {
+        const server: CatalogServer = {
+          id: manifest.id,
+          name: manifest.displayName,
+          shortName: manifest.shortName,
+          connected: false,
+          tools: []
+        };
+
+        try {
+          if (manifest.oauth && !(await CredentialManager.getCredentials(userId, manifest.id))) {
+            return server;
+          }
+
+          const client = await mcpConnectionPool.getConnection(userId, manifest.id, manifest);
+          const tools: MCPTool[] = await client.listTools();
+
+          server.connected = true;
+          server.tools = tools.map(tool => {
+            const prefixedName = `${manifest.toolPrefix}_${tool.name}`;
+            return {
+              name: tool.name,
+              prefixedName,
+              description: tool.description,
+              inputSchema: tool.inputSchema,
+              enabled: isToolEnabled(toolSettings, manifest.id, tool.name, prefixedName),
+              blockedByPolicy: !isToolAllowedByPolicy(prefixedName),
+              sideEffecting: isSideEffectingTool(tool),
+              requiresApproval: toolRequiresApproval(toolSettings, manifest, tool),
+              approvalOverride: toolSettings.get(`${manifest.id}:${tool.name}`)?.requires_approval ?? null
+            };
+          });
+        } catch (error: any) {
+          console.error(`Error listing ${manifest.shortName} tools:`, error.message);
+          server.error = error.message || 'Failed to list tools';
+        }
+
+        return server;
+      })
+    );
+
+    return NextResponse.json({ servers });
+  } catch (error: any) {
+    console.error('Error loading tool catalog:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load tools' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { server, tool, enabled, requiresApproval } = await request.json();
+
+    // `requiresApproval: null` clears the override and falls back to the tool's annotations
+    const changes: Partial<ToolSetting> = {};
+    if (typeof enabled === 'boolean') changes.enabled = enabled;
+    if (typeof requiresApproval === 'boolean' || requiresApproval === null) changes.requires_approval = requiresApproval;
+
+    if (!server || !tool || Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: 'server, tool and enabled or requiresApproval are required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const availableServers = await loadAvailableServers(supabase, user.id);
+    if (!availableServers.some(manifest => manifest.id === server)) {
+      return NextResponse.json({ error: 'Unknown server' }, { status: 404 });
+    }
+
+    await saveToolSetting(supabase, user.id, server, tool, changes);
+
+    return NextResponse.json({ success: true, server, tool, ...changes });
+  } catch (error: any) {
+    console.error('Error saving tool setting:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save tool setting' },
+      { status: 500 }
+    );
+  }
+}
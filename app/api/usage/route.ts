@@ -0,0 +1,85 @@
+// Usage API - A user's quota status and consumption over time
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { loadUsageRecords, dailyUsage } from '@/lib/usage/usage';
+import { checkQuota } from '@/lib/usage/quotas';
+import { RATE_LIMITS } from '@/lib/usage/rate-limit';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+const RECENT_REQUESTS = 20;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const requestedDays = Number(request.nextUrl.searchParams.get('days')) || DEFAULT_DAYS;
+    const days = Math.min(Math.max(Math.floor(requestedDays), 1), MAX_DAYS);
+
+    const now = new Date();
+    const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - days + 1));
+
+    const [quota, records] = await Promise.all([
+      checkQuota(supabase, user.id, now),
+      loadUsageRecords(supabase, user.id, since)
+    ]);
+
+    // Breakdowns over the selected range
+    const models: Record<string, { model: string; requests: number; tokens: number }> = {};
+    const services: Record<string, number> = {};
+    for (const record of records) {
+      const model = models[record.model] || (models[record.model] = { model: record.model, requests: 0, tokens: 0 });
+      model.requests++;
+      model.tokens += record.prompt_tokens + record.completion_tokens;
+
+      for (const [service, calls] of Object.entries(record.tool_calls_by_service || {})) {
+        services[service] = (services[service] || 0) + calls;
+      }
+    }
+
+    return NextResponse.json({
+      plan: quota.plan,
+      limits: quota.limits,
+      usage: quota.usage,
+      resetsAt: quota.resetsAt,
+      exceeded: quota.exceeded,
+      rateLimits: {
+        chat: { limit: RATE_LIMITS.chat.limit, windowSeconds: RATE_LIMITS.chat.windowMs / 1000 },
+        oauth: { limit: RATE_LIMITS.oauth.limit, windowSeconds: RATE_LIMITS.oauth.windowMs / 1000 }
+      },
+      daily: dailyUsage(records, since, now),
+      models: Object.values(models).sort((a, b) => b.tokens - a.tokens),
+      services: Object.entries(services)
+        .map(([service, calls]) => ({ service, calls }))
+        .sort((a, b) => b.calls - a.calls),
+      recent: records.slice(-RECENT_REQUESTS).reverse()
+    });
+  } catch (error: any) {
+    console.error('Error loading usage:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+// Workspace Invitation API - Revoke a pending invitation (admins only)
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getWorkspaceRole } from '@/lib/workspaces/workspaces';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; invitationId: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const role = await getWorkspaceRole(supabase, params.id, user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+    if (role !== 'admin') {
+      return NextResponse.json({ error: 'Only workspace admins can revoke invitations' }, { status: 403 });
+    }
+
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('id', params.invitationId)
+      .eq('workspace_id', params.id)
+      .is('accepted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to revoke invitation: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error revoking invitation:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+// Workspace Invitations API - Invite someone to a workspace by email (admins only)
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getWorkspaceRole, inviteToWorkspace, invitationUrl, isWorkspaceRole, normalizeEmail } from '@/lib/workspaces/workspaces';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { email, role } = await request.json();
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 });
+    }
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: 'Role must be viewer, analyst or admin' }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const callerRole = await getWorkspaceRole(supabase, params.id, user.id);
+    if (!callerRole) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+    if (callerRole !== 'admin') {
+      return NextResponse.json({ error: 'Only workspace admins can invite members' }, { status: 403 });
+    }
+
+    const { data: existing } = await supabase
+      .from('workspace_members')
+      .select('user_id')
+      .eq('workspace_id', params.id)
+      .eq('email', normalizeEmail(email))
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json({ error: `${email.trim()} is already a member` }, { status: 409 });
+    }
+
+    const { data: workspace } = await supabase
+      .from('workspaces')
+      .select('id, name')
+      .eq('id', params.id)
+      .single();
+
+    const { invitation, emailed } = await inviteToWorkspace(supabase, workspace!, user, email, role);
+
+    return NextResponse.json({ invitation, emailed, url: invitationUrl(invitation) }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error inviting workspace member:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to invite member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+// Workspace Member API - Change a member's role, remove a member, or leave a workspace
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getWorkspaceRole, isLastAdmin, isWorkspaceRole } from '@/lib/workspaces/workspaces';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const { role } = await request.json();
+
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: 'Role must be viewer, analyst or admin' }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const callerRole = await getWorkspaceRole(supabase, params.id, user.id);
+    if (!callerRole) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+    if (callerRole !== 'admin') {
+      return NextResponse.json({ error: 'Only workspace admins can change roles' }, { status: 403 });
+    }
+
+    if (role !== 'admin' && await isLastAdmin(supabase, params.id, params.userId)) {
+      return NextResponse.json({ error: 'A workspace needs at least one admin' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', params.id)
+      .eq('user_id', params.userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update member: ${error.message}`);
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ member: data });
+  } catch (error: any) {
+    console.error('Error updating workspace member:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update member' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const callerRole = await getWorkspaceRole(supabase, params.id, user.id);
+    if (!callerRole) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+    // Any member may leave; only admins remove others
+    if (callerRole !== 'admin' && params.userId !== user.id) {
+      return NextResponse.json({ error: 'Only workspace admins can remove members' }, { status: 403 });
+    }
+
+    if (await isLastAdmin(supabase, params.id, params.userId)) {
+      return NextResponse.json(
+        { error: 'A workspace needs at least one admin; promote another member or delete the workspace' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', params.id)
+      .eq('user_id', params.userId);
+
+    if (error) {
+      throw new Error(`Failed to remove member: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing workspace member:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+// Workspace API - Rename or delete a workspace (admins only)
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getWorkspaceRole } from '@/lib/workspaces/workspaces';
+import { mcpConnectionPool } from '@/lib/mcp/connection-pool';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const MAX_NAME_LENGTH = 100;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json({ error: `Name is required (at most ${MAX_NAME_LENGTH} characters)` }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const role = await getWorkspaceRole(supabase, params.id, user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+    if (role !== 'admin') {
+      return NextResponse.json({ error: 'Only workspace admins can rename the workspace' }, { status: 403 });
+    }
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to update workspace: ${error?.message}`);
+    }
+
+    return NextResponse.json({ workspace: { ...data, role } });
+  } catch (error: any) {
+    console.error('Error updating workspace:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const role = await getWorkspaceRole(supabase, params.id, user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+    if (role !== 'admin') {
+      return NextResponse.json({ error: 'Only workspace admins can delete the workspace' }, { status: 403 });
+    }
+
+    // Shared connections go with the workspace (ON DELETE CASCADE); close their pooled clients first
+    const { data: connections } = await supabase
+      .from('mcp_connections')
+      .select('id, server_name')
+      .eq('workspace_id', params.id);
+
+    for (const connection of connections || []) {
+      await mcpConnectionPool.closeConnection(params.id, connection.server_name, connection.id);
+    }
+
+    const { error } = await supabase
+      .from('workspaces')
+      .delete()
+      .eq('id', params.id);
+
+    if (error) {
+      throw new Error(`Failed to delete workspace: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting workspace:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// Workspaces API - List the user's workspaces and invitations, or create a workspace
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { listMemberships, listInvitationsForEmail, confirmedEmail, createWorkspace, WORKSPACE_ROLES } from '@/lib/workspaces/workspaces';
+import { isEmailConfigured } from '@/lib/email';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+const MAX_NAME_LENGTH = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const memberships = await listMemberships(supabase, user.id);
+    const workspaceIds = memberships.map(membership => membership.workspace_id);
+    const adminIds = memberships.filter(membership => membership.role === 'admin').map(membership => membership.workspace_id);
+
+    const [members, invitations, pending] = await Promise.all([
+      workspaceIds.length > 0
+        ? supabase
+            .from('workspace_members')
+            .select('workspace_id, user_id, email, role, created_at')
+            .in('workspace_id', workspaceIds)
+            .order('created_at', { ascending: true })
+        : { data: [], error: null },
+      // Only admins see who has been invited
+      adminIds.length > 0
+        ? supabase
+            .from('workspace_invitations')
+            .select('*')
+            .in('workspace_id', adminIds)
+            .is('accepted_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false })
+        : { data: [], error: null },
+      listInvitationsForEmail(supabase, confirmedEmail(user))
+    ]);
+
+    if (members.error || invitations.error) {
+      throw new Error(`Failed to load workspaces: ${(members.error || invitations.error)!.message}`);
+    }
+
+    const workspaces = memberships.map(membership => ({
+      id: membership.workspace_id,
+      name: membership.workspace_name,
+      role: membership.role,
+      members: (members.data || []).filter((member: any) => member.workspace_id === membership.workspace_id),
+      invitations: (invitations.data || []).filter((invitation: any) => invitation.workspace_id === membership.workspace_id)
+    }));
+
+    return NextResponse.json({
+      workspaces,
+      invitations: pending,
+      roles: WORKSPACE_ROLES,
+      emailConfigured: isEmailConfigured()
+    });
+  } catch (error: any) {
+    console.error('Error listing workspaces:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to list workspaces' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json({ error: `Name is required (at most ${MAX_NAME_LENGTH} characters)` }, { status: 400 });
+    }
+
+    // Verify user authentication from session token
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const workspace = await createWorkspace(supabase, user, name);
+
+    return NextResponse.json({ workspace: { ...workspace, role: 'admin' } }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating workspace:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create workspace' },
+      { status: 500 }
+    );
+  }
+}
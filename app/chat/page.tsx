@@ -2,30 +2,111 @@
 
 import { useEffect, useState, useRef } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import { supabase } from '@/lib/supabase'
 import Toast, { ToastType } from '@/components/Toast'
 import ConfirmModal from '@/components/ConfirmModal'
-import ReactMarkdown from 'react-markdown'
+import ConversationSidebar, { Conversation } from '@/components/ConversationSidebar'
+import { readEventStream } from '@/lib/chat/sse'
+import ToolCallDetails from '@/components/ToolCallDetails'
+import ResourcePicker from '@/components/ResourcePicker'
+import MessageMarkdown from '@/components/MessageMarkdown'
+import ExportMenu, { ExportOption } from '@/components/ExportMenu'
+import ShareDialog, { ShareTarget } from '@/components/ShareDialog'
+import NotificationBell from '@/components/NotificationBell'
+import type { ChatStreamEvent } from '@/lib/chat/agent'
+import { MESSAGE_COLUMNS, StoredMessage } from '@/lib/chat/messages'
+
+type Message = StoredMessage
+
+interface LLMProviderOption {
+  id: string
+  name: string
+  defaultModel: string
+}
+
+interface LinkedAccount {
+  id: string
+  email: string | null
+  defaultResource: string | null
+  workspace?: { id: string; name: string | null; role: string | null } | null
+  connected: boolean
+  needsReauth?: boolean
+  error?: string
+}
+
+interface ServerStatus {
+  key: string
+  id: string
+  name: string
+  shortName: string
+  description: string
+  connected: boolean
+  custom: boolean
+  needsReauth?: boolean
+  error?: string
+  resource?: { label: string; placeholder: string }
+  accounts: LinkedAccount[]
+}
+
+// Cycled per server so each connection gets its own colour in the menu
+const SERVER_GRADIENTS = [
+  'from-blue-500 to-indigo-600',
+  'from-green-500 to-emerald-600',
+  'from-orange-500 to-amber-600',
+  'from-pink-500 to-rose-600',
+  'from-cyan-500 to-sky-600'
+]
+
+const CONNECTION_STATUS_KEY = 'connection_status'
+
+function loadCachedServers(): ServerStatus[] {
+  try {
+    const cached: ServerStatus[] = JSON.parse(localStorage.getItem(CONNECTION_STATUS_KEY) || '[]')
+    return cached.map(server => ({ ...server, accounts: server.accounts || [] }))
+  } catch {
+    return []
+  }
+}
 
-interface Message {
+/**
+ * Accounts a conversation uses for one server: its selection, otherwise the first linked account
+ */
+function effectiveAccounts(server: ServerStatus, selectedIds: string[] | null): string[] {
+  const selected = server.accounts.filter(a => selectedIds?.includes(a.id)).map(a => a.id)
+  return selected.length > 0 ? selected : server.accounts.slice(0, 1).map(a => a.id)
+}
+
+interface ToolActivity {
   id: string
-  role: 'user' | 'assistant'
-  content: string
-  created_at: string
+  name: string
+  status: 'running' | 'awaiting' | 'done' | 'error'
+  detail?: string
 }
 
+type ApprovalEvent = Extract<ChatStreamEvent, { type: 'approval_required' }>
+
 export default function Chat() {
   const [messages, setMessages] = useState<Message[]>([])
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  const [llmProviders, setLlmProviders] = useState<LLMProviderOption[]>([])
+  const [newConversationProvider, setNewConversationProvider] = useState('')
+  const [newConversationAccounts, setNewConversationAccounts] = useState<string[] | null>(null)
+  const [newConversationResources, setNewConversationResources] = useState<Record<string, string> | null>(null)
   const [input, setInput] = useState('')
+  const [freshData, setFreshData] = useState(false)
   const [loading, setLoading] = useState(false)
+  const [streamingContent, setStreamingContent] = useState('')
+  const [toolActivity, setToolActivity] = useState<ToolActivity[]>([])
+  const [pendingApprovals, setPendingApprovals] = useState<ApprovalEvent[]>([])
   const [userId, setUserId] = useState<string | null>(null)
-  const [ga4Connected, setGa4Connected] = useState(false)
-  const [gscConnected, setGscConnected] = useState(false)
-  const [connectingGA4, setConnectingGA4] = useState(false)
-  const [connectingGSC, setConnectingGSC] = useState(false)
+  const [servers, setServers] = useState<ServerStatus[]>([])
+  const [connectingServer, setConnectingServer] = useState<string | null>(null)
   const [checkingConnections, setCheckingConnections] = useState(false)
   const [showConnectionsMenu, setShowConnectionsMenu] = useState(false)
   const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null)
   const [confirmModal, setConfirmModal] = useState<{
     isOpen: boolean
     title: string
@@ -53,90 +134,106 @@ export default function Chat() {
         router.push('/login')
       } else {
         setUserId(session.user.id)
-        loadMessages(session.user.id)
+        loadConversations(session.user.id)
       }
     }
     checkUser()
   }, [router])
 
-  // Check connection status once per session
+  // Load the LLM providers configured for this deployment
   useEffect(() => {
-    if (!userId) return
-
-    const checkConnectionStatus = async () => {
-      // Check if we've already verified connections this session
-      const sessionKey = `connections_checked_${userId}`
-      const alreadyChecked = sessionStorage.getItem(sessionKey)
+    const loadProviders = async () => {
+      try {
+        const response = await fetch('/api/llm/providers')
+        if (!response.ok) return
 
-      if (alreadyChecked) {
-        // Already checked this session, use localStorage for immediate feedback
-        const ga4IsConnected = localStorage.getItem('ga4_connected') === 'true'
-        const gscIsConnected = localStorage.getItem('gsc_connected') === 'true'
-        setGa4Connected(ga4IsConnected)
-        setGscConnected(gscIsConnected)
-        return
+        const data = await response.json()
+        setLlmProviders(data.providers || [])
+      } catch (error) {
+        console.error('Error loading LLM providers:', error)
       }
+    }
+    loadProviders()
+  }, [])
+
+  // Keep connection status in state, mirrored to localStorage for the next page load
+  const updateServers = (update: (prev: ServerStatus[]) => ServerStatus[]) => {
+    setServers(prev => {
+      const next = update(prev)
+      localStorage.setItem(CONNECTION_STATUS_KEY, JSON.stringify(next))
+      return next
+    })
+  }
 
-      // First time this session - verify with backend
-      setCheckingConnections(true)
-
-      try {
-        const { data: { session } } = await supabase.auth.getSession()
-        if (!session) {
-          throw new Error('Session expired')
-        }
+  // Verify connections with the backend, and sync with localStorage
+  const refreshConnectionStatus = async (): Promise<boolean> => {
+    setCheckingConnections(true)
 
-        const response = await fetch('/api/connections/status', {
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`
-          }
-        })
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('Session expired')
+      }
 
-        if (!response.ok) {
-          throw new Error('Failed to check connection status')
+      const response = await fetch('/api/connections/status', {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`
         }
+      })
 
-        const data = await response.json()
+      if (!response.ok) {
+        throw new Error('Failed to check connection status')
+      }
 
-        // Update state based on actual backend status
-        const ga4IsConnected = data.ga4?.connected || false
-        const gscIsConnected = data.gsc?.connected || false
+      const data = await response.json()
 
-        setGa4Connected(ga4IsConnected)
-        setGscConnected(gscIsConnected)
+      // Update state based on actual backend status, and sync with localStorage
+      updateServers(() => data.servers || [])
 
-        // Sync with localStorage
-        if (ga4IsConnected) {
-          localStorage.setItem('ga4_connected', 'true')
-        } else {
-          localStorage.removeItem('ga4_connected')
+      // Show any errors
+      for (const server of (data.servers || []) as ServerStatus[]) {
+        if (server.error && !server.connected) {
+          console.warn(`${server.shortName} connection issue:`, server.error)
         }
+      }
 
-        if (gscIsConnected) {
-          localStorage.setItem('gsc_connected', 'true')
-        } else {
-          localStorage.removeItem('gsc_connected')
-        }
+      // Revoked Google access needs the user to go through consent again
+      const expired = ((data.servers || []) as ServerStatus[]).filter(s => s.needsReauth)
+      if (expired.length > 0) {
+        setToast({
+          message: `${expired.map(s => s.name).join(' and ')} access expired. Open Connections to reconnect.`,
+          type: 'warning'
+        })
+      }
+      return true
+    } catch (error: any) {
+      console.error('Error checking connection status:', error)
+      // On error, fallback to localStorage values
+      setServers(loadCachedServers())
+      return false
+    } finally {
+      setCheckingConnections(false)
+    }
+  }
 
-        // Mark as checked for this session
-        sessionStorage.setItem(sessionKey, 'true')
+  // Check connection status once per session
+  useEffect(() => {
+    if (!userId) return
 
-        // Show any errors
-        if (data.ga4?.error && !ga4IsConnected) {
-          console.warn('GA4 connection issue:', data.ga4.error)
-        }
-        if (data.gsc?.error && !gscIsConnected) {
-          console.warn('GSC connection issue:', data.gsc.error)
-        }
-      } catch (error: any) {
-        console.error('Error checking connection status:', error)
-        // On error, fallback to localStorage values
-        const ga4IsConnected = localStorage.getItem('ga4_connected') === 'true'
-        const gscIsConnected = localStorage.getItem('gsc_connected') === 'true'
-        setGa4Connected(ga4IsConnected)
-        setGscConnected(gscIsConnected)
-      } finally {
-        setCheckingConnections(false)
+    const checkConnectionStatus = async () => {
+      // Check if we've already verified connections this session
+      const sessionKey = `connections_checked_${userId}`
+      const alreadyChecked = sessionStorage.getItem(sessionKey)
+
+      if (alreadyChecked) {
+        // Already checked this session, use localStorage for immediate feedback
+        setServers(loadCachedServers())
+        return
+      }
+
+      // First time this session - verify with backend, then mark as checked
+      if (await refreshConnectionStatus()) {
+        sessionStorage.setItem(sessionKey, 'true')
       }
     }
 
@@ -147,48 +244,35 @@ export default function Chat() {
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
       // Verify the message is from our OAuth callback
-      if (event.data.type === 'oauth_success') {
-        const { service } = event.data
-        
-        if (service === 'ga4' || service === 'both') {
-          setGa4Connected(true)
-          localStorage.setItem('ga4_connected', 'true')
-          setToast({
-            message: 'Successfully connected to Google Analytics 4!',
-            type: 'success'
-          })
-        }
-        
-        if (service === 'gsc' || service === 'both') {
-          setGscConnected(true)
-          localStorage.setItem('gsc_connected', 'true')
-          // If both services, show a combined message, otherwise show GSC message
-          if (service === 'both') {
-            setToast({
-              message: 'Successfully connected to Google Analytics 4 and Search Console!',
-              type: 'success'
-            })
-          } else {
-            setToast({
-              message: 'Successfully connected to Google Search Console!',
-              type: 'success'
-            })
-          }
-        }
-        
-        // Invalidate session cache so it re-checks on next page load
-        if (userId) {
-          sessionStorage.removeItem(`connections_checked_${userId}`)
-        }
+      if (event.origin !== window.location.origin) return
+
+      if (event.data.type === 'oauth_error') {
+        setToast({
+          message: `Connection failed: ${event.data.error}`,
+          type: 'error'
+        })
+        setConnectingServer(null)
+      } else if (event.data.type === 'oauth_success') {
+        const services: string[] = event.data.services || []
+        const connectedNames = servers.filter(s => services.includes(s.key)).map(s => s.name)
+
+        setToast({
+          message: event.data.account
+            ? `Linked ${event.data.account} to ${connectedNames.join(' and ') || 'Google'}!`
+            : `Successfully connected to ${connectedNames.join(' and ') || 'Google'}!`,
+          type: 'success'
+        })
+
+        // Reload linked accounts so the new one shows up with its id
+        refreshConnectionStatus()
         
-        setConnectingGA4(false)
-        setConnectingGSC(false)
+        setConnectingServer(null)
       }
     }
 
     window.addEventListener('message', handleMessage)
     return () => window.removeEventListener('message', handleMessage)
-  }, [userId])
+  }, [userId, servers])
 
 
   // Close connections menu when clicking outside
@@ -209,11 +293,30 @@ export default function Chat() {
     }
   }, [showConnectionsMenu])
 
-  const loadMessages = async (uid: string) => {
+  const loadConversations = async (uid: string, openId: string | null = searchParams.get('conversation')) => {
     const { data, error } = await supabase
-      .from('messages')
+      .from('conversations')
       .select('*')
       .eq('user_id', uid)
+      .order('updated_at', { ascending: false })
+
+    if (!error && data) {
+      setConversations(data)
+
+      // Open the linked conversation (?conversation=id), else the most recently active one
+      const linked = data.find((c: Conversation) => c.id === openId)
+      const latest = linked || data.find((c: Conversation) => !c.archived)
+      if (latest) {
+        selectConversation(latest.id)
+      }
+    }
+  }
+
+  const loadMessages = async (conversationId: string) => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('conversation_id', conversationId)
       .order('created_at', { ascending: true })
 
     if (!error && data) {
@@ -221,37 +324,312 @@ export default function Chat() {
     }
   }
 
+  const selectConversation = (conversationId: string) => {
+    setActiveConversationId(conversationId)
+    setMessages([])
+    loadMessages(conversationId)
+  }
+
+  // Alert conversations are created in the background, so reload the list if it's new
+  const openNotificationConversation = (conversationId: string) => {
+    if (conversations.some(c => c.id === conversationId)) {
+      selectConversation(conversationId)
+    } else if (userId) {
+      loadConversations(userId, conversationId)
+    }
+  }
+
+  const createConversation = async (): Promise<Conversation | null> => {
+    if (!userId) return null
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert({
+        user_id: userId,
+        connection_ids: newConversationAccounts,
+        resource_selections: newConversationResources
+      })
+      .select()
+      .single()
+
+    if (error) {
+      setToast({
+        message: 'Error creating conversation: ' + error.message,
+        type: 'error'
+      })
+      return null
+    }
+
+    setConversations(prev => [data, ...prev])
+    setActiveConversationId(data.id)
+    setMessages([])
+
+    if (newConversationProvider) {
+      await saveConversationProvider(data.id, newConversationProvider)
+    }
+    return data
+  }
+
+  // The provider and model are set through the API, which checks them against the deployment
+  const saveConversationProvider = async (conversationId: string, providerId: string) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('Session expired, please login again')
+      }
+
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ llm_provider: providerId || null, llm_model: null })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change provider')
+      }
+
+      setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, ...data.conversation } : c))
+    } catch (error: any) {
+      setToast({
+        message: 'Error updating conversation: ' + error.message,
+        type: 'error'
+      })
+    }
+  }
+
+  const updateConversation = async (conversationId: string, changes: Partial<Conversation>) => {
+    const { error } = await supabase
+      .from('conversations')
+      .update(changes)
+      .eq('id', conversationId)
+
+    if (error) {
+      setToast({
+        message: 'Error updating conversation: ' + error.message,
+        type: 'error'
+      })
+      return
+    }
+
+    setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, ...changes } : c))
+  }
+
+  const renameConversation = (conversationId: string, title: string) => {
+    updateConversation(conversationId, { title })
+  }
+
+  const changeProvider = (providerId: string) => {
+    if (activeConversationId) {
+      saveConversationProvider(activeConversationId, providerId)
+    } else {
+      setNewConversationProvider(providerId)
+    }
+  }
+
+  // Check or uncheck a linked account for the conversation; each server keeps at least one
+  const toggleAccount = (server: ServerStatus, accountId: string) => {
+    const current = effectiveAccounts(server, selectedAccounts)
+    const next = current.includes(accountId)
+      ? current.filter(id => id !== accountId)
+      : [...current, accountId]
+    if (next.length === 0) return
+
+    const serverAccountIds = server.accounts.map(a => a.id)
+    const ids = [...(selectedAccounts || []).filter(id => !serverAccountIds.includes(id)), ...next]
+
+    if (activeConversationId) {
+      updateConversation(activeConversationId, { connection_ids: ids })
+    } else {
+      setNewConversationAccounts(ids)
+    }
+  }
+
+  // Pick the property/site a linked account uses in this conversation (null = account default)
+  const selectResource = (accountId: string, resourceId: string | null) => {
+    const next = { ...(selectedResources || {}) }
+    if (resourceId) {
+      next[accountId] = resourceId
+    } else {
+      delete next[accountId]
+    }
+    const selections = Object.keys(next).length > 0 ? next : null
+
+    if (activeConversationId) {
+      updateConversation(activeConversationId, { resource_selections: selections })
+    } else {
+      setNewConversationResources(selections)
+    }
+  }
+
+  const archiveConversation = async (conversationId: string, archived: boolean) => {
+    await updateConversation(conversationId, { archived })
+
+    if (archived && conversationId === activeConversationId) {
+      setActiveConversationId(null)
+      setMessages([])
+    }
+  }
+
+  const deleteConversation = (conversationId: string) => {
+    setConfirmModal({
+      isOpen: true,
+      title: 'Delete Conversation?',
+      message: 'Are you sure you want to delete this conversation and all of its messages? This action cannot be undone.',
+      type: 'danger',
+      confirmText: 'Delete',
+      onConfirm: async () => {
+        try {
+          const { error } = await supabase
+            .from('conversations')
+            .delete()
+            .eq('id', conversationId)
+
+          if (error) {
+            throw new Error(error.message)
+          }
+
+          setConversations(prev => prev.filter(c => c.id !== conversationId))
+          if (conversationId === activeConversationId) {
+            setActiveConversationId(null)
+            setMessages([])
+          }
+        } catch (error: any) {
+          setToast({
+            message: 'Error deleting conversation: ' + error.message,
+            type: 'error'
+          })
+        } finally {
+          setConfirmModal(prev => ({ ...prev, isOpen: false }))
+        }
+      }
+    })
+  }
+
+  // Tool invocation records are rendered inside the answer they backed
+  const chatMessages = messages.filter(m => m.role !== 'tool')
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId)
+  const selectedProvider = activeConversation ? activeConversation.llm_provider || '' : newConversationProvider
+  const selectedAccounts = activeConversation ? activeConversation.connection_ids : newConversationAccounts
+  const selectedResources = activeConversation ? activeConversation.resource_selections : newConversationResources
+  // Servers with a choice to make: several accounts, or properties/sites to pick from
+  const sourceServers = servers.filter(s => s.accounts.length > 1 || (s.resource && s.accounts.length > 0))
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
   useEffect(() => {
     scrollToBottom()
-  }, [messages])
+  }, [messages, streamingContent, toolActivity])
+
+  const handleStreamEvent = (event: ChatStreamEvent) => {
+    switch (event.type) {
+      case 'delta':
+        setStreamingContent(prev => prev + event.content)
+        break
+      case 'tool_call':
+        // Text streamed before a tool call is not part of the final answer
+        setStreamingContent('')
+        setToolActivity(prev => [...prev, {
+          id: event.id,
+          name: event.name,
+          status: 'running',
+          detail: JSON.stringify(event.arguments)
+        }])
+        break
+      case 'tool_result':
+        // Parallel tool calls can finish in any order, so match on the call id
+        setToolActivity(prev => prev.map(activity => activity.id === event.id
+          ? {
+              ...activity,
+              status: event.error ? 'error' : 'done',
+              detail: event.error
+                ? event.error
+                : `${event.rowCount !== null ? `returned ${event.rowCount} rows` : 'completed'}${event.cached ? ' (cached)' : ''}`
+            }
+          : activity
+        ))
+        break
+      case 'approval_required':
+        // Parallel calls can each need approval; they are confirmed one at a time
+        setPendingApprovals(prev => [...prev, event])
+        setToolActivity(prev => prev.map(activity => activity.id === event.id
+          ? { ...activity, status: 'awaiting' }
+          : activity
+        ))
+        break
+    }
+  }
+
+  const answerApproval = async (approved: boolean) => {
+    const approval = pendingApprovals[0]
+    if (!approval) return
+
+    setPendingApprovals(prev => prev.slice(1))
+    setToolActivity(prev => prev.map(activity => activity.id === approval.id
+      ? { ...activity, status: 'running' }
+      : activity
+    ))
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('Session expired, please login again')
+      }
+
+      const response = await fetch('/api/chat/approvals', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ approvalId: approval.approvalId, approved })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to answer approval')
+      }
+    } catch (error: any) {
+      setToast({
+        message: 'Error answering approval: ' + error.message,
+        type: 'error'
+      })
+    }
+  }
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!input.trim() || !userId || loading) return
 
     const userMessage = input.trim()
+    const refresh = freshData
     setInput('')
+    setFreshData(false)
     setLoading(true)
 
     try {
-      // Save user message
-      const { data: userMsg, error: userError } = await supabase
-        .from('messages')
-        .insert({
-          user_id: userId,
-          role: 'user',
-          content: userMessage,
-        })
-        .select()
-        .single()
-
-      if (userError) throw userError
+      // Start a conversation on the first message
+      const conversation = conversations.find(c => c.id === activeConversationId) || await createConversation()
+      if (!conversation) {
+        throw new Error('Unable to start a conversation')
+      }
 
-      setMessages(prev => [...prev, userMsg])
+      // Show the user message immediately; the server saves it with the answer
+      const pendingId = `pending-${Date.now()}`
+      setMessages(prev => [...prev, {
+        id: pendingId,
+        user_id: userId,
+        conversation_id: conversation.id,
+        role: 'user',
+        content: userMessage,
+        created_at: new Date().toISOString()
+      }])
 
       // Get current session token for authentication
       const { data: { session } } = await supabase.auth.getSession()
@@ -259,7 +637,7 @@ export default function Chat() {
         throw new Error('Session expired, please login again')
       }
 
-      // Get AI response
+      // Get AI response, streamed as Server-Sent Events
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 
@@ -268,50 +646,97 @@ export default function Chat() {
         },
         body: JSON.stringify({ 
           message: userMessage,
-          ga4Connected,
-          gscConnected
+          conversationId: conversation.id,
+          services: servers.filter(s => s.connected).map(s => s.key),
+          stream: true,
+          refresh
         }),
       })
 
-      const data = await response.json()
-
       if (!response.ok) {
+        const data = await response.json()
         throw new Error(data.error || 'Failed to get response')
       }
 
-      // Save assistant message
-      const { data: assistantMsg, error: assistantError } = await supabase
-        .from('messages')
-        .insert({
-          user_id: userId,
-          role: 'assistant',
-          content: data.response,
-        })
-        .select()
-        .single()
-
-      if (assistantError) throw assistantError
+      let streamError = ''
+
+      await readEventStream<ChatStreamEvent>(response, (event) => {
+        if (event.type === 'saved') {
+          setMessages(prev => [
+            ...prev.map(m => m.id === pendingId ? event.userMessage : m),
+            event.assistantMessage,
+            ...event.toolMessages
+          ])
+        } else if (event.type === 'error') {
+          streamError = event.error
+        } else if (event.type === 'conversation') {
+          // Title is generated server-side after the first exchange
+          setConversations(prev => [
+            { ...conversation, title: event.title, updated_at: new Date().toISOString() },
+            ...prev.filter(c => c.id !== event.conversationId)
+          ])
+        } else {
+          handleStreamEvent(event)
+        }
+      })
 
-      setMessages(prev => [...prev, assistantMsg])
+      if (streamError) {
+        throw new Error(streamError)
+      }
     } catch (error: any) {
       alert('Error: ' + error.message)
     } finally {
       setLoading(false)
+      setStreamingContent('')
+      setToolActivity([])
+      setPendingApprovals([])
     }
   }
 
+  // Tables behind an answer: one CSV each, plus a workbook with all of them
+  const loadAnswerExports = async (messageId: string): Promise<ExportOption[]> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('Session expired, please login again')
+    }
+
+    const response = await fetch(`/api/messages/${messageId}/export`, {
+      headers: { 'Authorization': `Bearer ${session.access_token}` }
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load answer data')
+    }
+
+    const tables: { index: number; name: string; rowCount: number }[] = data.tables
+    if (tables.length === 0) return []
+
+    return [
+      ...tables.map((table) => ({
+        label: `CSV · ${table.name} (${table.rowCount} rows)`,
+        path: `/api/messages/${messageId}/export?format=csv&table=${table.index}`
+      })),
+      { label: tables.length > 1 ? 'Excel workbook (all tables)' : 'Excel workbook', path: `/api/messages/${messageId}/export?format=xlsx` }
+    ]
+  }
+
+  const showExportError = (message: string) => {
+    setToast({ message: 'Export failed: ' + message, type: 'error' })
+  }
+
   const handleLogout = async () => {
     await supabase.auth.signOut()
     router.push('/login')
   }
 
   const clearChat = () => {
-    if (!userId) return
+    if (!userId || !activeConversationId) return
     
     setConfirmModal({
       isOpen: true,
       title: 'Clear All Messages?',
-      message: 'Are you sure you want to delete all chat messages? This action cannot be undone.',
+      message: 'Are you sure you want to delete all messages in this conversation? This action cannot be undone.',
       type: 'danger',
       confirmText: 'Clear',
       onConfirm: async () => {
@@ -319,7 +744,7 @@ export default function Chat() {
           const { error } = await supabase
             .from('messages')
             .delete()
-            .eq('user_id', userId)
+            .eq('conversation_id', activeConversationId)
 
           if (error) {
             throw new Error(error.message)
@@ -342,58 +767,9 @@ export default function Chat() {
     })
   }
 
-  const connectGA4 = async () => {
-    try {
-      setConnectingGA4(true)
-      
-      // Get current session
-      const { data: { session } } = await supabase.auth.getSession()
-      if (!session) {
-        setToast({
-          message: 'Please log in first',
-          type: 'warning'
-        })
-        return
-      }
-
-      // Get OAuth URL from our API with GA4 service
-      const response = await fetch('/api/auth/google?service=ga4', {
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`
-        }
-      })
-
-      const data = await response.json()
-      console.log('GA4 OAuth URL:', data.authUrl);
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to get auth URL')
-      }
-
-      // Open OAuth popup
-      const width = 500
-      const height = 600
-      const left = window.screenX + (window.outerWidth - width) / 2
-      const top = window.screenY + (window.outerHeight - height) / 2
-      
-      window.open(
-        data.authUrl,
-        'ga4_oauth',
-        `width=${width},height=${height},left=${left},top=${top},toolbar=no,menubar=no`
-      )
-    } catch (error: any) {
-      setToast({
-        message: 'Error connecting to GA4: ' + error.message,
-        type: 'error'
-      })
-    } finally {
-      setConnectingGA4(false)
-    }
-  }
-
-  const connectGSC = async () => {
+  const connectServer = async (server: ServerStatus) => {
     try {
-      setConnectingGSC(true)
+      setConnectingServer(server.key)
       
       // Get current session
       const { data: { session } } = await supabase.auth.getSession()
@@ -405,8 +781,8 @@ export default function Chat() {
         return
       }
 
-      // Get OAuth URL from our API with GSC service
-      const response = await fetch('/api/auth/google?service=gsc', {
+      // Get OAuth URL from our API for this server
+      const response = await fetch(`/api/auth/google?service=${encodeURIComponent(server.key)}`, {
         headers: {
           'Authorization': `Bearer ${session.access_token}`
         }
@@ -426,26 +802,28 @@ export default function Chat() {
       
       window.open(
         data.authUrl,
-        'gsc_oauth',
+        `${server.key}_oauth`,
         `width=${width},height=${height},left=${left},top=${top},toolbar=no,menubar=no`
       )
     } catch (error: any) {
       setToast({
-        message: 'Error connecting to GSC: ' + error.message,
+        message: `Error connecting to ${server.shortName}: ` + error.message,
         type: 'error'
       })
     } finally {
-      setConnectingGSC(false)
+      setConnectingServer(null)
     }
   }
 
-  const disconnectGA4 = () => {
+  const disconnectServer = (server: ServerStatus, account?: LinkedAccount) => {
     if (!userId) return
+
+    const target = account?.email ? `${account.email} from ${server.name}` : server.name
     
     setConfirmModal({
       isOpen: true,
-      title: 'Disconnect Google Analytics 4?',
-      message: 'Are you sure you want to disconnect Google Analytics 4? You can reconnect anytime.',
+      title: `Disconnect ${target}?`,
+      message: `Are you sure you want to disconnect ${target}? You can reconnect anytime.`,
       type: 'danger',
       confirmText: 'Disconnect',
       onConfirm: async () => {
@@ -463,7 +841,8 @@ export default function Chat() {
               'Authorization': `Bearer ${session.access_token}`
             },
             body: JSON.stringify({ 
-              service: 'ga4'
+              service: server.key,
+              connectionId: account?.id
             }),
           })
 
@@ -474,20 +853,23 @@ export default function Chat() {
           }
 
           // Update state
-          setGa4Connected(false)
-          localStorage.removeItem('ga4_connected')
+          updateServers(prev => prev.map(s => {
+            if (s.key !== server.key) return s
+            const accounts = account ? s.accounts.filter(a => a.id !== account.id) : []
+            return { ...s, accounts, connected: accounts.some(a => a.connected) }
+          }))
           
           // Invalidate session cache to force re-check on next page load
           sessionStorage.removeItem(`connections_checked_${userId}`)
 
           // Show success toast
           setToast({
-            message: 'Google Analytics 4 disconnected successfully',
+            message: `${target} disconnected successfully`,
             type: 'info'
           })
         } catch (error: any) {
           setToast({
-            message: 'Error disconnecting GA4: ' + error.message,
+            message: `Error disconnecting ${server.shortName}: ` + error.message,
             type: 'error'
           })
         } finally {
@@ -497,312 +879,493 @@ export default function Chat() {
     })
   }
 
-  const disconnectGSC = () => {
-    if (!userId) return
-    
-    setConfirmModal({
-      isOpen: true,
-      title: 'Disconnect Google Search Console?',
-      message: 'Are you sure you want to disconnect Google Search Console? You can reconnect anytime.',
-      type: 'danger',
-      confirmText: 'Disconnect',
-      onConfirm: async () => {
-        try {
-          // Get current session token for authentication
-          const { data: { session } } = await supabase.auth.getSession()
-          if (!session) {
-            throw new Error('Session expired, please login again')
-          }
-
-          const response = await fetch('/api/auth/google/disconnect', {
-            method: 'POST',
-            headers: { 
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${session.access_token}`
-            },
-            body: JSON.stringify({ 
-              service: 'gsc'
-            }),
-          })
-
-          const data = await response.json()
+  // Pin a linked account to a GA4 property or GSC site
+  const saveDefaultResource = async (server: ServerStatus, account: LinkedAccount, value: string | null) => {
+    const defaultResource = value?.trim() || null
+    if (defaultResource === account.defaultResource) return
 
-          if (!response.ok) {
-            throw new Error(data.error || 'Failed to disconnect')
-          }
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('Session expired, please login again')
+      }
 
-          // Update state
-          setGscConnected(false)
-          localStorage.removeItem('gsc_connected')
-          
-          // Invalidate session cache to force re-check on next page load
-          sessionStorage.removeItem(`connections_checked_${userId}`)
+      const response = await fetch(`/api/connections/${account.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ defaultResource })
+      })
+      const data = await response.json()
 
-          // Show success toast
-          setToast({
-            message: 'Google Search Console disconnected successfully',
-            type: 'info'
-          })
-        } catch (error: any) {
-          setToast({
-            message: 'Error disconnecting GSC: ' + error.message,
-            type: 'error'
-          })
-        } finally {
-          setConfirmModal(prev => ({ ...prev, isOpen: false }))
-        }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save default')
       }
-    })
+
+      updateServers(prev => prev.map(s => s.key !== server.key ? s : {
+        ...s,
+        accounts: s.accounts.map(a => a.id === account.id ? { ...a, defaultResource } : a)
+      }))
+    } catch (error: any) {
+      setToast({
+        message: `Error saving default ${server.resource?.label || 'resource'}: ` + error.message,
+        type: 'error'
+      })
+    }
   }
 
   return (
     <div className="flex flex-col h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
       {/* Centered Container - 80% width on desktop */}
-      <div className="flex flex-col h-screen max-w-[80%] mx-auto w-full shadow-2xl bg-white/50 backdrop-blur-sm">
-        {/* Header */}
-        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 shadow-lg px-8 py-4 flex justify-between items-center">
-          <div className="flex items-center space-x-4">
-            <div className="w-10 h-10 bg-white/20 rounded-full flex items-center justify-center backdrop-blur-sm">
-              <span className="text-2xl">🤖</span>
-            </div>
-            <h1 className="text-2xl font-bold text-white">AI Chatbot</h1>
-            
-            {/* Connection Status Indicators */}
-            <div className="flex items-center space-x-2 ml-6">
-              <div className={`flex items-center px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
-                checkingConnections
-                  ? 'bg-yellow-500/20 text-yellow-100 border border-yellow-400/30'
-                  : ga4Connected 
-                  ? 'bg-green-500/20 text-green-100 border border-green-400/30' 
-                  : 'bg-white/10 text-white/60 border border-white/20'
-              }`}>
-                <div className={`w-2 h-2 rounded-full mr-2 ${
-                  checkingConnections 
-                    ? 'bg-yellow-400 animate-pulse' 
-                    : ga4Connected 
-                    ? 'bg-green-400 animate-pulse' 
-                    : 'bg-white/40'
-                }`}></div>
-                {checkingConnections ? 'Checking...' : 'GA4'}
+      <div className="flex h-screen max-w-[80%] mx-auto w-full shadow-2xl bg-white/50 backdrop-blur-sm">
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={activeConversationId}
+          onSelect={selectConversation}
+          onCreate={createConversation}
+          onRename={renameConversation}
+          onArchive={archiveConversation}
+          onDelete={deleteConversation}
+        />
+
+        <div className="flex flex-col flex-1 min-w-0">
+          {/* Header */}
+          <div className="bg-gradient-to-r from-indigo-600 to-purple-600 shadow-lg px-8 py-4 flex justify-between items-center">
+            <div className="flex items-center space-x-4">
+              <div className="w-10 h-10 bg-white/20 rounded-full flex items-center justify-center backdrop-blur-sm">
+                <span className="text-2xl">🤖</span>
               </div>
-              <div className={`flex items-center px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
-                checkingConnections
-                  ? 'bg-yellow-500/20 text-yellow-100 border border-yellow-400/30'
-                  : gscConnected 
-                  ? 'bg-green-500/20 text-green-100 border border-green-400/30' 
-                  : 'bg-white/10 text-white/60 border border-white/20'
-              }`}>
-                <div className={`w-2 h-2 rounded-full mr-2 ${
-                  checkingConnections 
-                    ? 'bg-yellow-400 animate-pulse' 
-                    : gscConnected 
-                    ? 'bg-green-400 animate-pulse' 
-                    : 'bg-white/40'
-                }`}></div>
-                {checkingConnections ? 'Checking...' : 'GSC'}
+              <h1 className="text-2xl font-bold text-white">AI Chatbot</h1>
+            
+              {/* Connection Status Indicators */}
+              <div className="flex items-center space-x-2 ml-6">
+                {servers.map((server) => (
+                  <div key={server.key} className={`flex items-center px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+                    checkingConnections
+                      ? 'bg-yellow-500/20 text-yellow-100 border border-yellow-400/30'
+                      : server.connected
+                      ? 'bg-green-500/20 text-green-100 border border-green-400/30'
+                      : server.needsReauth
+                      ? 'bg-orange-500/20 text-orange-100 border border-orange-400/30'
+                      : 'bg-white/10 text-white/60 border border-white/20'
+                  }`} title={server.needsReauth ? server.error : undefined}>
+                    <div className={`w-2 h-2 rounded-full mr-2 ${
+                      checkingConnections
+                        ? 'bg-yellow-400 animate-pulse'
+                        : server.connected
+                        ? 'bg-green-400 animate-pulse'
+                        : server.needsReauth
+                        ? 'bg-orange-400'
+                        : 'bg-white/40'
+                    }`}></div>
+                    {checkingConnections ? 'Checking...' : server.shortName}
+                  </div>
+                ))}
               </div>
             </div>
-          </div>
           
-          <div className="flex items-center space-x-3">
-            {/* Connections Menu */}
-            <div className="relative connections-menu-container">
-              <button
-                onClick={() => setShowConnectionsMenu(!showConnectionsMenu)}
-                className="px-4 py-2 text-sm font-medium text-white bg-white/20 hover:bg-white/30 rounded-lg transition-all duration-200 backdrop-blur-sm flex items-center space-x-2"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                </svg>
-                <span>Connections</span>
-              </button>
+            <div className="flex items-center space-x-3">
+              {/* Connections Menu */}
+              <div className="relative connections-menu-container">
+                <button
+                  onClick={() => setShowConnectionsMenu(!showConnectionsMenu)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-white/20 hover:bg-white/30 rounded-lg transition-all duration-200 backdrop-blur-sm flex items-center space-x-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
+                  <span>Connections</span>
+                </button>
               
-              {/* Dropdown Menu */}
-              {showConnectionsMenu && (
-                <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-50 overflow-hidden">
-                  <div className="p-4 bg-gradient-to-r from-indigo-50 to-purple-50 border-b border-gray-200">
-                    <h3 className="font-semibold text-gray-800">Service Connections</h3>
-                    <p className="text-xs text-gray-600 mt-1">Connect to Google services</p>
-                  </div>
+                {/* Dropdown Menu */}
+                {showConnectionsMenu && (
+                  <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-50 overflow-hidden">
+                    <div className="p-4 bg-gradient-to-r from-indigo-50 to-purple-50 border-b border-gray-200">
+                      <h3 className="font-semibold text-gray-800">Service Connections</h3>
+                      <p className="text-xs text-gray-600 mt-1">Connect to Google services and your own MCP servers</p>
+                    </div>
                   
-                  <div className="p-3 space-y-2">
-                    {/* GA4 Connection */}
-                    <div className="flex items-center justify-between p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-all">
-                      <div className="flex items-center space-x-3">
-                        <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-lg flex items-center justify-center">
-                          <svg className="w-5 h-5 text-white" fill="currentColor" viewBox="0 0 24 24">
-                            <path d="M22.2 12.04c0-.82-.07-1.61-.2-2.37H12v4.48h5.71c-.25 1.32-1 2.44-2.12 3.19v2.65h3.43c2.01-1.85 3.18-4.58 3.18-7.95z"/>
-                          </svg>
+                    <div className="p-3 space-y-2">
+                      {servers.map((server, index) => (
+                        <div key={server.key} className="p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-all">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-3">
+                              <div className={`w-10 h-10 bg-gradient-to-br ${SERVER_GRADIENTS[index % SERVER_GRADIENTS.length]} rounded-lg flex items-center justify-center`}>
+                                <span className="text-white text-xs font-bold">{server.shortName}</span>
+                              </div>
+                              <div className="flex-1">
+                                <p className="font-medium text-gray-800 text-sm">{server.name}</p>
+                                <p className={`text-xs ${server.needsReauth ? 'text-orange-600' : 'text-gray-500'}`}>
+                                  {server.accounts.length > 1
+                                    ? `${server.accounts.length} accounts`
+                                    : server.connected ? 'Connected' : server.needsReauth ? 'Access expired' : 'Not connected'}
+                                </p>
+                              </div>
+                            </div>
+                            {server.custom ? (
+                              <Link
+                                href="/settings/servers"
+                                className="px-3 py-1.5 bg-gray-200 text-gray-700 text-xs font-medium rounded hover:bg-gray-300 transition-all"
+                              >
+                                Manage
+                              </Link>
+                            ) : (
+                              <button
+                                onClick={() => { setShowConnectionsMenu(false); connectServer(server); }}
+                                disabled={connectingServer === server.key}
+                                className={`px-3 py-1.5 bg-gradient-to-r ${SERVER_GRADIENTS[index % SERVER_GRADIENTS.length]} text-white text-xs font-medium rounded hover:shadow-md transition-all disabled:opacity-50`}
+                              >
+                                {connectingServer === server.key ? 'Connecting...' : server.accounts.length > 0 ? '+ Account' : 'Connect'}
+                              </button>
+                            )}
+                          </div>
+
+                          {/* Linked Google accounts */}
+                          {server.accounts.length > 0 && (
+                            <div className="mt-2 ml-12 space-y-2">
+                              {server.accounts.map((account) => (
+                                <div key={account.id} className="pl-3 border-l-2 border-gray-200">
+                                  <div className="flex items-center justify-between">
+                                    <p className="text-xs text-gray-700 truncate" title={account.error}>
+                                      {account.email || 'Google account'}
+                                      {account.workspace && (
+                                        <span className="ml-1 px-1.5 py-0.5 rounded bg-purple-100 text-purple-700">{account.workspace.name || 'Workspace'}</span>
+                                      )}
+                                      <span className={`ml-1 ${account.needsReauth ? 'text-orange-600' : account.connected ? 'text-green-600' : 'text-gray-400'}`}>
+                                        · {account.connected ? 'Connected' : account.needsReauth ? 'Access expired' : 'Not connected'}
+                                      </span>
+                                    </p>
+                                    {account.workspace ? (
+                                      // Shared accounts are linked and removed by workspace admins
+                                      <Link
+                                        href="/settings/workspaces"
+                                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700 ml-2"
+                                      >
+                                        Manage
+                                      </Link>
+                                    ) : (
+                                      <div className="flex items-center space-x-2 ml-2">
+                                        {account.needsReauth && (
+                                          <button
+                                            onClick={() => { setShowConnectionsMenu(false); connectServer(server); }}
+                                            className="text-xs font-medium text-orange-600 hover:text-orange-700"
+                                          >
+                                            Reconnect
+                                          </button>
+                                        )}
+                                        <button
+                                          onClick={() => { setShowConnectionsMenu(false); disconnectServer(server, account); }}
+                                          className="text-xs font-medium text-red-500 hover:text-red-600"
+                                        >
+                                          Disconnect
+                                        </button>
+                                      </div>
+                                    )}
+                                  </div>
+                                  {server.resource && !account.needsReauth && (
+                                    <ResourcePicker
+                                      connectionId={account.id}
+                                      value={account.defaultResource}
+                                      onChange={(value) => saveDefaultResource(server, account, value)}
+                                      emptyLabel={`No default ${server.resource.label}`}
+                                      disabled={!!account.workspace && account.workspace.role !== 'admin'}
+                                    />
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                        <div className="flex-1">
-                          <p className="font-medium text-gray-800 text-sm">Google Analytics 4</p>
-                          <p className="text-xs text-gray-500">{ga4Connected ? 'Connected' : 'Not connected'}</p>
-                        </div>
-                      </div>
-                      {ga4Connected ? (
-                        <button
-                          onClick={() => { setShowConnectionsMenu(false); disconnectGA4(); }}
-                          className="px-3 py-1.5 bg-red-500 text-white text-xs font-medium rounded hover:bg-red-600 transition-all"
-                        >
-                          Disconnect
-                        </button>
-                      ) : (
-                        <button
-                          onClick={() => { 
-                            setShowConnectionsMenu(false); 
-                            connectGA4(); 
-                          }}
-                          disabled={connectingGA4}
-                          className="px-3 py-1.5 bg-gradient-to-r from-blue-500 to-indigo-600 text-white text-xs font-medium rounded hover:shadow-md transition-all disabled:opacity-50"
-                        >
-                          {connectingGA4 ? 'Connecting...' : 'Connect'}
-                        </button>
-                      )}
+                      ))}
                     </div>
 
-                    {/* GSC Connection */}
-                    <div className="flex items-center justify-between p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-all">
-                      <div className="flex items-center space-x-3">
-                        <div className="w-10 h-10 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg flex items-center justify-center">
-                          <svg className="w-5 h-5 text-white" fill="currentColor" viewBox="0 0 24 24">
-                            <path d="M12 0C5.372 0 0 5.373 0 12s5.372 12 12 12c6.627 0 12-5.373 12-12S18.627 0 12 0zm.75 19h-1.5v-6h1.5v6zm0-8h-1.5V5h1.5v6z"/>
-                          </svg>
-                        </div>
-                        <div className="flex-1">
-                          <p className="font-medium text-gray-800 text-sm">Search Console</p>
-                          <p className="text-xs text-gray-500">{gscConnected ? 'Connected' : 'Not connected'}</p>
-                        </div>
-                      </div>
-                      {gscConnected ? (
-                        <button
-                          onClick={() => { setShowConnectionsMenu(false); disconnectGSC(); }}
-                          className="px-3 py-1.5 bg-red-500 text-white text-xs font-medium rounded hover:bg-red-600 transition-all"
-                        >
-                          Disconnect
-                        </button>
-                      ) : (
-                        <button
-                          onClick={() => { setShowConnectionsMenu(false); connectGSC(); }}
-                          disabled={connectingGSC}
-                          className="px-3 py-1.5 bg-gradient-to-r from-green-500 to-emerald-600 text-white text-xs font-medium rounded hover:shadow-md transition-all disabled:opacity-50"
-                        >
-                          {connectingGSC ? 'Connecting...' : 'Connect'}
-                        </button>
-                      )}
+                    <div className="p-3 border-t border-gray-200 flex flex-wrap justify-between gap-y-2">
+                      <Link
+                        href="/settings/servers"
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                      >
+                        + Add a custom MCP server
+                      </Link>
+                      <Link
+                        href="/settings/tools"
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                      >
+                        Manage tools
+                      </Link>
+                      <Link
+                        href="/settings/reports"
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                      >
+                        Scheduled reports
+                      </Link>
+                      <Link
+                        href="/settings/monitors"
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                      >
+                        Metric monitors
+                      </Link>
+                      <Link
+                        href="/settings/usage"
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                      >
+                        Usage
+                      </Link>
+                      <Link
+                        href="/settings/workspaces"
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                      >
+                        Workspaces
+                      </Link>
+                      <Link
+                        href="/settings/shared-links"
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                      >
+                        Shared links
+                      </Link>
+                      <Link
+                        href="/settings/audit"
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                      >
+                        Audit log
+                      </Link>
                     </div>
                   </div>
-                </div>
+                )}
+              </div>
+            
+              <NotificationBell onOpenConversation={openNotificationConversation} />
+              {activeConversationId && (
+                <ExportMenu
+                  label="📄 Export"
+                  buttonClassName="px-4 py-2 text-sm font-medium text-white bg-white/20 hover:bg-white/30 rounded-lg transition-all duration-200 backdrop-blur-sm"
+                  options={[
+                    { label: 'Markdown (.md)', path: `/api/conversations/${activeConversationId}/export?format=md` },
+                    { label: 'PDF with charts', path: `/api/conversations/${activeConversationId}/export?format=pdf` }
+                  ]}
+                  onError={showExportError}
+                />
               )}
+              {activeConversationId && (
+                <button
+                  onClick={() => setShareTarget({ conversationId: activeConversationId })}
+                  className="px-4 py-2 text-sm font-medium text-white bg-white/20 hover:bg-white/30 rounded-lg transition-all duration-200 backdrop-blur-sm"
+                >
+                  🔗 Share
+                </button>
+              )}
+              <button
+                onClick={clearChat}
+                className="px-4 py-2 text-sm font-medium text-white bg-white/20 hover:bg-white/30 rounded-lg transition-all duration-200 backdrop-blur-sm"
+              >
+                🗑️ Clear
+              </button>
+              <button
+                onClick={handleLogout}
+                className="px-4 py-2 bg-white/90 text-indigo-600 font-medium rounded-lg hover:bg-white transition-all duration-200 text-sm shadow-lg"
+              >
+                Logout
+              </button>
             </div>
-            
-            <button
-              onClick={clearChat}
-              className="px-4 py-2 text-sm font-medium text-white bg-white/20 hover:bg-white/30 rounded-lg transition-all duration-200 backdrop-blur-sm"
-            >
-              🗑️ Clear
-            </button>
-            <button
-              onClick={handleLogout}
-              className="px-4 py-2 bg-white/90 text-indigo-600 font-medium rounded-lg hover:bg-white transition-all duration-200 text-sm shadow-lg"
-            >
-              Logout
-            </button>
           </div>
-        </div>
 
-        {/* Messages */}
-        <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6 bg-gradient-to-b from-gray-50/50 to-white/50">
-          {messages.length === 0 ? (
-            <div className="flex flex-col items-center justify-center h-full text-center">
-              <div className="bg-gradient-to-br from-indigo-100 to-purple-100 p-8 rounded-3xl shadow-lg">
-                <div className="text-6xl mb-4">💬</div>
-                <p className="text-2xl font-semibold text-gray-700 mb-2">Start a conversation!</p>
-                <p className="text-gray-500">Ask me anything and I'll help you out</p>
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6 bg-gradient-to-b from-gray-50/50 to-white/50">
+            {chatMessages.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-full text-center">
+                <div className="bg-gradient-to-br from-indigo-100 to-purple-100 p-8 rounded-3xl shadow-lg">
+                  <div className="text-6xl mb-4">💬</div>
+                  <p className="text-2xl font-semibold text-gray-700 mb-2">Start a conversation!</p>
+                  <p className="text-gray-500">Ask me anything and I'll help you out</p>
+                </div>
               </div>
-            </div>
-          ) : (
-            messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'} animate-fadeIn`}
-              >
+            ) : (
+              chatMessages.map((message) => (
                 <div
-                  className={`max-w-[75%] px-5 py-3 rounded-2xl shadow-md ${
-                    message.role === 'user'
-                      ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-br-md'
-                      : 'bg-white text-gray-800 border border-gray-100 rounded-bl-md'
-                  }`}
+                  key={message.id}
+                  className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'} animate-fadeIn`}
                 >
-                  {message.role === 'assistant' && (
-                    <div className="text-xs font-semibold text-indigo-600 mb-1 flex items-center">
-                      <span className="mr-1">🤖</span> AI Assistant
+                  <div
+                    className={`max-w-[75%] px-5 py-3 rounded-2xl shadow-md ${
+                      message.role === 'user'
+                        ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-br-md'
+                        : 'bg-white text-gray-800 border border-gray-100 rounded-bl-md'
+                    }`}
+                  >
+                    {message.role === 'assistant' && (
+                      <div className="text-xs font-semibold text-indigo-600 mb-1 flex items-center">
+                        <span className="mr-1">🤖</span> AI Assistant
+                      </div>
+                    )}
+                    {message.role === 'assistant' ? (
+                      <div className="prose prose-sm max-w-none">
+                        <MessageMarkdown content={message.content} />
+                        <ToolCallDetails
+                          toolCalls={messages.filter(m => m.role === 'tool' && m.parent_message_id === message.id)}
+                        />
+                        <div className="mt-2 flex justify-end space-x-3">
+                          {messages.some(m => m.role === 'tool' && m.parent_message_id === message.id && !m.tool_error) && (
+                            <ExportMenu
+                              label="⬇️ Export data"
+                              buttonClassName="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                              options={() => loadAnswerExports(message.id)}
+                              emptyMessage="No tables in this answer's tool results"
+                              onError={showExportError}
+                            />
+                          )}
+                          <button
+                            onClick={() => setShareTarget({ conversationId: message.conversation_id, messageId: message.id })}
+                            className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                          >
+                            🔗 Share
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+            {loading && (
+              <div className="flex justify-start animate-fadeIn">
+                <div className="bg-white text-gray-800 shadow-md border border-gray-100 max-w-[75%] px-5 py-3 rounded-2xl rounded-bl-md">
+                  {toolActivity.length > 0 && (
+                    <div className="mb-2 space-y-1">
+                      {toolActivity.map((activity, index) => (
+                        <div key={index} className="flex items-start text-xs text-gray-500">
+                          <span className="mr-2">
+                            {activity.status === 'running' ? '⏳' : activity.status === 'awaiting' ? '✋' : activity.status === 'error' ? '⚠️' : '✅'}
+                          </span>
+                          <span className="break-all">
+                            <span className="font-mono text-indigo-600">{activity.name}</span>
+                            {activity.status === 'running' ? ' called with ' : activity.status === 'awaiting' ? ' waiting for your approval: ' : ' '}
+                            {activity.detail}
+                          </span>
+                        </div>
+                      ))}
                     </div>
                   )}
-                  {message.role === 'assistant' ? (
+                  {streamingContent ? (
                     <div className="prose prose-sm max-w-none">
-                      <ReactMarkdown
-                        components={{
-                          p: ({ children }) => <p className="mb-3 leading-relaxed text-gray-800">{children}</p>,
-                          strong: ({ children }) => <strong className="font-bold text-gray-900">{children}</strong>,
-                          em: ({ children }) => <em className="italic text-gray-700">{children}</em>,
-                          ul: ({ children }) => <ul className="list-disc list-inside mb-3 space-y-1">{children}</ul>,
-                          ol: ({ children }) => <ol className="list-decimal list-inside mb-3 space-y-1">{children}</ol>,
-                          li: ({ children }) => <li className="text-gray-800 ml-2">{children}</li>,
-                          h1: ({ children }) => <h1 className="text-xl font-bold mb-3 text-gray-900">{children}</h1>,
-                          h2: ({ children }) => <h2 className="text-lg font-bold mb-2 text-gray-900">{children}</h2>,
-                          h3: ({ children }) => <h3 className="text-base font-bold mb-2 text-gray-900">{children}</h3>,
-                          code: ({ children }) => <code className="bg-gray-100 text-indigo-600 px-1.5 py-0.5 rounded text-sm font-mono">{children}</code>,
-                          pre: ({ children }) => <pre className="bg-gray-100 p-3 rounded-lg overflow-x-auto mb-3">{children}</pre>,
-                          blockquote: ({ children }) => <blockquote className="border-l-4 border-indigo-400 pl-4 italic text-gray-700 my-3">{children}</blockquote>,
-                          a: ({ href, children }) => <a href={href} className="text-indigo-600 hover:text-indigo-700 underline" target="_blank" rel="noopener noreferrer">{children}</a>,
-                        }}
-                      >
-                        {message.content}
-                      </ReactMarkdown>
+                      <MessageMarkdown content={streamingContent} pending />
                     </div>
                   ) : (
-                    <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs font-semibold text-indigo-600">🤖 AI is typing</span>
+                      <div className="flex space-x-1 ml-2">
+                        <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce"></div>
+                        <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                        <div className="w-2 h-2 bg-pink-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                      </div>
+                    </div>
                   )}
                 </div>
               </div>
-            ))
-          )}
-          {loading && (
-            <div className="flex justify-start animate-fadeIn">
-              <div className="bg-white text-gray-800 shadow-md border border-gray-100 max-w-[75%] px-5 py-3 rounded-2xl rounded-bl-md">
-                <div className="flex items-center space-x-2">
-                  <span className="text-xs font-semibold text-indigo-600">🤖 AI is typing</span>
-                  <div className="flex space-x-1 ml-2">
-                    <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce"></div>
-                    <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                    <div className="w-2 h-2 bg-pink-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                  </div>
-                </div>
-              </div>
-            </div>
-          )}
-          <div ref={messagesEndRef} />
-        </div>
+            )}
+            <div ref={messagesEndRef} />
+          </div>
 
-        {/* Input */}
-        <div className="bg-white/80 backdrop-blur-sm border-t border-gray-200 px-8 py-6">
-          <form onSubmit={handleSend} className="flex space-x-3">
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              disabled={loading}
-              placeholder="Type your message..."
-              className="flex-1 px-5 py-3.5 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 disabled:opacity-50 disabled:bg-gray-50 transition-all duration-200 text-gray-800"
-            />
-            <button
-              type="submit"
-              disabled={loading || !input.trim()}
-              className="px-8 py-3.5 bg-gradient-to-r from-indigo-500 to-purple-600 text-white font-semibold rounded-xl hover:from-indigo-600 hover:to-purple-700 focus:outline-none focus:ring-4 focus:ring-indigo-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl"
-            >
-              Send ✨
-            </button>
-          </form>
+          {/* Input */}
+          <div className="bg-white/80 backdrop-blur-sm border-t border-gray-200 px-8 py-6">
+            <form onSubmit={handleSend} className="flex space-x-3">
+              {llmProviders.length > 1 && (
+                <select
+                  value={selectedProvider}
+                  onChange={(e) => changeProvider(e.target.value)}
+                  disabled={loading}
+                  title="Model provider for this conversation"
+                  className="px-3 py-3.5 border-2 border-gray-200 rounded-xl text-sm text-gray-700 bg-white focus:outline-none focus:border-indigo-400 disabled:opacity-50"
+                >
+                  <option value="">Default model</option>
+                  {llmProviders.map((provider) => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.name} ({provider.defaultModel})
+                    </option>
+                  ))}
+                </select>
+              )}
+              {sourceServers.length > 0 && (
+                <details className="relative">
+                  <summary
+                    title="Google accounts, properties and sites this conversation uses"
+                    className="list-none cursor-pointer px-3 py-3.5 border-2 border-gray-200 rounded-xl text-sm text-gray-700 bg-white hover:border-indigo-300"
+                  >
+                    Sources
+                  </summary>
+                  <div className="absolute bottom-full mb-2 left-0 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-50 p-3 space-y-3">
+                    {sourceServers.map((server) => {
+                      const selected = effectiveAccounts(server, selectedAccounts)
+                      return (
+                        <div key={server.key}>
+                          <p className="text-xs font-semibold text-gray-700 mb-1">{server.name}</p>
+                          {server.accounts.map((account) => (
+                            <div key={account.id} className="py-0.5">
+                              {server.accounts.length > 1 ? (
+                                <label className="flex items-center space-x-2 text-xs text-gray-600">
+                                  <input
+                                    type="checkbox"
+                                    checked={selected.includes(account.id)}
+                                    disabled={loading || (selected.length === 1 && selected[0] === account.id)}
+                                    onChange={() => toggleAccount(server, account.id)}
+                                    className="w-3.5 h-3.5 accent-indigo-600"
+                                  />
+                                  <span className="truncate">{account.email || 'Google account'}</span>
+                                </label>
+                              ) : (
+                                <p className="text-xs text-gray-600 truncate">{account.email || 'Google account'}</p>
+                              )}
+                              {server.resource && selected.includes(account.id) && !account.needsReauth && (
+                                <ResourcePicker
+                                  connectionId={account.id}
+                                  value={selectedResources?.[account.id] || null}
+                                  onChange={(value) => selectResource(account.id, value)}
+                                  emptyLabel={account.defaultResource
+                                    ? `Account default (${account.defaultResource})`
+                                    : `No ${server.resource.label} selected`}
+                                  disabled={loading}
+                                />
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </details>
+              )}
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                disabled={loading}
+                placeholder="Type your message..."
+                className="flex-1 px-5 py-3.5 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 disabled:opacity-50 disabled:bg-gray-50 transition-all duration-200 text-gray-800"
+              />
+              <button
+                type="button"
+                onClick={() => setFreshData(!freshData)}
+                disabled={loading}
+                title={freshData ? 'Next message fetches fresh data' : 'Fetch fresh data instead of reusing cached tool results'}
+                className={`px-4 py-3.5 border-2 rounded-xl text-sm font-medium transition-all duration-200 disabled:opacity-50 ${
+                  freshData
+                    ? 'border-indigo-400 bg-indigo-50 text-indigo-700'
+                    : 'border-gray-200 text-gray-500 hover:border-indigo-300'
+                }`}
+              >
+                🔄 Fresh
+              </button>
+              <button
+                type="submit"
+                disabled={loading || !input.trim()}
+                className="px-8 py-3.5 bg-gradient-to-r from-indigo-500 to-purple-600 text-white font-semibold rounded-xl hover:from-indigo-600 hover:to-purple-700 focus:outline-none focus:ring-4 focus:ring-indigo-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl"
+              >
+                Send ✨
+              </button>
+            </form>
+          </div>
         </div>
       </div>
 
@@ -825,6 +1388,30 @@ export default function Chat() {
         onConfirm={confirmModal.onConfirm}
         onCancel={() => setConfirmModal(prev => ({ ...prev, isOpen: false }))}
       />
+
+      {/* Share Link Dialog */}
+      <ShareDialog
+        target={shareTarget}
+        onClose={() => setShareTarget(null)}
+        onError={(message) => setToast({ message: 'Sharing failed: ' + message, type: 'error' })}
+      />
+
+      {/* Tool Approval Modal */}
+      <ConfirmModal
+        isOpen={pendingApprovals.length > 0}
+        title="Allow this tool call?"
+        message={`The assistant wants to run ${pendingApprovals[0]?.name}, which may change data.`}
+        details={
+          <pre className="bg-gray-100 p-3 rounded-lg overflow-x-auto max-h-64 text-xs text-gray-700">
+            {JSON.stringify(pendingApprovals[0]?.arguments, null, 2)}
+          </pre>
+        }
+        type="warning"
+        confirmText="Run tool"
+        cancelText="Decline"
+        onConfirm={() => answerApproval(true)}
+        onCancel={() => answerApproval(false)}
+      />
     </div>
   )
 }
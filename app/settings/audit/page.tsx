@@ -0,0 +1,362 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import { downloadExport } from '@/lib/export/download'
+import Toast, { ToastType } from '@/components/Toast'
+import type { AuditEvent } from '@/lib/audit/audit-log'
+
+interface Filters {
+  event: string
+  status: string
+  user: string
+  server: string
+  tool: string
+  resource: string
+  workspace: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: Filters = {
+  event: '',
+  status: '',
+  user: '',
+  server: '',
+  tool: '',
+  resource: '',
+  workspace: '',
+  from: '',
+  to: ''
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  tool_call: 'Tool call',
+  oauth_connect: 'Account connected',
+  oauth_disconnect: 'Account disconnected',
+  credential_deactivated: 'Credentials deactivated'
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cached: 'bg-gray-100 text-gray-600'
+}
+
+const formatBytes = (bytes: number | null) => {
+  if (bytes === null) return ''
+  if (bytes < 1024) return `${bytes} B`
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/**
+ * Query string for the audit API. Dates are whole days in the viewer's time zone,
+ * `to` inclusive.
+ */
+const filterQuery = (filters: Filters) => {
+  const params = new URLSearchParams()
+  for (const [name, value] of Object.entries(filters)) {
+    if (!value || name === 'from' || name === 'to') continue
+    params.set(name, value)
+  }
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`)
+    end.setDate(end.getDate() + 1)
+    params.set('to', end.toISOString())
+  }
+  return params
+}
+
+export default function AuditLogSettings() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS)
+  const [events, setEvents] = useState<AuditEvent[] | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [scope, setScope] = useState<'all' | 'workspaces' | null>(null)
+  const [workspaces, setWorkspaces] = useState<{ id: string; name: string }[]>([])
+  const [eventTypes, setEventTypes] = useState<string[]>(Object.keys(EVENT_LABELS))
+  const [statuses, setStatuses] = useState<string[]>(Object.keys(STATUS_STYLES))
+  const [forbidden, setForbidden] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const router = useRouter()
+
+  const accessToken = async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      router.push('/login')
+      throw new Error('Session expired, please login again')
+    }
+    return session.access_token
+  }
+
+  const loadEvents = async (query: Filters, before?: string) => {
+    setLoading(true)
+
+    try {
+      const params = filterQuery(query)
+      if (before) params.set('before', before)
+
+      const response = await fetch(`/api/audit?${params}`, {
+        headers: { 'Authorization': `Bearer ${await accessToken()}` }
+      })
+      const data = await response.json()
+
+      if (response.status === 403) {
+        setForbidden(true)
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load audit log')
+      }
+
+      setEvents(prev => before ? [...(prev || []), ...data.events] : data.events)
+      setNextCursor(data.nextCursor)
+      setScope(data.scope)
+      setWorkspaces(data.workspaces)
+      setEventTypes(data.eventTypes)
+      setStatuses(data.statuses)
+      setApplied(query)
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadEvents(EMPTY_FILTERS)
+  }, [])
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    loadEvents(filters)
+  }
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS)
+    loadEvents(EMPTY_FILTERS)
+  }
+
+  const exportCsv = async () => {
+    setExporting(true)
+    try {
+      const params = filterQuery(applied)
+      params.set('format', 'csv')
+      await downloadExport(`/api/audit?${params}`, await accessToken())
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const updateFilters = (changes: Partial<Filters>) => setFilters(prev => ({ ...prev, ...changes }))
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 transition-all'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-6xl mx-auto py-10 px-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              {scope === 'workspaces'
+                ? 'Tool calls and account changes on the workspaces you administer.'
+                : 'Every tool call, account connection and credential change. Entries cannot be edited or deleted.'}
+            </p>
+          </div>
+          <Link href="/chat" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            ← Back to chat
+          </Link>
+        </div>
+
+        {forbidden ? (
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 text-center">
+            <p className="text-sm text-gray-700">
+              The audit log is available to workspace admins, for their workspaces, and to the deployment&apos;s audit admins.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Filters */}
+            <form onSubmit={applyFilters} className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-4">
+              <div className="grid grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Event</label>
+                  <select value={filters.event} onChange={(e) => updateFilters({ event: e.target.value })} className={inputClass}>
+                    <option value="">All events</option>
+                    {eventTypes.map((type) => (
+                      <option key={type} value={type}>{EVENT_LABELS[type] || type}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Status</label>
+                  <select value={filters.status} onChange={(e) => updateFilters({ status: e.target.value })} className={inputClass}>
+                    <option value="">Any status</option>
+                    {statuses.map((status) => (
+                      <option key={status} value={status}>{status}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">From</label>
+                  <input type="date" value={filters.from} onChange={(e) => updateFilters({ from: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">To</label>
+                  <input type="date" value={filters.to} onChange={(e) => updateFilters({ to: e.target.value })} className={inputClass} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">User email</label>
+                  <input value={filters.user} onChange={(e) => updateFilters({ user: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Server</label>
+                  <input value={filters.server} onChange={(e) => updateFilters({ server: e.target.value })} className={inputClass} placeholder="ga4" />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Tool</label>
+                  <input value={filters.tool} onChange={(e) => updateFilters({ tool: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Property or site</label>
+                  <input value={filters.resource} onChange={(e) => updateFilters({ resource: e.target.value })} className={inputClass} />
+                </div>
+              </div>
+
+              <div className="flex items-end justify-between">
+                {workspaces.length > 0 ? (
+                  <div className="w-1/4">
+                    <label className="block text-xs font-semibold text-gray-700 mb-1">Workspace</label>
+                    <select value={filters.workspace} onChange={(e) => updateFilters({ workspace: e.target.value })} className={inputClass}>
+                      <option value="">{scope === 'all' ? 'Any' : 'All my workspaces'}</option>
+                      {workspaces.map((workspace) => (
+                        <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ) : <div />}
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="button"
+                    onClick={clearFilters}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-all"
+                  >
+                    Clear
+                  </button>
+                  <button
+                    type="button"
+                    onClick={exportCsv}
+                    disabled={exporting || !events?.length}
+                    className="px-4 py-2 bg-indigo-50 text-indigo-600 text-sm font-medium rounded-lg hover:bg-indigo-100 transition-all disabled:opacity-50"
+                  >
+                    {exporting ? 'Exporting...' : 'Export CSV'}
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-600 text-white text-sm font-medium rounded-lg hover:shadow-md transition-all disabled:opacity-50"
+                  >
+                    Apply filters
+                  </button>
+                </div>
+              </div>
+            </form>
+
+            {/* Entries */}
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-x-auto">
+              {!events ? (
+                <p className="p-6 text-sm text-gray-500 text-center">Loading audit log...</p>
+              ) : events.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500 text-center">No entries match these filters.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-semibold text-gray-500 border-b border-gray-100">
+                      <th className="px-4 py-3">Time</th>
+                      <th className="px-4 py-3">Event</th>
+                      <th className="px-4 py-3">User</th>
+                      <th className="px-4 py-3">Server / tool</th>
+                      <th className="px-4 py-3">Account / property</th>
+                      <th className="px-4 py-3">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {events.map((event) => (
+                      <tr key={event.id} className="align-top">
+                        <td className="px-4 py-2 text-xs text-gray-500 whitespace-nowrap">
+                          {new Date(event.created_at).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2">
+                          <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[event.status]}`}>
+                            {event.status}
+                          </span>
+                          <p className="text-xs text-gray-700 mt-1">{EVENT_LABELS[event.event] || event.event}</p>
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-700">
+                          {event.user_email || event.user_id}
+                          {event.ip_address && <p className="text-gray-400">{event.ip_address}</p>}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-700">
+                          {event.server_name || '—'}
+                          {event.tool_name && <p className="font-mono text-gray-500">{event.tool_name}</p>}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-700">
+                          {event.account_email || '—'}
+                          {event.resource && <p className="text-gray-500">{event.resource}</p>}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-500">
+                          {event.event === 'tool_call' && (
+                            <p>
+                              {formatBytes(event.result_bytes)}
+                              {event.duration_ms !== null && event.status !== 'cached' && ` · ${event.duration_ms} ms`}
+                            </p>
+                          )}
+                          {event.args_hash && (
+                            <p className="font-mono text-gray-400" title={event.args_hash}>{event.args_hash.substring(0, 12)}</p>
+                          )}
+                          {event.error && <p className="text-red-600 max-w-xs truncate" title={event.error}>{event.error}</p>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {nextCursor && (
+              <div className="text-center">
+                <button
+                  onClick={() => loadEvents(applied, nextCursor)}
+                  disabled={loading}
+                  className="px-4 py-2 bg-white text-indigo-600 text-sm font-medium rounded-lg shadow hover:bg-indigo-50 transition-all disabled:opacity-50"
+                >
+                  {loading ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,666 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import Toast, { ToastType } from '@/components/Toast'
+import ConfirmModal from '@/components/ConfirmModal'
+import ResourcePicker from '@/components/ResourcePicker'
+import ChartBlock from '@/components/ChartBlock'
+
+type MonitorRule = 'change' | 'zscore' | 'threshold'
+type MonitorDirection = 'drop' | 'rise' | 'either'
+
+interface MetricMonitor {
+  id: string
+  name: string
+  server_name: string
+  connection_id: string
+  resource: string
+  metric: string
+  rule: MonitorRule
+  direction: MonitorDirection
+  threshold: number
+  baseline_days: number
+  cron: string
+  timezone: string
+  open_conversation: boolean
+  enabled: boolean
+  next_run_at: string | null
+  last_checked_at: string | null
+  last_value: number | null
+  last_status: 'ok' | 'triggered' | 'failed' | null
+  last_error: string | null
+}
+
+interface MonitorSource {
+  server_name: string
+  label: string
+  resource_label: string
+  lag_days: number
+  metrics: { id: string; label: string }[]
+}
+
+interface AccountOption {
+  id: string
+  email: string | null
+  defaultResource: string | null
+  needsReauth?: boolean
+}
+
+interface Observation {
+  observed_date: string
+  value: number
+}
+
+const SCHEDULE_PRESETS = [
+  { label: 'Every day at 08:00', cron: '0 8 * * *' },
+  { label: 'Every weekday at 08:00', cron: '0 8 * * 1-5' },
+  { label: 'Every Monday at 08:00', cron: '0 8 * * 1' }
+]
+
+const emptyForm = {
+  name: '',
+  server_name: 'google-search-console',
+  connection_id: '',
+  resource: '',
+  metric: 'clicks',
+  rule: 'change' as MonitorRule,
+  direction: 'drop' as MonitorDirection,
+  threshold: '25',
+  baseline_days: '28',
+  cron: SCHEDULE_PRESETS[0].cron,
+  timezone: 'UTC',
+  open_conversation: true
+}
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : '—'
+
+const describeRule = (monitor: Pick<MetricMonitor, 'rule' | 'direction' | 'threshold' | 'baseline_days'>) => {
+  if (monitor.rule === 'threshold') {
+    return `${monitor.direction === 'drop' ? 'falls below' : 'rises above'} ${monitor.threshold}`
+  }
+  const verb = monitor.direction === 'drop' ? 'drops' : monitor.direction === 'rise' ? 'rises' : 'moves'
+  return monitor.rule === 'change'
+    ? `${verb} more than ${monitor.threshold}% day-over-day`
+    : `${verb} more than ${monitor.threshold}σ from the ${monitor.baseline_days}-day baseline`
+}
+
+export default function MonitorSettings() {
+  const [monitors, setMonitors] = useState<MetricMonitor[]>([])
+  const [sources, setSources] = useState<MonitorSource[]>([])
+  const [accounts, setAccounts] = useState<Record<string, AccountOption[]>>({})
+  const [form, setForm] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+  const [seriesMonitorId, setSeriesMonitorId] = useState<string | null>(null)
+  const [series, setSeries] = useState<Observation[] | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<MetricMonitor | null>(null)
+  const router = useRouter()
+
+  const authHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      router.push('/login')
+      throw new Error('Session expired, please login again')
+    }
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    }
+  }
+
+  useEffect(() => {
+    const loadMonitors = async () => {
+      try {
+        const headers = await authHeaders()
+        const [monitorsResponse, statusResponse] = await Promise.all([
+          fetch('/api/monitors', { headers }),
+          fetch('/api/connections/status', { headers })
+        ])
+        const data = await monitorsResponse.json()
+
+        if (!monitorsResponse.ok) {
+          throw new Error(data.error || 'Failed to load monitors')
+        }
+
+        setMonitors(data.monitors)
+        setSources(data.sources)
+
+        if (statusResponse.ok) {
+          const status = await statusResponse.json()
+          const linked: Record<string, AccountOption[]> = {}
+          for (const server of status.servers) {
+            linked[server.id] = server.accounts
+          }
+          setAccounts(linked)
+        }
+      } catch (error: any) {
+        setToast({ message: error.message, type: 'error' })
+      }
+    }
+
+    setForm(prev => ({ ...prev, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC' }))
+    loadMonitors()
+  }, [])
+
+  const source = sources.find(s => s.server_name === form.server_name)
+  const sourceAccounts = accounts[form.server_name] || []
+
+  // Default to the server's first account and that account's picked property/site
+  useEffect(() => {
+    if (form.connection_id || sourceAccounts.length === 0) return
+    const account = sourceAccounts[0]
+    setForm(prev => ({ ...prev, connection_id: account.id, resource: prev.resource || account.defaultResource || '' }))
+  }, [form.server_name, form.connection_id, sourceAccounts.length])
+
+  const updateForm = (changes: Partial<typeof emptyForm>) => {
+    setForm(prev => ({ ...prev, ...changes }))
+  }
+
+  const changeServer = (serverName: string) => {
+    const nextSource = sources.find(s => s.server_name === serverName)
+    updateForm({
+      server_name: serverName,
+      connection_id: '',
+      resource: '',
+      metric: nextSource?.metrics[0]?.id || ''
+    })
+  }
+
+  const changeRule = (rule: MonitorRule) => {
+    updateForm({
+      rule,
+      direction: rule === 'threshold' && form.direction === 'either' ? 'drop' : form.direction,
+      threshold: rule === 'zscore' ? '3' : rule === 'change' ? '25' : form.threshold
+    })
+  }
+
+  const editMonitor = (monitor: MetricMonitor) => {
+    setEditingId(monitor.id)
+    setForm({
+      name: monitor.name,
+      server_name: monitor.server_name,
+      connection_id: monitor.connection_id,
+      resource: monitor.resource,
+      metric: monitor.metric,
+      rule: monitor.rule,
+      direction: monitor.direction,
+      threshold: String(monitor.threshold),
+      baseline_days: String(monitor.baseline_days),
+      cron: monitor.cron,
+      timezone: monitor.timezone,
+      open_conversation: monitor.open_conversation
+    })
+  }
+
+  const cancelEdit = () => {
+    setEditingId(null)
+    setForm(prev => ({ ...emptyForm, timezone: prev.timezone }))
+  }
+
+  const saveMonitor = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch(editingId ? `/api/monitors/${editingId}` : '/api/monitors', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          ...form,
+          threshold: Number(form.threshold),
+          baseline_days: Number(form.baseline_days)
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save monitor')
+      }
+
+      setMonitors(prev => editingId
+        ? prev.map(m => m.id === editingId ? data.monitor : m)
+        : [...prev, data.monitor])
+      if (seriesMonitorId === editingId) setSeriesMonitorId(null)
+      setToast({ message: `${data.monitor.name} ${editingId ? 'updated' : 'created'}`, type: 'success' })
+      cancelEdit()
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleMonitor = async (monitor: MetricMonitor) => {
+    try {
+      const response = await fetch(`/api/monitors/${monitor.id}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify({ enabled: !monitor.enabled })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update monitor')
+      }
+
+      setMonitors(prev => prev.map(m => m.id === monitor.id ? data.monitor : m))
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    }
+  }
+
+  const loadSeries = async (monitorId: string) => {
+    setSeries(null)
+
+    try {
+      const response = await fetch(`/api/monitors/${monitorId}/observations`, { headers: await authHeaders() })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load history')
+      }
+
+      setSeries(data.observations)
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    }
+  }
+
+  const toggleSeries = (monitor: MetricMonitor) => {
+    if (seriesMonitorId === monitor.id) {
+      setSeriesMonitorId(null)
+      return
+    }
+    setSeriesMonitorId(monitor.id)
+    loadSeries(monitor.id)
+  }
+
+  const checkNow = async (monitor: MetricMonitor) => {
+    setCheckingId(monitor.id)
+
+    try {
+      const response = await fetch(`/api/monitors/${monitor.id}/check`, {
+        method: 'POST',
+        headers: await authHeaders()
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check monitor')
+      }
+
+      const { check } = data
+      setToast(check.status === 'failed'
+        ? { message: `${monitor.name} failed: ${check.error}`, type: 'error' }
+        : check.status === 'triggered'
+          ? { message: `${monitor.name} triggered${check.alerted ? '' : ' (already alerted for this day)'}`, type: 'warning' }
+          : { message: check.evaluation ? `${monitor.name} is within range` : `${monitor.name}: not enough history yet`, type: 'success' })
+      if (data.monitor) {
+        setMonitors(prev => prev.map(m => m.id === monitor.id ? data.monitor : m))
+      }
+      if (seriesMonitorId === monitor.id) loadSeries(monitor.id)
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setCheckingId(null)
+    }
+  }
+
+  const deleteMonitor = async () => {
+    if (!deleteTarget) return
+
+    try {
+      const response = await fetch(`/api/monitors/${deleteTarget.id}`, {
+        method: 'DELETE',
+        headers: await authHeaders()
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete monitor')
+      }
+
+      setMonitors(prev => prev.filter(m => m.id !== deleteTarget.id))
+      if (editingId === deleteTarget.id) cancelEdit()
+      if (seriesMonitorId === deleteTarget.id) setSeriesMonitorId(null)
+      setToast({ message: `${deleteTarget.name} deleted`, type: 'info' })
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setDeleteTarget(null)
+    }
+  }
+
+  const metricLabel = (monitor: MetricMonitor) =>
+    sources.find(s => s.server_name === monitor.server_name)?.metrics.find(m => m.id === monitor.metric)?.label || monitor.metric
+
+  const seriesChart = (monitor: MetricMonitor) => JSON.stringify({
+    type: 'line',
+    title: `${metricLabel(monitor)}, ${monitor.resource}`,
+    x: 'date',
+    y: [monitor.metric],
+    data: (series || []).map(point => ({ date: point.observed_date, [monitor.metric]: point.value }))
+  })
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 transition-all'
+  const isPreset = SCHEDULE_PRESETS.some(p => p.cron === form.cron)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-4xl mx-auto py-10 px-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Metric Monitors</h1>
+            <p className="text-sm text-gray-600 mt-1">Get notified when a GA4 or Search Console metric moves unexpectedly.</p>
+          </div>
+          <Link href="/chat" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            ← Back to chat
+          </Link>
+        </div>
+
+        {/* Monitors */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 divide-y divide-gray-100">
+          {monitors.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 text-center">No monitors yet</p>
+          ) : (
+            monitors.map((monitor) => (
+              <div key={monitor.id} className="p-4">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800 text-sm">
+                      {monitor.last_status && (
+                        <span className={`inline-block mr-2 px-2 py-0.5 rounded text-xs font-medium ${
+                          monitor.last_status === 'ok' ? 'bg-green-100 text-green-700'
+                            : monitor.last_status === 'triggered' ? 'bg-yellow-100 text-yellow-700'
+                            : 'bg-red-100 text-red-700'
+                        }`}>
+                          {monitor.last_status}
+                        </span>
+                      )}
+                      {monitor.name}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {metricLabel(monitor)} on {monitor.resource} {describeRule(monitor)}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      Next: {monitor.enabled ? formatTime(monitor.next_run_at) : 'paused'} · Last checked: {formatTime(monitor.last_checked_at)}
+                      {monitor.last_value !== null && ` · Last value: ${monitor.last_value.toLocaleString()}`}
+                    </p>
+                    {monitor.last_error && <p className="mt-1 text-xs text-red-600">⚠️ {monitor.last_error}</p>}
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4 shrink-0">
+                    <button
+                      onClick={() => toggleSeries(monitor)}
+                      className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-all"
+                    >
+                      {seriesMonitorId === monitor.id ? 'Hide history' : 'History'}
+                    </button>
+                    <button
+                      onClick={() => checkNow(monitor)}
+                      disabled={checkingId !== null}
+                      className="px-3 py-1.5 bg-indigo-50 text-indigo-600 text-xs font-medium rounded hover:bg-indigo-100 transition-all disabled:opacity-50"
+                    >
+                      {checkingId === monitor.id ? 'Checking...' : 'Check now'}
+                    </button>
+                    <button
+                      onClick={() => toggleMonitor(monitor)}
+                      className={`px-3 py-1.5 text-xs font-medium rounded transition-all ${
+                        monitor.enabled
+                          ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {monitor.enabled ? 'Active' : 'Paused'}
+                    </button>
+                    <button
+                      onClick={() => editMonitor(monitor)}
+                      className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-all"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setDeleteTarget(monitor)}
+                      className="px-3 py-1.5 bg-red-500 text-white text-xs font-medium rounded hover:bg-red-600 transition-all"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {seriesMonitorId === monitor.id && (
+                  <div className="mt-3">
+                    {!series ? (
+                      <p className="text-xs text-gray-500">Loading history...</p>
+                    ) : series.length === 0 ? (
+                      <p className="text-xs text-gray-500">No observations yet. Check the monitor to fetch its history.</p>
+                    ) : (
+                      <ChartBlock source={seriesChart(monitor)} pending={false} />
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Create or edit */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-4">
+          <h2 className="font-semibold text-gray-800">{editingId ? 'Edit monitor' : 'New monitor'}</h2>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 mb-1">Name</label>
+            <input
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              className={inputClass}
+              placeholder="Organic clicks drop"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Service</label>
+              <select
+                value={form.server_name}
+                onChange={(e) => changeServer(e.target.value)}
+                className={inputClass}
+              >
+                {sources.map((s) => (
+                  <option key={s.server_name} value={s.server_name}>{s.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Account</label>
+              <select
+                value={form.connection_id}
+                onChange={(e) => updateForm({ connection_id: e.target.value, resource: '' })}
+                className={inputClass}
+              >
+                {sourceAccounts.length === 0 && <option value="">Not connected</option>}
+                {sourceAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.email || 'Google account'}{account.needsReauth ? ' (reconnect needed)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">
+                {source ? source.resource_label.charAt(0).toUpperCase() + source.resource_label.slice(1) : 'Resource'}
+              </label>
+              {form.connection_id ? (
+                <ResourcePicker
+                  connectionId={form.connection_id}
+                  value={form.resource || null}
+                  onChange={(value) => updateForm({ resource: value || '' })}
+                  emptyLabel={`Choose a ${source?.resource_label || 'resource'}`}
+                />
+              ) : (
+                <p className="mt-2 text-xs text-gray-400">Connect an account first</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Metric</label>
+              <select
+                value={form.metric}
+                onChange={(e) => updateForm({ metric: e.target.value })}
+                className={inputClass}
+              >
+                {(source?.metrics || []).map((metric) => (
+                  <option key={metric.id} value={metric.id}>{metric.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Rule</label>
+              <select
+                value={form.rule}
+                onChange={(e) => changeRule(e.target.value as MonitorRule)}
+                className={inputClass}
+              >
+                <option value="change">Day-over-day change (%)</option>
+                <option value="zscore">Deviation from baseline (σ)</option>
+                <option value="threshold">Fixed threshold</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Alert when it</label>
+              <select
+                value={form.direction}
+                onChange={(e) => updateForm({ direction: e.target.value as MonitorDirection })}
+                className={inputClass}
+              >
+                <option value="drop">{form.rule === 'threshold' ? 'Falls below' : 'Drops'}</option>
+                <option value="rise">{form.rule === 'threshold' ? 'Rises above' : 'Rises'}</option>
+                {form.rule !== 'threshold' && <option value="either">Moves either way</option>}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">
+                {form.rule === 'change' ? 'By more than (%)' : form.rule === 'zscore' ? 'By more than (σ)' : 'Threshold'}
+              </label>
+              <input
+                type="number"
+                value={form.threshold}
+                onChange={(e) => updateForm({ threshold: e.target.value })}
+                className={inputClass}
+                step="any"
+              />
+            </div>
+            {form.rule === 'zscore' && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Baseline (days)</label>
+                <input
+                  type="number"
+                  value={form.baseline_days}
+                  onChange={(e) => updateForm({ baseline_days: e.target.value })}
+                  className={inputClass}
+                  min={7}
+                  max={90}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Schedule</label>
+              <select
+                value={isPreset ? form.cron : 'custom'}
+                onChange={(e) => updateForm({ cron: e.target.value === 'custom' ? '' : e.target.value })}
+                className={inputClass}
+              >
+                {SCHEDULE_PRESETS.map((preset) => (
+                  <option key={preset.cron} value={preset.cron}>{preset.label}</option>
+                ))}
+                <option value="custom">Custom cron expression</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Cron</label>
+              <input
+                value={form.cron}
+                onChange={(e) => updateForm({ cron: e.target.value })}
+                className={`${inputClass} font-mono`}
+                placeholder="0 8 * * *"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Timezone</label>
+              <input
+                value={form.timezone}
+                onChange={(e) => updateForm({ timezone: e.target.value })}
+                className={inputClass}
+                placeholder="Europe/Berlin"
+              />
+            </div>
+          </div>
+
+          {source && (
+            <p className="text-xs text-gray-500">
+              Each check looks at the most recent complete day ({source.lag_days === 1 ? 'yesterday' : `${source.lag_days} days ago`}, since {source.label} data takes that long to settle).
+            </p>
+          )}
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.open_conversation}
+              onChange={(e) => updateForm({ open_conversation: e.target.checked })}
+              className="mr-2 accent-indigo-600"
+            />
+            Start a conversation about each alert so I can ask the assistant why
+          </label>
+
+          <div className="flex justify-end space-x-3">
+            {editingId && (
+              <button
+                onClick={cancelEdit}
+                className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-all"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={saveMonitor}
+              disabled={saving || !form.name.trim() || !form.connection_id || !form.resource}
+              className="px-4 py-2 text-sm font-semibold text-white bg-gradient-to-r from-indigo-500 to-purple-600 rounded-lg hover:shadow-md transition-all disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save changes' : 'Create monitor'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!deleteTarget}
+        title={`Delete ${deleteTarget?.name}?`}
+        message="The monitor and its history are removed. Past notifications and alert conversations stay."
+        type="danger"
+        confirmText="Delete"
+        onConfirm={deleteMonitor}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,560 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import Toast, { ToastType } from '@/components/Toast'
+import ConfirmModal from '@/components/ConfirmModal'
+
+type DeliveryMethod = 'email' | 'webhook' | 'none'
+
+interface ScheduledReport {
+  id: string
+  name: string
+  prompt: string
+  cron: string
+  timezone: string
+  services: string[] | null
+  delivery_method: DeliveryMethod
+  delivery_target: string | null
+  enabled: boolean
+  next_run_at: string | null
+  last_run_at: string | null
+}
+
+interface ReportRun {
+  id: string
+  report_id: string
+  trigger: 'schedule' | 'manual'
+  status: 'running' | 'succeeded' | 'failed'
+  conversation_id: string | null
+  error: string | null
+  delivery_status: 'sent' | 'failed' | 'skipped' | null
+  delivery_error: string | null
+  started_at: string
+  finished_at: string | null
+}
+
+interface ServerOption {
+  key: string
+  name: string
+  connected: boolean
+}
+
+const SCHEDULE_PRESETS = [
+  { label: 'Every Monday at 09:00', cron: '0 9 * * 1' },
+  { label: 'Every weekday at 08:00', cron: '0 8 * * 1-5' },
+  { label: 'Every day at 07:00', cron: '0 7 * * *' },
+  { label: 'First day of the month at 09:00', cron: '0 9 1 * *' }
+]
+
+const emptyForm = {
+  name: '',
+  prompt: '',
+  cron: SCHEDULE_PRESETS[0].cron,
+  timezone: 'UTC',
+  services: [] as string[],
+  delivery_method: 'none' as DeliveryMethod,
+  delivery_target: ''
+}
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : '—'
+
+export default function ReportSettings() {
+  const [reports, setReports] = useState<ScheduledReport[]>([])
+  const [runs, setRuns] = useState<ReportRun[]>([])
+  const [servers, setServers] = useState<ServerOption[]>([])
+  const [emailConfigured, setEmailConfigured] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [runningId, setRunningId] = useState<string | null>(null)
+  const [historyReportId, setHistoryReportId] = useState('')
+  const [failuresOnly, setFailuresOnly] = useState(false)
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<ScheduledReport | null>(null)
+  const router = useRouter()
+
+  const authHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      router.push('/login')
+      throw new Error('Session expired, please login again')
+    }
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    }
+  }
+
+  useEffect(() => {
+    const loadReports = async () => {
+      try {
+        const headers = await authHeaders()
+        const [reportsResponse, statusResponse] = await Promise.all([
+          fetch('/api/reports', { headers }),
+          fetch('/api/connections/status', { headers })
+        ])
+        const data = await reportsResponse.json()
+
+        if (!reportsResponse.ok) {
+          throw new Error(data.error || 'Failed to load reports')
+        }
+
+        setReports(data.reports)
+        setEmailConfigured(data.emailConfigured)
+
+        if (statusResponse.ok) {
+          const status = await statusResponse.json()
+          setServers(status.servers.map((s: ServerOption) => ({ key: s.key, name: s.name, connected: s.connected })))
+        }
+      } catch (error: any) {
+        setToast({ message: error.message, type: 'error' })
+      }
+    }
+
+    setForm(prev => ({ ...prev, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC' }))
+    loadReports()
+  }, [])
+
+  const loadRuns = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (historyReportId) params.set('reportId', historyReportId)
+      if (failuresOnly) params.set('failures', 'true')
+
+      const response = await fetch(`/api/reports/runs?${params}`, { headers: await authHeaders() })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load run history')
+      }
+
+      setRuns(data.runs)
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    }
+  }
+
+  useEffect(() => {
+    loadRuns()
+  }, [historyReportId, failuresOnly])
+
+  const updateForm = (changes: Partial<typeof emptyForm>) => {
+    setForm(prev => ({ ...prev, ...changes }))
+  }
+
+  const toggleService = (key: string) => {
+    updateForm({
+      services: form.services.includes(key)
+        ? form.services.filter(s => s !== key)
+        : [...form.services, key]
+    })
+  }
+
+  const editReport = (report: ScheduledReport) => {
+    setEditingId(report.id)
+    setForm({
+      name: report.name,
+      prompt: report.prompt,
+      cron: report.cron,
+      timezone: report.timezone,
+      services: report.services || [],
+      delivery_method: report.delivery_method,
+      delivery_target: report.delivery_target || ''
+    })
+  }
+
+  const cancelEdit = () => {
+    setEditingId(null)
+    setForm(prev => ({ ...emptyForm, timezone: prev.timezone }))
+  }
+
+  const saveReport = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch(editingId ? `/api/reports/${editingId}` : '/api/reports', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ ...form, services: form.services.length > 0 ? form.services : null })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save report')
+      }
+
+      setReports(prev => editingId
+        ? prev.map(r => r.id === editingId ? data.report : r)
+        : [...prev, data.report])
+      setToast({ message: `${data.report.name} ${editingId ? 'updated' : 'scheduled'}`, type: 'success' })
+      cancelEdit()
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleReport = async (report: ScheduledReport) => {
+    try {
+      const response = await fetch(`/api/reports/${report.id}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify({ enabled: !report.enabled })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update report')
+      }
+
+      setReports(prev => prev.map(r => r.id === report.id ? data.report : r))
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    }
+  }
+
+  const runNow = async (report: ScheduledReport) => {
+    setRunningId(report.id)
+
+    try {
+      const response = await fetch(`/api/reports/${report.id}/run`, {
+        method: 'POST',
+        headers: await authHeaders()
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run report')
+      }
+
+      setToast(data.run.status === 'succeeded'
+        ? { message: `${report.name} finished${data.run.delivery_status === 'failed' ? ', but delivery failed' : ''}`, type: data.run.delivery_status === 'failed' ? 'warning' : 'success' }
+        : { message: `${report.name} failed: ${data.run.error}`, type: 'error' })
+      setReports(prev => prev.map(r => r.id === report.id ? { ...r, last_run_at: data.run.started_at } : r))
+      loadRuns()
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setRunningId(null)
+    }
+  }
+
+  const deleteReport = async () => {
+    if (!deleteTarget) return
+
+    try {
+      const response = await fetch(`/api/reports/${deleteTarget.id}`, {
+        method: 'DELETE',
+        headers: await authHeaders()
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete report')
+      }
+
+      setReports(prev => prev.filter(r => r.id !== deleteTarget.id))
+      setRuns(prev => prev.filter(run => run.report_id !== deleteTarget.id))
+      if (editingId === deleteTarget.id) cancelEdit()
+      setToast({ message: `${deleteTarget.name} deleted`, type: 'info' })
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setDeleteTarget(null)
+    }
+  }
+
+  const reportName = (reportId: string) => reports.find(r => r.id === reportId)?.name || 'Deleted report'
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 transition-all'
+  const isPreset = SCHEDULE_PRESETS.some(p => p.cron === form.cron)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-4xl mx-auto py-10 px-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Scheduled Reports</h1>
+            <p className="text-sm text-gray-600 mt-1">Saved prompts the assistant runs on a schedule and sends to you.</p>
+          </div>
+          <Link href="/chat" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            ← Back to chat
+          </Link>
+        </div>
+
+        {/* Reports */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 divide-y divide-gray-100">
+          {reports.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 text-center">No scheduled reports yet</p>
+          ) : (
+            reports.map((report) => (
+              <div key={report.id} className="flex items-center justify-between p-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 text-sm">
+                    {report.name} <span className="text-xs font-mono text-indigo-600">{report.cron}</span>
+                    <span className="text-xs text-gray-400"> ({report.timezone})</span>
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">{report.prompt}</p>
+                  <p className="text-xs text-gray-400">
+                    Next: {report.enabled ? formatTime(report.next_run_at) : 'paused'} · Last: {formatTime(report.last_run_at)}
+                    {report.delivery_method !== 'none' && ` · ${report.delivery_method === 'email' ? '✉️' : '🔗'} ${report.delivery_target}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 ml-4 shrink-0">
+                  <button
+                    onClick={() => runNow(report)}
+                    disabled={runningId !== null}
+                    className="px-3 py-1.5 bg-indigo-50 text-indigo-600 text-xs font-medium rounded hover:bg-indigo-100 transition-all disabled:opacity-50"
+                  >
+                    {runningId === report.id ? 'Running...' : 'Run now'}
+                  </button>
+                  <button
+                    onClick={() => toggleReport(report)}
+                    className={`px-3 py-1.5 text-xs font-medium rounded transition-all ${
+                      report.enabled
+                        ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {report.enabled ? 'Active' : 'Paused'}
+                  </button>
+                  <button
+                    onClick={() => editReport(report)}
+                    className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-all"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setDeleteTarget(report)}
+                    className="px-3 py-1.5 bg-red-500 text-white text-xs font-medium rounded hover:bg-red-600 transition-all"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Create or edit */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-4">
+          <h2 className="font-semibold text-gray-800">{editingId ? 'Edit report' : 'New report'}</h2>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 mb-1">Name</label>
+            <input
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              className={inputClass}
+              placeholder="Weekly GSC queries"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 mb-1">Prompt</label>
+            <textarea
+              value={form.prompt}
+              onChange={(e) => updateForm({ prompt: e.target.value })}
+              className={inputClass}
+              rows={3}
+              placeholder="Top 20 GSC queries by clicks last week vs the previous week"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Schedule</label>
+              <select
+                value={isPreset ? form.cron : 'custom'}
+                onChange={(e) => updateForm({ cron: e.target.value === 'custom' ? '' : e.target.value })}
+                className={inputClass}
+              >
+                {SCHEDULE_PRESETS.map((preset) => (
+                  <option key={preset.cron} value={preset.cron}>{preset.label}</option>
+                ))}
+                <option value="custom">Custom cron expression</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Cron</label>
+              <input
+                value={form.cron}
+                onChange={(e) => updateForm({ cron: e.target.value })}
+                className={`${inputClass} font-mono`}
+                placeholder="0 9 * * 1"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Timezone</label>
+              <input
+                value={form.timezone}
+                onChange={(e) => updateForm({ timezone: e.target.value })}
+                className={inputClass}
+                placeholder="Europe/Berlin"
+              />
+            </div>
+          </div>
+
+          {servers.length > 0 && (
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Services (none selected = all connected)</label>
+              <div className="flex flex-wrap gap-3">
+                {servers.map((server) => (
+                  <label key={server.key} className={`flex items-center text-sm ${server.connected ? 'text-gray-700' : 'text-gray-400'}`}>
+                    <input
+                      type="checkbox"
+                      checked={form.services.includes(server.key)}
+                      onChange={() => toggleService(server.key)}
+                      className="mr-2 accent-indigo-600"
+                    />
+                    {server.name}{!server.connected && ' (not connected)'}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Delivery</label>
+              <select
+                value={form.delivery_method}
+                onChange={(e) => updateForm({ delivery_method: e.target.value as DeliveryMethod })}
+                className={inputClass}
+              >
+                <option value="none">Only save to chat</option>
+                <option value="email" disabled={!emailConfigured}>
+                  Email{!emailConfigured ? ' (SMTP not configured)' : ''}
+                </option>
+                <option value="webhook">Webhook (Slack-compatible)</option>
+              </select>
+            </div>
+            {form.delivery_method !== 'none' && (
+              <div className="col-span-2">
+                <label className="block text-xs font-semibold text-gray-700 mb-1">
+                  {form.delivery_method === 'email' ? 'Email address (yours or a workspace member\'s)' : 'Webhook URL'}
+                </label>
+                <input
+                  value={form.delivery_target}
+                  onChange={(e) => updateForm({ delivery_target: e.target.value })}
+                  className={inputClass}
+                  placeholder={form.delivery_method === 'email' ? 'you@example.com' : 'https://hooks.slack.com/services/...'}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            {editingId && (
+              <button
+                onClick={cancelEdit}
+                className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-all"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={saveReport}
+              disabled={saving || !form.name.trim() || !form.prompt.trim()}
+              className="px-4 py-2 text-sm font-semibold text-white bg-gradient-to-r from-indigo-500 to-purple-600 rounded-lg hover:shadow-md transition-all disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save changes' : 'Schedule report'}
+            </button>
+          </div>
+        </div>
+
+        {/* Run history */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100">
+          <div className="flex items-center justify-between p-4 border-b border-gray-100">
+            <h2 className="font-semibold text-gray-800">Run history</h2>
+            <div className="flex items-center space-x-4">
+              <select
+                value={historyReportId}
+                onChange={(e) => setHistoryReportId(e.target.value)}
+                className="px-2 py-1 border border-gray-200 rounded text-xs text-gray-700 bg-white focus:outline-none focus:border-indigo-400"
+              >
+                <option value="">All reports</option>
+                {reports.map((report) => (
+                  <option key={report.id} value={report.id}>{report.name}</option>
+                ))}
+              </select>
+              <label className="flex items-center text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={failuresOnly}
+                  onChange={(e) => setFailuresOnly(e.target.checked)}
+                  className="mr-1 accent-indigo-600"
+                />
+                Failures only
+              </label>
+              <button onClick={loadRuns} className="text-xs font-medium text-indigo-600 hover:text-indigo-700">
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {runs.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 text-center">No runs yet</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {runs.map((run) => (
+                <div key={run.id} className="p-4 text-sm">
+                  <div className="flex items-center justify-between">
+                    <p className="text-gray-800">
+                      <span className={`inline-block mr-2 px-2 py-0.5 rounded text-xs font-medium ${
+                        run.status === 'succeeded' ? 'bg-green-100 text-green-700'
+                          : run.status === 'failed' ? 'bg-red-100 text-red-700'
+                          : 'bg-yellow-100 text-yellow-700'
+                      }`}>
+                        {run.status}
+                      </span>
+                      {reportName(run.report_id)}
+                      <span className="text-xs text-gray-400"> · {run.trigger === 'manual' ? 'run manually' : 'scheduled'} · {formatTime(run.started_at)}</span>
+                    </p>
+                    <div className="flex items-center space-x-3 text-xs">
+                      {run.delivery_status && (
+                        <span className={run.delivery_status === 'failed' ? 'text-red-600' : 'text-gray-500'}>
+                          Delivery {run.delivery_status}
+                        </span>
+                      )}
+                      {run.conversation_id && (
+                        <Link href={`/chat?conversation=${run.conversation_id}`} className="font-medium text-indigo-600 hover:text-indigo-700">
+                          Open
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                  {run.error && <p className="mt-1 text-xs text-red-600">⚠️ {run.error}</p>}
+                  {run.delivery_error && <p className="mt-1 text-xs text-red-600">✉️ {run.delivery_error}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!deleteTarget}
+        title={`Delete ${deleteTarget?.name}?`}
+        message="The schedule and its run history are removed. Conversations from earlier runs stay in the chat."
+        type="danger"
+        confirmText="Delete"
+        onConfirm={deleteReport}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  )
+}
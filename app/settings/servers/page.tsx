@@ -0,0 +1,386 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import Toast, { ToastType } from '@/components/Toast'
+import ConfirmModal from '@/components/ConfirmModal'
+
+type Transport = 'stdio' | 'http' | 'sse'
+
+interface CustomServer {
+  id: string
+  name: string
+  tool_prefix: string
+  transport: Transport
+  command: string | null
+  args: string[]
+  url: string | null
+  has_api_key: boolean
+  enabled: boolean
+}
+
+interface TestedTool {
+  name: string
+  description: string
+}
+
+const emptyForm = {
+  name: '',
+  tool_prefix: '',
+  transport: 'http' as Transport,
+  command: '',    // A whole approved command line, split into command and args when sent
+  url: '',
+  api_key: ''
+}
+
+export default function ServerSettings() {
+  const [servers, setServers] = useState<CustomServer[]>([])
+  const [stdioAllowlist, setStdioAllowlist] = useState<string[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [testing, setTesting] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [testedTools, setTestedTools] = useState<TestedTool[] | null>(null)
+  const [testError, setTestError] = useState('')
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<CustomServer | null>(null)
+  const router = useRouter()
+
+  const authHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      router.push('/login')
+      throw new Error('Session expired, please login again')
+    }
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    }
+  }
+
+  // Make the chat page re-check connections so server changes show up there
+  const invalidateConnectionStatus = async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (session) {
+      sessionStorage.removeItem(`connections_checked_${session.user.id}`)
+    }
+  }
+
+  useEffect(() => {
+    const loadServers = async () => {
+      try {
+        const response = await fetch('/api/servers', { headers: await authHeaders() })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load servers')
+        }
+
+        setServers(data.servers)
+        setStdioAllowlist(data.stdioAllowlist)
+      } catch (error: any) {
+        setToast({ message: error.message, type: 'error' })
+      }
+    }
+    loadServers()
+  }, [])
+
+  // Any edit invalidates the previous test result
+  const updateForm = (changes: Partial<typeof emptyForm>) => {
+    setForm(prev => ({ ...prev, ...changes }))
+    setTestedTools(null)
+    setTestError('')
+  }
+
+  const requestBody = () => {
+    const [command, ...args] = form.command.split(' ')
+    return JSON.stringify({ ...form, command, args })
+  }
+
+  const testConnection = async () => {
+    setTesting(true)
+    setTestedTools(null)
+    setTestError('')
+
+    try {
+      const response = await fetch('/api/servers/test', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: requestBody()
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        setTestError(data.error || 'Connection failed')
+      } else {
+        setTestedTools(data.tools)
+      }
+    } catch (error: any) {
+      setTestError(error.message)
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const saveServer = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/servers', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: requestBody()
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save server')
+      }
+
+      setServers(prev => [...prev, data.server])
+      invalidateConnectionStatus()
+      setForm(emptyForm)
+      setTestedTools(null)
+      setToast({ message: `${data.server.name} added`, type: 'success' })
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleServer = async (server: CustomServer) => {
+    try {
+      const response = await fetch(`/api/servers/${server.id}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify({ enabled: !server.enabled })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update server')
+      }
+
+      setServers(prev => prev.map(s => s.id === server.id ? data.server : s))
+      invalidateConnectionStatus()
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    }
+  }
+
+  const deleteServer = async () => {
+    if (!deleteTarget) return
+
+    try {
+      const response = await fetch(`/api/servers/${deleteTarget.id}`, {
+        method: 'DELETE',
+        headers: await authHeaders()
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete server')
+      }
+
+      setServers(prev => prev.filter(s => s.id !== deleteTarget.id))
+      invalidateConnectionStatus()
+      setToast({ message: `${deleteTarget.name} removed`, type: 'info' })
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setDeleteTarget(null)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 transition-all'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-3xl mx-auto py-10 px-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Custom MCP Servers</h1>
+            <p className="text-sm text-gray-600 mt-1">Register your own servers; their tools appear in chat under their prefix.</p>
+          </div>
+          <Link href="/chat" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            ← Back to chat
+          </Link>
+        </div>
+
+        {/* Registered servers */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 divide-y divide-gray-100">
+          {servers.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 text-center">No custom servers yet</p>
+          ) : (
+            servers.map((server) => (
+              <div key={server.id} className="flex items-center justify-between p-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 text-sm">
+                    {server.name} <span className="text-xs font-mono text-indigo-600">{server.tool_prefix}_*</span>
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {server.transport === 'stdio'
+                      ? `${server.command} ${server.args.join(' ')}`
+                      : `${server.transport.toUpperCase()} ${server.url}${server.has_api_key ? ' · API key set' : ''}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  <button
+                    onClick={() => toggleServer(server)}
+                    className={`px-3 py-1.5 text-xs font-medium rounded transition-all ${
+                      server.enabled
+                        ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {server.enabled ? 'Enabled' : 'Disabled'}
+                  </button>
+                  <button
+                    onClick={() => setDeleteTarget(server)}
+                    className="px-3 py-1.5 bg-red-500 text-white text-xs font-medium rounded hover:bg-red-600 transition-all"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Add server */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-4">
+          <h2 className="font-semibold text-gray-800">Add a server</h2>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Name</label>
+              <input
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                className={inputClass}
+                placeholder="Ahrefs"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Tool prefix</label>
+              <input
+                value={form.tool_prefix}
+                onChange={(e) => updateForm({ tool_prefix: e.target.value.toLowerCase() })}
+                className={inputClass}
+                placeholder="ahrefs"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 mb-1">Transport</label>
+            <select
+              value={form.transport}
+              onChange={(e) => updateForm({ transport: e.target.value as Transport })}
+              className={inputClass}
+            >
+              <option value="http">Streamable HTTP</option>
+              <option value="sse">SSE</option>
+              <option value="stdio" disabled={stdioAllowlist.length === 0}>
+                Local command{stdioAllowlist.length === 0 ? ' (none approved)' : ''}
+              </option>
+            </select>
+          </div>
+
+          {form.transport === 'stdio' ? (
+            <div>
+              <label className="block text-xs font-semibold text-gray-700 mb-1">Command</label>
+              <select
+                value={form.command}
+                onChange={(e) => updateForm({ command: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select an approved command</option>
+                {stdioAllowlist.map((commandLine) => (
+                  <option key={commandLine} value={commandLine}>{commandLine}</option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Server URL</label>
+                <input
+                  value={form.url}
+                  onChange={(e) => updateForm({ url: e.target.value })}
+                  className={inputClass}
+                  placeholder="https://mcp.example.com/mcp"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">API key (optional)</label>
+                <input
+                  type="password"
+                  value={form.api_key}
+                  onChange={(e) => updateForm({ api_key: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          {testError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{testError}</div>
+          )}
+
+          {testedTools && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-sm font-medium text-green-800 mb-2">Connected - {testedTools.length} tools available</p>
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {testedTools.map((tool) => (
+                  <li key={tool.name} className="text-xs text-gray-700">
+                    <span className="font-mono text-indigo-600">{tool.name}</span> {tool.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={testConnection}
+              disabled={testing}
+              className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-all disabled:opacity-50"
+            >
+              {testing ? 'Testing...' : 'Test connection'}
+            </button>
+            <button
+              onClick={saveServer}
+              disabled={!testedTools || saving}
+              title={!testedTools ? 'Test the connection before saving' : undefined}
+              className="px-4 py-2 text-sm font-semibold text-white bg-gradient-to-r from-indigo-500 to-purple-600 rounded-lg hover:shadow-md transition-all disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save server'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!deleteTarget}
+        title={`Remove ${deleteTarget?.name}?`}
+        message="Its tools will no longer be available in chat."
+        type="danger"
+        confirmText="Remove"
+        onConfirm={deleteServer}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import Toast, { ToastType } from '@/components/Toast'
+import ConfirmModal from '@/components/ConfirmModal'
+
+interface SharedLink {
+  id: string
+  conversation_id: string
+  message_id: string | null
+  token: string
+  title: string
+  expires_at: string | null
+  view_count: number
+  last_viewed_at: string | null
+  created_at: string
+  has_password: boolean
+}
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : '—'
+
+const isExpired = (link: SharedLink) => !!link.expires_at && new Date(link.expires_at) <= new Date()
+
+export default function SharedLinkSettings() {
+  const [links, setLinks] = useState<SharedLink[] | null>(null)
+  const [revokeTarget, setRevokeTarget] = useState<SharedLink | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const router = useRouter()
+
+  const authHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      router.push('/login')
+      throw new Error('Session expired, please login again')
+    }
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    }
+  }
+
+  useEffect(() => {
+    const loadLinks = async () => {
+      try {
+        const response = await fetch('/api/shared-links', { headers: await authHeaders() })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load shared links')
+        }
+
+        setLinks(data.links)
+      } catch (error: any) {
+        setToast({ message: error.message, type: 'error' })
+      }
+    }
+
+    loadLinks()
+  }, [])
+
+  const linkUrl = (link: SharedLink) => `${window.location.origin}/share/${link.token}`
+
+  const copyLink = async (link: SharedLink) => {
+    try {
+      await navigator.clipboard.writeText(linkUrl(link))
+      setToast({ message: 'Link copied', type: 'success' })
+    } catch {
+      setToast({ message: 'Could not copy the link', type: 'error' })
+    }
+  }
+
+  const revokeLink = async () => {
+    if (!revokeTarget) return
+
+    try {
+      const response = await fetch(`/api/shared-links/${revokeTarget.id}`, {
+        method: 'DELETE',
+        headers: await authHeaders()
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke link')
+      }
+
+      setLinks(prev => (prev || []).filter(l => l.id !== revokeTarget.id))
+      setToast({ message: 'Link revoked', type: 'info' })
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setRevokeTarget(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-4xl mx-auto py-10 px-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Shared Links</h1>
+            <p className="text-sm text-gray-600 mt-1">Read-only snapshots of your conversations and answers. Revoking a link stops it working right away.</p>
+          </div>
+          <Link href="/chat" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            ← Back to chat
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 divide-y divide-gray-100">
+          {!links ? (
+            <p className="p-6 text-sm text-gray-500 text-center">Loading shared links...</p>
+          ) : links.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 text-center">
+              No shared links yet. Use 🔗 Share on a conversation or answer to create one.
+            </p>
+          ) : (
+            links.map((link) => (
+              <div key={link.id} className="p-4 flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 text-sm truncate">
+                    {isExpired(link) && (
+                      <span className="inline-block mr-2 px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">expired</span>
+                    )}
+                    {link.has_password && <span className="mr-1" title="Password protected">🔒</span>}
+                    {link.title}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {link.message_id ? 'One answer' : 'Whole conversation'} · shared {formatTime(link.created_at)} · {link.expires_at ? `expires ${formatTime(link.expires_at)}` : 'never expires'}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {link.view_count} view{link.view_count === 1 ? '' : 's'}{link.last_viewed_at && ` · last viewed ${formatTime(link.last_viewed_at)}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 ml-4 shrink-0">
+                  <Link
+                    href={`/chat?conversation=${link.conversation_id}`}
+                    className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-all"
+                  >
+                    Open chat
+                  </Link>
+                  {!isExpired(link) && (
+                    <button
+                      onClick={() => copyLink(link)}
+                      className="px-3 py-1.5 bg-indigo-50 text-indigo-600 text-xs font-medium rounded hover:bg-indigo-100 transition-all"
+                    >
+                      Copy link
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setRevokeTarget(link)}
+                    className="px-3 py-1.5 bg-red-50 text-red-600 text-xs font-medium rounded hover:bg-red-100 transition-all"
+                  >
+                    {isExpired(link) ? 'Delete' : 'Revoke'}
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!revokeTarget}
+        title={`Revoke the link to ${revokeTarget?.title}?`}
+        message="Anyone opening it will see that it no longer exists. The conversation itself is not affected."
+        type="danger"
+        confirmText="Revoke"
+        onConfirm={revokeLink}
+        onCancel={() => setRevokeTarget(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import Toast, { ToastType } from '@/components/Toast'
+
+interface CatalogTool {
+  name: string
+  prefixedName: string
+  description: string
+  inputSchema: any
+  enabled: boolean
+  blockedByPolicy: boolean
+  sideEffecting: boolean
+  requiresApproval: boolean
+  approvalOverride: boolean | null
+}
+
+interface CatalogServer {
+  id: string
+  name: string
+  shortName: string
+  connected: boolean
+  error?: string
+  tools: CatalogTool[]
+}
+
+export default function ToolSettings() {
+  const [servers, setServers] = useState<CatalogServer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState('')
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const router = useRouter()
+
+  const authHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      router.push('/login')
+      throw new Error('Session expired, please login again')
+    }
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    }
+  }
+
+  useEffect(() => {
+    const loadTools = async () => {
+      try {
+        const response = await fetch('/api/tools', { headers: await authHeaders() })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load tools')
+        }
+
+        setServers(data.servers)
+      } catch (error: any) {
+        setToast({ message: error.message, type: 'error' })
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadTools()
+  }, [])
+
+  const updateTool = async (
+    server: CatalogServer,
+    tool: CatalogTool,
+    changes: { enabled?: boolean; requiresApproval?: boolean | null }
+  ) => {
+    // Optimistic update, reverted if the save fails
+    const apply = (patch: Partial<CatalogTool>) => setServers(prev => prev.map(s => s.id !== server.id ? s : {
+      ...s,
+      tools: s.tools.map(t => t.name === tool.name ? { ...t, ...patch } : t)
+    }))
+
+    apply({
+      ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+      ...(changes.requiresApproval !== undefined && {
+        approvalOverride: changes.requiresApproval,
+        requiresApproval: changes.requiresApproval ?? tool.sideEffecting
+      })
+    })
+
+    try {
+      const response = await fetch('/api/tools', {
+        method: 'PUT',
+        headers: await authHeaders(),
+        body: JSON.stringify({ server: server.id, tool: tool.name, ...changes })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save tool setting')
+      }
+    } catch (error: any) {
+      apply(tool)
+      setToast({ message: error.message, type: 'error' })
+    }
+  }
+
+  const matches = (tool: CatalogTool) =>
+    !filter || `${tool.prefixedName} ${tool.description}`.toLowerCase().includes(filter.toLowerCase())
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-4xl mx-auto py-10 px-4 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Tools</h1>
+            <p className="text-sm text-gray-600 mt-1">Choose which tools the assistant may use and which need your approval. Disabled tools are hidden from the model.</p>
+          </div>
+          <Link href="/chat" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            ← Back to chat
+          </Link>
+        </div>
+
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter tools..."
+          className="w-full px-4 py-2.5 border-2 border-gray-200 rounded-xl text-sm focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 transition-all"
+        />
+
+        {loading ? (
+          <p className="text-sm text-gray-500 text-center">Loading tools...</p>
+        ) : (
+          servers.map((server) => (
+            <div key={server.id} className="bg-white rounded-xl shadow-lg border border-gray-100">
+              <div className="px-5 py-3 bg-gradient-to-r from-indigo-50 to-purple-50 border-b border-gray-200 rounded-t-xl flex items-center justify-between">
+                <h2 className="font-semibold text-gray-800">{server.name}</h2>
+                <span className="text-xs text-gray-500">
+                  {server.connected
+                    ? `${server.tools.filter(t => t.enabled).length} of ${server.tools.length} enabled`
+                    : server.error || 'Not connected'}
+                </span>
+              </div>
+
+              <div className="divide-y divide-gray-100">
+                {server.tools.filter(matches).map((tool) => (
+                  <details key={tool.name} className="group">
+                    <summary className="flex items-center justify-between px-5 py-3 cursor-pointer list-none">
+                      <div className="min-w-0 pr-4">
+                        <p className="font-mono text-sm text-indigo-600">{tool.prefixedName}</p>
+                        <p className="text-xs text-gray-500 truncate">{tool.description}</p>
+                      </div>
+                      {tool.blockedByPolicy ? (
+                        <span className="text-xs font-medium text-gray-500 whitespace-nowrap">Blocked by admin</span>
+                      ) : (
+                        <div className="flex items-center space-x-4" onClick={(e) => e.stopPropagation()}>
+                          <select
+                            value={tool.approvalOverride === null ? 'auto' : tool.approvalOverride ? 'always' : 'never'}
+                            onChange={(e) => updateTool(server, tool, {
+                              requiresApproval: e.target.value === 'auto' ? null : e.target.value === 'always'
+                            })}
+                            title="Ask before the assistant runs this tool"
+                            className="text-xs border border-gray-200 rounded px-2 py-1 text-gray-600"
+                          >
+                            <option value="auto">{tool.sideEffecting ? 'Ask first (from server)' : 'Run directly (from server)'}</option>
+                            <option value="always">Always ask first</option>
+                            <option value="never">Never ask</option>
+                          </select>
+                          <label className="flex items-center space-x-2 text-xs text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={tool.enabled}
+                              onChange={(e) => updateTool(server, tool, { enabled: e.target.checked })}
+                              className="w-4 h-4 accent-indigo-600"
+                            />
+                            <span>{tool.enabled ? 'Enabled' : 'Disabled'}</span>
+                          </label>
+                        </div>
+                      )}
+                    </summary>
+                    <pre className="mx-5 mb-3 bg-gray-100 p-3 rounded-lg overflow-x-auto text-xs text-gray-700">
+                      {JSON.stringify(tool.inputSchema, null, 2)}
+                    </pre>
+                  </details>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import Toast, { ToastType } from '@/components/Toast'
+import ChartBlock from '@/components/ChartBlock'
+
+type QuotaPeriod = 'day' | 'month'
+type QuotaMetric = 'requests' | 'tokens' | 'tool_calls'
+
+interface UsageTotals {
+  requests: number
+  tokens: number
+  tool_calls: number
+}
+
+interface DailyUsage extends UsageTotals {
+  date: string
+  prompt_tokens: number
+  completion_tokens: number
+}
+
+interface UsageRecord {
+  id: string
+  source: 'chat' | 'report'
+  model: string
+  prompt_tokens: number
+  completion_tokens: number
+  tool_calls: number
+  latency_ms: number
+  status: 'succeeded' | 'failed'
+  error: string | null
+  created_at: string
+}
+
+interface UsageData {
+  plan: string
+  limits: Record<QuotaPeriod, Record<QuotaMetric, number | null>>
+  usage: Record<QuotaPeriod, UsageTotals>
+  resetsAt: Record<QuotaPeriod, string>
+  rateLimits: Record<'chat' | 'oauth', { limit: number; windowSeconds: number }>
+  daily: DailyUsage[]
+  models: { model: string; requests: number; tokens: number }[]
+  services: { service: string; calls: number }[]
+  recent: UsageRecord[]
+}
+
+const RANGES = [7, 30, 90]
+
+const METRICS: { id: QuotaMetric; label: string }[] = [
+  { id: 'requests', label: 'Requests' },
+  { id: 'tokens', label: 'Tokens' },
+  { id: 'tool_calls', label: 'Tool calls' }
+]
+
+const formatNumber = (value: number) => value.toLocaleString()
+
+export default function UsageSettings() {
+  const [days, setDays] = useState(30)
+  const [data, setData] = useState<UsageData | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const router = useRouter()
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session) {
+          router.push('/login')
+          return
+        }
+
+        const response = await fetch(`/api/usage?days=${days}`, {
+          headers: { 'Authorization': `Bearer ${session.access_token}` }
+        })
+        const body = await response.json()
+
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to load usage')
+        }
+
+        setData(body)
+      } catch (error: any) {
+        setToast({ message: error.message, type: 'error' })
+      }
+    }
+
+    loadUsage()
+  }, [days])
+
+  const tokenChart = (daily: DailyUsage[]) => JSON.stringify({
+    type: 'bar',
+    title: 'Tokens per day',
+    x: 'date',
+    y: ['prompt_tokens', 'completion_tokens'],
+    data: daily.map(day => ({ date: day.date, prompt_tokens: day.prompt_tokens, completion_tokens: day.completion_tokens }))
+  })
+
+  const activityChart = (daily: DailyUsage[]) => JSON.stringify({
+    type: 'line',
+    title: 'Requests and tool calls per day',
+    x: 'date',
+    y: ['requests', 'tool_calls'],
+    data: daily.map(day => ({ date: day.date, requests: day.requests, tool_calls: day.tool_calls }))
+  })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-4xl mx-auto py-10 px-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Usage</h1>
+            <p className="text-sm text-gray-600 mt-1">Tokens, tool calls and requests against your plan&apos;s quotas.</p>
+          </div>
+          <Link href="/chat" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            ← Back to chat
+          </Link>
+        </div>
+
+        {!data ? (
+          <p className="text-sm text-gray-500 text-center">Loading usage...</p>
+        ) : (
+          <>
+            {/* Quotas */}
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-800">
+                  Quotas <span className="ml-2 px-2 py-0.5 rounded bg-indigo-100 text-indigo-700 text-xs font-medium">{data.plan} plan</span>
+                </h2>
+                {data.rateLimits.chat.limit > 0 && (
+                  <p className="text-xs text-gray-400">
+                    Up to {data.rateLimits.chat.limit} messages per {data.rateLimits.chat.windowSeconds / 60} min
+                  </p>
+                )}
+              </div>
+
+              {(['day', 'month'] as QuotaPeriod[]).map((period) => (
+                <div key={period}>
+                  <p className="text-xs font-semibold text-gray-700 mb-2">
+                    {period === 'day' ? 'Today' : 'This month'}
+                    <span className="ml-2 font-normal text-gray-400">resets {new Date(data.resetsAt[period]).toLocaleString()}</span>
+                  </p>
+                  <div className="grid grid-cols-3 gap-4">
+                    {METRICS.map(({ id, label }) => {
+                      const used = data.usage[period][id]
+                      const limit = data.limits[period][id]
+                      const percent = limit ? Math.min(100, (used / limit) * 100) : 0
+                      return (
+                        <div key={id}>
+                          <div className="flex justify-between text-xs text-gray-600 mb-1">
+                            <span>{label}</span>
+                            <span>{formatNumber(used)} / {limit === null ? '∞' : formatNumber(limit)}</span>
+                          </div>
+                          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-indigo-500'}`}
+                              style={{ width: `${percent}%` }}
+                            />
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Over time */}
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-800">Over time</h2>
+                <div className="flex space-x-1">
+                  {RANGES.map((range) => (
+                    <button
+                      key={range}
+                      onClick={() => setDays(range)}
+                      className={`px-3 py-1.5 text-xs font-medium rounded transition-all ${
+                        days === range ? 'bg-indigo-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {range} days
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <ChartBlock source={tokenChart(data.daily)} pending={false} />
+              <ChartBlock source={activityChart(data.daily)} pending={false} />
+            </div>
+
+            {/* Breakdowns */}
+            <div className="grid grid-cols-2 gap-6">
+              <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+                <h2 className="font-semibold text-gray-800 mb-3">By model</h2>
+                {data.models.length === 0 ? (
+                  <p className="text-sm text-gray-500">No requests in this range</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {data.models.map((model) => (
+                      <li key={model.model} className="flex justify-between">
+                        <span className="text-gray-700 truncate">{model.model}</span>
+                        <span className="text-gray-500 shrink-0 ml-2">{formatNumber(model.tokens)} tokens · {formatNumber(model.requests)} requests</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+                <h2 className="font-semibold text-gray-800 mb-3">Tool calls by service</h2>
+                {data.services.length === 0 ? (
+                  <p className="text-sm text-gray-500">No tool calls in this range</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {data.services.map((service) => (
+                      <li key={service.service} className="flex justify-between">
+                        <span className="text-gray-700 truncate">{service.service}</span>
+                        <span className="text-gray-500 shrink-0 ml-2">{formatNumber(service.calls)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            {/* Recent requests */}
+            <div className="bg-white rounded-xl shadow-lg border border-gray-100">
+              <h2 className="font-semibold text-gray-800 p-6 pb-3">Recent requests</h2>
+              {data.recent.length === 0 ? (
+                <p className="px-6 pb-6 text-sm text-gray-500">No requests in this range</p>
+              ) : (
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-6 py-2 text-left font-semibold">Time</th>
+                      <th className="px-2 py-2 text-left font-semibold">Source</th>
+                      <th className="px-2 py-2 text-left font-semibold">Model</th>
+                      <th className="px-2 py-2 text-right font-semibold">Tokens</th>
+                      <th className="px-2 py-2 text-right font-semibold">Tool calls</th>
+                      <th className="px-6 py-2 text-right font-semibold">Latency</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {data.recent.map((record) => (
+                      <tr key={record.id} title={record.error || undefined}>
+                        <td className="px-6 py-2 text-gray-700">
+                          {record.status === 'failed' && <span className="mr-1 text-red-600">⚠️</span>}
+                          {new Date(record.created_at).toLocaleString()}
+                        </td>
+                        <td className="px-2 py-2 text-gray-600">{record.source}</td>
+                        <td className="px-2 py-2 text-gray-600">{record.model}</td>
+                        <td className="px-2 py-2 text-right text-gray-700">{formatNumber(record.prompt_tokens + record.completion_tokens)}</td>
+                        <td className="px-2 py-2 text-right text-gray-700">{record.tool_calls}</td>
+                        <td className="px-6 py-2 text-right text-gray-700">{(record.latency_ms / 1000).toFixed(1)}s</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+    </div>
+  )
+}
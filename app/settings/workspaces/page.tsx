@@ -0,0 +1,602 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import Toast, { ToastType } from '@/components/Toast'
+import ConfirmModal from '@/components/ConfirmModal'
+
+type WorkspaceRole = 'viewer' | 'analyst' | 'admin'
+
+interface WorkspaceMember {
+  workspace_id: string
+  user_id: string
+  email: string | null
+  role: WorkspaceRole
+  created_at: string
+}
+
+interface WorkspaceInvitation {
+  id: string
+  workspace_id: string
+  workspace_name?: string
+  email: string
+  role: WorkspaceRole
+  expires_at: string
+}
+
+interface Workspace {
+  id: string
+  name: string
+  role: WorkspaceRole
+  members: WorkspaceMember[]
+  invitations: WorkspaceInvitation[]
+}
+
+interface LinkedAccount {
+  id: string
+  email: string | null
+  connected: boolean
+  needsReauth?: boolean
+  workspace?: { id: string; name: string | null; role: string | null } | null
+}
+
+interface ServerStatus {
+  key: string
+  name: string
+  shortName: string
+  custom: boolean
+  accounts: LinkedAccount[]
+}
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  viewer: 'Chats with read-only tools',
+  analyst: 'Chats with every tool',
+  admin: 'Also manages connections, members and invitations'
+}
+
+type PendingAction =
+  | { kind: 'delete'; workspace: Workspace }
+  | { kind: 'remove'; workspace: Workspace; member: WorkspaceMember }
+  | { kind: 'leave'; workspace: Workspace }
+  | { kind: 'disconnect'; workspace: Workspace; server: ServerStatus; account: LinkedAccount }
+
+export default function WorkspaceSettings() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [servers, setServers] = useState<ServerStatus[]>([])
+  const [emailConfigured, setEmailConfigured] = useState(false)
+  const [loaded, setLoaded] = useState(false)
+  const [userId, setUserId] = useState<string | null>(null)
+  const [highlightedInvitation, setHighlightedInvitation] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+  const [inviteForms, setInviteForms] = useState<Record<string, { email: string; role: WorkspaceRole }>>({})
+  const [busy, setBusy] = useState(false)
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
+  const router = useRouter()
+
+  const authHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      router.push('/login')
+      throw new Error('Session expired, please login again')
+    }
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    }
+  }
+
+  const loadWorkspaces = async () => {
+    try {
+      const headers = await authHeaders()
+      const [workspacesResponse, statusResponse] = await Promise.all([
+        fetch('/api/workspaces', { headers }),
+        fetch('/api/connections/status', { headers })
+      ])
+      const data = await workspacesResponse.json()
+
+      if (!workspacesResponse.ok) {
+        throw new Error(data.error || 'Failed to load workspaces')
+      }
+
+      setWorkspaces(data.workspaces)
+      setInvitations(data.invitations)
+      setEmailConfigured(data.emailConfigured)
+
+      if (statusResponse.ok) {
+        const status = await statusResponse.json()
+        setServers((status.servers as ServerStatus[]).filter(server => !server.custom))
+      }
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setLoaded(true)
+    }
+  }
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user.id || null))
+    // Invitation emails link here with ?invitation=<id>
+    setHighlightedInvitation(new URLSearchParams(window.location.search).get('invitation'))
+    loadWorkspaces()
+  }, [])
+
+  // Reload once an admin finishes linking a Google account in the popup
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin) return
+
+      if (event.data.type === 'oauth_error') {
+        setToast({ message: `Connection failed: ${event.data.error}`, type: 'error' })
+      } else if (event.data.type === 'oauth_success') {
+        setToast({ message: `Linked ${event.data.account || 'Google account'} to the workspace`, type: 'success' })
+        loadWorkspaces()
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [])
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: await authHeaders(),
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed')
+    }
+    return data
+  }
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true)
+    try {
+      const message = await action()
+      if (message) setToast({ message, type: 'success' })
+      await loadWorkspaces()
+    } catch (error: any) {
+      setToast({ message: error.message, type: 'error' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const createWorkspace = () => run(async () => {
+    const data = await request('/api/workspaces', 'POST', { name: newName })
+    setNewName('')
+    return `${data.workspace.name} created`
+  })
+
+  const renameWorkspace = () => run(async () => {
+    if (!renaming) return null
+    await request(`/api/workspaces/${renaming.id}`, 'PATCH', { name: renaming.name })
+    setRenaming(null)
+    return 'Workspace renamed'
+  })
+
+  const acceptInvitation = (invitation: WorkspaceInvitation) => run(async () => {
+    await request(`/api/invitations/${invitation.id}`, 'POST')
+    setHighlightedInvitation(null)
+    return `Joined ${invitation.workspace_name}`
+  })
+
+  const declineInvitation = (invitation: WorkspaceInvitation) => run(async () => {
+    await request(`/api/invitations/${invitation.id}`, 'DELETE')
+    return null
+  })
+
+  const inviteForm = (workspace: Workspace) => inviteForms[workspace.id] || { email: '', role: 'analyst' as WorkspaceRole }
+
+  const updateInviteForm = (workspace: Workspace, changes: Partial<{ email: string; role: WorkspaceRole }>) => {
+    setInviteForms(prev => ({ ...prev, [workspace.id]: { ...inviteForm(workspace), ...changes } }))
+  }
+
+  const invite = (workspace: Workspace) => run(async () => {
+    const form = inviteForm(workspace)
+    const data = await request(`/api/workspaces/${workspace.id}/invitations`, 'POST', form)
+    updateInviteForm(workspace, { email: '' })
+
+    if (data.emailed) {
+      return `Invitation emailed to ${data.invitation.email}`
+    }
+    if (data.url) {
+      await navigator.clipboard?.writeText(data.url).catch(() => {})
+      return `Invited ${data.invitation.email}; the invitation link was copied to your clipboard`
+    }
+    return `Invited ${data.invitation.email}; they'll see it here after signing in`
+  })
+
+  const revokeInvitation = (workspace: Workspace, invitation: WorkspaceInvitation) => run(async () => {
+    await request(`/api/workspaces/${workspace.id}/invitations/${invitation.id}`, 'DELETE')
+    return null
+  })
+
+  const changeRole = (workspace: Workspace, member: WorkspaceMember, role: WorkspaceRole) => run(async () => {
+    await request(`/api/workspaces/${workspace.id}/members/${member.user_id}`, 'PATCH', { role })
+    return `${member.email || 'Member'} is now ${role === 'admin' ? 'an' : 'a'} ${role}`
+  })
+
+  const connectAccount = async (workspace: Workspace, server: ServerStatus) => {
+    try {
+      const data = await request(
+        `/api/auth/google?service=${encodeURIComponent(server.key)}&workspace=${encodeURIComponent(workspace.id)}`,
+        'GET'
+      )
+
+      // Open OAuth popup
+      const width = 500
+      const height = 600
+      const left = window.screenX + (window.outerWidth - width) / 2
+      const top = window.screenY + (window.outerHeight - height) / 2
+
+      window.open(
+        data.authUrl,
+        `${server.key}_oauth`,
+        `width=${width},height=${height},left=${left},top=${top},toolbar=no,menubar=no`
+      )
+    } catch (error: any) {
+      setToast({ message: `Error connecting to ${server.shortName}: ` + error.message, type: 'error' })
+    }
+  }
+
+  const confirmPendingAction = async () => {
+    const action = pendingAction
+    setPendingAction(null)
+    if (!action) return
+
+    await run(async () => {
+      switch (action.kind) {
+        case 'delete':
+          await request(`/api/workspaces/${action.workspace.id}`, 'DELETE')
+          return `${action.workspace.name} deleted`
+        case 'remove':
+          await request(`/api/workspaces/${action.workspace.id}/members/${action.member.user_id}`, 'DELETE')
+          return `${action.member.email || 'Member'} removed`
+        case 'leave':
+          await request(`/api/workspaces/${action.workspace.id}/members/${userId}`, 'DELETE')
+          return `You left ${action.workspace.name}`
+        case 'disconnect':
+          await request('/api/auth/google/disconnect', 'POST', { service: action.server.key, connectionId: action.account.id })
+          // The chat page re-checks connections on its next load
+          sessionStorage.removeItem(`connections_checked_${userId}`)
+          return `${action.account.email || 'Google account'} disconnected`
+      }
+    })
+  }
+
+  const confirmCopy = (action: PendingAction) => {
+    switch (action.kind) {
+      case 'delete':
+        return { title: `Delete ${action.workspace.name}?`, message: 'Its shared Google connections, members and invitations are removed. Conversations stay with their owners.', confirmText: 'Delete' }
+      case 'remove':
+        return { title: `Remove ${action.member.email || 'this member'}?`, message: 'They lose access to the workspace and its shared Google connections right away.', confirmText: 'Remove' }
+      case 'leave':
+        return { title: `Leave ${action.workspace.name}?`, message: 'You lose access to its shared Google connections until an admin invites you again.', confirmText: 'Leave' }
+      case 'disconnect':
+        return { title: `Disconnect ${action.account.email || 'this account'}?`, message: `Every member of ${action.workspace.name} loses access to it.`, confirmText: 'Disconnect' }
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 transition-all'
+  const confirm = pendingAction && confirmCopy(pendingAction)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-4xl mx-auto py-10 px-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Workspaces</h1>
+            <p className="text-sm text-gray-600 mt-1">Share Google connections with your team, with viewer, analyst and admin roles.</p>
+          </div>
+          <Link href="/chat" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            ← Back to chat
+          </Link>
+        </div>
+
+        {/* Invitations addressed to the user */}
+        {invitations.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 divide-y divide-gray-100">
+            <h2 className="font-semibold text-gray-800 p-4">Invitations</h2>
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className={`p-4 flex items-center justify-between ${highlightedInvitation === invitation.id ? 'bg-indigo-50' : ''}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 text-sm">{invitation.workspace_name}</p>
+                  <p className="text-xs text-gray-500">
+                    Join as {invitation.role} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 ml-4 shrink-0">
+                  <button
+                    onClick={() => acceptInvitation(invitation)}
+                    disabled={busy}
+                    className="px-3 py-1.5 bg-indigo-500 text-white text-xs font-medium rounded hover:bg-indigo-600 transition-all disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => declineInvitation(invitation)}
+                    disabled={busy}
+                    className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-all disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {highlightedInvitation && loaded && !invitations.some(i => i.id === highlightedInvitation) && (
+          <p className="text-sm text-orange-600 text-center">
+            That invitation has expired, was revoked, or was sent to a different email address.
+          </p>
+        )}
+
+        {/* Workspaces */}
+        {!loaded ? (
+          <p className="text-sm text-gray-500 text-center">Loading workspaces...</p>
+        ) : workspaces.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center">You aren&apos;t in any workspaces yet</p>
+        ) : (
+          workspaces.map((workspace) => {
+            const isAdmin = workspace.role === 'admin'
+            const form = inviteForm(workspace)
+
+            return (
+              <div key={workspace.id} className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-5">
+                <div className="flex items-center justify-between">
+                  {renaming?.id === workspace.id ? (
+                    <div className="flex items-center space-x-2 flex-1 mr-4">
+                      <input
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ id: workspace.id, name: e.target.value })}
+                        maxLength={100}
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={renameWorkspace}
+                        disabled={busy || !renaming.name.trim()}
+                        className="px-3 py-1.5 bg-indigo-500 text-white text-xs font-medium rounded hover:bg-indigo-600 transition-all disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setRenaming(null)}
+                        className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-all"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <h2 className="font-semibold text-gray-800">
+                      {workspace.name}
+                      <span className="ml-2 px-2 py-0.5 rounded bg-indigo-100 text-indigo-700 text-xs font-medium">{workspace.role}</span>
+                    </h2>
+                  )}
+                  <div className="flex items-center space-x-2 shrink-0">
+                    {isAdmin && renaming?.id !== workspace.id && (
+                      <button
+                        onClick={() => setRenaming({ id: workspace.id, name: workspace.name })}
+                        className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-all"
+                      >
+                        Rename
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setPendingAction({ kind: 'leave', workspace })}
+                      className="px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded hover:bg-gray-200 transition-all"
+                    >
+                      Leave
+                    </button>
+                    {isAdmin && (
+                      <button
+                        onClick={() => setPendingAction({ kind: 'delete', workspace })}
+                        className="px-3 py-1.5 bg-red-50 text-red-600 text-xs font-medium rounded hover:bg-red-100 transition-all"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Shared Google connections */}
+                <div>
+                  <p className="text-xs font-semibold text-gray-700 mb-2">Shared connections</p>
+                  <div className="space-y-2">
+                    {servers.map((server) => {
+                      const accounts = server.accounts.filter(account => account.workspace?.id === workspace.id)
+                      return (
+                        <div key={server.key} className="flex items-start justify-between text-sm">
+                          <div className="min-w-0">
+                            <p className="text-gray-800">{server.name}</p>
+                            {accounts.length === 0 ? (
+                              <p className="text-xs text-gray-400">No shared accounts</p>
+                            ) : (
+                              accounts.map((account) => (
+                                <p key={account.id} className="text-xs text-gray-600 truncate">
+                                  {account.email || 'Google account'}
+                                  <span className={`ml-1 ${account.needsReauth ? 'text-orange-600' : account.connected ? 'text-green-600' : 'text-gray-400'}`}>
+                                    · {account.connected ? 'Connected' : account.needsReauth ? 'Access expired' : 'Not connected'}
+                                  </span>
+                                  {isAdmin && (
+                                    <button
+                                      onClick={() => setPendingAction({ kind: 'disconnect', workspace, server, account })}
+                                      className="ml-2 font-medium text-red-500 hover:text-red-600"
+                                    >
+                                      Disconnect
+                                    </button>
+                                  )}
+                                </p>
+                              ))
+                            )}
+                          </div>
+                          {isAdmin && (
+                            <button
+                              onClick={() => connectAccount(workspace, server)}
+                              className="px-3 py-1.5 bg-indigo-50 text-indigo-600 text-xs font-medium rounded hover:bg-indigo-100 transition-all shrink-0 ml-4"
+                            >
+                              {accounts.some(account => account.needsReauth) ? 'Reconnect' : accounts.length > 0 ? '+ Account' : 'Connect'}
+                            </button>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                {/* Members */}
+                <div>
+                  <p className="text-xs font-semibold text-gray-700 mb-2">Members</p>
+                  <ul className="divide-y divide-gray-100 text-sm">
+                    {workspace.members.map((member) => (
+                      <li key={member.user_id} className="py-2 flex items-center justify-between">
+                        <span className="text-gray-700 truncate">
+                          {member.email || 'Member'}
+                          {member.user_id === userId && <span className="ml-1 text-xs text-gray-400">(you)</span>}
+                        </span>
+                        {isAdmin ? (
+                          <div className="flex items-center space-x-2 ml-4 shrink-0">
+                            <select
+                              value={member.role}
+                              onChange={(e) => changeRole(workspace, member, e.target.value as WorkspaceRole)}
+                              disabled={busy}
+                              title={ROLE_DESCRIPTIONS[member.role]}
+                              className="px-2 py-1 border border-gray-200 rounded text-xs"
+                            >
+                              {(Object.keys(ROLE_DESCRIPTIONS) as WorkspaceRole[]).map((role) => (
+                                <option key={role} value={role}>{role}</option>
+                              ))}
+                            </select>
+                            {member.user_id !== userId && (
+                              <button
+                                onClick={() => setPendingAction({ kind: 'remove', workspace, member })}
+                                className="text-xs font-medium text-red-500 hover:text-red-600"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-500 ml-4" title={ROLE_DESCRIPTIONS[member.role]}>{member.role}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {/* Invitations (admins only) */}
+                {isAdmin && (
+                  <div>
+                    <p className="text-xs font-semibold text-gray-700 mb-2">Invite</p>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="email"
+                        value={form.email}
+                        onChange={(e) => updateInviteForm(workspace, { email: e.target.value })}
+                        placeholder="teammate@example.com"
+                        className={inputClass}
+                      />
+                      <select
+                        value={form.role}
+                        onChange={(e) => updateInviteForm(workspace, { role: e.target.value as WorkspaceRole })}
+                        className="px-2 py-2 border-2 border-gray-200 rounded-lg text-sm"
+                      >
+                        {(Object.keys(ROLE_DESCRIPTIONS) as WorkspaceRole[]).map((role) => (
+                          <option key={role} value={role}>{role}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => invite(workspace)}
+                        disabled={busy || !form.email.trim()}
+                        className="px-4 py-2 bg-indigo-500 text-white text-sm font-medium rounded-lg hover:bg-indigo-600 transition-all disabled:opacity-50 shrink-0"
+                      >
+                        Invite
+                      </button>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-400">
+                      {ROLE_DESCRIPTIONS[form.role]}.{' '}
+                      {emailConfigured
+                        ? 'The invitation is emailed and expires in 7 days.'
+                        : 'Email isn\'t configured; the invitee sees the invitation here after signing in with that address.'}
+                    </p>
+
+                    {workspace.invitations.length > 0 && (
+                      <ul className="mt-3 space-y-1 text-xs">
+                        {workspace.invitations.map((invitation) => (
+                          <li key={invitation.id} className="flex items-center justify-between text-gray-600">
+                            <span className="truncate">
+                              {invitation.email} · {invitation.role} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                            </span>
+                            <button
+                              onClick={() => revokeInvitation(workspace, invitation)}
+                              disabled={busy}
+                              className="ml-4 font-medium text-red-500 hover:text-red-600 disabled:opacity-50"
+                            >
+                              Revoke
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+
+        {/* Create */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+          <h2 className="font-semibold text-gray-800 mb-3">New workspace</h2>
+          <div className="flex items-center space-x-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Marketing team"
+              maxLength={100}
+              className={inputClass}
+            />
+            <button
+              onClick={createWorkspace}
+              disabled={busy || !newName.trim()}
+              className="px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-600 text-white text-sm font-medium rounded-lg hover:shadow-md transition-all disabled:opacity-50 shrink-0"
+            >
+              Create
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-gray-400">You&apos;ll be its first admin.</p>
+        </div>
+      </div>
+
+      {/* Toast Notification */}
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!pendingAction}
+        title={confirm?.title || ''}
+        message={confirm?.message || ''}
+        type="danger"
+        confirmText={confirm?.confirmText}
+        onConfirm={confirmPendingAction}
+        onCancel={() => setPendingAction(null)}
+      />
+    </div>
+  )
+}
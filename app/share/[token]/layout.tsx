@@ -0,0 +1,15 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Shared conversation',
+  robots: { index: false, follow: false },
+  referrer: 'no-referrer',
+}
+
+export default function ShareLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return children
+}
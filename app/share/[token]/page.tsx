@@ -0,0 +1,140 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import MessageMarkdown from '@/components/MessageMarkdown'
+import ToolCallDetails from '@/components/ToolCallDetails'
+import type { SharedSnapshot } from '@/lib/sharing/shared-links'
+
+/**
+ * Read-only view of a shared conversation or answer. Renders the stored
+ * snapshot only; there is no input, so nothing here can run a tool.
+ */
+export default function SharedConversation({ params }: { params: { token: string } }) {
+  const [snapshot, setSnapshot] = useState<SharedSnapshot | null>(null)
+  const [title, setTitle] = useState<string | null>(null)
+  const [requiresPassword, setRequiresPassword] = useState(false)
+  const [password, setPassword] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const [error, setError] = useState('')
+  const [loaded, setLoaded] = useState(false)
+
+  const openLink = async (withPassword?: string) => {
+    const response = await fetch(`/api/share/${encodeURIComponent(params.token)}`, withPassword === undefined
+      ? undefined
+      : {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ password: withPassword })
+        })
+    const data = await response.json()
+
+    if (response.ok) {
+      setSnapshot(data.snapshot)
+      setRequiresPassword(false)
+      setError('')
+      return
+    }
+
+    setRequiresPassword(!!data.requiresPassword)
+    if (data.title) setTitle(data.title)
+    // The first visit to a protected link just asks for the password
+    setError(withPassword === undefined && data.requiresPassword ? '' : data.error || 'Failed to open link')
+  }
+
+  useEffect(() => {
+    openLink()
+      .catch(() => setError('Failed to open link'))
+      .finally(() => setLoaded(true))
+  }, [params.token])
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setUnlocking(true)
+    try {
+      await openLink(password)
+    } catch {
+      setError('Failed to open link')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  const messages = snapshot?.messages || []
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      <div className="max-w-4xl mx-auto py-10 px-4 space-y-6">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-indigo-600">
+            {snapshot?.scope === 'message' ? 'Shared answer' : 'Shared conversation'} · read-only
+          </p>
+          <h1 className="text-2xl font-bold text-gray-900 mt-1">{snapshot?.title || title || 'Shared conversation'}</h1>
+          {snapshot && (
+            <p className="text-sm text-gray-500 mt-1">Snapshot from {new Date(snapshot.shared_at).toLocaleString()}</p>
+          )}
+        </div>
+
+        {!loaded ? (
+          <p className="text-sm text-gray-500 text-center">Loading...</p>
+        ) : requiresPassword ? (
+          <form onSubmit={unlock} className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-3 max-w-md">
+            <p className="text-sm text-gray-700">This link is password protected.</p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoFocus
+              className="w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 transition-all"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={unlocking || !password}
+              className="px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-600 text-white text-sm font-medium rounded-lg hover:shadow-md transition-all disabled:opacity-50"
+            >
+              {unlocking ? 'Opening...' : 'Open'}
+            </button>
+          </form>
+        ) : !snapshot ? (
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 text-center">
+            <p className="text-sm text-gray-700">{error || 'This link is not available'}</p>
+          </div>
+        ) : (
+          <div className="bg-white/70 rounded-xl shadow-lg border border-gray-100 px-8 py-6 space-y-6">
+            {messages.filter(message => message.role !== 'tool').map((message) => (
+              <div
+                key={message.id}
+                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+              >
+                <div
+                  className={`max-w-[75%] px-5 py-3 rounded-2xl shadow-md ${
+                    message.role === 'user'
+                      ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-br-md'
+                      : 'bg-white text-gray-800 border border-gray-100 rounded-bl-md'
+                  }`}
+                >
+                  {message.role === 'assistant' ? (
+                    <>
+                      <div className="text-xs font-semibold text-indigo-600 mb-1 flex items-center">
+                        <span className="mr-1">🤖</span> AI Assistant
+                      </div>
+                      <div className="prose prose-sm max-w-none">
+                        <MessageMarkdown content={message.content} />
+                        <ToolCallDetails
+                          toolCalls={messages.filter(m => m.role === 'tool' && m.parent_message_id === message.id)}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
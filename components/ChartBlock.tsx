@@ -0,0 +1,176 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts'
+import { parseVisualization, visualizationColumns, Visualization, VisualizationValue, SERIES_COLORS } from '@/lib/chat/visualizations'
+
+const formatValue = (value: VisualizationValue) =>
+  typeof value === 'number' ? value.toLocaleString() : value ?? ''
+
+interface DataTableProps {
+  data: Record<string, VisualizationValue>[]
+  columns: string[]
+}
+
+/**
+ * Table with click-to-sort column headers
+ */
+function DataTable({ data, columns }: DataTableProps) {
+  const [sort, setSort] = useState<{ column: string; descending: boolean } | null>(null)
+
+  const rows = useMemo(() => {
+    if (!sort) return data
+    return [...data].sort((a, b) => {
+      const left = a[sort.column]
+      const right = b[sort.column]
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left ?? '').localeCompare(String(right ?? ''), undefined, { numeric: true })
+      return sort.descending ? -order : order
+    })
+  }, [data, sort])
+
+  const toggleSort = (column: string) => {
+    setSort(prev => prev?.column === column
+      ? { column, descending: !prev.descending }
+      : { column, descending: typeof data[0]?.[column] === 'number' })
+  }
+
+  return (
+    <div className="max-h-80 overflow-auto rounded-lg border border-gray-200">
+      <table className="min-w-full text-xs">
+        <thead className="bg-gray-50 sticky top-0">
+          <tr>
+            {columns.map((column) => (
+              <th
+                key={column}
+                onClick={() => toggleSort(column)}
+                className="px-3 py-2 text-left font-semibold text-gray-700 cursor-pointer select-none whitespace-nowrap hover:text-indigo-600"
+              >
+                {column}
+                <span className="ml-1 text-gray-400">
+                  {sort?.column === column ? (sort.descending ? '▼' : '▲') : '↕'}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map((row, index) => (
+            <tr key={index} className="hover:bg-indigo-50/50">
+              {columns.map((column) => (
+                <td
+                  key={column}
+                  className={`px-3 py-1.5 text-gray-700 whitespace-nowrap ${typeof row[column] === 'number' ? 'text-right tabular-nums' : ''}`}
+                >
+                  {formatValue(row[column])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function Chart({ visualization }: { visualization: Visualization }) {
+  const { type, data, x, y = [] } = visualization
+
+  if (type === 'pie') {
+    return (
+      <ResponsiveContainer width="100%" height={280}>
+        <PieChart>
+          <Pie data={data} dataKey={y[0]} nameKey={x} outerRadius={100} label>
+            {data.map((_, index) => (
+              <Cell key={index} fill={SERIES_COLORS[index % SERIES_COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip formatter={(value: any) => formatValue(value)} />
+          <Legend />
+        </PieChart>
+      </ResponsiveContainer>
+    )
+  }
+
+  const ChartType = type === 'line' ? LineChart : BarChart
+
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      <ChartType data={data} margin={{ top: 8, right: 16, bottom: 8, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis dataKey={x} tick={{ fontSize: 11 }} />
+        <YAxis tick={{ fontSize: 11 }} tickFormatter={(value) => Number(value).toLocaleString()} />
+        <Tooltip formatter={(value: any) => formatValue(value)} />
+        {y.length > 1 && <Legend />}
+        {y.map((field, index) => type === 'line' ? (
+          <Line key={field} type="monotone" dataKey={field} stroke={SERIES_COLORS[index % SERIES_COLORS.length]} strokeWidth={2} dot={data.length <= 31} />
+        ) : (
+          <Bar key={field} dataKey={field} fill={SERIES_COLORS[index % SERIES_COLORS.length]} radius={[4, 4, 0, 0]} />
+        ))}
+      </ChartType>
+    </ResponsiveContainer>
+  )
+}
+
+interface ChartBlockProps {
+  source: string
+  pending?: boolean  // Still streaming in; show a placeholder instead of an error
+}
+
+/**
+ * Render a ```chart block from an assistant answer as a chart or sortable table
+ */
+export default function ChartBlock({ source, pending }: ChartBlockProps) {
+  const visualization = useMemo(() => parseVisualization(source), [source])
+  const [showData, setShowData] = useState(false)
+
+  if (!visualization) {
+    return pending ? (
+      <div className="my-3 p-4 rounded-lg border border-dashed border-indigo-200 text-xs text-indigo-500">
+        📊 Preparing chart...
+      </div>
+    ) : (
+      <pre className="bg-gray-100 p-3 rounded-lg overflow-x-auto mb-3 text-xs" title="This chart could not be displayed">
+        {source}
+      </pre>
+    )
+  }
+
+  const columns = visualizationColumns(visualization)
+
+  return (
+    <div className="not-prose my-3 p-3 rounded-xl border border-gray-200 bg-white">
+      <div className="flex items-center justify-between mb-2">
+        {visualization.title && <p className="text-sm font-semibold text-gray-800">{visualization.title}</p>}
+        {visualization.type !== 'table' && (
+          <button
+            onClick={() => setShowData(!showData)}
+            className="ml-auto text-xs font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            {showData ? 'Show chart' : 'Show data'}
+          </button>
+        )}
+      </div>
+      {visualization.type === 'table' || showData ? (
+        <DataTable data={visualization.data} columns={columns} />
+      ) : (
+        <Chart visualization={visualization} />
+      )}
+    </div>
+  )
+}
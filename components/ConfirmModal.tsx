@@ -1,9 +1,12 @@
 'use client'
 
+import { ReactNode } from 'react'
+
 interface ConfirmModalProps {
   isOpen: boolean
   title: string
   message: string
+  details?: ReactNode
   confirmText?: string
   cancelText?: string
   onConfirm: () => void
@@ -15,6 +18,7 @@ export default function ConfirmModal({
   isOpen,
   title,
   message,
+  details,
   confirmText = 'Confirm',
   cancelText = 'Cancel',
   onConfirm,
@@ -79,6 +83,8 @@ export default function ConfirmModal({
             </p>
           </div>
 
+          {details && <div className="mb-6">{details}</div>}
+
           {/* Buttons */}
           <div className="flex space-x-3">
             <button
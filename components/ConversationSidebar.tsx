@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+
+export interface Conversation {
+  id: string
+  title: string | null
+  archived: boolean
+  llm_provider: string | null
+  llm_model: string | null
+  connection_ids: string[] | null
+  resource_selections: Record<string, string> | null
+  created_at: string
+  updated_at: string
+}
+
+interface ConversationSidebarProps {
+  conversations: Conversation[]
+  activeId: string | null
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, title: string) => void
+  onArchive: (id: string, archived: boolean) => void
+  onDelete: (id: string) => void
+}
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onArchive,
+  onDelete
+}: ConversationSidebarProps) {
+  const [showArchived, setShowArchived] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState('')
+
+  const visible = conversations.filter(c => c.archived === showArchived)
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id)
+    setEditTitle(conversation.title || '')
+  }
+
+  const submitRename = () => {
+    if (editingId && editTitle.trim()) {
+      onRename(editingId, editTitle.trim())
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <div className="w-64 flex-shrink-0 flex flex-col bg-white/70 border-r border-gray-200">
+      <div className="p-4 border-b border-gray-200">
+        <button
+          onClick={onCreate}
+          className="w-full px-4 py-2.5 bg-gradient-to-r from-indigo-500 to-purple-600 text-white text-sm font-semibold rounded-lg hover:from-indigo-600 hover:to-purple-700 transition-all duration-200 shadow-md"
+        >
+          + New conversation
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {visible.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center mt-4">
+            {showArchived ? 'No archived conversations' : 'No conversations yet'}
+          </p>
+        ) : (
+          visible.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center rounded-lg px-3 py-2 cursor-pointer transition-all ${
+                conversation.id === activeId
+                  ? 'bg-indigo-100 text-indigo-800'
+                  : 'text-gray-700 hover:bg-gray-100'
+              }`}
+              onClick={() => onSelect(conversation.id)}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={submitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitRename()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-indigo-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                />
+              ) : (
+                <span className="flex-1 min-w-0 truncate text-sm">
+                  {conversation.title || 'New conversation'}
+                </span>
+              )}
+
+              {editingId !== conversation.id && (
+                <div className="hidden group-hover:flex items-center space-x-1 ml-2">
+                  <button
+                    title="Rename"
+                    onClick={(e) => { e.stopPropagation(); startRename(conversation) }}
+                    className="p-1 text-gray-500 hover:text-indigo-600 rounded"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    title={conversation.archived ? 'Unarchive' : 'Archive'}
+                    onClick={(e) => { e.stopPropagation(); onArchive(conversation.id, !conversation.archived) }}
+                    className="p-1 text-gray-500 hover:text-indigo-600 rounded"
+                  >
+                    {conversation.archived ? '📤' : '📥'}
+                  </button>
+                  <button
+                    title="Delete"
+                    onClick={(e) => { e.stopPropagation(); onDelete(conversation.id) }}
+                    className="p-1 text-gray-500 hover:text-red-600 rounded"
+                  >
+                    🗑️
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="p-3 border-t border-gray-200">
+        <button
+          onClick={() => setShowArchived(!showArchived)}
+          className="w-full text-xs font-medium text-gray-600 hover:text-indigo-600 transition-colors"
+        >
+          {showArchived ? '← Back to conversations' : 'Show archived'}
+        </button>
+      </div>
+    </div>
+  )
+}
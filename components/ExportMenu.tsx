@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { downloadExport } from '@/lib/export/download'
+
+export interface ExportOption {
+  label: string
+  path: string
+}
+
+interface ExportMenuProps {
+  label: string
+  buttonClassName: string
+  // A fixed list, or a loader run each time the menu opens
+  options: ExportOption[] | (() => Promise<ExportOption[]>)
+  emptyMessage?: string
+  onError: (message: string) => void
+}
+
+/**
+ * Dropdown of export formats; each option downloads from an authenticated export route
+ */
+export default function ExportMenu({ label, buttonClassName, options, emptyMessage, onError }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [items, setItems] = useState<ExportOption[] | null>(Array.isArray(options) ? options : null)
+  const [downloading, setDownloading] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [open])
+
+  const toggle = async () => {
+    if (open) {
+      setOpen(false)
+      return
+    }
+
+    setOpen(true)
+    if (Array.isArray(options)) {
+      setItems(options)
+      return
+    }
+
+    setItems(null)
+    try {
+      setItems(await options())
+    } catch (error: any) {
+      setOpen(false)
+      onError(error.message)
+    }
+  }
+
+  const download = async (option: ExportOption) => {
+    setDownloading(option.path)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('Session expired, please login again')
+      }
+
+      await downloadExport(option.path, session.access_token)
+      setOpen(false)
+    } catch (error: any) {
+      onError(error.message)
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative inline-block">
+      <button onClick={toggle} className={buttonClassName}>
+        {label}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-white rounded-xl shadow-2xl border border-gray-200 z-50 overflow-hidden">
+          {!items ? (
+            <p className="px-4 py-3 text-xs text-gray-500">Loading...</p>
+          ) : items.length === 0 ? (
+            <p className="px-4 py-3 text-xs text-gray-500">{emptyMessage || 'Nothing to export'}</p>
+          ) : (
+            items.map((option) => (
+              <button
+                key={option.path}
+                onClick={() => download(option)}
+                disabled={downloading !== null}
+                className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-indigo-50 disabled:opacity-50"
+              >
+                {downloading === option.path ? 'Preparing...' : option.label}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
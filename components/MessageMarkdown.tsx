@@ -0,0 +1,64 @@
+'use client'
+
+import ReactMarkdown, { Components } from 'react-markdown'
+import ChartBlock from '@/components/ChartBlock'
+import { VISUALIZATION_LANGUAGE } from '@/lib/chat/visualizations'
+
+const markdownComponents: Components = {
+  p: ({ children }) => <p className="mb-3 leading-relaxed text-gray-800">{children}</p>,
+  strong: ({ children }) => <strong className="font-bold text-gray-900">{children}</strong>,
+  em: ({ children }) => <em className="italic text-gray-700">{children}</em>,
+  ul: ({ children }) => <ul className="list-disc list-inside mb-3 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal list-inside mb-3 space-y-1">{children}</ol>,
+  li: ({ children }) => <li className="text-gray-800 ml-2">{children}</li>,
+  h1: ({ children }) => <h1 className="text-xl font-bold mb-3 text-gray-900">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-bold mb-2 text-gray-900">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-bold mb-2 text-gray-900">{children}</h3>,
+  code: ({ children }) => <code className="bg-gray-100 text-indigo-600 px-1.5 py-0.5 rounded text-sm font-mono">{children}</code>,
+  pre: ({ children }) => <pre className="bg-gray-100 p-3 rounded-lg overflow-x-auto mb-3">{children}</pre>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-indigo-400 pl-4 italic text-gray-700 my-3">{children}</blockquote>,
+  a: ({ href, children }) => <a href={href} className="text-indigo-600 hover:text-indigo-700 underline" target="_blank" rel="noopener noreferrer">{children}</a>,
+}
+
+/**
+ * Source of a ```chart block, or null if this <pre> holds anything else
+ */
+function chartSource(node: any): string | null {
+  const code = node?.children?.[0]
+  const classNames: unknown = code?.tagName === 'code' ? code.properties?.className : null
+  if (!Array.isArray(classNames) || !classNames.includes(`language-${VISUALIZATION_LANGUAGE}`)) {
+    return null
+  }
+  return (code.children || []).map((child: any) => child.value || '').join('')
+}
+
+// Chart blocks in the answer still streaming in show a placeholder until their JSON is complete
+const withCharts = (pending: boolean): Components => ({
+  ...markdownComponents,
+  pre: ({ node, children }) => {
+    const source = chartSource(node)
+    return source !== null
+      ? <ChartBlock source={source} pending={pending} />
+      : <pre className="bg-gray-100 p-3 rounded-lg overflow-x-auto mb-3">{children}</pre>
+  },
+})
+
+const messageComponents = withCharts(false)
+const streamingComponents = withCharts(true)
+
+interface MessageMarkdownProps {
+  content: string
+  // The answer is still streaming in
+  pending?: boolean
+}
+
+/**
+ * An assistant answer as Markdown, with ```chart blocks drawn as charts
+ */
+export default function MessageMarkdown({ content, pending = false }: MessageMarkdownProps) {
+  return (
+    <ReactMarkdown components={pending ? streamingComponents : messageComponents}>
+      {content}
+    </ReactMarkdown>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+
+interface Notification {
+  id: string
+  kind: string
+  title: string
+  body: string | null
+  conversation_id: string | null
+  read_at: string | null
+  created_at: string
+}
+
+interface NotificationBellProps {
+  onOpenConversation: (conversationId: string) => void
+}
+
+// Alerts come from the background scheduler, so check for new ones periodically
+const POLL_INTERVAL_MS = 60 * 1000
+
+/**
+ * Header bell listing the user's in-app alerts, with an unread badge
+ */
+export default function NotificationBell({ onOpenConversation }: NotificationBellProps) {
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unread, setUnread] = useState(0)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const request = async (init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return null
+
+    return fetch('/api/notifications', {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      }
+    })
+  }
+
+  const loadNotifications = async () => {
+    try {
+      const response = await request()
+      if (!response?.ok) return
+
+      const data = await response.json()
+      setNotifications(data.notifications)
+      setUnread(data.unread)
+    } catch (error) {
+      console.error('Error loading notifications:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadNotifications()
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [open])
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    const now = new Date().toISOString()
+    setNotifications(prev => prev.map(n =>
+      !n.read_at && ('all' in body || body.ids.includes(n.id)) ? { ...n, read_at: now } : n
+    ))
+    setUnread(prev => 'all' in body ? 0 : Math.max(0, prev - body.ids.length))
+
+    try {
+      await request({ method: 'PATCH', body: JSON.stringify(body) })
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.read_at) {
+      markRead({ ids: [notification.id] })
+    }
+    if (notification.conversation_id) {
+      setOpen(false)
+      onOpenConversation(notification.conversation_id)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative px-3 py-2 text-sm font-medium text-white bg-white/20 hover:bg-white/30 rounded-lg transition-all duration-200 backdrop-blur-sm"
+        title="Notifications"
+      >
+        🔔
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-xs font-bold text-white bg-red-500 rounded-full">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-xl shadow-2xl border border-gray-200 z-50 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-800 text-sm">Notifications</h3>
+            {unread > 0 && (
+              <button
+                onClick={() => markRead({ all: true })}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={`block w-full px-4 py-3 text-left hover:bg-indigo-50 ${notification.read_at ? '' : 'bg-indigo-50/50'}`}
+                >
+                  <p className={`text-sm ${notification.read_at ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                    {notification.title}
+                  </p>
+                  {notification.body && <p className="text-xs text-gray-500 mt-0.5">{notification.body}</p>}
+                  <p className="text-xs text-gray-400 mt-1">
+                    {new Date(notification.created_at).toLocaleString()}
+                    {notification.conversation_id && ' · Open conversation →'}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className="p-3 border-t border-gray-200">
+            <Link href="/settings/monitors" className="text-xs font-medium text-indigo-600 hover:text-indigo-700">
+              Manage metric monitors
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+
+interface GoogleResource {
+  id: string
+  name: string
+  detail?: string
+}
+
+// Resources per connection id, shared by every picker on the page
+const resourceCache = new Map<string, Promise<GoogleResource[]>>()
+
+async function fetchResources(connectionId: string): Promise<GoogleResource[]> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    throw new Error('Session expired, please login again')
+  }
+
+  const response = await fetch(`/api/connections/${connectionId}/resources`, {
+    headers: { 'Authorization': `Bearer ${session.access_token}` }
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load resources')
+  }
+  return data.resources
+}
+
+function loadResources(connectionId: string): Promise<GoogleResource[]> {
+  let pending = resourceCache.get(connectionId)
+  if (!pending) {
+    // Failed loads aren't cached, so reopening the picker retries
+    pending = fetchResources(connectionId).catch((error) => {
+      resourceCache.delete(connectionId)
+      throw error
+    })
+    resourceCache.set(connectionId, pending)
+  }
+  return pending
+}
+
+interface ResourcePickerProps {
+  connectionId: string
+  value: string | null
+  onChange: (value: string | null) => void
+  emptyLabel: string
+  disabled?: boolean
+}
+
+/**
+ * Select one of the GA4 properties or GSC sites a linked Google account can access
+ */
+export default function ResourcePicker({ connectionId, value, onChange, emptyLabel, disabled }: ResourcePickerProps) {
+  const [resources, setResources] = useState<GoogleResource[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+
+    loadResources(connectionId)
+      .then((loaded) => { if (!cancelled) setResources(loaded) })
+      .catch((loadError: Error) => { if (!cancelled) setError(loadError.message) })
+
+    return () => { cancelled = true }
+  }, [connectionId])
+
+  // Keep a saved value selectable even if it's no longer in the list
+  const options = resources && value && !resources.some(r => r.id === value)
+    ? [{ id: value, name: value }, ...resources]
+    : resources || (value ? [{ id: value, name: value }] : [])
+
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled || (!resources && !error)}
+      title={error || undefined}
+      className="mt-1 w-full px-2 py-1 border border-gray-200 rounded text-xs text-gray-700 bg-white focus:outline-none focus:border-indigo-400 disabled:opacity-50"
+    >
+      <option value="">{error ? `${emptyLabel} (couldn't load list)` : !resources ? 'Loading...' : emptyLabel}</option>
+      {options.map((resource) => (
+        <option key={resource.id} value={resource.id}>
+          {resource.name}{'detail' in resource && resource.detail ? ` (${resource.detail})` : ''}
+        </option>
+      ))}
+    </select>
+  )
+}
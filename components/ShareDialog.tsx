@@ -0,0 +1,184 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+
+export interface ShareTarget {
+  conversationId: string
+  messageId?: string        // One answer; the whole conversation when omitted
+}
+
+interface ShareDialogProps {
+  target: ShareTarget | null
+  onClose: () => void
+  onError: (message: string) => void
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 }
+]
+
+/**
+ * Publishes a read-only snapshot of a conversation or answer and shows its link
+ */
+export default function ShareDialog({ target, onClose, onError }: ShareDialogProps) {
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7)
+  const [password, setPassword] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [url, setUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    setExpiresInDays(7)
+    setPassword('')
+    setUrl(null)
+    setCopied(false)
+  }, [target])
+
+  if (!target) return null
+
+  const createLink = async () => {
+    setCreating(true)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('Session expired, please login again')
+      }
+
+      const response = await fetch('/api/shared-links', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({
+          conversationId: target.conversationId,
+          messageId: target.messageId,
+          expiresInDays,
+          password: password || null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create link')
+      }
+
+      setUrl(`${window.location.origin}/share/${data.link.token}`)
+    } catch (error: any) {
+      onError(error.message)
+      onClose()
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const copyLink = async () => {
+    if (!url) return
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onClose}
+      ></div>
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-scaleIn space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {target.messageId ? 'Share this answer' : 'Share this conversation'}
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Anyone with the link sees a read-only copy as it is now, including the tool calls and data behind it.
+              They can&apos;t ask follow-up questions or use your connections.
+            </p>
+          </div>
+
+          {url ? (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  readOnly
+                  value={url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 border-2 border-gray-200 rounded-lg text-sm text-gray-700"
+                />
+                <button
+                  onClick={copyLink}
+                  className="px-4 py-2 bg-indigo-500 text-white text-sm font-medium rounded-lg hover:bg-indigo-600 transition-all shrink-0"
+                >
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Revoke it any time under{' '}
+                <Link href="/settings/shared-links" className="text-indigo-600 hover:text-indigo-700">Shared links</Link>.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Expires after</label>
+                <div className="flex space-x-1">
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <button
+                      key={option.label}
+                      onClick={() => setExpiresInDays(option.days)}
+                      className={`px-3 py-1.5 text-xs font-medium rounded transition-all ${
+                        expiresInDays === option.days ? 'bg-indigo-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Password (optional)</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  maxLength={200}
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100 transition-all"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Buttons */}
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-gray-300"
+            >
+              {url ? 'Done' : 'Cancel'}
+            </button>
+            {!url && (
+              <button
+                onClick={createLink}
+                disabled={creating}
+                className="flex-1 px-4 py-2.5 text-white rounded-lg font-medium transition-colors focus:outline-none focus:ring-2 bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : 'Create link'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import type { StoredMessage } from '@/lib/chat/messages'
+
+interface ToolCallDetailsProps {
+  // Stored tool records, or their copies in a shared snapshot
+  toolCalls: Omit<StoredMessage, 'user_id' | 'conversation_id'>[]
+}
+
+export default function ToolCallDetails({ toolCalls }: ToolCallDetailsProps) {
+  if (toolCalls.length === 0) return null
+
+  return (
+    <details className="mt-2 text-xs text-gray-600 border-t border-gray-100 pt-2">
+      <summary className="cursor-pointer select-none font-medium text-indigo-600 hover:text-indigo-700">
+        🔧 {toolCalls.length} tool call{toolCalls.length === 1 ? '' : 's'} backed this answer
+      </summary>
+      <div className="mt-2 space-y-2">
+        {toolCalls.map((call) => (
+          <div key={call.id} className="rounded-lg bg-gray-50 border border-gray-200 p-2">
+            <div className="flex items-center justify-between">
+              <span className="font-mono text-indigo-600">{call.tool_name}</span>
+              <span className="text-gray-400">
+                {call.tool_cached && <span className="mr-1 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 font-medium">⚡ cached</span>}
+                {call.tool_service}{call.duration_ms !== null && call.duration_ms !== undefined && ` · ${call.duration_ms} ms`}
+              </span>
+            </div>
+            <pre className="mt-1 whitespace-pre-wrap break-all font-mono text-[11px] text-gray-700">
+              {JSON.stringify(call.tool_arguments || {}, null, 2)}
+            </pre>
+            {call.tool_error ? (
+              <p className="mt-1 text-red-600">⚠️ {call.tool_error}</p>
+            ) : (
+              <pre className="mt-1 max-h-48 overflow-y-auto whitespace-pre-wrap break-all font-mono text-[11px] text-gray-500">
+                {call.tool_result}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </details>
+  )
+}
@@ -1,9 +1,97 @@
+-- Create conversations table to group chat messages by topic
+CREATE TABLE IF NOT EXISTS conversations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title VARCHAR(200),
+  archived BOOLEAN DEFAULT false,
+  -- Optional per-conversation LLM overrides (NULL = deployment default)
+  llm_provider VARCHAR(50),
+  llm_model VARCHAR(100),
+  -- Linked Google accounts (mcp_connections ids) to use; NULL = each service's default account
+  connection_ids JSONB,
+  -- Property/site picked per linked account ({ connection id: GA4 property or GSC site })
+  resource_selections JSONB,
+  -- Rolling summary of turns that no longer fit the model's context window
+  summary TEXT,
+  summarized_until TIMESTAMP WITH TIME ZONE,  -- created_at of the last message in the summary
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for listing a user's conversations by recent activity
+CREATE INDEX IF NOT EXISTS idx_conversations_user_updated ON conversations(user_id, updated_at DESC);
+
+-- Enable Row Level Security for conversations
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own conversations
+CREATE POLICY "Users can view own conversations" ON conversations
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own conversations
+CREATE POLICY "Users can insert own conversations" ON conversations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own conversations
+CREATE POLICY "Users can update own conversations" ON conversations
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Create policy to allow users to delete their own conversations
+CREATE POLICY "Users can delete own conversations" ON conversations
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Migration for existing installs: per-conversation LLM selection
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS llm_provider VARCHAR(50);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS llm_model VARCHAR(100);
+
+-- The LLM selection is only set through /api/conversations, which checks it against
+-- the deployment's providers and models; clients may not write it directly
+CREATE OR REPLACE FUNCTION protect_conversation_llm() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND (
+    (TG_OP = 'INSERT' AND (NEW.llm_provider IS NOT NULL OR NEW.llm_model IS NOT NULL)) OR
+    (TG_OP = 'UPDATE' AND (NEW.llm_provider IS DISTINCT FROM OLD.llm_provider OR NEW.llm_model IS DISTINCT FROM OLD.llm_model))
+  ) THEN
+    RAISE EXCEPTION 'llm_provider and llm_model are set through /api/conversations';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS conversations_protect_llm ON conversations;
+CREATE TRIGGER conversations_protect_llm
+  BEFORE INSERT OR UPDATE ON conversations
+  FOR EACH ROW EXECUTE FUNCTION protect_conversation_llm();
+
+-- Migration for existing installs: per-conversation Google account selection
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS connection_ids JSONB;
+
+-- Migration for existing installs: per-conversation property/site selection
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS resource_selections JSONB;
+
+-- Migration for existing installs: rolling summaries of long conversations
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summarized_until TIMESTAMP WITH TIME ZONE;
+
 -- Create messages table to store chat messages
 CREATE TABLE IF NOT EXISTS messages (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-  role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant', 'tool')),
   content TEXT NOT NULL,
+  -- Tool invocation records (role = 'tool') point at the assistant answer they backed
+  parent_message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  tool_name VARCHAR(200),
+  tool_service VARCHAR(100),
+  tool_arguments JSONB,
+  tool_result TEXT,
+  tool_error TEXT,
+  tool_tables JSONB,  -- Full rows extracted from tool_result, for CSV/XLSX export
+  tool_cached BOOLEAN DEFAULT false,  -- Result was served from the tool cache
+  duration_ms INTEGER,
+  token_count INTEGER,  -- Estimated tokens of content, for the history budget
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -11,6 +99,31 @@ CREATE TABLE IF NOT EXISTS messages (
 CREATE INDEX IF NOT EXISTS idx_messages_user_id ON messages(user_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at DESC);
 
+-- Migration for existing installs: scope messages to a conversation
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, created_at DESC);
+
+-- Migration for existing installs: store tool invocations as message records
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_role_check;
+ALTER TABLE messages ADD CONSTRAINT messages_role_check CHECK (role IN ('user', 'assistant', 'tool'));
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_message_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_name VARCHAR(200);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_service VARCHAR(100);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_arguments JSONB;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_result TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_error TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS duration_ms INTEGER;
+CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(parent_message_id);
+
+-- Migration for existing installs: keep tool result tables for export
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_tables JSONB;
+
+-- Migration for existing installs: mark tool results served from the cache
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_cached BOOLEAN DEFAULT false;
+
+-- Migration for existing installs: token estimates for the history budget
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS token_count INTEGER;
+
 -- Enable Row Level Security
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 
@@ -18,49 +131,647 @@ ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Users can view own messages" ON messages
   FOR SELECT USING (auth.uid() = user_id);
 
--- Create policy to allow users to insert their own messages
-CREATE POLICY "Users can insert own messages" ON messages
-  FOR INSERT WITH CHECK (auth.uid() = user_id);
+-- No insert policy: messages are only written by /api/chat, so clients can't add
+-- turns to other conversations or forge assistant and tool records fed to the model
+DROP POLICY IF EXISTS "Users can insert own messages" ON messages;
 
 -- Create policy to allow users to delete their own messages
 CREATE POLICY "Users can delete own messages" ON messages
   FOR DELETE USING (auth.uid() = user_id);
 
+-- Create workspaces table: teams that share Google connections
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create workspace members table
+-- viewer: chat with read-only tools; analyst: every tool; admin: also connections, members and invitations
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email VARCHAR(255),  -- For listing members; auth.users isn't readable by clients
+  role VARCHAR(20) NOT NULL CHECK (role IN ('viewer', 'analyst', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+-- Create index for listing a user's workspaces
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+-- Create workspace invitations table (accepted by signing in with the invited email)
+CREATE TABLE IF NOT EXISTS workspace_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,  -- Lowercased
+  role VARCHAR(20) NOT NULL CHECK (role IN ('viewer', 'analyst', 'admin')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for finding invitations addressed to a user
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_email ON workspace_invitations(email);
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_workspace ON workspace_invitations(workspace_id);
+
+-- The signed-in user's role in a workspace (NULL when not a member). SECURITY DEFINER
+-- so policies on workspace_members can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION workspace_role(ws UUID) RETURNS VARCHAR
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT role FROM workspace_members WHERE workspace_id = ws AND user_id = auth.uid()
+$$;
+
+-- The signed-in user's email, lowercased, once they have confirmed it (NULL before).
+-- The JWT's email claim is set at sign-up, so it doesn't prove the user owns the address.
+CREATE OR REPLACE FUNCTION confirmed_email() RETURNS VARCHAR
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT lower(email) FROM auth.users WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL
+$$;
+
+-- Enable Row Level Security for workspaces
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow members to view their workspaces
+CREATE POLICY "Members can view their workspaces" ON workspaces
+  FOR SELECT USING (workspace_role(id) IS NOT NULL);
+
+-- Create policy to allow users to create workspaces
+CREATE POLICY "Users can create workspaces" ON workspaces
+  FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+-- Create policy to allow admins to rename their workspaces
+CREATE POLICY "Admins can update their workspaces" ON workspaces
+  FOR UPDATE USING (workspace_role(id) = 'admin');
+
+-- Create policy to allow admins to delete their workspaces
+CREATE POLICY "Admins can delete their workspaces" ON workspaces
+  FOR DELETE USING (workspace_role(id) = 'admin');
+
+-- Create policy to allow members to see who else is in their workspaces
+CREATE POLICY "Members can view workspace members" ON workspace_members
+  FOR SELECT USING (workspace_role(workspace_id) IS NOT NULL);
+
+-- Create policy to allow admins to add members
+CREATE POLICY "Admins can add workspace members" ON workspace_members
+  FOR INSERT WITH CHECK (workspace_role(workspace_id) = 'admin');
+
+-- Create policy to allow admins to change member roles
+CREATE POLICY "Admins can update workspace members" ON workspace_members
+  FOR UPDATE USING (workspace_role(workspace_id) = 'admin');
+
+-- Create policy to allow admins to remove members, and members to leave
+CREATE POLICY "Admins can remove workspace members" ON workspace_members
+  FOR DELETE USING (workspace_role(workspace_id) = 'admin' OR auth.uid() = user_id);
+
+-- Create policy to allow admins, and the invitee once their email is confirmed, to view invitations
+DROP POLICY IF EXISTS "Admins and invitees can view invitations" ON workspace_invitations;
+CREATE POLICY "Admins and invitees can view invitations" ON workspace_invitations
+  FOR SELECT USING (workspace_role(workspace_id) = 'admin' OR email = confirmed_email());
+
+-- Create policy to allow admins to invite
+CREATE POLICY "Admins can create invitations" ON workspace_invitations
+  FOR INSERT WITH CHECK (workspace_role(workspace_id) = 'admin');
+
+-- Create policy to allow admins to revoke invitations
+CREATE POLICY "Admins can delete invitations" ON workspace_invitations
+  FOR DELETE USING (workspace_role(workspace_id) = 'admin');
+
+-- Every workspace keeps at least one admin, whoever removes or demotes them. Rows
+-- removed because the workspace or the user is being deleted are let through.
+CREATE OR REPLACE FUNCTION keep_workspace_admin() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF OLD.role <> 'admin' OR (TG_OP = 'UPDATE' AND NEW.role = 'admin') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Lock the workspace so two admins can't demote each other at the same time
+  PERFORM 1 FROM workspaces WHERE id = OLD.workspace_id FOR UPDATE;
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace_id = OLD.workspace_id AND role = 'admin' AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one admin';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workspace_members_keep_admin ON workspace_members;
+CREATE TRIGGER workspace_members_keep_admin
+  BEFORE UPDATE OR DELETE ON workspace_members
+  FOR EACH ROW EXECUTE FUNCTION keep_workspace_admin();
+
 -- Create MCP connections table to store user's MCP server credentials
 CREATE TABLE IF NOT EXISTS mcp_connections (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Set when an admin linked the account for a workspace; its members share it
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
   server_name VARCHAR(100) NOT NULL,
-  credentials_path TEXT NOT NULL,
+  -- Google account the tokens belong to; a user can link several per server
+  account_email VARCHAR(255),
+  -- Optional GA4 property or GSC site the account is pinned to
+  default_resource VARCHAR(255),
+  -- OAuth tokens, envelope-encrypted (see lib/crypto/envelope.ts)
+  encrypted_tokens TEXT,
+  encrypted_data_key TEXT,
+  master_key_id VARCHAR(50),
+  -- Legacy plaintext columns, cleared by `npm run credentials:rotate`
+  credentials_path TEXT,
   access_token TEXT,
-  refresh_token TEXT NOT NULL,
+  refresh_token TEXT,
   token_expiry TIMESTAMP WITH TIME ZONE,
   is_active BOOLEAN DEFAULT true,
+  -- Set when the refresh token is revoked; cleared when the user reconnects
+  needs_reauth BOOLEAN DEFAULT false,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  UNIQUE(user_id, server_name)
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Create index for faster MCP connection queries
 CREATE INDEX IF NOT EXISTS idx_mcp_connections_user_id ON mcp_connections(user_id);
 CREATE INDEX IF NOT EXISTS idx_mcp_connections_active ON mcp_connections(user_id, is_active);
 
+-- Migration for existing installs: encrypted tokens replace plaintext columns and credential files
+ALTER TABLE mcp_connections ADD COLUMN IF NOT EXISTS encrypted_tokens TEXT;
+ALTER TABLE mcp_connections ADD COLUMN IF NOT EXISTS encrypted_data_key TEXT;
+ALTER TABLE mcp_connections ADD COLUMN IF NOT EXISTS master_key_id VARCHAR(50);
+ALTER TABLE mcp_connections ALTER COLUMN credentials_path DROP NOT NULL;
+ALTER TABLE mcp_connections ALTER COLUMN refresh_token DROP NOT NULL;
+
+-- Migration for existing installs: revoked refresh tokens prompt a reconnect
+ALTER TABLE mcp_connections ADD COLUMN IF NOT EXISTS needs_reauth BOOLEAN DEFAULT false;
+
+-- Migration for existing installs: multiple Google accounts per server
+ALTER TABLE mcp_connections DROP CONSTRAINT IF EXISTS mcp_connections_user_id_server_name_key;
+ALTER TABLE mcp_connections ADD COLUMN IF NOT EXISTS account_email VARCHAR(255);
+ALTER TABLE mcp_connections ADD COLUMN IF NOT EXISTS default_resource VARCHAR(255);
+
+-- Migration for existing installs: workspace connections
+ALTER TABLE mcp_connections ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+DROP INDEX IF EXISTS idx_mcp_connections_account;
+
+-- One connection per Google account per server, for the user and for each workspace they link it to
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mcp_connections_account_workspace
+  ON mcp_connections(user_id, server_name, account_email, workspace_id) NULLS NOT DISTINCT;
+CREATE INDEX IF NOT EXISTS idx_mcp_connections_workspace ON mcp_connections(workspace_id);
+
 -- Enable Row Level Security for MCP connections
 ALTER TABLE mcp_connections ENABLE ROW LEVEL SECURITY;
 
--- Create policy to allow users to view only their own MCP connections
+-- Personal connections are private to their user; workspace connections are
+-- visible to the workspace's members and managed by its admins
+DROP POLICY IF EXISTS "Users can view own MCP connections" ON mcp_connections;
+DROP POLICY IF EXISTS "Users can insert own MCP connections" ON mcp_connections;
+DROP POLICY IF EXISTS "Users can update own MCP connections" ON mcp_connections;
+DROP POLICY IF EXISTS "Users can delete own MCP connections" ON mcp_connections;
+
+-- Create policy to allow users to view their own and their workspaces' MCP connections
 CREATE POLICY "Users can view own MCP connections" ON mcp_connections
+  FOR SELECT USING (
+    (auth.uid() = user_id AND workspace_id IS NULL) OR workspace_role(workspace_id) IS NOT NULL
+  );
+
+-- No insert, update or delete policies: connections are only written by the OAuth
+-- callback and /api/connections with the service role, so clients can't plant
+-- tokens, file paths or another user's or workspace's ids
+
+-- Create OAuth states table for pending Google connect requests (one row per nonce)
+CREATE TABLE IF NOT EXISTS oauth_states (
+  nonce VARCHAR(64) PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  service VARCHAR(100) NOT NULL,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,  -- Linking for a workspace
+  code_verifier TEXT NOT NULL,
+  -- SHA-256 of the oauth_binding cookie set on the initiating browser
+  binding_hash VARCHAR(64) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for purging expired states
+CREATE INDEX IF NOT EXISTS idx_oauth_states_expires_at ON oauth_states(expires_at);
+
+-- Migration for existing installs: linking accounts for a workspace
+ALTER TABLE oauth_states ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+-- Enable Row Level Security for OAuth states
+-- No policies: only the server (service role) reads or writes pending states
+ALTER TABLE oauth_states ENABLE ROW LEVEL SECURITY;
+
+
+-- Create custom MCP servers table for user-registered servers
+CREATE TABLE IF NOT EXISTS custom_mcp_servers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  tool_prefix VARCHAR(20) NOT NULL,
+  transport VARCHAR(10) NOT NULL CHECK (transport IN ('stdio', 'http', 'sse')),
+  -- stdio servers: command and args must match a command line on the MCP_STDIO_ALLOWLIST
+  command VARCHAR(200),
+  args JSONB DEFAULT '[]'::jsonb,
+  -- http/sse servers; the API key is envelope-encrypted (see lib/crypto/envelope.ts)
+  url TEXT,
+  api_key TEXT,                           -- Plaintext, only on rows saved before encryption
+  encrypted_api_key TEXT,
+  encrypted_data_key TEXT,
+  master_key_id VARCHAR(50),
+  enabled BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, tool_prefix)
+);
+
+-- Migration for existing installs: encrypted API keys (run credentials:rotate to encrypt old ones)
+ALTER TABLE custom_mcp_servers ADD COLUMN IF NOT EXISTS encrypted_api_key TEXT;
+ALTER TABLE custom_mcp_servers ADD COLUMN IF NOT EXISTS encrypted_data_key TEXT;
+ALTER TABLE custom_mcp_servers ADD COLUMN IF NOT EXISTS master_key_id VARCHAR(50);
+
+-- Create index for loading a user's enabled servers
+CREATE INDEX IF NOT EXISTS idx_custom_mcp_servers_user ON custom_mcp_servers(user_id, enabled);
+
+-- Enable Row Level Security for custom MCP servers
+ALTER TABLE custom_mcp_servers ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own custom servers
+CREATE POLICY "Users can view own custom MCP servers" ON custom_mcp_servers
   FOR SELECT USING (auth.uid() = user_id);
 
--- Create policy to allow users to insert their own MCP connections
-CREATE POLICY "Users can insert own MCP connections" ON mcp_connections
+-- No insert or update policies: servers are only written through /api/servers,
+-- which checks commands against the allowlist and URLs against private addresses
+DROP POLICY IF EXISTS "Users can insert own custom MCP servers" ON custom_mcp_servers;
+DROP POLICY IF EXISTS "Users can update own custom MCP servers" ON custom_mcp_servers;
+
+-- Create policy to allow users to delete their own custom servers
+CREATE POLICY "Users can delete own custom MCP servers" ON custom_mcp_servers
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create tool settings table for per-user tool enable/disable
+CREATE TABLE IF NOT EXISTS tool_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  server_name VARCHAR(100) NOT NULL,
+  -- Tool name as reported by the MCP server (without the chat prefix)
+  tool_name VARCHAR(200) NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Ask before running this tool (NULL = follow the server's tool annotations)
+  requires_approval BOOLEAN,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, server_name, tool_name)
+);
+
+-- Migration for existing installs: per-tool approval override
+ALTER TABLE tool_settings ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN;
+
+-- Create index for loading a user's tool settings
+CREATE INDEX IF NOT EXISTS idx_tool_settings_user ON tool_settings(user_id);
+
+-- Enable Row Level Security for tool settings
+ALTER TABLE tool_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own tool settings
+CREATE POLICY "Users can view own tool settings" ON tool_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own tool settings
+CREATE POLICY "Users can insert own tool settings" ON tool_settings
   FOR INSERT WITH CHECK (auth.uid() = user_id);
 
--- Create policy to allow users to update their own MCP connections
-CREATE POLICY "Users can update own MCP connections" ON mcp_connections
+-- Create policy to allow users to update their own tool settings
+CREATE POLICY "Users can update own tool settings" ON tool_settings
   FOR UPDATE USING (auth.uid() = user_id);
 
--- Create policy to allow users to delete their own MCP connections
-CREATE POLICY "Users can delete own MCP connections" ON mcp_connections
+-- Create policy to allow users to delete their own tool settings
+CREATE POLICY "Users can delete own tool settings" ON tool_settings
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create scheduled reports table for saved prompts the agent runs on a cron schedule
+CREATE TABLE IF NOT EXISTS scheduled_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  prompt TEXT NOT NULL,
+  cron VARCHAR(100) NOT NULL,             -- Five-field cron expression
+  timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+  services JSONB,                         -- Server keys to use; NULL = every connected server
+  connection_ids JSONB,                   -- Linked Google accounts to use; NULL = each server's default
+  delivery_method VARCHAR(20) NOT NULL DEFAULT 'none' CHECK (delivery_method IN ('email', 'webhook', 'none')),
+  delivery_target TEXT,                   -- Email address or webhook URL
+  enabled BOOLEAN DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE,   -- NULL while paused
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for the scheduler's due-report query and a user's report list
+CREATE INDEX IF NOT EXISTS idx_scheduled_reports_due ON scheduled_reports(next_run_at) WHERE enabled;
+CREATE INDEX IF NOT EXISTS idx_scheduled_reports_user ON scheduled_reports(user_id);
+
+-- Enable Row Level Security for scheduled reports
+ALTER TABLE scheduled_reports ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own scheduled reports
+CREATE POLICY "Users can view own scheduled reports" ON scheduled_reports
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- No insert or update policies: reports are only written through /api/reports,
+-- which validates the schedule and delivery target the scheduler acts on
+DROP POLICY IF EXISTS "Users can insert own scheduled reports" ON scheduled_reports;
+DROP POLICY IF EXISTS "Users can update own scheduled reports" ON scheduled_reports;
+
+-- Create policy to allow users to delete their own scheduled reports
+CREATE POLICY "Users can delete own scheduled reports" ON scheduled_reports
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create report runs table for the history of each scheduled report
+CREATE TABLE IF NOT EXISTS report_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID NOT NULL REFERENCES scheduled_reports(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,  -- Where the answer was saved
+  error TEXT,
+  delivery_status VARCHAR(20) CHECK (delivery_status IN ('sent', 'failed', 'skipped')),
+  delivery_error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for run history
+CREATE INDEX IF NOT EXISTS idx_report_runs_user ON report_runs(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_report_runs_report ON report_runs(report_id, started_at DESC);
+
+-- Enable Row Level Security for report runs
+ALTER TABLE report_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own report runs
+-- (runs are written by the server only)
+CREATE POLICY "Users can view own report runs" ON report_runs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create metric monitors table for threshold and anomaly alerts on GA4/GSC metrics
+CREATE TABLE IF NOT EXISTS metric_monitors (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  server_name VARCHAR(100) NOT NULL,      -- 'google-analytics' or 'google-search-console'
+  connection_id UUID NOT NULL REFERENCES mcp_connections(id) ON DELETE CASCADE,
+  resource TEXT NOT NULL,                 -- GA4 property or GSC site
+  metric VARCHAR(100) NOT NULL,
+  rule VARCHAR(20) NOT NULL CHECK (rule IN ('change', 'zscore', 'threshold')),
+  direction VARCHAR(20) NOT NULL DEFAULT 'either' CHECK (direction IN ('drop', 'rise', 'either')),
+  threshold DOUBLE PRECISION NOT NULL,    -- Percent change, standard deviations or absolute value
+  baseline_days INTEGER NOT NULL DEFAULT 28,
+  cron VARCHAR(100) NOT NULL DEFAULT '0 8 * * *',
+  timezone VARCHAR(100) NOT NULL DEFAULT 'UTC',
+  open_conversation BOOLEAN DEFAULT false, -- Start a conversation about each alert
+  enabled BOOLEAN DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE,   -- NULL while paused
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  last_value DOUBLE PRECISION,
+  last_status VARCHAR(20) CHECK (last_status IN ('ok', 'triggered', 'failed')),
+  last_error TEXT,
+  last_alerted_date DATE,                 -- Observed date of the last alert, so a day alerts once
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for the scheduler's due-monitor query and a user's monitor list
+CREATE INDEX IF NOT EXISTS idx_metric_monitors_due ON metric_monitors(next_run_at) WHERE enabled;
+CREATE INDEX IF NOT EXISTS idx_metric_monitors_user ON metric_monitors(user_id);
+
+-- Enable Row Level Security for metric monitors
+ALTER TABLE metric_monitors ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own metric monitors
+CREATE POLICY "Users can view own metric monitors" ON metric_monitors
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- No insert or update policies: monitors are only written through /api/monitors,
+-- which validates the schedule, metric and thresholds the scheduler acts on
+DROP POLICY IF EXISTS "Users can insert own metric monitors" ON metric_monitors;
+DROP POLICY IF EXISTS "Users can update own metric monitors" ON metric_monitors;
+
+-- Create policy to allow users to delete their own metric monitors
+CREATE POLICY "Users can delete own metric monitors" ON metric_monitors
   FOR DELETE USING (auth.uid() = user_id);
 
+-- Create monitor observations table for the daily time series behind each monitor
+CREATE TABLE IF NOT EXISTS monitor_observations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  monitor_id UUID NOT NULL REFERENCES metric_monitors(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  observed_date DATE NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(monitor_id, observed_date)       -- Re-checks refresh late-settling values
+);
+
+-- Enable Row Level Security for monitor observations
+ALTER TABLE monitor_observations ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own monitor observations
+-- (observations are written by the server only)
+CREATE POLICY "Users can view own monitor observations" ON monitor_observations
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create notifications table for in-app alerts
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind VARCHAR(50) NOT NULL,              -- e.g. 'monitor_alert'
+  title VARCHAR(300) NOT NULL,
+  body TEXT,
+  monitor_id UUID REFERENCES metric_monitors(id) ON DELETE SET NULL,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  data JSONB,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for a user's latest notifications
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+
+-- Enable Row Level Security for notifications
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own notifications
+CREATE POLICY "Users can view own notifications" ON notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create policy to allow users to mark their own notifications read
+CREATE POLICY "Users can update own notifications" ON notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Create tool cache table for sharing MCP tool results across instances (TOOL_CACHE=postgres)
+CREATE TABLE IF NOT EXISTS tool_cache (
+  key VARCHAR(64) PRIMARY KEY,            -- SHA-256 of user, account, tool and normalized arguments
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  result JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for purging expired entries
+CREATE INDEX IF NOT EXISTS idx_tool_cache_expires ON tool_cache(expires_at);
+
+-- Enable Row Level Security for the tool cache
+-- (no policies: only the server reads and writes it, with the service role key)
+ALTER TABLE tool_cache ENABLE ROW LEVEL SECURITY;
+
+-- Create usage records table: one row per chat request or scheduled report run
+CREATE TABLE IF NOT EXISTS usage_records (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  source VARCHAR(20) NOT NULL CHECK (source IN ('chat', 'report')),
+  provider VARCHAR(50) NOT NULL,
+  model VARCHAR(100) NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  llm_calls INTEGER NOT NULL DEFAULT 0,   -- Completions made, including summaries and titles
+  tool_calls INTEGER NOT NULL DEFAULT 0,
+  tool_calls_by_service JSONB,            -- { service: calls }
+  tool_errors INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for summing a user's usage over a period
+CREATE INDEX IF NOT EXISTS idx_usage_records_user_created ON usage_records(user_id, created_at DESC);
+
+-- A user's requests, tokens and tool calls since a point in time, for quota checks.
+-- Runs as the caller, so RLS still limits users to their own records.
+CREATE OR REPLACE FUNCTION usage_totals(p_user_id UUID, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (requests BIGINT, tokens BIGINT, tool_calls BIGINT)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(prompt_tokens + completion_tokens), 0),
+    COALESCE(SUM(tool_calls), 0)
+  FROM usage_records
+  WHERE user_id = p_user_id AND created_at >= p_since
+$$;
+
+-- Enable Row Level Security for usage records
+ALTER TABLE usage_records ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own usage (written by the server)
+CREATE POLICY "Users can view own usage records" ON usage_records
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create usage quotas table: a user's plan and optional per-user limits
+-- (NULL = the plan's limit, -1 = unlimited); users without a row get USAGE_DEFAULT_PLAN
+CREATE TABLE IF NOT EXISTS usage_quotas (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan VARCHAR(50) NOT NULL DEFAULT 'free',
+  daily_requests INTEGER,
+  daily_tokens INTEGER,
+  daily_tool_calls INTEGER,
+  monthly_requests INTEGER,
+  monthly_tokens BIGINT,
+  monthly_tool_calls INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security for usage quotas
+ALTER TABLE usage_quotas ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view only their own quota (set by admins with the service role key)
+CREATE POLICY "Users can view own usage quota" ON usage_quotas
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create shared links table: read-only snapshots of a conversation or one answer
+CREATE TABLE IF NOT EXISTS shared_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,  -- A single answer; NULL shares the whole conversation
+  token VARCHAR(64) NOT NULL UNIQUE,      -- Random, unguessable part of the /share URL
+  title VARCHAR(200) NOT NULL,
+  snapshot JSONB NOT NULL,                -- Messages and tool calls as they were when shared
+  password_hash TEXT,                     -- scrypt; NULL when the link has no password
+  has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,  -- Lets lists skip the hash
+  expires_at TIMESTAMP WITH TIME ZONE,    -- NULL never expires
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for listing a user's shared links
+CREATE INDEX IF NOT EXISTS idx_shared_links_user ON shared_links(user_id, created_at DESC);
+
+-- Enable Row Level Security for shared links
+ALTER TABLE shared_links ENABLE ROW LEVEL SECURITY;
+
+-- Create policies so users manage only their own links (viewers read them through the server)
+CREATE POLICY "Users can view own shared links" ON shared_links
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shared links" ON shared_links
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create audit log table: append-only record of tool calls and OAuth/credential events.
+-- Ids are plain columns rather than foreign keys so entries outlive the users and connections they name.
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event VARCHAR(40) NOT NULL CHECK (event IN ('tool_call', 'oauth_connect', 'oauth_disconnect', 'credential_deactivated')),
+  user_id UUID NOT NULL,                  -- Who acted
+  user_email VARCHAR(320),
+  workspace_id UUID,                      -- Set for workspace connections
+  server_name VARCHAR(100),
+  connection_id UUID,
+  account_email VARCHAR(320),             -- Google account used
+  tool_name VARCHAR(200),
+  resource VARCHAR(500),                  -- GA4 property or GSC site the call was made against
+  args_hash CHAR(64),                     -- SHA-256 of the tool arguments; the arguments themselves are not stored
+  result_bytes INTEGER,
+  duration_ms INTEGER,
+  status VARCHAR(20) NOT NULL DEFAULT 'succeeded' CHECK (status IN ('succeeded', 'failed', 'cached')),
+  error TEXT,
+  ip_address VARCHAR(64),
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for the audit view's filters
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_id ON audit_log(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_user ON audit_log(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_workspace ON audit_log(workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_resource ON audit_log(resource);
+
+-- Migration for existing installs: pages continue from (created_at, id)
+DROP INDEX IF EXISTS idx_audit_log_created;
+
+-- Enable Row Level Security for the audit log; no policies, so it is read only through the server
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Reject updates and deletes, including with the service role key
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
@@ -0,0 +1,8 @@
+// Instrumentation - Server startup hook (Next.js calls register() once per server process)
+export async function register() {
+  // The scheduler needs Node APIs; skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('./lib/scheduler');
+    startScheduler();
+  }
+}
@@ -0,0 +1,43 @@
+// Audit Log tests - page cursors and the CSV export's formula escaping
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeAuditCursor, parseAuditCursor } from './audit-log';
+import { tableToCsv } from '../export/tables';
+
+const id = '3f6c1a2e-8d4b-4c1e-9a7f-0b2d5e6f7a81';
+
+describe('audit cursors', () => {
+  it('round-trips created_at with microseconds and the id', () => {
+    const cursor = encodeAuditCursor({ created_at: '2026-10-19T20:10:01.123456+00:00', id });
+
+    assert.deepEqual(parseAuditCursor(cursor), { created_at: '2026-10-19T20:10:01.123456+00:00', id });
+  });
+
+  it('rejects cursors that could change the filter', () => {
+    assert.equal(parseAuditCursor(null), undefined);
+    assert.equal(parseAuditCursor('2026-10-19T20:10:01Z'), undefined);
+    assert.equal(parseAuditCursor(`2026-10-19T20:10:01Z"),user_id.neq.x|${id}`), undefined);
+    assert.equal(parseAuditCursor('2026-10-19T20:10:01Z|1),id.gt.(0'), undefined);
+  });
+});
+
+describe('audit CSV export', () => {
+  it('prefixes cells a spreadsheet would run as a formula', () => {
+    const csv = tableToCsv({
+      name: 'Audit log',
+      columns: ['user_email', 'error', 'tool_name', 'resource', 'duration_ms'],
+      rows: [['=HYPERLINK("http://x")', '+1', ' @SUM(A1)', '＝cmd', -5]]
+    });
+
+    assert.equal(
+      csv.split('\r\n')[1],
+      `"'=HYPERLINK(""http://x"")",'+1,' @SUM(A1),'＝cmd,-5`
+    );
+  });
+
+  it('leaves ordinary text alone', () => {
+    const csv = tableToCsv({ name: 'Audit log', columns: ['user_email'], rows: [['ana@example.com']] });
+
+    assert.equal(csv, 'user_email\r\nana@example.com\r\n');
+  });
+});
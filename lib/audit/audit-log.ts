@@ -0,0 +1,250 @@
+// Audit Log - Append-only record of MCP tool calls and OAuth/credential events
+//
+// Answers "who queried which GA4 property or GSC site, and when". The table
+// rejects updates and deletes; entries keep ids and emails rather than foreign
+// keys so they outlive the users and connections they mention. Writes are best
+// effort: a failed audit write is logged, not surfaced to the action it records.
+import { createHash } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { normalizeArgs } from '../mcp/tool-cache';
+import { listMemberships, confirmedEmail } from '../workspaces/workspaces';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export type AuditEventType = 'tool_call' | 'oauth_connect' | 'oauth_disconnect' | 'credential_deactivated';
+export type AuditStatus = 'succeeded' | 'failed' | 'cached';
+
+export const AUDIT_EVENT_TYPES: AuditEventType[] = ['tool_call', 'oauth_connect', 'oauth_disconnect', 'credential_deactivated'];
+export const AUDIT_STATUSES: AuditStatus[] = ['succeeded', 'failed', 'cached'];
+
+// Argument names the GA4 and GSC servers take their property or site in
+const RESOURCE_ARGUMENTS = ['property_id', 'propertyId', 'property', 'siteUrl', 'site_url'];
+
+export interface AuditEvent {
+  id: string;
+  event: AuditEventType;
+  user_id: string;              // Who acted; the linking user for events without one
+  user_email: string | null;
+  workspace_id: string | null;
+  server_name: string | null;
+  connection_id: string | null;
+  account_email: string | null; // Google account the call or event used
+  tool_name: string | null;
+  resource: string | null;      // GA4 property or GSC site from the tool arguments
+  args_hash: string | null;
+  result_bytes: number | null;
+  duration_ms: number | null;
+  status: AuditStatus;
+  error: string | null;
+  ip_address: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditEventInput {
+  event: AuditEventType;
+  userId: string;
+  userEmail?: string | null;
+  workspaceId?: string | null;
+  serverName?: string | null;
+  connectionId?: string | null;
+  accountEmail?: string | null;
+  toolName?: string | null;
+  resource?: string | null;
+  argsHash?: string | null;
+  resultBytes?: number | null;
+  durationMs?: number | null;
+  status?: AuditStatus;
+  error?: string | null;
+  ipAddress?: string | null;
+  details?: Record<string, unknown> | null;
+}
+
+const globalForAudit = globalThis as unknown as {
+  auditUserEmails?: Map<string, string | null>;
+};
+
+/**
+ * Email for a user id, looked up once per process; tool calls only know the id
+ */
+async function resolveUserEmail(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  if (!globalForAudit.auditUserEmails) {
+    globalForAudit.auditUserEmails = new Map();
+  }
+
+  const cache = globalForAudit.auditUserEmails;
+  if (!cache.has(userId)) {
+    const { data } = await supabase.auth.admin.getUserById(userId);
+    cache.set(userId, data?.user?.email || null);
+  }
+  return cache.get(userId) || null;
+}
+
+/**
+ * SHA-256 of the arguments with keys sorted, so identical queries share a hash
+ * without the log storing their contents
+ */
+export function hashToolArguments(args: any): string {
+  return createHash('sha256').update(JSON.stringify(normalizeArgs(args ?? {}))).digest('hex');
+}
+
+/**
+ * The GA4 property or GSC site a call was made against, if its arguments name one
+ */
+export function toolCallResource(args: any): string | null {
+  if (!args || typeof args !== 'object') {
+    return null;
+  }
+
+  for (const name of RESOURCE_ARGUMENTS) {
+    const value = args[name];
+    if (typeof value === 'string' || typeof value === 'number') {
+      return String(value).substring(0, 500);
+    }
+  }
+  return null;
+}
+
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { error } = await supabase
+      .from('audit_log')
+      .insert({
+        event: input.event,
+        user_id: input.userId,
+        user_email: input.userEmail !== undefined ? input.userEmail : await resolveUserEmail(supabase, input.userId),
+        workspace_id: input.workspaceId || null,
+        server_name: input.serverName || null,
+        connection_id: input.connectionId || null,
+        account_email: input.accountEmail || null,
+        tool_name: input.toolName || null,
+        resource: input.resource || null,
+        args_hash: input.argsHash || null,
+        result_bytes: input.resultBytes ?? null,
+        duration_ms: input.durationMs ?? null,
+        status: input.status || 'succeeded',
+        error: input.error ? input.error.substring(0, 1000) : null,
+        ip_address: input.ipAddress || null,
+        details: input.details || null
+      });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error(`Error recording ${input.event} audit event:`, error);
+  }
+}
+
+/**
+ * Which entries a user may read: everything for deployment admins
+ * (AUDIT_ADMIN_EMAILS, matched against the user's confirmed email), their
+ * workspaces' events for workspace admins, otherwise nothing (null)
+ */
+export async function getAuditScope(
+  supabase: SupabaseClient,
+  user: { id: string; email?: string | null; email_confirmed_at?: string | null }
+): Promise<{ all: true } | { all: false; workspaceIds: string[] } | null> {
+  const admins = (process.env.AUDIT_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  const email = confirmedEmail(user);
+  if (email && admins.includes(email)) {
+    return { all: true };
+  }
+
+  const workspaceIds = (await listMemberships(supabase, user.id))
+    .filter(membership => membership.role === 'admin')
+    .map(membership => membership.workspace_id);
+
+  return workspaceIds.length > 0 ? { all: false, workspaceIds } : null;
+}
+
+export interface AuditFilters {
+  event?: AuditEventType;
+  status?: AuditStatus;
+  user?: string;          // Email, partial match
+  serverName?: string;    // Partial match
+  toolName?: string;      // Partial match
+  resource?: string;      // Partial match
+  workspaceId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Where a page of entries ends. Entries can share a `created_at`, so the id
+ * breaks ties and no entry is skipped or repeated between pages.
+ */
+export interface AuditCursor {
+  created_at: string;
+  id: string;
+}
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeAuditCursor(event: Pick<AuditEvent, 'created_at' | 'id'>): string {
+  return `${event.created_at}|${event.id}`;
+}
+
+/**
+ * The cursor from a `before` parameter, or undefined when it isn't one we issued
+ */
+export function parseAuditCursor(value: string | null | undefined): AuditCursor | undefined {
+  const [createdAt, id] = (value || '').split('|');
+  if (!TIMESTAMP_PATTERN.test(createdAt) || !UUID_PATTERN.test(id || '')) {
+    return undefined;
+  }
+  return { created_at: createdAt, id };
+}
+
+/**
+ * Newest entries first, `before` continuing after the previous page's last entry
+ */
+export async function loadAuditEvents(
+  supabase: SupabaseClient,
+  scope: { all: true } | { all: false; workspaceIds: string[] },
+  filters: AuditFilters,
+  limit: number,
+  before?: AuditCursor
+): Promise<AuditEvent[]> {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (!scope.all) query = query.in('workspace_id', scope.workspaceIds);
+  if (filters.event) query = query.eq('event', filters.event);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.user) query = query.ilike('user_email', `%${filters.user}%`);
+  if (filters.serverName) query = query.ilike('server_name', `%${filters.serverName}%`);
+  if (filters.toolName) query = query.ilike('tool_name', `%${filters.toolName}%`);
+  if (filters.resource) query = query.ilike('resource', `%${filters.resource}%`);
+  if (filters.workspaceId) query = query.eq('workspace_id', filters.workspaceId);
+  if (filters.from) query = query.gte('created_at', filters.from.toISOString());
+  if (filters.to) query = query.lt('created_at', filters.to.toISOString());
+  if (before) {
+    query = query.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load audit log: ${error.message}`);
+  }
+
+  return (data || []) as AuditEvent[];
+}
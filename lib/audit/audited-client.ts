@@ -0,0 +1,92 @@
+// Audited MCP Client - Records every tool call a user makes through a pooled connection
+import { MCPServerInterface, MCPConnectionCredentials, MCPTool, MCPResource } from '../mcp/types';
+import { recordAuditEvent, hashToolArguments, toolCallResource, AuditStatus } from './audit-log';
+
+export interface AuditContext {
+  userId: string;           // The user calling, not the connection's owner
+  serverName: string;
+  connectionId?: string;
+  accountEmail?: string;
+  workspaceId?: string;
+}
+
+/**
+ * Text of an MCP error result (`isError: true`), which comes back instead of a throw
+ */
+function errorResultText(result: any): string {
+  const text = Array.isArray(result?.content)
+    ? result.content.map((part: any) => part?.text).filter(Boolean).join(' ')
+    : '';
+  return text || 'Tool returned an error';
+}
+
+/**
+ * Wraps a pooled client for one user's use of it. The pooled client is shared
+ * (by workspace members too), so the wrapper carries who is calling.
+ */
+export class AuditedMCPClient implements MCPServerInterface {
+  constructor(private client: MCPServerInterface, private context: AuditContext) {}
+
+  connect(credentials: MCPConnectionCredentials): Promise<void> {
+    return this.client.connect(credentials);
+  }
+
+  disconnect(): Promise<void> {
+    return this.client.disconnect();
+  }
+
+  listTools(): Promise<MCPTool[]> {
+    return this.client.listTools();
+  }
+
+  listResources(): Promise<MCPResource[]> {
+    return this.client.listResources();
+  }
+
+  readResource(uri: string): Promise<any> {
+    return this.client.readResource(uri);
+  }
+
+  async callTool(name: string, args: any): Promise<any> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await this.client.callTool(name, args);
+      await this.record(name, args, result, Date.now() - startedAt, result?.isError ? 'failed' : 'succeeded',
+        result?.isError ? errorResultText(result) : null);
+      return result;
+    } catch (error: any) {
+      await this.record(name, args, null, Date.now() - startedAt, 'failed', error.message || String(error));
+      throw error;
+    }
+  }
+
+  async recordCachedCall(name: string, args: any, result: any): Promise<void> {
+    await this.record(name, args, result, 0, 'cached', null);
+  }
+
+  private async record(
+    name: string,
+    args: any,
+    result: any,
+    durationMs: number,
+    status: AuditStatus,
+    error: string | null
+  ): Promise<void> {
+    await recordAuditEvent({
+      event: 'tool_call',
+      userId: this.context.userId,
+      workspaceId: this.context.workspaceId,
+      serverName: this.context.serverName,
+      connectionId: this.context.connectionId,
+      accountEmail: this.context.accountEmail,
+      toolName: name,
+      resource: toolCallResource(args),
+      argsHash: hashToolArguments(args),
+      resultBytes: result === null || result === undefined ? null : Buffer.byteLength(JSON.stringify(result)),
+      durationMs,
+      status,
+      error
+    });
+  }
+}
@@ -1,5 +1,5 @@
 // Google OAuth Configuration
-import { OAuth2Client } from 'google-auth-library';
+import { OAuth2Client, CodeChallengeMethod } from 'google-auth-library';
 
 const GOOGLE_CLIENT_ID = process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID!;
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET!;
@@ -34,31 +34,62 @@ export const ALL_GOOGLE_SCOPES = [...GA4_SCOPES, ...GSC_SCOPES, ...COMMON_SCOPES
 // Legacy export for backward compatibility
 export const GOOGLE_SCOPES = ALL_GOOGLE_SCOPES;
 
-export function getGoogleAuthUrl(state: string, service?: 'ga4' | 'gsc' | 'all'): string {
-  let scopes = ALL_GOOGLE_SCOPES;
-  
-  // Allow requesting specific scopes based on service
-  if (service === 'ga4') {
-    scopes = [...GA4_SCOPES, ...COMMON_SCOPES];
-  } else if (service === 'gsc') {
-    scopes = [...GSC_SCOPES, ...COMMON_SCOPES];
-  }
-  
+/**
+ * Build the consent URL for the given service scopes (user info scopes are always included)
+ */
+export function getGoogleAuthUrl(state: string, serviceScopes: string[], codeChallenge: string): string {
+  const scopes = Array.from(new Set([...serviceScopes, ...COMMON_SCOPES]));
+
   return googleOAuthClient.generateAuthUrl({
     access_type: 'offline',
     scope: scopes,
     state: state,
-    prompt: 'consent'
+    prompt: 'consent select_account',  // Let users link more than one Google account
+    code_challenge: codeChallenge,
+    code_challenge_method: CodeChallengeMethod.S256
   });
 }
 
-export async function getGoogleTokens(code: string) {
-  const { tokens } = await googleOAuthClient.getToken(code);
+/**
+ * Create a PKCE verifier/challenge pair for one authorization request
+ */
+export async function createPkcePair(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const { codeVerifier, codeChallenge } = await googleOAuthClient.generateCodeVerifierAsync();
+  return { codeVerifier, codeChallenge: codeChallenge! };
+}
+
+export async function getGoogleTokens(code: string, codeVerifier: string) {
+  const { tokens } = await googleOAuthClient.getToken({ code, codeVerifier });
   return tokens;
 }
 
+/**
+ * Exchange a refresh token for a new access token. Uses its own client so
+ * concurrent refreshes for different users don't share credentials.
+ */
 export async function refreshGoogleToken(refreshToken: string) {
-  googleOAuthClient.setCredentials({ refresh_token: refreshToken });
-  const { credentials } = await googleOAuthClient.refreshAccessToken();
+  const client = new OAuth2Client(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, REDIRECT_URI);
+  client.setCredentials({ refresh_token: refreshToken });
+  const { credentials } = await client.refreshAccessToken();
   return credentials;
 }
+
+/**
+ * Email of the Google account an access token belongs to (needs the userinfo.email scope)
+ */
+export async function getGoogleAccountEmail(accessToken: string): Promise<string | undefined> {
+  try {
+    const info = await googleOAuthClient.getTokenInfo(accessToken);
+    return info.email;
+  } catch (error) {
+    console.error('Failed to look up Google account email:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Whether a token request failed because the refresh token was revoked or expired
+ */
+export function isInvalidGrantError(error: any): boolean {
+  return error?.response?.data?.error === 'invalid_grant' || error?.message === 'invalid_grant';
+}
@@ -0,0 +1,166 @@
+// OAuth State - Signed, single-use state for the Google connect flow
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// How long a user has to finish the Google consent screen
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Cookie set on the browser that started the flow. The callback must present
+ * it, so a state (or callback URL) can't be replayed from another session.
+ */
+export const OAUTH_BINDING_COOKIE = 'oauth_binding';
+export const OAUTH_BINDING_COOKIE_MAX_AGE = STATE_TTL_MS / 1000;
+
+export interface OAuthStateData {
+  userId: string;
+  service: string;
+  codeVerifier: string;
+  workspaceId: string | null;  // Link the account for this workspace instead of the user
+}
+
+export type OAuthStateFailure = 'invalid' | 'expired' | 'replayed' | 'session_mismatch';
+
+export type OAuthStateResult =
+  | { ok: true; data: OAuthStateData }
+  | { ok: false; reason: OAuthStateFailure };
+
+interface StatePayload {
+  n: string;  // Nonce, the oauth_states row
+  u: string;  // User ID
+  s: string;  // Service key
+  w?: string; // Workspace ID
+  e: number;  // Expiry (ms since epoch)
+}
+
+function getStateSecret(): string {
+  const secret = process.env.OAUTH_STATE_SECRET;
+  if (!secret) {
+    throw new Error('OAUTH_STATE_SECRET is not set');
+  }
+  return secret;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', getStateSecret()).update(payload).digest();
+}
+
+function hashBinding(binding: string): string {
+  return createHash('sha256').update(binding).digest('hex');
+}
+
+/**
+ * Start an authorization request: store a one-time nonce with the PKCE verifier
+ * and return the signed `state` plus the binding value for the cookie.
+ */
+export async function createOAuthState(
+  supabase: SupabaseClient,
+  userId: string,
+  service: string,
+  codeVerifier: string,
+  workspaceId: string | null = null
+): Promise<{ state: string; binding: string }> {
+  const nonce = randomBytes(16).toString('base64url');
+  const binding = randomBytes(32).toString('base64url');
+  const expiresAt = Date.now() + STATE_TTL_MS;
+
+  // Drop abandoned requests while we're here
+  await supabase
+    .from('oauth_states')
+    .delete()
+    .lt('expires_at', new Date().toISOString());
+
+  const { error } = await supabase
+    .from('oauth_states')
+    .insert({
+      nonce,
+      user_id: userId,
+      service,
+      workspace_id: workspaceId,
+      code_verifier: codeVerifier,
+      binding_hash: hashBinding(binding),
+      expires_at: new Date(expiresAt).toISOString()
+    });
+
+  if (error) {
+    throw new Error(`Failed to store OAuth state: ${error.message}`);
+  }
+
+  const payload = Buffer.from(JSON.stringify({
+    n: nonce,
+    u: userId,
+    s: service,
+    ...(workspaceId && { w: workspaceId }),
+    e: expiresAt
+  } as StatePayload)).toString('base64url');
+  return { state: `${payload}.${sign(payload).toString('base64url')}`, binding };
+}
+
+/**
+ * Verify a state returned to the callback and consume its nonce. Fails if the
+ * signature doesn't match, the state expired or was already used, or the
+ * callback came from a browser other than the one that started the flow.
+ */
+export async function consumeOAuthState(
+  supabase: SupabaseClient,
+  state: string,
+  binding: string | undefined
+): Promise<OAuthStateResult> {
+  const [payload, signature] = state.split('.');
+  if (!payload || !signature) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const expected = sign(payload);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  let data: StatePayload;
+  try {
+    data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (data.e < Date.now()) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  if (!binding) {
+    return { ok: false, reason: 'session_mismatch' };
+  }
+
+  // Deleting the row is what makes the nonce single-use. Only the browser holding
+  // the binding cookie can consume it, so a leaked state can't burn the flow.
+  const { data: row, error } = await supabase
+    .from('oauth_states')
+    .delete()
+    .eq('nonce', data.n)
+    .eq('binding_hash', hashBinding(binding))
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load OAuth state: ${error.message}`);
+  }
+
+  if (!row) {
+    const { data: pending } = await supabase
+      .from('oauth_states')
+      .select('nonce')
+      .eq('nonce', data.n)
+      .maybeSingle();
+    return { ok: false, reason: pending ? 'session_mismatch' : 'replayed' };
+  }
+
+  if (row.user_id !== data.u || row.service !== data.s || (row.workspace_id || undefined) !== data.w) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  return {
+    ok: true,
+    data: { userId: row.user_id, service: row.service, codeVerifier: row.code_verifier, workspaceId: row.workspace_id || null }
+  };
+}
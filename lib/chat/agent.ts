@@ -0,0 +1,374 @@
+// Chat Agent Loop - Runs the LLM/tool-calling loop shared by the JSON and streaming chat APIs
+import { MCPServerInterface } from '../mcp/types';
+import { callToolCached } from '../mcp/tool-cache';
+import { ContextBudget, fitMessagesToBudget, estimateToolDefinitionTokens, truncateToolResult } from './context';
+import { LLMProvider, LLMConfig, LLMMessage, LLMToolCall } from '../llm/types';
+import type { StoredMessage } from './messages';
+
+const MAX_ITERATIONS = 5; // Prevent infinite loops
+
+/**
+ * Progress events emitted while the agent loop runs
+ */
+export type AgentEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: any }
+  | { type: 'tool_result'; id: string; name: string; rowCount: number | null; cached?: boolean; error?: string }
+  | { type: 'final'; response: string };
+
+/**
+ * Events written to the SSE stream by /api/chat
+ */
+export type ChatStreamEvent =
+  | AgentEvent
+  | { type: 'conversation'; conversationId: string; title: string | null }
+  | { type: 'saved'; userMessage: StoredMessage; assistantMessage: StoredMessage; toolMessages: StoredMessage[] }
+  | { type: 'approval_required'; approvalId: string; id: string; name: string; arguments: any }
+  | { type: 'error'; error: string };
+
+export interface AgentTool {
+  name: string;
+  description: string;
+  inputSchema: any;
+  _originalName: string;
+  _service: string;
+  _connectionId?: string;       // Linked Google account the tool runs as
+  _requiresApproval?: boolean;  // Pause for user confirmation before calling
+  _cacheable?: boolean;         // Read-only, so results may be served from the tool cache
+}
+
+/**
+ * A tool call waiting for the user's decision
+ */
+export interface ApprovalRequest {
+  id: string;
+  name: string;
+  arguments: any;
+}
+
+/**
+ * A tool invocation made during the loop, persisted alongside the answer
+ */
+export interface ToolInvocation {
+  name: string;
+  service: string | null;
+  arguments: any;
+  result: string | null;
+  durationMs: number;
+  error: string | null;
+  cached: boolean;              // Served from the tool cache
+}
+
+export interface AgentResult {
+  response: string;
+  toolCalls: ToolInvocation[];
+}
+
+export interface AgentOptions {
+  provider: LLMProvider;
+  config: LLMConfig;
+  messages: LLMMessage[];
+  tools: AgentTool[];
+  // Keyed by the tool's `_connectionId` when set, otherwise its `_service`
+  mcpClients: { [service: string]: MCPServerInterface };
+  onEvent?: (event: AgentEvent) => void;
+  // Resolves true to run a tool marked `_requiresApproval`; without it such tools are refused
+  requestApproval?: (request: ApprovalRequest) => Promise<boolean>;
+  // Serve `_cacheable` tools from the tool cache for this user; `bypass` forces fresh results
+  cache?: ToolCache;
+  // Caps each tool result and trims the prompt before every completion
+  budget?: ContextBudget;
+  // Stops the loop before the next completion or tool call, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface ToolCache {
+  userId: string;
+  bypass?: boolean;
+}
+
+/**
+ * Run the agent loop until the model produces a final answer.
+ * When `onEvent` is provided, completions are streamed and token deltas
+ * are forwarded as they arrive.
+ */
+export async function runAgentLoop({
+  provider,
+  config,
+  messages,
+  tools,
+  mcpClients,
+  onEvent,
+  requestApproval,
+  cache,
+  budget,
+  signal,
+}: AgentOptions): Promise<AgentResult> {
+  const emit = onEvent || (() => {});
+  const toolCalls: ToolInvocation[] = [];
+  let finalResponse = '';
+
+  const toolDefinitions = tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.inputSchema
+  }));
+
+  const complete = (withTools: boolean) => {
+    throwIfAborted(signal);
+
+    if (budget) {
+      fitMessagesToBudget(messages, budget.inputTokens, withTools ? estimateToolDefinitionTokens(toolDefinitions) : 0);
+    }
+
+    return provider.chat({
+      model: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      messages,
+      ...(withTools && { tools: toolDefinitions })
+    }, {
+      ...(onEvent && { onToken: (content: string) => onEvent({ type: 'delta', content }) })
+    });
+  };
+
+  if (tools.length === 0) {
+    // Regular completion without tool calling (no tools available)
+    const completion = await complete(false);
+    finalResponse = completion.content || 'No response';
+    emit({ type: 'final', response: finalResponse });
+    return { response: finalResponse, toolCalls };
+  }
+
+  let iteration = 0;
+
+  while (iteration < MAX_ITERATIONS) {
+    iteration++;
+    console.log(`\n=== Agent Iteration ${iteration} ===`);
+
+    const completion = await complete(true);
+
+    // If no tool call, we have the final answer
+    if (completion.toolCalls.length === 0) {
+      finalResponse = completion.content || 'No response';
+      console.log('Final answer received (no more tool calls)');
+      break;
+    }
+
+    // Add assistant's tool calls to messages
+    messages.push({
+      role: 'assistant',
+      content: completion.content,
+      toolCalls: completion.toolCalls,
+    });
+
+    // Execute every tool call from this turn concurrently, then feed each
+    // result back in order with its tool_call_id
+    const results = await Promise.all(
+      completion.toolCalls.map(toolCall => executeToolCall(toolCall, tools, mcpClients, emit, requestApproval, cache, budget, signal))
+    );
+
+    for (const { invocation, message } of results) {
+      toolCalls.push(invocation);
+      messages.push(message);
+    }
+
+    // Continue loop - LLM will decide next action based on tool results
+  }
+
+  // If we hit max iterations without a final answer
+  if (iteration >= MAX_ITERATIONS && !finalResponse) {
+    console.warn('Max iterations reached, forcing final response');
+
+    // Ask LLM to provide final answer with what it has
+    messages.push({
+      role: 'system',
+      content: 'Please provide a final answer based on the information gathered so far.'
+    });
+
+    const completion = await complete(false);
+    finalResponse = completion.content || 'Unable to complete the request.';
+  }
+
+  emit({ type: 'final', response: finalResponse });
+  return { response: finalResponse, toolCalls };
+}
+
+/**
+ * Execute a single tool call against its MCP client. Failures, including
+ * malformed arguments from the model, become tool error results so the
+ * model can recover instead of the whole request failing.
+ */
+async function executeToolCall(
+  toolCall: LLMToolCall,
+  tools: AgentTool[],
+  mcpClients: { [service: string]: MCPServerInterface },
+  emit: (event: AgentEvent) => void,
+  requestApproval?: (request: ApprovalRequest) => Promise<boolean>,
+  cache?: ToolCache,
+  budget?: ContextBudget,
+  signal?: AbortSignal
+): Promise<{ invocation: ToolInvocation; message: LLMMessage }> {
+  const functionName = toolCall.name;
+  const tool = tools.find(t => t.name === functionName);
+  let startedAt = Date.now();
+  let functionArgs: any = {};
+
+  let argumentsValid = true;
+
+  try {
+    functionArgs = JSON.parse(toolCall.arguments || '{}');
+  } catch {
+    functionArgs = toolCall.arguments;
+    argumentsValid = false;
+  }
+
+  console.log(`Tool called: ${functionName}`);
+  console.log(`Arguments:`, functionArgs);
+  emit({ type: 'tool_call', id: toolCall.id, name: functionName, arguments: functionArgs });
+
+  try {
+    if (!argumentsValid) {
+      throw new Error(`Arguments for ${functionName} are not valid JSON`);
+    }
+
+    // Find the tool to determine which service to use
+    if (!tool || !tool._service || !tool._originalName) {
+      throw new Error(`Tool ${functionName} not found or invalid`);
+    }
+
+    // Get the appropriate MCP client
+    const mcpClient = mcpClients[tool._connectionId || tool._service];
+    if (!mcpClient) {
+      throw new Error(`MCP client for ${tool._service} not available`);
+    }
+
+    if (tool._requiresApproval) {
+      if (!requestApproval) {
+        throw new Error(`${functionName} requires user approval, which is only available in streaming chat`);
+      }
+
+      const approved = await requestApproval({ id: toolCall.id, name: functionName, arguments: functionArgs });
+      if (!approved) {
+        throw new Error(`The user declined to run ${functionName}`);
+      }
+
+      // Don't count time spent waiting on the user
+      startedAt = Date.now();
+    }
+
+    throwIfAborted(signal);
+
+    // Call the tool with the original name (without prefix)
+    const { result: toolResult, cached } = cache && tool._cacheable
+      ? await callToolCached(mcpClient, {
+          userId: cache.userId,
+          service: tool._service,
+          connectionId: tool._connectionId,
+          toolName: tool._originalName,
+          args: functionArgs
+        }, cache.bypass)
+      : { result: await mcpClient.callTool(tool._originalName, functionArgs), cached: false };
+    console.log(`Tool result ${cached ? 'served from cache' : 'received'} for ${tool._service}:`, JSON.stringify(toolResult).substring(0, 200) + '...');
+    emit({ type: 'tool_result', id: toolCall.id, name: functionName, rowCount: countResultRows(toolResult), cached });
+
+    const content = JSON.stringify(toolResult);
+
+    return {
+      invocation: {
+        name: functionName,
+        service: tool._service,
+        arguments: functionArgs,
+        result: content,
+        durationMs: Date.now() - startedAt,
+        error: null,
+        cached,
+      },
+      // The full result is kept for storage and export; the model gets what fits
+      message: {
+        role: 'tool',
+        toolCallId: toolCall.id,
+        name: functionName,
+        content: budget ? truncateToolResult(content, budget.toolResultTokens, functionName, functionArgs) : content
+      },
+    };
+  } catch (error: any) {
+    console.error(`Error calling tool ${functionName}:`, error);
+    emit({ type: 'tool_result', id: toolCall.id, name: functionName, rowCount: null, error: error.message });
+
+    return {
+      invocation: {
+        name: functionName,
+        service: tool?._service || null,
+        arguments: functionArgs,
+        result: null,
+        durationMs: Date.now() - startedAt,
+        error: error.message,
+        cached: false,
+      },
+      message: {
+        role: 'tool',
+        toolCallId: toolCall.id,
+        name: functionName,
+        content: JSON.stringify({
+          error: error.message,
+          message: 'Failed to execute tool. Please try a different approach.'
+        }),
+      },
+    };
+  }
+}
+
+/**
+ * Best-effort row count for an MCP tool result (GA4 reports and GSC
+ * search analytics both return a `rows` array inside a JSON text block)
+ */
+export function countResultRows(toolResult: any): number | null {
+  const textBlock = toolResult?.content?.find((block: any) => block.type === 'text');
+  if (!textBlock?.text) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(textBlock.text);
+    if (Array.isArray(parsed)) return parsed.length;
+    if (Array.isArray(parsed?.rows)) return parsed.rows.length;
+  } catch {
+    // Not JSON - fall through
+  }
+
+  return null;
+}
+
+/**
+ * Generate a short conversation title from the first exchange
+ */
+export async function generateConversationTitle(
+  provider: LLMProvider,
+  config: LLMConfig,
+  userMessage: string,
+  assistantResponse: string
+): Promise<string> {
+  const completion = await provider.chat({
+    model: config.model,
+    messages: [
+      {
+        role: 'system',
+        content: 'Write a concise title (at most 6 words) for a conversation that starts with the exchange below. Reply with the title only, without quotes or trailing punctuation.'
+      },
+      {
+        role: 'user',
+        content: `User: ${userMessage}\n\nAssistant: ${assistantResponse.substring(0, 1000)}`
+      }
+    ],
+  });
+
+  const title = completion.content?.trim().replace(/^["']|["']$/g, '');
+  return title || userMessage.substring(0, 60);
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('The request was cancelled');
+  }
+}
@@ -0,0 +1,69 @@
+// Tool Approval Manager - Holds paused tool calls until the user approves or declines them
+import { randomUUID } from 'crypto';
+
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000; // Treat unanswered requests as declined
+
+interface PendingApproval {
+  userId: string;
+  resolve: (approved: boolean) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class ToolApprovalManager {
+  private static instance: ToolApprovalManager;
+  private pending: Map<string, PendingApproval> = new Map();
+
+  // Singleton pattern
+  static getInstance(): ToolApprovalManager {
+    if (!ToolApprovalManager.instance) {
+      ToolApprovalManager.instance = new ToolApprovalManager();
+    }
+    return ToolApprovalManager.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Register a pending approval. `decision` settles when the user answers or the request times out.
+   */
+  create(userId: string): { approvalId: string; decision: Promise<boolean> } {
+    const approvalId = randomUUID();
+
+    const decision = new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        console.log(`Tool approval ${approvalId} timed out`);
+        this.settle(approvalId, false);
+      }, APPROVAL_TIMEOUT_MS);
+
+      this.pending.set(approvalId, { userId, resolve, timer });
+    });
+
+    return { approvalId, decision };
+  }
+
+  /**
+   * Record the user's decision. Returns false if the approval is unknown,
+   * already settled or belongs to another user.
+   */
+  respond(approvalId: string, userId: string, approved: boolean): boolean {
+    const entry = this.pending.get(approvalId);
+    if (!entry || entry.userId !== userId) {
+      return false;
+    }
+
+    this.settle(approvalId, approved);
+    return true;
+  }
+
+  private settle(approvalId: string, approved: boolean): void {
+    const entry = this.pending.get(approvalId);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(approvalId);
+    entry.resolve(approved);
+  }
+}
+
+// Export singleton instance
+export const toolApprovalManager = ToolApprovalManager.getInstance();
@@ -0,0 +1,221 @@
+// Chat Context Budget - Token estimates and limits that keep a request inside the model's context window
+//
+// Providers tokenize differently and we don't ship their tokenizers, so counts
+// are a conservative estimate. Each request gets a budget from the model's
+// context window: earlier turns get a share (older ones are folded into the
+// conversation summary), each tool result is capped, and the whole prompt is
+// trimmed before every completion.
+import { LLMConfig, LLMMessage, LLMToolDefinition } from '../llm/types';
+import { extractResultTables } from './tables';
+
+// Context windows by model name prefix; the longest matching prefix wins
+const MODEL_CONTEXT_TOKENS: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-5': 400000,
+  'o1': 200000,
+  'o3': 200000,
+  'o4': 200000,
+  'claude': 200000,
+  'mock': 32000
+};
+
+// Self-hosted models often run with a small window (Ollama's default is a few thousand)
+const DEFAULT_CONTEXT_TOKENS = 8192;
+
+// Huge windows are slow and expensive to fill; use at most this much unless configured
+const MAX_DEFAULT_BUDGET_TOKENS = 128000;
+
+const DEFAULT_OUTPUT_TOKENS = 4096;
+
+// Tool results are never trimmed below this while shrinking the prompt
+const MIN_TOOL_RESULT_TOKENS = 500;
+
+export interface ContextBudget {
+  inputTokens: number;        // Everything sent: prompt, history, tools and tool results
+  historyTokens: number;      // Earlier turns of the conversation
+  toolResultTokens: number;   // Each tool result
+}
+
+/**
+ * Parse LLM_CONTEXT_BUDGETS, e.g. `gpt-4o=60000,llama3.1=16000`
+ */
+function parseConfiguredBudgets(value: string | undefined): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const entry of (value || '').split(',')) {
+    const [model, tokens] = entry.split('=').map(part => part.trim());
+    if (model && Number(tokens) > 0) {
+      budgets[model] = Number(tokens);
+    }
+  }
+  return budgets;
+}
+
+function lookupByPrefix(table: Record<string, number>, model: string): number | undefined {
+  const prefix = Object.keys(table)
+    .filter(key => model === key || model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * The token budget for a request to this model. LLM_CONTEXT_BUDGETS overrides
+ * the context size per model, LLM_TOOL_RESULT_TOKENS caps each tool result.
+ */
+export function getContextBudget(config: LLMConfig): ContextBudget {
+  const configured = lookupByPrefix(parseConfiguredBudgets(process.env.LLM_CONTEXT_BUDGETS), config.model);
+  const contextTokens = configured
+    ?? Math.min(lookupByPrefix(MODEL_CONTEXT_TOKENS, config.model) ?? DEFAULT_CONTEXT_TOKENS, MAX_DEFAULT_BUDGET_TOKENS);
+
+  const inputTokens = Math.max(1000, contextTokens - (config.maxTokens || DEFAULT_OUTPUT_TOKENS));
+  const toolResultLimit = Number(process.env.LLM_TOOL_RESULT_TOKENS) || 12000;
+
+  return {
+    inputTokens,
+    historyTokens: Math.floor(inputTokens * 0.3),
+    toolResultTokens: Math.min(toolResultLimit, Math.floor(inputTokens * 0.25))
+  };
+}
+
+/**
+ * Estimate the tokens in a string: words cost about one token per four letters,
+ * numbers one per three digits and punctuation one each, which is close to
+ * (and usually above) what BPE tokenizers produce for English and JSON.
+ */
+export function estimateTokens(text: string | null | undefined): number {
+  if (!text) {
+    return 0;
+  }
+
+  let tokens = 0;
+  const pieces = text.match(/[A-Za-z]+|\d+|[^\sA-Za-z\d]/g) || [];
+  for (const piece of pieces) {
+    const first = piece.charCodeAt(0);
+    if (first >= 48 && first <= 57) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if ((first >= 65 && first <= 90) || (first >= 97 && first <= 122)) {
+      tokens += Math.ceil(piece.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Estimated tokens for one chat message, including per-message overhead
+ */
+export function estimateMessageTokens(message: LLMMessage): number {
+  let tokens = 4 + estimateTokens(message.content);
+  if (message.role === 'assistant' && message.toolCalls) {
+    for (const call of message.toolCalls) {
+      tokens += estimateTokens(call.name) + estimateTokens(call.arguments);
+    }
+  }
+  return tokens;
+}
+
+export function estimateToolDefinitionTokens(tools: LLMToolDefinition[]): number {
+  return tools.reduce((sum, tool) => sum + estimateTokens(tool.name) + estimateTokens(tool.description) + estimateTokens(JSON.stringify(tool.parameters || {})), 0);
+}
+
+/**
+ * Shrink a serialized tool result to `maxTokens`. Tabular results keep their
+ * column headers and as many top rows as fit; anything else keeps its start.
+ * Either way a note says what was dropped.
+ */
+export function truncateToolResult(content: string, maxTokens: number, toolName: string, args?: any): string {
+  if (estimateTokens(content) <= maxTokens) {
+    return content;
+  }
+
+  const tables = extractResultTables(toolName, content, args);
+  if (tables.length > 0) {
+    const totalRows = tables.reduce((sum, table) => sum + table.rows.length, 0);
+    const compact = (rowsPerTable: number) => {
+      const shown = tables.reduce((sum, table) => sum + Math.min(rowsPerTable, table.rows.length), 0);
+      return JSON.stringify({
+        note: `Result truncated to fit the context window: showing the first ${shown} of ${totalRows} rows (${totalRows - shown} dropped). Narrow the query (fewer dimensions, a shorter date range or a row limit) if the dropped rows matter.`,
+        tables: tables.map(table => ({
+          name: table.name,
+          columns: table.columns,
+          rows: table.rows.slice(0, rowsPerTable),
+          total_rows: table.rows.length
+        }))
+      });
+    };
+
+    // Largest row count that fits
+    let low = 0;
+    let high = Math.max(...tables.map(table => table.rows.length));
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (estimateTokens(compact(middle)) <= maxTokens) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const result = compact(low);
+    if (estimateTokens(result) <= maxTokens) {
+      return result;
+    }
+  }
+
+  // Tokens are at least a character each for this kind of text, usually more
+  const keepChars = Math.max(0, maxTokens * 2);
+  return content.substring(0, keepChars) +
+    `\n[Result truncated to fit the context window: ${content.length - keepChars} of ${content.length} characters dropped]`;
+}
+
+/**
+ * Trim `messages` in place until they fit `budgetTokens` (after `fixedTokens`
+ * for tool definitions). Tool results are shrunk first, then earlier history
+ * is dropped oldest first. The leading system messages (prompt and summary)
+ * and the current turn from the last user message on are always kept.
+ */
+export function fitMessagesToBudget(messages: LLMMessage[], budgetTokens: number, fixedTokens: number = 0): void {
+  const available = budgetTokens - fixedTokens;
+  let total = messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+  if (total <= available) {
+    return;
+  }
+
+  // Shrink the largest tool results first
+  const toolIndexes = messages
+    .map((message, index) => ({ message, index }))
+    .filter(({ message }) => message.role === 'tool')
+    .sort((a, b) => estimateTokens(b.message.content) - estimateTokens(a.message.content))
+    .map(({ index }) => index);
+
+  for (const index of toolIndexes) {
+    if (total <= available) break;
+
+    const message = messages[index] as Extract<LLMMessage, { role: 'tool' }>;
+    const before = estimateMessageTokens(message);
+    const target = Math.max(MIN_TOOL_RESULT_TOKENS, estimateTokens(message.content) - (total - available));
+    messages[index] = { ...message, content: truncateToolResult(message.content, target, message.name) };
+    total -= before - estimateMessageTokens(messages[index]);
+  }
+
+  // Then drop earlier turns, oldest first
+  let start = 0;
+  while (start < messages.length && messages[start].role === 'system') start++;
+
+  let lastUser = messages.length - 1;
+  while (lastUser >= 0 && messages[lastUser].role !== 'user') lastUser--;
+
+  while (total > available && start < lastUser) {
+    total -= estimateMessageTokens(messages[start]);
+    messages.splice(start, 1);
+    lastUser--;
+  }
+
+  if (total > available) {
+    console.warn(`Prompt is still ~${total} tokens after trimming, over the ${available} token budget`);
+  }
+}
@@ -0,0 +1,267 @@
+// Chat Message Store - Persists messages and tool invocations for a conversation
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ToolInvocation } from './agent';
+import { LLMMessage } from '../llm/types';
+import { extractResultTables, ResultTable } from './tables';
+import { estimateTokens } from './context';
+
+// Tool results are stored truncated; the model only needs enough to re-use them
+const MAX_STORED_RESULT_CHARS = 4000;
+
+// Unsummarized messages considered for a request's history; older ones are summarized
+const MAX_HISTORY_MESSAGES = 50;
+// Rows per query when loading unsummarized turns (below Supabase's response cap)
+const HISTORY_PAGE_SIZE = 1000;
+
+// Everything but tool_tables, which can be large and is only read by the export routes
+export const MESSAGE_COLUMNS = 'id, user_id, conversation_id, role, content, parent_message_id, tool_name, tool_service, tool_arguments, tool_result, tool_error, tool_cached, duration_ms, token_count, created_at';
+
+export interface StoredMessage {
+  id: string;
+  user_id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  parent_message_id?: string | null;
+  tool_name?: string | null;
+  tool_service?: string | null;
+  tool_arguments?: any;
+  tool_result?: string | null;
+  tool_error?: string | null;
+  tool_tables?: ResultTable[] | null;
+  tool_cached?: boolean | null;
+  duration_ms?: number | null;
+  token_count?: number | null;      // Estimated tokens the message adds to a prompt
+  created_at: string;
+}
+
+/**
+ * Save the user's message for a conversation
+ */
+export async function saveUserMessage(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  content: string
+): Promise<StoredMessage> {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({
+      user_id: userId,
+      conversation_id: conversationId,
+      role: 'user',
+      content,
+      token_count: estimateTokens(content),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save message: ${error.message}`);
+  }
+
+  return data as StoredMessage;
+}
+
+/**
+ * Save the assistant's answer and the tool invocations that backed it
+ */
+export async function saveAssistantMessage(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  content: string,
+  toolCalls: ToolInvocation[]
+): Promise<{ assistantMessage: StoredMessage; toolMessages: StoredMessage[] }> {
+  const { data: assistantMessage, error } = await supabase
+    .from('messages')
+    .insert({
+      user_id: userId,
+      conversation_id: conversationId,
+      role: 'assistant',
+      content,
+      token_count: estimateTokens(content),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save message: ${error.message}`);
+  }
+
+  if (toolCalls.length === 0) {
+    return { assistantMessage, toolMessages: [] };
+  }
+
+  const { data: toolMessages, error: toolError } = await supabase
+    .from('messages')
+    .insert(toolCalls.map(call => ({
+      user_id: userId,
+      conversation_id: conversationId,
+      parent_message_id: assistantMessage.id,
+      role: 'tool',
+      content: '',
+      tool_name: call.name,
+      tool_service: call.service,
+      tool_arguments: call.arguments,
+      tool_result: truncateResult(call.result),
+      tool_tables: toolTables(call),
+      tool_error: call.error,
+      tool_cached: call.cached,
+      duration_ms: call.durationMs,
+      // What replaying the call as history costs (see formatToolMessage)
+      token_count: estimateTokens(JSON.stringify(call.arguments || {})) + estimateTokens(truncateResult(call.result) || call.error),
+    })))
+    .select(MESSAGE_COLUMNS);
+
+  if (toolError) {
+    // The answer itself is saved; losing the tool log should not fail the request
+    console.error('Failed to save tool calls:', toolError);
+    return { assistantMessage, toolMessages: [] };
+  }
+
+  return { assistantMessage, toolMessages: toolMessages as StoredMessage[] };
+}
+
+/**
+ * An earlier user or assistant message, as folded into the conversation summary
+ */
+export interface HistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+export interface ConversationHistory {
+  messages: LLMMessage[];
+  overflow: HistoryTurn[];  // Older unsummarized turns that didn't fit, oldest first
+}
+
+/**
+ * Every user and assistant turn not yet folded into the summary, newest first.
+ * Paged, so a long unsummarized backlog isn't cut off at the response row limit.
+ */
+async function loadUnsummarizedTurns(
+  supabase: SupabaseClient,
+  conversation: { id: string; summarized_until?: string | null }
+): Promise<StoredMessage[]> {
+  const turns: StoredMessage[] = [];
+
+  while (true) {
+    let query = supabase
+      .from('messages')
+      .select('id, role, content, token_count, created_at')
+      .eq('conversation_id', conversation.id)
+      .in('role', ['user', 'assistant']);
+
+    if (conversation.summarized_until) {
+      query = query.gt('created_at', conversation.summarized_until);
+    }
+    if (turns.length > 0) {
+      query = query.lt('created_at', turns[turns.length - 1].created_at);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_PAGE_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load conversation history: ${error.message}`);
+    }
+
+    turns.push(...((data || []) as StoredMessage[]));
+    if (!data || data.length < HISTORY_PAGE_SIZE) {
+      return turns;
+    }
+  }
+}
+
+/**
+ * Load the most recent turns of a conversation that fit `budgetTokens`, in
+ * chat-completion format. Turns already folded into the conversation summary
+ * are skipped; every other turn that doesn't fit, however old, overflows into
+ * the summary. Tool data fetched for earlier answers is replayed as a system
+ * note so follow-up questions can reuse it instead of re-querying.
+ */
+export async function loadConversationHistory(
+  supabase: SupabaseClient,
+  conversation: { id: string; summarized_until?: string | null },
+  budgetTokens: number
+): Promise<ConversationHistory> {
+  // Newest first
+  const turns = await loadUnsummarizedTurns(supabase, conversation);
+  const candidates = turns.slice(0, MAX_HISTORY_MESSAGES);
+
+  const assistantIds = candidates.filter(m => m.role === 'assistant').map(m => m.id);
+  const toolsByParent: Record<string, StoredMessage[]> = {};
+
+  if (assistantIds.length > 0) {
+    const { data: toolMessages } = await supabase
+      .from('messages')
+      .select('parent_message_id, tool_name, tool_arguments, tool_result, tool_error, token_count')
+      .in('parent_message_id', assistantIds)
+      .order('created_at', { ascending: true });
+
+    for (const toolMessage of (toolMessages || []) as StoredMessage[]) {
+      const parentId = toolMessage.parent_message_id!;
+      (toolsByParent[parentId] = toolsByParent[parentId] || []).push(toolMessage);
+    }
+  }
+
+  // Keep the newest turns that fit; everything older overflows
+  let used = 0;
+  let kept = 0;
+  for (const turn of candidates) {
+    const tools = toolsByParent[turn.id] || [];
+    const cost = (turn.token_count ?? estimateTokens(turn.content)) +
+      tools.reduce((sum, tool) => sum + (tool.token_count ?? estimateTokens(formatToolMessage(tool))), 0);
+
+    if (used + cost > budgetTokens) break;
+    used += cost;
+    kept++;
+  }
+
+  const history: LLMMessage[] = [];
+  for (const turn of turns.slice(0, kept).reverse()) {
+    const tools = toolsByParent[turn.id];
+    if (tools) {
+      history.push({
+        role: 'system',
+        content: 'Data previously retrieved for the next answer:\n' + tools.map(formatToolMessage).join('\n'),
+      });
+    }
+    history.push({ role: turn.role as 'user' | 'assistant', content: turn.content });
+  }
+
+  const overflow = turns.slice(kept).reverse().map(turn => ({
+    role: turn.role as 'user' | 'assistant',
+    content: turn.content,
+    created_at: turn.created_at
+  }));
+
+  return { messages: history, overflow };
+}
+
+function formatToolMessage(message: StoredMessage): string {
+  const call = `${message.tool_name}(${JSON.stringify(message.tool_arguments || {})})`;
+  return message.tool_error
+    ? `- ${call} failed: ${message.tool_error}`
+    : `- ${call} returned: ${message.tool_result}`;
+}
+
+/**
+ * Full tables behind a tool result, kept for export since `tool_result` is truncated
+ */
+function toolTables(call: ToolInvocation): ResultTable[] | null {
+  const tables = extractResultTables(call.name, call.result, call.arguments);
+  return tables.length > 0 ? tables : null;
+}
+
+function truncateResult(result: string | null): string | null {
+  if (!result || result.length <= MAX_STORED_RESULT_CHARS) {
+    return result;
+  }
+
+  return result.substring(0, MAX_STORED_RESULT_CHARS) +
+    `... [truncated ${result.length - MAX_STORED_RESULT_CHARS} characters]`;
+}
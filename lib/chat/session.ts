@@ -0,0 +1,192 @@
+// Agent Session - Connects a user's MCP servers and builds the system prompt for one agent run
+//
+// Shared by interactive chat (/api/chat) and scheduled reports, so both see the
+// same tools, account selection and tool policy.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { mcpConnectionPool } from '../mcp/connection-pool';
+import { CredentialManager, MCPConnectionSummary } from '../mcp/credential-manager';
+import { loadAvailableServers } from '../mcp/custom-servers';
+import { loadToolSettings, isToolEnabled, isCacheableTool, isReadOnlyTool, toolRequiresApproval } from '../mcp/tool-settings';
+import { MCPServerInterface } from '../mcp/types';
+import { LLMProvider, LLMConfig } from '../llm/types';
+import { generateConversationTitle, AgentTool } from './agent';
+import { VISUALIZATION_PROMPT } from './visualizations';
+
+export interface ConversationRow {
+  id: string;
+  title: string | null;
+  llm_provider: string | null;
+  llm_model: string | null;
+  connection_ids: string[] | null;
+  resource_selections: Record<string, string> | null;  // Connection id -> GA4 property / GSC site
+  summary: string | null;               // Rolling summary of turns that no longer fit the context
+  summarized_until: string | null;      // created_at of the last message folded into it
+}
+
+export const CONVERSATION_COLUMNS = 'id, title, llm_provider, llm_model, connection_ids, resource_selections, summary, summarized_until';
+
+export interface AgentSession {
+  tools: AgentTool[];
+  mcpClients: { [key: string]: MCPServerInterface };
+  systemContent: string;
+}
+
+/**
+ * Connect to the requested servers (all available ones when `services` is not
+ * an array) and describe them to the model
+ */
+export async function prepareAgentSession(
+  supabase: SupabaseClient,
+  userId: string,
+  conversation: ConversationRow,
+  services?: string[] | null
+): Promise<AgentSession> {
+  let allTools: AgentTool[] = [];
+  const mcpClients: { [key: string]: MCPServerInterface } = {};
+
+  // Built-in servers plus the user's own registered servers
+  const availableServers = await loadAvailableServers(supabase, userId);
+
+  // Tools the user or the deployment policy disabled are neither advertised nor callable
+  const toolSettings = await loadToolSettings(supabase, userId);
+
+  // Connect to each requested server the user has credentials for
+  const requestedServers = Array.isArray(services)
+    ? availableServers.filter(server => services.includes(server.key))
+    : availableServers;
+
+  // Linked Google accounts; the conversation's selection decides which ones to use
+  const linkedAccounts = await CredentialManager.listConnections(userId);
+  const connectedServices: string[] = [];
+  let hasSelectedResource = false;
+
+  for (const manifest of requestedServers) {
+    // Custom servers carry their own auth; OAuth servers connect once per selected account
+    const accounts: (MCPConnectionSummary | null)[] = manifest.oauth
+      ? selectAccounts(linkedAccounts, manifest.id, conversation.connection_ids)
+      : [null];
+
+    if (accounts.length === 0) {
+      console.log(`No ${manifest.shortName} credentials found for user:`, userId);
+      continue;
+    }
+
+    for (let index = 0; index < accounts.length; index++) {
+      const account = accounts[index];
+      const label = account?.account_email ? `${manifest.shortName} · ${account.account_email}` : manifest.shortName;
+
+      try {
+        const client = await mcpConnectionPool.getConnection(userId, manifest.id, manifest, account?.id);
+        const tools = await client.listTools();
+
+        // Extra accounts get a numbered prefix (ga4_2_run_report) so tool names stay unique
+        const toolPrefix = index === 0 ? manifest.toolPrefix : `${manifest.toolPrefix}_${index + 1}`;
+
+        // Add service prefix to tool names to avoid conflicts
+        const serverTools = tools
+          .map((tool: any) => ({
+            ...tool,
+            name: `${toolPrefix}_${tool.name}`,
+            description: `[${label}] ${tool.description}`,
+            _originalName: tool.name,
+            _service: manifest.id,
+            _connectionId: account?.id,
+            _requiresApproval: toolRequiresApproval(toolSettings, manifest, tool),
+            _cacheable: isCacheableTool(manifest, tool)
+          }))
+          // Settings and policy apply to the tool itself, whichever account it runs as
+          .filter(tool => isToolEnabled(toolSettings, manifest.id, tool._originalName, `${manifest.toolPrefix}_${tool._originalName}`))
+          // Workspace viewers only get tools the server declares read-only
+          .filter(tool => account?.workspace_role !== 'viewer' || isReadOnlyTool(tool));
+
+        allTools = [...allTools, ...serverTools];
+        mcpClients[account?.id || manifest.id] = client;
+        console.log(`Dynamically loaded ${label} tools:`, tools.map((t: any) => t.name));
+
+        // The conversation's picked property/site wins over the account's default
+        const resource = account && (conversation.resource_selections?.[account.id] || account.default_resource);
+
+        const details = [
+          account?.account_email && `account ${account.account_email}`,
+          account?.workspace_name && `shared by the ${account.workspace_name} workspace`,
+          accounts.length > 1 && `tools prefixed ${toolPrefix}_`,
+          resource && `selected ${manifest.oauth?.resource?.label || 'resource'} ${resource}`
+        ].filter(Boolean);
+        connectedServices.push(details.length > 0 ? `${manifest.displayName} (${details.join(', ')})` : manifest.displayName);
+        hasSelectedResource = hasSelectedResource || !!resource;
+      } catch (error) {
+        console.error(`Error connecting to ${label} MCP:`, error);
+      }
+    }
+  }
+
+  console.log('All tools: ', allTools.map(tool => tool.name));
+
+  // Create system message with service context
+  let systemContent = 'You are a helpful assistant.';
+
+  if (connectedServices.length > 0) {
+    systemContent += `\n\nYou have access to data from the following services: ${connectedServices.join(' and ')}. Use the available tools to answer questions with specific, accurate information from these services.`;
+
+    if (connectedServices.length > 1) {
+      systemContent += `\n\nWhen answering questions, you can combine data from multiple services to provide comprehensive insights.`;
+    }
+
+    if (hasSelectedResource) {
+      systemContent += `\n\nWhen the user doesn't name a property or site, pass the selected one above as the tool argument instead of asking for it.`;
+    }
+
+    systemContent += `\n\n${VISUALIZATION_PROMPT}`;
+  }
+
+  return { tools: allTools, mcpClients, systemContent };
+}
+
+/**
+ * The linked accounts a conversation uses for one server: those it selected,
+ * otherwise the server's default (first linked) account. Accounts that need
+ * reconnecting are skipped.
+ */
+export function selectAccounts(
+  linkedAccounts: MCPConnectionSummary[],
+  serverName: string,
+  selectedIds: string[] | null
+): MCPConnectionSummary[] {
+  const accounts = linkedAccounts.filter(account => account.server_name === serverName && !account.needs_reauth);
+  const selected = accounts.filter(account => selectedIds?.includes(account.id));
+
+  return selected.length > 0 ? selected : accounts.slice(0, 1);
+}
+
+/**
+ * Bump the conversation's activity timestamp and auto-title it after the first exchange
+ */
+export async function touchConversation(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  llmConfig: LLMConfig,
+  conversation: ConversationRow,
+  userMessage: string,
+  assistantResponse: string
+): Promise<string | null> {
+  const updateData: any = { updated_at: new Date() };
+
+  if (!conversation.title) {
+    try {
+      updateData.title = await generateConversationTitle(provider, llmConfig, userMessage, assistantResponse);
+    } catch (error) {
+      console.error('Error generating conversation title:', error);
+    }
+  }
+
+  const { error } = await supabase
+    .from('conversations')
+    .update(updateData)
+    .eq('id', conversation.id);
+
+  if (error) {
+    console.error('Error updating conversation:', error);
+  }
+
+  return updateData.title || conversation.title;
+}
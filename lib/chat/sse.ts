@@ -0,0 +1,89 @@
+// Server-Sent Events helpers shared by the chat API and the chat page
+
+/**
+ * Create an SSE response body. The handler receives a `send` function that
+ * writes one `data:` frame per event; the stream closes when it resolves.
+ * If the client disconnects first, `signal` aborts and `send` does nothing.
+ */
+export function createEventStream<T>(
+  handler: (send: (event: T) => void, signal: AbortSignal) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // The stream was torn down without a cancel
+          closed = true;
+        }
+      };
+
+      try {
+        await handler(send, abortController.signal);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abortController.abort();
+    },
+  });
+}
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+};
+
+/**
+ * Read an SSE response body and invoke `onEvent` for every `data:` frame
+ */
+export async function readEventStream<T>(
+  response: Response,
+  onEvent: (event: T) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Frames are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        onEvent(JSON.parse(data) as T);
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
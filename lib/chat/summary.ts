@@ -0,0 +1,106 @@
+// Conversation Summary - Folds turns that no longer fit the context into a rolling summary
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LLMProvider, LLMConfig } from '../llm/types';
+import { HistoryTurn } from './messages';
+
+// Each turn is clipped so the summary request itself stays small
+const MAX_TURN_CHARS = 2000;
+const MAX_SUMMARY_TOKENS = 600;
+// A long backlog of turns is folded in several requests of about this size
+const MAX_TRANSCRIPT_CHARS = 40000;
+
+const SUMMARY_PROMPT = 'You keep a running summary of a conversation between a user and an analytics assistant with Google Analytics and Search Console tools. Merge the existing summary and the new turns into one updated summary of at most 250 words. Keep the properties and sites discussed, date ranges, key numbers, conclusions, the user\'s preferences and open questions; drop pleasantries. Reply with the summary only.';
+
+/**
+ * Fold `turns` (oldest first) into the conversation's summary and record how
+ * far it reaches. Long backlogs are folded a batch at a time. Returns the
+ * summary to use; on failure the summary so far is kept, and the turns not yet
+ * folded are left out of this request and retried on the next one.
+ */
+export async function updateConversationSummary(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  llmConfig: LLMConfig,
+  conversation: { id: string; summary?: string | null },
+  turns: HistoryTurn[]
+): Promise<string | null> {
+  let summary = conversation.summary || null;
+
+  for (const batch of transcriptBatches(turns)) {
+    const folded = await foldTurns(provider, llmConfig, summary, batch);
+    if (!folded) {
+      break;
+    }
+    summary = folded;
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({ summary, summarized_until: batch[batch.length - 1].created_at })
+      .eq('id', conversation.id);
+
+    if (error) {
+      console.error('Error saving conversation summary:', error);
+      break;
+    }
+  }
+
+  return summary;
+}
+
+function formatTurn(turn: HistoryTurn): string {
+  const content = turn.content.length > MAX_TURN_CHARS
+    ? `${turn.content.substring(0, MAX_TURN_CHARS)}...`
+    : turn.content;
+  return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+}
+
+/**
+ * Split turns into consecutive batches whose transcripts stay under MAX_TRANSCRIPT_CHARS
+ */
+function transcriptBatches(turns: HistoryTurn[]): HistoryTurn[][] {
+  const batches: HistoryTurn[][] = [];
+  let size = 0;
+
+  for (const turn of turns) {
+    const length = formatTurn(turn).length;
+    if (batches.length === 0 || size + length > MAX_TRANSCRIPT_CHARS) {
+      batches.push([]);
+      size = 0;
+    }
+    batches[batches.length - 1].push(turn);
+    size += length;
+  }
+
+  return batches;
+}
+
+/**
+ * Merge one batch of turns into the summary; null if the model fails or returns nothing
+ */
+async function foldTurns(
+  provider: LLMProvider,
+  llmConfig: LLMConfig,
+  summary: string | null,
+  turns: HistoryTurn[]
+): Promise<string | null> {
+  const transcript = turns.map(formatTurn).join('\n\n');
+
+  try {
+    const completion = await provider.chat({
+      model: llmConfig.model,
+      maxTokens: MAX_SUMMARY_TOKENS,
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        {
+          role: 'user',
+          content: `Existing summary:\n${summary || '(none yet)'}\n\nNew turns:\n${transcript}`
+        }
+      ]
+    });
+
+    return completion.content?.trim() || null;
+  } catch (error) {
+    console.error('Error summarizing conversation:', error);
+    return null;
+  }
+}
@@ -0,0 +1,156 @@
+// Tool Result Tables - Pulls tabular data out of MCP tool results for export
+//
+// Tool results are stored truncated for the model, so the rows are extracted
+// when the answer is saved and kept in `messages.tool_tables`.
+
+const MAX_TABLE_ROWS = 10000;
+
+export type TableValue = string | number | null;
+
+export interface ResultTable {
+  name: string;
+  columns: string[];
+  rows: TableValue[][];
+  truncated?: boolean;
+}
+
+/**
+ * Extract the tables from a serialized MCP tool result. Understands GA4
+ * reports (dimension/metric headers), GSC search analytics rows (`keys`
+ * named after the requested dimensions) and plain arrays of objects.
+ */
+export function extractResultTables(toolName: string, result: string | null, args?: any): ResultTable[] {
+  if (!result) {
+    return [];
+  }
+
+  let toolResult: any;
+  try {
+    toolResult = JSON.parse(result);
+  } catch {
+    return [];
+  }
+
+  const payloads: any[] = [];
+  if (toolResult?.structuredContent) {
+    payloads.push(toolResult.structuredContent);
+  } else {
+    for (const block of toolResult?.content || []) {
+      if (block?.type !== 'text' || !block.text) continue;
+      try {
+        payloads.push(JSON.parse(block.text));
+      } catch {
+        // Prose, not data
+      }
+    }
+  }
+
+  const dimensions: string[] = Array.isArray(args?.dimensions)
+    ? args.dimensions.filter((d: any) => typeof d === 'string')
+    : [];
+
+  const tables: ResultTable[] = [];
+  for (const payload of payloads) {
+    collectTables(payload, toolName, dimensions, tables);
+  }
+
+  // Name tables after the tool, numbering them when there is more than one
+  return tables.map((table, index) => ({
+    ...table,
+    name: tables.length > 1 ? `${table.name} ${index + 1}` : table.name
+  }));
+}
+
+function collectTables(value: any, name: string, dimensions: string[], tables: ResultTable[]): void {
+  if (Array.isArray(value)) {
+    const table = fromObjects(name, value, dimensions);
+    if (table) tables.push(table);
+    return;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+
+  // GA4 batchRunReports
+  if (Array.isArray(value.reports)) {
+    for (const report of value.reports) {
+      collectTables(report, name, dimensions, tables);
+    }
+    return;
+  }
+
+  const table = fromGA4Report(name, value) || (Array.isArray(value.rows) ? fromObjects(name, value.rows, dimensions) : null);
+  if (table) tables.push(table);
+}
+
+/**
+ * GA4 Data API report, in either the REST (camelCase) or protobuf (snake_case) shape
+ */
+function fromGA4Report(name: string, report: any): ResultTable | null {
+  const dimensionHeaders = report.dimensionHeaders || report.dimension_headers;
+  const metricHeaders = report.metricHeaders || report.metric_headers;
+  if (!Array.isArray(dimensionHeaders) && !Array.isArray(metricHeaders)) {
+    return null;
+  }
+
+  const dimensionNames: string[] = (dimensionHeaders || []).map((h: any) => h.name);
+  const metricNames: string[] = (metricHeaders || []).map((h: any) => h.name);
+  const reportRows: any[] = report.rows || [];
+
+  const rows = reportRows.slice(0, MAX_TABLE_ROWS).map(row => [
+    ...(row.dimensionValues || row.dimension_values || []).map((v: any) => v?.value ?? null),
+    ...(row.metricValues || row.metric_values || []).map((v: any) => toNumber(v?.value))
+  ]);
+
+  return {
+    name,
+    columns: [...dimensionNames, ...metricNames],
+    rows,
+    truncated: reportRows.length > MAX_TABLE_ROWS || undefined
+  };
+}
+
+function fromObjects(name: string, items: any[], dimensions: string[]): ResultTable | null {
+  const objects = items.filter(item => item && typeof item === 'object' && !Array.isArray(item));
+  if (objects.length === 0) {
+    return null;
+  }
+
+  // GSC search analytics rows carry their dimension values in `keys`
+  const keyCount = Math.max(0, ...objects.map(item => Array.isArray(item.keys) ? item.keys.length : 0));
+  const keyColumns = Array.from({ length: keyCount }, (_, i) => dimensions[i] || `key_${i + 1}`);
+
+  const fields: string[] = [];
+  for (const item of objects.slice(0, MAX_TABLE_ROWS)) {
+    for (const field of Object.keys(item)) {
+      if (field === 'keys' && keyCount > 0) continue;
+      if (!fields.includes(field)) fields.push(field);
+    }
+  }
+
+  const rows = objects.slice(0, MAX_TABLE_ROWS).map(item => [
+    ...keyColumns.map((_, i) => toCell(item.keys?.[i])),
+    ...fields.map(field => toCell(item[field]))
+  ]);
+
+  return {
+    name,
+    columns: [...keyColumns, ...fields],
+    rows,
+    truncated: objects.length > MAX_TABLE_ROWS || undefined
+  };
+}
+
+function toCell(value: any): TableValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+function toNumber(value: any): TableValue {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : String(value);
+}
@@ -0,0 +1,131 @@
+// Chat Visualizations - Chart and table blocks the assistant embeds in its answers
+//
+// The model writes a fenced ```chart block holding a JSON spec. It is stored as part of
+// the message content, so history renders the same chart the live answer did.
+
+export const VISUALIZATION_LANGUAGE = 'chart';
+
+const MAX_ROWS = 500;
+
+// Series colours, in the app's indigo/purple/pink palette (shared by the chat and PDF export)
+export const SERIES_COLORS = ['#6366f1', '#a855f7', '#ec4899', '#14b8a6', '#f59e0b', '#3b82f6', '#ef4444', '#84cc16'];
+
+export type VisualizationType = 'line' | 'bar' | 'pie' | 'table';
+
+export type VisualizationValue = string | number | null;
+
+export interface Visualization {
+  type: VisualizationType;
+  title?: string;
+  data: Record<string, VisualizationValue>[];
+  x?: string;         // Category/date field (line, bar) or slice label (pie)
+  y?: string[];       // Numeric series (line, bar); the first one sizes pie slices
+  columns?: string[]; // Table column order; defaults to the fields of the first row
+}
+
+/**
+ * Instructions appended to the system prompt when analytics tools are available
+ */
+export const VISUALIZATION_PROMPT = `When a tool returns a time series, a ranking or a breakdown worth seeing at a glance, add a chart after your summary as a fenced code block with the language \`${VISUALIZATION_LANGUAGE}\` containing JSON:
+\`\`\`${VISUALIZATION_LANGUAGE}
+{"type": "line", "title": "Sessions, last 90 days", "x": "date", "y": ["sessions"], "data": [{"date": "2024-01-01", "sessions": 120}]}
+\`\`\`
+"type" is "line" (trends over time), "bar" (comparisons), "pie" (share of a total, at most 8 slices) or "table" (detailed rows; "columns" sets the order). Use the numbers from the tool results exactly, one object per row, numeric values as numbers. Keep at most ${MAX_ROWS} rows and don't repeat the same data as a markdown table.`;
+
+/**
+ * Parse and validate a chart block. Returns null for anything that isn't a
+ * usable spec (including a block that is still streaming in).
+ */
+export function parseVisualization(source: string): Visualization | null {
+  let spec: any;
+  try {
+    spec = JSON.parse(source);
+  } catch {
+    return null;
+  }
+
+  if (!spec || typeof spec !== 'object' || !['line', 'bar', 'pie', 'table'].includes(spec.type)) {
+    return null;
+  }
+
+  if (!Array.isArray(spec.data) || spec.data.length === 0) {
+    return null;
+  }
+
+  const data: Record<string, VisualizationValue>[] = spec.data
+    .slice(0, MAX_ROWS)
+    .filter((row: any) => row && typeof row === 'object' && !Array.isArray(row))
+    .map((row: Record<string, any>) => {
+      const clean: Record<string, VisualizationValue> = {};
+      for (const [key, value] of Object.entries(row)) {
+        clean[key] = typeof value === 'number' || typeof value === 'string' ? value : value === null ? null : String(value);
+      }
+      return clean;
+    });
+
+  const fields = Object.keys(data[0] || {});
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const visualization: Visualization = {
+    type: spec.type,
+    title: typeof spec.title === 'string' ? spec.title : undefined,
+    data
+  };
+
+  if (spec.type === 'table') {
+    visualization.columns = Array.isArray(spec.columns)
+      ? spec.columns.filter((column: any) => typeof column === 'string' && fields.includes(column))
+      : fields;
+    if (visualization.columns!.length === 0) visualization.columns = fields;
+    return visualization;
+  }
+
+  // Charts: fall back to the first text field for x and the numeric fields for y
+  const x = typeof spec.x === 'string' && fields.includes(spec.x)
+    ? spec.x
+    : fields.find(field => typeof data[0][field] === 'string') || fields[0];
+  const y = (Array.isArray(spec.y) ? spec.y : typeof spec.y === 'string' ? [spec.y] : [])
+    .filter((field: any) => typeof field === 'string' && fields.includes(field) && field !== x);
+
+  visualization.x = x;
+  visualization.y = y.length > 0 ? y : fields.filter(field => field !== x && typeof data[0][field] === 'number');
+
+  return visualization.y!.length > 0 ? visualization : null;
+}
+
+export type ContentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'chart'; source: string };
+
+/**
+ * Split an answer into markdown text and the ```chart blocks between it
+ */
+export function splitVisualizations(content: string): ContentSegment[] {
+  const segments: ContentSegment[] = [];
+  const pattern = new RegExp('```' + VISUALIZATION_LANGUAGE + '[^\\n]*\\n([\\s\\S]*?)```', 'g');
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    if (match.index > last) {
+      segments.push({ type: 'text', text: content.substring(last, match.index) });
+    }
+    segments.push({ type: 'chart', source: match[1] });
+    last = match.index + match[0].length;
+  }
+
+  if (last < content.length) {
+    segments.push({ type: 'text', text: content.substring(last) });
+  }
+
+  return segments;
+}
+
+/**
+ * Columns shown when a visualization is rendered as a table
+ */
+export function visualizationColumns(visualization: Visualization): string[] {
+  return visualization.columns || [visualization.x!, ...(visualization.y || [])];
+}
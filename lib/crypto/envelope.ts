@@ -0,0 +1,123 @@
+// Envelope Encryption - AES-256-GCM with a per-record data key wrapped by a master key
+import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+/**
+ * An encrypted value plus the data key needed to open it. `encryptedDataKey`
+ * is wrapped with the master key identified by `keyId`.
+ */
+export interface EncryptedRecord {
+  ciphertext: string;
+  encryptedDataKey: string;
+  keyId: string;
+}
+
+/**
+ * Master keys from the environment. CREDENTIAL_MASTER_KEY (base64, 32 bytes) is the
+ * current key, named by CREDENTIAL_MASTER_KEY_ID. Retired keys stay readable via
+ * CREDENTIAL_PREVIOUS_MASTER_KEYS ("id:base64,id:base64") until records are rotated.
+ */
+function loadMasterKeys(): { currentKeyId: string; keys: Map<string, Buffer> } {
+  const current = process.env.CREDENTIAL_MASTER_KEY;
+  if (!current) {
+    throw new Error('CREDENTIAL_MASTER_KEY is not set');
+  }
+
+  const currentKeyId = process.env.CREDENTIAL_MASTER_KEY_ID || 'v1';
+  const keys = new Map<string, Buffer>([[currentKeyId, decodeKey(currentKeyId, current)]]);
+
+  for (const entry of (process.env.CREDENTIAL_PREVIOUS_MASTER_KEYS || '').split(',')) {
+    const [keyId, value] = entry.trim().split(':');
+    if (keyId && value && !keys.has(keyId)) {
+      keys.set(keyId, decodeKey(keyId, value));
+    }
+  }
+
+  return { currentKeyId, keys };
+}
+
+function decodeKey(keyId: string, value: string): Buffer {
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Master key ${keyId} must be ${KEY_LENGTH} bytes (base64-encoded)`);
+  }
+  return key;
+}
+
+/**
+ * Encrypt with AES-256-GCM, returning `iv.tag.ciphertext` in base64
+ */
+function seal(key: Buffer, plaintext: Buffer, aad?: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad));
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+function open(key: Buffer, sealed: string, aad?: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  if (aad) decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function getMasterKey(keyId: string): Buffer {
+  const key = loadMasterKeys().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Master key ${keyId} is not configured`);
+  }
+  return key;
+}
+
+export function getCurrentMasterKeyId(): string {
+  return loadMasterKeys().currentKeyId;
+}
+
+/**
+ * Encrypt a value under a fresh data key. `aad` binds the ciphertext to its
+ * record (e.g. user and server) so it can't be swapped onto another row.
+ */
+export function encryptRecord(plaintext: string, aad?: string): EncryptedRecord {
+  const { currentKeyId, keys } = loadMasterKeys();
+  const dataKey = randomBytes(KEY_LENGTH);
+
+  return {
+    ciphertext: seal(dataKey, Buffer.from(plaintext, 'utf-8'), aad),
+    encryptedDataKey: seal(keys.get(currentKeyId)!, dataKey),
+    keyId: currentKeyId
+  };
+}
+
+export function decryptRecord(record: EncryptedRecord, aad?: string): string {
+  const dataKey = open(getMasterKey(record.keyId), record.encryptedDataKey);
+  return open(dataKey, record.ciphertext, aad).toString('utf-8');
+}
+
+/**
+ * Re-wrap a record's data key with the current master key. The ciphertext is untouched.
+ */
+export function rewrapRecord(record: EncryptedRecord): EncryptedRecord {
+  const { currentKeyId, keys } = loadMasterKeys();
+  if (record.keyId === currentKeyId) {
+    return record;
+  }
+
+  const dataKey = open(getMasterKey(record.keyId), record.encryptedDataKey);
+
+  return {
+    ciphertext: record.ciphertext,
+    encryptedDataKey: seal(keys.get(currentKeyId)!, dataKey),
+    keyId: currentKeyId
+  };
+}
@@ -0,0 +1,28 @@
+// Email - SMTP delivery shared by scheduled reports and workspace invitations
+import nodemailer from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer';
+
+export function isEmailConfigured(): boolean {
+  return !!process.env.SMTP_HOST && !!process.env.SMTP_FROM;
+}
+
+/**
+ * Send a message from SMTP_FROM. Throws when SMTP isn't configured.
+ */
+export async function sendEmail(message: Omit<Mail.Options, 'from'>): Promise<void> {
+  if (!isEmailConfigured()) {
+    throw new Error('Email delivery is not configured (SMTP_HOST and SMTP_FROM)');
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined
+  });
+
+  await transport.sendMail({ ...message, from: process.env.SMTP_FROM });
+}
@@ -0,0 +1,92 @@
+// Conversation Export - Whole conversations as Markdown (see pdf.ts for PDF)
+import type { StoredMessage } from '../chat/messages';
+import { parseVisualization, splitVisualizations, visualizationColumns, Visualization, VisualizationValue } from '../chat/visualizations';
+
+export interface ExportedConversation {
+  title: string;
+  messages: StoredMessage[];   // user, assistant and tool records, oldest first
+  exportedAt: Date;
+}
+
+export function formatExportDate(date: string | Date): string {
+  return new Date(date).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC'
+  }) + ' UTC';
+}
+
+/**
+ * File name for a download, derived from a conversation or table title
+ */
+export function exportFileName(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60);
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+/**
+ * Names of the tools that ran for each assistant answer
+ */
+export function toolNamesByAnswer(messages: StoredMessage[]): Record<string, string[]> {
+  const names: Record<string, string[]> = {};
+  for (const message of messages) {
+    if (message.role !== 'tool' || !message.parent_message_id || message.tool_error) continue;
+    const list = (names[message.parent_message_id] = names[message.parent_message_id] || []);
+    if (message.tool_name && !list.includes(message.tool_name)) list.push(message.tool_name);
+  }
+  return names;
+}
+
+function markdownCell(value: VisualizationValue): string {
+  if (value === null) return '';
+  const text = typeof value === 'number' ? value.toLocaleString('en-US') : value;
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Charts don't exist in Markdown, so they are written out as their data table
+ */
+function visualizationToMarkdown(visualization: Visualization): string {
+  const columns = visualizationColumns(visualization);
+  const lines = [
+    `| ${columns.map(markdownCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...visualization.data.map(row => `| ${columns.map(column => markdownCell(row[column] ?? null)).join(' | ')} |`)
+  ];
+
+  const title = visualization.title ? `**${visualization.title}**` : '';
+  const kind = visualization.type === 'table' ? '' : `_(${visualization.type} chart)_`;
+  const heading = [title, kind].filter(Boolean).join(' ');
+  return (heading ? heading + '\n\n' : '') + lines.join('\n');
+}
+
+export function conversationToMarkdown({ title, messages, exportedAt }: ExportedConversation): string {
+  const toolNames = toolNamesByAnswer(messages);
+  const parts = [`# ${title}`, `_Exported ${formatExportDate(exportedAt)}_`];
+
+  for (const message of messages) {
+    if (message.role === 'tool') continue;
+
+    const author = message.role === 'user' ? 'You' : 'Assistant';
+    const body = splitVisualizations(message.content)
+      .map(segment => {
+        if (segment.type === 'text') return segment.text;
+        const visualization = parseVisualization(segment.source);
+        return visualization
+          ? `\n${visualizationToMarkdown(visualization)}\n`
+          : '```\n' + segment.source + '```';
+      })
+      .join('')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    parts.push('---', `## ${author} · ${formatExportDate(message.created_at)}`, body);
+
+    const tools = toolNames[message.id];
+    if (tools) {
+      parts.push(`_Data from: ${tools.map(name => `\`${name}\``).join(', ')}_`);
+    }
+  }
+
+  return parts.join('\n\n') + '\n';
+}
@@ -0,0 +1,28 @@
+// Export Downloads - Browser side of the authenticated export API routes
+
+/**
+ * Fetch an export with the user's session token and save it under the
+ * file name the server sent in Content-Disposition
+ */
+export async function downloadExport(path: string, accessToken: string): Promise<void> {
+  const response = await fetch(path, {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Export failed');
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || 'export';
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
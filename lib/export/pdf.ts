@@ -0,0 +1,377 @@
+// PDF Export - Renders a conversation, including its charts, with PDFKit
+//
+// Answers are markdown; this handles the subset the assistant writes (headings,
+// lists, tables, code and ```chart blocks). PDFKit's built-in fonts only cover
+// Latin text, so emoji are dropped.
+import PDFDocument from 'pdfkit';
+import { ExportedConversation, formatExportDate, toolNamesByAnswer } from './conversation';
+import { parseVisualization, splitVisualizations, visualizationColumns, Visualization, SERIES_COLORS } from '../chat/visualizations';
+
+type Doc = PDFKit.PDFDocument;
+
+const MARGIN = 50;
+const CHART_HEIGHT = 180;
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+const GRID_COLOR = '#e5e7eb';
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+/**
+ * Start a new page unless `height` more points fit on this one
+ */
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage();
+  }
+}
+
+function plainText(text: string): string {
+  return text
+    .replace(/[\uD800-\uDFFF\u2600-\u27BF\uFE0F\u200D]/g, '')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^*\w])[*_]([^*_]+)[*_](?![*\w])/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 1000 || Number.isInteger(value)
+    ? Math.round(value).toLocaleString('en-US')
+    : String(Number(value.toFixed(2)));
+}
+
+function formatCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'number' ? formatNumber(value) : plainText(value);
+}
+
+/**
+ * Grid table with a shaded header row that repeats on each page
+ */
+function drawTable(doc: Doc, columns: string[], rows: string[][]): void {
+  const width = contentWidth(doc);
+  const columnWidth = width / Math.max(columns.length, 1);
+  const padding = 3;
+
+  const rowHeight = (cells: string[]) => Math.max(
+    ...cells.map(cell => doc.heightOfString(cell || ' ', { width: columnWidth - padding * 2 }))
+  ) + padding * 2;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+    const height = rowHeight(cells);
+    const y = doc.y;
+
+    if (header) {
+      doc.rect(MARGIN, y, width, height).fill('#eef2ff');
+    }
+    cells.forEach((cell, index) => {
+      doc.fillColor(TEXT_COLOR).text(cell, MARGIN + index * columnWidth + padding, y + padding, {
+        width: columnWidth - padding * 2
+      });
+    });
+    doc.moveTo(MARGIN, y + height).lineTo(MARGIN + width, y + height).lineWidth(0.5).strokeColor(GRID_COLOR).stroke();
+    doc.x = MARGIN;
+    doc.y = y + height;
+  };
+
+  doc.font('Helvetica-Bold').fontSize(8);
+  ensureSpace(doc, rowHeight(columns) * 2);
+  drawRow(columns, true);
+
+  for (const row of rows) {
+    doc.font('Helvetica').fontSize(8);
+    if (doc.y + rowHeight(row) > doc.page.height - MARGIN) {
+      doc.addPage();
+      drawRow(columns, true);
+    }
+    drawRow(row, false);
+  }
+
+  doc.moveDown(0.8);
+}
+
+function drawLegend(doc: Doc, labels: string[], x: number, y: number): void {
+  doc.font('Helvetica').fontSize(7);
+  let cursor = x;
+  labels.forEach((label, index) => {
+    doc.rect(cursor, y + 1, 6, 6).fill(SERIES_COLORS[index % SERIES_COLORS.length]);
+    doc.fillColor(TEXT_COLOR).text(label, cursor + 9, y, { lineBreak: false });
+    cursor += 9 + doc.widthOfString(label) + 12;
+  });
+}
+
+function drawCartesianChart(doc: Doc, visualization: Visualization, top: number): void {
+  const { data, type } = visualization;
+  const x = visualization.x!;
+  const series = visualization.y || [];
+  const values = data.map(row => series.map(field => {
+    const value = Number(row[field]);
+    return Number.isFinite(value) ? value : 0;
+  }));
+
+  const left = MARGIN + 45;
+  const right = MARGIN + contentWidth(doc);
+  const bottom = top + CHART_HEIGHT - 30;
+  const plotWidth = right - left;
+  const plotHeight = bottom - top;
+
+  const flat = values.reduce((all, row) => all.concat(row), [] as number[]);
+  const min = Math.min(0, ...flat);
+  const max = Math.max(...flat, min + 1);
+  const toY = (value: number) => bottom - ((value - min) / (max - min)) * plotHeight;
+
+  // Grid and value axis
+  doc.font('Helvetica').fontSize(7);
+  for (let i = 0; i <= 4; i++) {
+    const value = min + ((max - min) * i) / 4;
+    const y = toY(value);
+    doc.moveTo(left, y).lineTo(right, y).lineWidth(0.5).strokeColor(GRID_COLOR).stroke();
+    doc.fillColor(MUTED_COLOR).text(formatNumber(value), MARGIN, y - 3, { width: 40, align: 'right', lineBreak: false });
+  }
+
+  const slot = plotWidth / data.length;
+
+  if (type === 'bar') {
+    const barWidth = (slot * 0.8) / series.length;
+    values.forEach((row, index) => {
+      row.forEach((value, seriesIndex) => {
+        const barX = left + slot * index + slot * 0.1 + barWidth * seriesIndex;
+        const barTop = toY(Math.max(value, 0));
+        const barHeight = Math.abs(toY(value) - toY(0));
+        doc.rect(barX, barTop, barWidth, Math.max(barHeight, 0.5)).fill(SERIES_COLORS[seriesIndex % SERIES_COLORS.length]);
+      });
+    });
+  } else {
+    series.forEach((_, seriesIndex) => {
+      values.forEach((row, index) => {
+        const pointX = left + slot * (index + 0.5);
+        const pointY = toY(row[seriesIndex]);
+        if (index === 0) doc.moveTo(pointX, pointY);
+        else doc.lineTo(pointX, pointY);
+      });
+      doc.lineWidth(1.5).strokeColor(SERIES_COLORS[seriesIndex % SERIES_COLORS.length]).stroke();
+    });
+  }
+
+  // Category axis, thinned out so labels don't overlap
+  const step = Math.ceil(data.length / 8);
+  doc.font('Helvetica').fontSize(7).fillColor(MUTED_COLOR);
+  for (let index = 0; index < data.length; index += step) {
+    const labelWidth = slot * step;
+    doc.text(formatCell(data[index][x]), left + slot * (index + 0.5) - labelWidth / 2, bottom + 4, {
+      width: labelWidth,
+      align: 'center',
+      height: 10,
+      ellipsis: true,
+      lineBreak: false
+    });
+  }
+
+  if (series.length > 1) {
+    drawLegend(doc, series, left, bottom + 18);
+  }
+}
+
+function drawPieChart(doc: Doc, visualization: Visualization, top: number): void {
+  const field = visualization.y![0];
+  const slices = visualization.data.map((row, index) => ({
+    label: formatCell(row[visualization.x!]),
+    value: Math.max(Number(row[field]) || 0, 0),
+    color: SERIES_COLORS[index % SERIES_COLORS.length]
+  }));
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0) || 1;
+
+  const radius = (CHART_HEIGHT - 20) / 2;
+  const cx = MARGIN + radius + 10;
+  const cy = top + radius;
+  let angle = -Math.PI / 2;
+
+  for (const slice of slices) {
+    const sweep = (slice.value / total) * Math.PI * 2;
+    if (sweep >= Math.PI * 2 - 0.0001) {
+      doc.circle(cx, cy, radius).fill(slice.color);
+    } else if (sweep > 0) {
+      const end = angle + sweep;
+      const large = sweep > Math.PI ? 1 : 0;
+      doc.path(
+        `M ${cx} ${cy} L ${cx + radius * Math.cos(angle)} ${cy + radius * Math.sin(angle)} ` +
+        `A ${radius} ${radius} 0 ${large} 1 ${cx + radius * Math.cos(end)} ${cy + radius * Math.sin(end)} Z`
+      ).fill(slice.color);
+    }
+    angle += sweep;
+  }
+
+  // Legend with shares
+  doc.font('Helvetica').fontSize(8);
+  slices.slice(0, 12).forEach((slice, index) => {
+    const y = top + 10 + index * 13;
+    const legendX = cx + radius + 30;
+    doc.rect(legendX, y + 1, 7, 7).fill(slice.color);
+    doc.fillColor(TEXT_COLOR).text(
+      `${slice.label}: ${formatNumber(slice.value)} (${((slice.value / total) * 100).toFixed(1)}%)`,
+      legendX + 12, y, { lineBreak: false }
+    );
+  });
+}
+
+function drawVisualization(doc: Doc, visualization: Visualization): void {
+  const columns = visualizationColumns(visualization);
+
+  if (visualization.type === 'table') {
+    if (visualization.title) {
+      ensureSpace(doc, 40);
+      doc.font('Helvetica-Bold').fontSize(10).fillColor(TEXT_COLOR).text(plainText(visualization.title));
+      doc.moveDown(0.3);
+    }
+    drawTable(doc, columns, visualization.data.map(row => columns.map(column => formatCell(row[column]))));
+    return;
+  }
+
+  ensureSpace(doc, CHART_HEIGHT + 30);
+  if (visualization.title) {
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(TEXT_COLOR).text(plainText(visualization.title));
+    doc.moveDown(0.3);
+  }
+
+  const top = doc.y;
+  if (visualization.type === 'pie') {
+    drawPieChart(doc, visualization, top);
+  } else {
+    drawCartesianChart(doc, visualization, top);
+  }
+
+  doc.x = MARGIN;
+  doc.y = top + CHART_HEIGHT + 10;
+}
+
+/**
+ * Render the markdown subset the assistant uses
+ */
+function drawMarkdown(doc: Doc, markdown: string): void {
+  const lines = markdown.split(/\r?\n/);
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR).text(plainText(paragraph.join(' ')));
+    doc.moveDown(0.5);
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trim().startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith('```'); i++) {
+        code.push(lines[i]);
+      }
+      doc.font('Courier').fontSize(8).fillColor('#374151').text(code.join('\n'));
+      doc.moveDown(0.5);
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      flushParagraph();
+      const tableLines: string[] = [];
+      for (; i < lines.length && lines[i].trim().startsWith('|'); i++) {
+        tableLines.push(lines[i].trim());
+      }
+      i--;
+      const cells = tableLines
+        .filter(row => !/^\|?[\s:|-]+\|?$/.test(row))
+        .map(row => row
+          .replace(/\\\|/g, '\u0000')
+          .replace(/^\||\|$/g, '')
+          .split('|')
+          .map(cell => plainText(cell.trim().replace(/\u0000/g, '|'))));
+      if (cells.length > 0) {
+        drawTable(doc, cells[0], cells.slice(1));
+      }
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    const numbered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+
+    if (heading) {
+      flushParagraph();
+      ensureSpace(doc, 40);
+      doc.font('Helvetica-Bold').fontSize([14, 12, 11][Math.min(heading[1].length, 3) - 1]).fillColor(TEXT_COLOR).text(plainText(heading[2]));
+      doc.moveDown(0.3);
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const indent = ((bullet || numbered)![1].length >= 2 ? 24 : 10);
+      const marker = bullet ? '•' : `${numbered![2]}.`;
+      const text = bullet ? bullet[2] : numbered![3];
+      doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR)
+        .text(`${marker} ${plainText(text)}`, MARGIN + indent, doc.y, { width: contentWidth(doc) - indent });
+      doc.x = MARGIN;
+    } else if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+
+  flushParagraph();
+}
+
+export function conversationToPdf({ title, messages, exportedAt }: ExportedConversation): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      doc.font('Helvetica-Bold').fontSize(18).fillColor(TEXT_COLOR).text(plainText(title));
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED_COLOR).text(`Exported ${formatExportDate(exportedAt)}`);
+      doc.moveDown(1);
+
+      const toolNames = toolNamesByAnswer(messages);
+
+      for (const message of messages) {
+        if (message.role === 'tool') continue;
+
+        ensureSpace(doc, 60);
+        doc.moveTo(MARGIN, doc.y).lineTo(MARGIN + contentWidth(doc), doc.y).lineWidth(0.5).strokeColor(GRID_COLOR).stroke();
+        doc.moveDown(0.5);
+        doc.font('Helvetica-Bold').fontSize(10).fillColor(message.role === 'user' ? '#4f46e5' : '#9333ea')
+          .text(message.role === 'user' ? 'You' : 'Assistant', { continued: true })
+          .font('Helvetica').fontSize(8).fillColor(MUTED_COLOR).text(`  ${formatExportDate(message.created_at)}`);
+        doc.moveDown(0.3);
+
+        for (const segment of splitVisualizations(message.content)) {
+          if (segment.type === 'text') {
+            drawMarkdown(doc, segment.text);
+            continue;
+          }
+          const visualization = parseVisualization(segment.source);
+          if (visualization) {
+            drawVisualization(doc, visualization);
+          } else {
+            drawMarkdown(doc, '```\n' + segment.source + '\n```');
+          }
+        }
+
+        const tools = toolNames[message.id];
+        if (tools) {
+          doc.font('Helvetica-Oblique').fontSize(8).fillColor(MUTED_COLOR).text(`Data from: ${tools.join(', ')}`);
+        }
+        doc.moveDown(0.8);
+      }
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
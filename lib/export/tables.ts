@@ -0,0 +1,75 @@
+// Table Export - CSV and XLSX files from the tool result tables behind an answer
+import { Workbook } from 'exceljs';
+import { ResultTable, TableValue } from '../chat/tables';
+
+// Leading characters a spreadsheet may read as the start of a formula, also
+// after whitespace and in their fullwidth forms
+const FORMULA_PREFIX = /^(\s*[=+\-@\uFF1D\uFF0B\uFF0D\uFF20]|[\t\r\n])/;
+
+/**
+ * Quote a CSV cell. Text that a spreadsheet would read as a formula is
+ * prefixed with an apostrophe so exported data can't run on open.
+ */
+function csvCell(value: TableValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One table as RFC 4180 CSV
+ */
+export function tableToCsv(table: ResultTable): string {
+  return [table.columns, ...table.rows]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Excel sheet names are limited to 31 characters, without []:*?/\ and unique per workbook
+ */
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\[\]:*?\/\\]/g, ' ').trim().substring(0, 31) || 'Data';
+  let candidate = base;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    candidate = base.substring(0, 31 - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Every table as a sheet of one XLSX workbook
+ */
+export async function tablesToXlsx(tables: ResultTable[]): Promise<Buffer> {
+  const workbook = new Workbook();
+  workbook.created = new Date();
+  const usedNames = new Set<string>();
+
+  for (const table of tables) {
+    const sheet = workbook.addWorksheet(sheetName(table.name, usedNames), {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    });
+
+    sheet.addRow(table.columns).font = { bold: true };
+    sheet.addRows(table.rows);
+
+    sheet.columns.forEach((column, index) => {
+      const longest = Math.max(
+        table.columns[index]?.length || 0,
+        ...table.rows.slice(0, 200).map(row => String(row[index] ?? '').length)
+      );
+      column.width = Math.min(Math.max(longest + 2, 10), 60);
+    });
+
+    if (table.truncated) {
+      sheet.addRow([]);
+      sheet.addRow([`Only the first ${table.rows.length} rows were kept`]).font = { italic: true };
+    }
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,82 @@
+// Google Resources - Lists the GA4 properties and Search Console sites a linked account can access
+import { google } from 'googleapis';
+import { MCPCredentials } from '../mcp/credential-manager';
+import { GoogleResourceKind } from '../mcp/types';
+
+export interface GoogleResource {
+  id: string;        // Value the MCP tools expect, e.g. `properties/123` or `sc-domain:example.com`
+  name: string;
+  detail?: string;   // Parent account or permission level
+}
+
+function createAuth(credentials: MCPCredentials) {
+  const auth = new google.auth.OAuth2(
+    process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET
+  );
+  auth.setCredentials({
+    access_token: credentials.access_token,
+    refresh_token: credentials.refresh_token
+  });
+  return auth;
+}
+
+/**
+ * GA4 properties across every Analytics account the user can see
+ */
+async function listGA4Properties(credentials: MCPCredentials): Promise<GoogleResource[]> {
+  const admin = google.analyticsadmin({ version: 'v1beta', auth: createAuth(credentials) });
+  const resources: GoogleResource[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const { data } = await admin.accountSummaries.list({ pageSize: 200, pageToken });
+
+    for (const account of data.accountSummaries || []) {
+      for (const property of account.propertySummaries || []) {
+        if (!property.property) continue;
+        resources.push({
+          id: property.property,
+          name: property.displayName || property.property,
+          detail: account.displayName || undefined
+        });
+      }
+    }
+
+    pageToken = data.nextPageToken || undefined;
+  } while (pageToken);
+
+  return resources;
+}
+
+/**
+ * Search Console sites the user has a verified permission on
+ */
+async function listGSCSites(credentials: MCPCredentials): Promise<GoogleResource[]> {
+  const searchconsole = google.searchconsole({ version: 'v1', auth: createAuth(credentials) });
+  const { data } = await searchconsole.sites.list();
+
+  return (data.siteEntry || [])
+    .filter(site => site.siteUrl && site.permissionLevel !== 'siteUnverifiedUser')
+    .map(site => ({
+      id: site.siteUrl!,
+      name: site.siteUrl!,
+      detail: site.permissionLevel || undefined
+    }));
+}
+
+const RESOURCE_LISTERS: Record<GoogleResourceKind, (credentials: MCPCredentials) => Promise<GoogleResource[]>> = {
+  ga4_property: listGA4Properties,
+  gsc_site: listGSCSites
+};
+
+/**
+ * List the resources of one kind a linked account can access, sorted by name
+ */
+export async function listGoogleResources(
+  kind: GoogleResourceKind,
+  credentials: MCPCredentials
+): Promise<GoogleResource[]> {
+  const resources = await RESOURCE_LISTERS[kind](credentials);
+  return resources.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,63 @@
+// Mock LLM Provider tests - scripted turns, streaming and the echo fallback
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockLLMProvider } from './providers/mock-provider';
+import { LLMChatRequest } from './types';
+
+const request = (content: string): LLMChatRequest => ({
+  model: 'mock',
+  messages: [
+    { role: 'system', content: 'You are a helpful assistant.' },
+    { role: 'user', content }
+  ]
+});
+
+describe('MockLLMProvider', () => {
+  afterEach(() => {
+    delete process.env.MOCK_LLM_SCRIPT;
+  });
+
+  it('plays scripted steps in order, then echoes the last user message', async () => {
+    const provider = new MockLLMProvider([
+      { toolCalls: [{ name: 'ga4_run_report', arguments: { property: '123' } }] },
+      { content: 'Sessions were up 12%.' }
+    ]);
+
+    const first = await provider.chat(request('How did traffic do?'));
+    assert.equal(first.content, null);
+    assert.deepEqual(first.toolCalls, [
+      { id: 'mock_call_1_0', name: 'ga4_run_report', arguments: '{"property":"123"}' }
+    ]);
+
+    const second = await provider.chat(request('How did traffic do?'));
+    assert.equal(second.content, 'Sessions were up 12%.');
+    assert.deepEqual(second.toolCalls, []);
+
+    const third = await provider.chat(request('And last week?'));
+    assert.equal(third.content, 'Mock response to: And last week?');
+  });
+
+  it('passes string arguments through unchanged', async () => {
+    const provider = new MockLLMProvider([{ toolCalls: [{ name: 'broken', arguments: '{not json' }] }]);
+    const completion = await provider.chat(request('hi'));
+
+    assert.equal(completion.toolCalls[0].arguments, '{not json');
+  });
+
+  it('streams content word by word through onToken', async () => {
+    const provider = new MockLLMProvider([{ content: 'Top page is /pricing' }]);
+    const tokens: string[] = [];
+
+    const completion = await provider.chat(request('hi'), { onToken: token => tokens.push(token) });
+
+    assert.deepEqual(tokens, ['Top ', 'page ', 'is ', '/pricing']);
+    assert.equal(tokens.join(''), completion.content);
+  });
+
+  it('reads an inline script from MOCK_LLM_SCRIPT', async () => {
+    process.env.MOCK_LLM_SCRIPT = '[{"content": "From the environment"}]';
+    const provider = new MockLLMProvider();
+
+    assert.equal((await provider.chat(request('hi'))).content, 'From the environment');
+  });
+});
@@ -0,0 +1,136 @@
+// Anthropic LLM Provider - Claude Messages API with tool use and streaming
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, LLMChatRequest, LLMChatResponse, LLMChatOptions, LLMMessage } from '../types';
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name: string = 'anthropic';
+  private client: Anthropic;
+
+  constructor(options: { apiKey?: string } = {}) {
+    this.client = new Anthropic({
+      apiKey: options.apiKey ?? process.env.ANTHROPIC_API_KEY
+    });
+  }
+
+  async chat(request: LLMChatRequest, options: LLMChatOptions = {}): Promise<LLMChatResponse> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages,
+      ...(system && { system }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.tools && request.tools.length > 0 && {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters
+        }))
+      })
+    };
+
+    let response: Anthropic.Message;
+
+    if (options.onToken) {
+      const onToken = options.onToken;
+      const stream = this.client.messages.stream(params);
+      stream.on('text', (delta) => onToken(delta));
+      response = await stream.finalMessage();
+    } else {
+      response = await this.client.messages.create(params);
+    }
+
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    const toolCalls = response.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        name: block.name,
+        arguments: JSON.stringify(block.input ?? {})
+      }));
+
+    return {
+      content: text || null,
+      toolCalls,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens
+      }
+    };
+  }
+}
+
+/**
+ * Convert provider-neutral messages to the Messages API format.
+ * System messages are hoisted into the top-level `system` prompt, and
+ * consecutive tool results are grouped into a single user turn.
+ */
+function toAnthropicMessages(messages: LLMMessage[]): {
+  system: string;
+  messages: Anthropic.MessageParam[];
+} {
+  const systemParts: string[] = [];
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        systemParts.push(message.content);
+        break;
+
+      case 'user':
+        result.push({ role: 'user', content: message.content });
+        break;
+
+      case 'assistant': {
+        const content: Anthropic.ContentBlockParam[] = [];
+        if (message.content) {
+          content.push({ type: 'text', text: message.content });
+        }
+        for (const toolCall of message.toolCalls || []) {
+          content.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.name,
+            input: parseArguments(toolCall.arguments)
+          });
+        }
+        result.push({ role: 'assistant', content });
+        break;
+      }
+
+      case 'tool': {
+        const block: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: message.toolCallId,
+          content: message.content
+        };
+        const previous = result[result.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(block);
+        } else {
+          result.push({ role: 'user', content: [block] });
+        }
+        break;
+      }
+    }
+  }
+
+  return { system: systemParts.join('\n\n'), messages: result };
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+}
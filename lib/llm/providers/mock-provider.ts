@@ -0,0 +1,67 @@
+// Mock LLM Provider - Deterministic scripted responses for offline development and tests
+import * as fs from 'fs';
+import { LLMProvider, LLMChatRequest, LLMChatResponse, LLMChatOptions } from '../types';
+
+/**
+ * One scripted model turn: either text, tool calls, or both
+ */
+export interface MockStep {
+  content?: string;
+  toolCalls?: { name: string; arguments?: any }[];
+}
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name: string = 'mock';
+  private script: MockStep[];
+  private position: number = 0;
+
+  constructor(script?: MockStep[]) {
+    this.script = script ?? loadScriptFromEnv();
+  }
+
+  async chat(request: LLMChatRequest, options: LLMChatOptions = {}): Promise<LLMChatResponse> {
+    // Once the script is exhausted, echo the last user message
+    const step = this.script[this.position] ?? { content: echo(request) };
+    this.position++;
+
+    const content = step.content ?? null;
+    const toolCalls = (step.toolCalls || []).map((call, index) => ({
+      id: `mock_call_${this.position}_${index}`,
+      name: call.name,
+      arguments: typeof call.arguments === 'string'
+        ? call.arguments
+        : JSON.stringify(call.arguments ?? {})
+    }));
+
+    if (content && options.onToken) {
+      // Stream word by word so the UI path is exercised too
+      for (const token of content.match(/\S+\s*/g) || []) {
+        options.onToken(token);
+      }
+    }
+
+    return {
+      content,
+      toolCalls,
+      usage: { promptTokens: 0, completionTokens: 0 }
+    };
+  }
+}
+
+function echo(request: LLMChatRequest): string {
+  const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+  return `Mock response to: ${lastUser?.content ?? ''}`;
+}
+
+/**
+ * Read the script from MOCK_LLM_SCRIPT, which may hold inline JSON or a file path
+ */
+function loadScriptFromEnv(): MockStep[] {
+  const source = process.env.MOCK_LLM_SCRIPT;
+  if (!source) {
+    return [];
+  }
+
+  const json = source.trim().startsWith('[') ? source : fs.readFileSync(source, 'utf-8');
+  return JSON.parse(json) as MockStep[];
+}
@@ -0,0 +1,19 @@
+// OpenAI-Compatible LLM Provider - Any server exposing the OpenAI chat API (Ollama, vLLM, LM Studio...)
+import { OpenAIProvider } from './openai-provider';
+
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai-compatible';
+
+  constructor(options: { baseURL?: string; apiKey?: string } = {}) {
+    const baseURL = options.baseURL ?? process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseURL) {
+      throw new Error('OPENAI_COMPATIBLE_BASE_URL is required for the openai-compatible provider');
+    }
+
+    // Local servers usually ignore the key, but the SDK requires one
+    super({
+      baseURL,
+      apiKey: options.apiKey ?? process.env.OPENAI_COMPATIBLE_API_KEY ?? 'not-needed'
+    });
+  }
+}
@@ -0,0 +1,113 @@
+// OpenAI LLM Provider - Chat completions with parallel tool calls and streaming
+import OpenAI from 'openai';
+import { LLMProvider, LLMChatRequest, LLMChatResponse, LLMChatOptions, LLMMessage } from '../types';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  protected client: OpenAI;
+
+  constructor(options: { apiKey?: string; baseURL?: string } = {}) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      ...(options.baseURL && { baseURL: options.baseURL })
+    });
+  }
+
+  async chat(request: LLMChatRequest, options: LLMChatOptions = {}): Promise<LLMChatResponse> {
+    const params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.tools && request.tools.length > 0 && {
+        tools: request.tools.map(tool => ({ type: 'function' as const, function: tool })),
+        tool_choice: 'auto' as const
+      })
+    };
+
+    if (!options.onToken) {
+      const completion = await this.client.chat.completions.create(params);
+      const message = completion.choices[0]?.message;
+
+      return {
+        content: message?.content || null,
+        toolCalls: (message?.tool_calls || [])
+          .filter(toolCall => toolCall.type === 'function')
+          .map(toolCall => ({
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments
+          })),
+        usage: completion.usage && {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens
+        }
+      };
+    }
+
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    let content = '';
+    // Tool call fragments arrive keyed by their position in the assistant turn
+    const toolCalls: { id: string; name: string; arguments: string }[] = [];
+    let usage: LLMChatResponse['usage'];
+
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens
+        };
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        options.onToken(delta.content);
+      }
+
+      for (const fragment of delta.tool_calls || []) {
+        const toolCall = toolCalls[fragment.index] = toolCalls[fragment.index] || { id: '', name: '', arguments: '' };
+        if (fragment.id) toolCall.id = fragment.id;
+        toolCall.name += fragment.function?.name || '';
+        toolCall.arguments += fragment.function?.arguments || '';
+      }
+    }
+
+    return {
+      content: content || null,
+      toolCalls: toolCalls.filter(Boolean),
+      usage
+    };
+  }
+}
+
+/**
+ * Convert a provider-neutral message to the chat completions format
+ */
+function toOpenAIMessage(message: LLMMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return message.toolCalls && message.toolCalls.length > 0
+        ? {
+            role: 'assistant',
+            content: message.content,
+            tool_calls: message.toolCalls.map(toolCall => ({
+              id: toolCall.id,
+              type: 'function' as const,
+              function: { name: toolCall.name, arguments: toolCall.arguments }
+            }))
+          }
+        : { role: 'assistant', content: message.content };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
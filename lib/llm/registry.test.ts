@@ -0,0 +1,99 @@
+// LLM Provider Registry tests - provider/model resolution and the deployment allowlist
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveLLMConfig, createLLMProvider, validateLLMSelection, getAllowedModels } from './registry';
+import { MockLLMProvider } from './providers/mock-provider';
+
+const ENV_KEYS = ['LLM_PROVIDER', 'LLM_MODEL', 'LLM_ALLOWED_MODELS', 'LLM_TEMPERATURE', 'LLM_MAX_TOKENS', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'NODE_ENV'];
+
+describe('LLM provider registry', () => {
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+    ENV_KEYS.forEach(key => delete process.env[key]);
+  });
+
+  afterEach(() => {
+    ENV_KEYS.forEach(key => {
+      if (saved[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = saved[key];
+      }
+    });
+  });
+
+  describe('resolveLLMConfig', () => {
+    it('defaults to OpenAI and its default model', () => {
+      assert.deepEqual(resolveLLMConfig(), { provider: 'openai', model: 'gpt-4o', temperature: undefined, maxTokens: undefined });
+    });
+
+    it('uses the deployment provider, model and sampling settings', () => {
+      process.env.LLM_PROVIDER = 'anthropic';
+      process.env.LLM_MODEL = 'claude-opus-4-1';
+      process.env.LLM_TEMPERATURE = '0.2';
+      process.env.LLM_MAX_TOKENS = 'not a number';
+
+      assert.deepEqual(resolveLLMConfig(), { provider: 'anthropic', model: 'claude-opus-4-1', temperature: 0.2, maxTokens: undefined });
+    });
+
+    it('lets conversation overrides win, applying LLM_MODEL only to the deployment provider', () => {
+      process.env.LLM_PROVIDER = 'openai';
+      process.env.LLM_MODEL = 'gpt-4o-mini';
+
+      assert.equal(resolveLLMConfig({ provider: 'anthropic' }).model, 'claude-sonnet-4-5');
+      assert.equal(resolveLLMConfig({ provider: 'openai' }).model, 'gpt-4o-mini');
+      assert.equal(resolveLLMConfig({ provider: 'openai', model: 'gpt-4.1' }).model, 'gpt-4.1');
+    });
+
+    it('rejects unknown providers', () => {
+      assert.throws(() => resolveLLMConfig({ provider: 'nope' }), /Unknown LLM provider: nope/);
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    it('creates the mock provider outside production', () => {
+      assert.ok(createLLMProvider({ provider: 'mock', model: 'mock' }) instanceof MockLLMProvider);
+    });
+
+    it('refuses providers without credentials', () => {
+      assert.throws(() => createLLMProvider({ provider: 'anthropic', model: 'claude-sonnet-4-5' }), /not configured/);
+    });
+
+    it('refuses the mock provider in production unless it is the deployment provider', () => {
+      (process.env as Record<string, string>).NODE_ENV = 'production';
+      assert.throws(() => createLLMProvider({ provider: 'mock', model: 'mock' }), /not configured/);
+
+      process.env.LLM_PROVIDER = 'mock';
+      assert.ok(createLLMProvider({ provider: 'mock', model: 'mock' }) instanceof MockLLMProvider);
+    });
+  });
+
+  describe('validateLLMSelection', () => {
+    it('accepts unset fields, which fall back to the defaults', () => {
+      assert.equal(validateLLMSelection({}), null);
+      assert.equal(validateLLMSelection({ provider: null, model: null }), null);
+    });
+
+    it('rejects providers that are unknown or not configured', () => {
+      assert.match(validateLLMSelection({ provider: 'nope' })!, /not available/);
+      assert.match(validateLLMSelection({ provider: 'anthropic' })!, /not available/);
+
+      process.env.ANTHROPIC_API_KEY = 'test';
+      assert.equal(validateLLMSelection({ provider: 'anthropic' }), null);
+    });
+
+    it('only allows models on the deployment allowlist', () => {
+      process.env.OPENAI_API_KEY = 'test';
+      process.env.LLM_MODEL = 'gpt-4o-mini';
+      process.env.LLM_ALLOWED_MODELS = 'openai:gpt-4.1, anthropic:claude-haiku-4-5';
+
+      assert.deepEqual(getAllowedModels('openai'), ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1']);
+      assert.equal(validateLLMSelection({ provider: 'openai', model: 'gpt-4.1' }), null);
+      assert.equal(validateLLMSelection({ model: 'gpt-4o-mini' }), null);
+      assert.match(validateLLMSelection({ provider: 'openai', model: 'o1-pro' })!, /not allowed/);
+      assert.match(validateLLMSelection({ provider: 'openai', model: 'claude-haiku-4-5' })!, /not allowed/);
+    });
+  });
+});
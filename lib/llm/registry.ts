@@ -0,0 +1,140 @@
+// LLM Provider Registry - Resolves the provider and model settings for a request
+import { LLMProvider, LLMConfig } from './types';
+import { OpenAIProvider } from './providers/openai-provider';
+import { OpenAICompatibleProvider } from './providers/openai-compatible-provider';
+import { AnthropicProvider } from './providers/anthropic-provider';
+import { MockLLMProvider } from './providers/mock-provider';
+
+export interface LLMProviderInfo {
+  id: string;
+  name: string;
+  defaultModel: string;
+  isConfigured: () => boolean;
+  create: () => LLMProvider;
+}
+
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    defaultModel: 'gpt-4o',
+    isConfigured: () => !!process.env.OPENAI_API_KEY,
+    create: () => new OpenAIProvider()
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    defaultModel: 'claude-sonnet-4-5',
+    isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+    create: () => new AnthropicProvider()
+  },
+  {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible (Ollama, vLLM)',
+    defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+    isConfigured: () => !!process.env.OPENAI_COMPATIBLE_BASE_URL,
+    create: () => new OpenAICompatibleProvider()
+  },
+  {
+    id: 'mock',
+    name: 'Mock (offline)',
+    defaultModel: 'mock',
+    isConfigured: () => process.env.NODE_ENV !== 'production' || process.env.LLM_PROVIDER === 'mock',
+    create: () => new MockLLMProvider()
+  }
+];
+
+/**
+ * Providers that have the credentials/settings they need in this deployment
+ */
+export function getAvailableProviders(): LLMProviderInfo[] {
+  return LLM_PROVIDERS.filter(provider => provider.isConfigured());
+}
+
+/**
+ * Models a conversation may pick for a provider: its default, LLM_MODEL for the
+ * deployment's provider, and any `provider:model` entries in LLM_ALLOWED_MODELS
+ */
+export function getAllowedModels(providerId: string): string[] {
+  const info = LLM_PROVIDERS.find(p => p.id === providerId);
+  if (!info) {
+    return [];
+  }
+
+  const deploymentModel = providerId === (process.env.LLM_PROVIDER || 'openai') ? process.env.LLM_MODEL : undefined;
+  const extra = (process.env.LLM_ALLOWED_MODELS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.startsWith(`${providerId}:`))
+    .map(entry => entry.slice(providerId.length + 1));
+
+  return Array.from(new Set([info.defaultModel, ...(deploymentModel ? [deploymentModel] : []), ...extra]));
+}
+
+/**
+ * Check a conversation's provider and model selection against this deployment,
+ * returning an error message or null. Unset fields fall back to the defaults.
+ */
+export function validateLLMSelection(selection: { provider?: string | null; model?: string | null }): string | null {
+  if (selection.provider && !getAvailableProviders().some(p => p.id === selection.provider)) {
+    return `LLM provider ${selection.provider} is not available`;
+  }
+  if (selection.model) {
+    const provider = selection.provider || process.env.LLM_PROVIDER || 'openai';
+    if (!getAllowedModels(provider).includes(selection.model)) {
+      return `Model ${selection.model} is not allowed for ${provider}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve provider and model settings. Per-conversation overrides win over
+ * the deployment defaults from LLM_PROVIDER / LLM_MODEL / LLM_TEMPERATURE / LLM_MAX_TOKENS.
+ */
+export function resolveLLMConfig(overrides: { provider?: string | null; model?: string | null } = {}): LLMConfig {
+  const deploymentProvider = process.env.LLM_PROVIDER || 'openai';
+  const provider = overrides.provider || deploymentProvider;
+
+  const info = LLM_PROVIDERS.find(p => p.id === provider);
+  if (!info) {
+    throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+
+  // LLM_MODEL only applies to the deployment's provider
+  const model = overrides.model
+    || (provider === deploymentProvider ? process.env.LLM_MODEL : undefined)
+    || info.defaultModel;
+
+  return {
+    provider,
+    model,
+    temperature: parseOptionalNumber(process.env.LLM_TEMPERATURE),
+    maxTokens: parseOptionalNumber(process.env.LLM_MAX_TOKENS)
+  };
+}
+
+/**
+ * Instantiate the provider for a resolved config
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const info = LLM_PROVIDERS.find(p => p.id === config.provider);
+  if (!info) {
+    throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+  if (!info.isConfigured()) {
+    throw new Error(`LLM provider ${config.provider} is not configured`);
+  }
+
+  return info.create();
+}
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
@@ -0,0 +1,55 @@
+// LLM Provider Types and Interfaces
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // Raw JSON string as produced by the model
+}
+
+export type LLMMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: any; // JSON Schema
+}
+
+export interface LLMConfig {
+  provider: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMChatResponse {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+  usage?: LLMUsage;
+}
+
+export interface LLMChatOptions {
+  // When set, the completion is streamed and text deltas are forwarded
+  onToken?: (delta: string) => void;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: LLMChatRequest, options?: LLMChatOptions): Promise<LLMChatResponse>;
+}
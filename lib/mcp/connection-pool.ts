@@ -1,15 +1,19 @@
 // MCP Connection Pool - Maintains persistent connections to MCP servers
-import { GoogleAnalyticsMCPClient } from './servers/google-analytics-client';
-import { GoogleSearchConsoleMCPClient } from './servers/google-search-console-client';
-import { CredentialManager } from './credential-manager';
-import { MCPServerInterface } from './types';
+import { MCPServerClient } from './servers/mcp-server-client';
+import { CredentialManager, isTokenExpiring } from './credential-manager';
+import { getServerManifest } from './manifest';
+import { MCPServerInterface, MCPServerManifest, MCPConnectionCredentials } from './types';
+import { AuditedMCPClient, AuditContext } from '../audit/audited-client';
 
 interface ConnectionEntry {
   client: MCPServerInterface; // Changed to support multiple client types
-  userId: string;
+  ownerId: string;           // User, or workspace for a shared workspace connection
   serverName: string;
+  connectionId?: string;     // Linked account (mcp_connections.id) for OAuth servers
   lastUsed: Date;
   isConnected: boolean;
+  credentialsPath?: string;  // Temp credentials file, removed when the entry closes
+  tokenExpiry?: Date;        // Access token baked into a remote transport's headers
 }
 
 export class MCPConnectionPool {
@@ -33,84 +37,142 @@ export class MCPConnectionPool {
   }
 
   /**
-   * Get connection key for a user and server
+   * Get connection key for an owner, server and (for OAuth servers) linked account.
+   * Workspace connections are owned by the workspace, so its members share one entry.
    */
-  private getConnectionKey(userId: string, serverName: string): string {
-    return `${userId}:${serverName}`;
+  private getConnectionKey(ownerId: string, serverName: string, connectionId?: string): string {
+    return connectionId ? `${ownerId}:${serverName}:${connectionId}` : `${ownerId}:${serverName}`;
   }
 
   /**
-   * Get or create a connection for a user
+   * Get or create a connection for a user. Custom servers pass their manifest,
+   * built-in servers are resolved from MCP_SERVERS. OAuth servers connect as the
+   * given linked account (the user's own or one of their workspaces'), or the
+   * user's default account for that server.
    */
   async getConnection(
     userId: string,
-    serverName: string = 'google-analytics'
+    serverName: string,
+    manifest: MCPServerManifest | undefined = getServerManifest(serverName),
+    connectionId?: string
   ): Promise<MCPServerInterface> {
-    const key = this.getConnectionKey(userId, serverName);
+    if (!manifest) {
+      throw new Error(`Unknown server name: ${serverName}`);
+    }
+
+    let ownerId = userId;
+    const audit: AuditContext = { userId, serverName };
+    if (manifest.oauth) {
+      // Resolves the default account, and checks the user may use a shared one
+      const account = await CredentialManager.getCredentials(userId, serverName, connectionId);
+      if (!account) {
+        throw new Error(`No credentials found for user ${userId} and server ${serverName}`);
+      }
+      connectionId = account.id;
+      ownerId = account.workspace_id || userId;
+      audit.connectionId = account.id;
+      audit.accountEmail = account.account_email || undefined;
+      audit.workspaceId = account.workspace_id || undefined;
+    }
+
+    const key = this.getConnectionKey(ownerId, serverName, connectionId);
     const existing = this.connections.get(key);
 
     // Return existing connection if still valid
     if (existing && existing.isConnected) {
-      existing.lastUsed = new Date();
-      return existing.client;
-    }
+      if (!existing.tokenExpiry || !isTokenExpiring(existing.tokenExpiry)) {
+        existing.lastUsed = new Date();
+        return new AuditedMCPClient(existing.client, audit);
+      }
 
-    // Create new connection
-    const credentials = await CredentialManager.getCredentials(userId, serverName);
-    if (!credentials) {
-      throw new Error(`No credentials found for user ${userId} and server ${serverName}`);
+      // Remote transports can't pick up a refreshed token, so reconnect with a fresh one
+      console.log(`Access token expiring for ${key}, reconnecting`);
+      await this.closeConnection(ownerId, serverName, connectionId);
     }
 
-    // Create the appropriate client based on server name
-    let client: MCPServerInterface;
-    
-    if (serverName === 'google-analytics') {
-      client = new GoogleAnalyticsMCPClient();
-    } else if (serverName === 'google-search-console') {
-      client = new GoogleSearchConsoleMCPClient();
-    } else {
-      throw new Error(`Unknown server name: ${serverName}`);
+    // Create new connection; only OAuth servers need stored credentials
+    let credentials: MCPConnectionCredentials = {};
+    let tokenExpiry: Date | undefined;
+    if (manifest.oauth) {
+      const stored = await CredentialManager.getValidCredentials(userId, serverName, connectionId);
+      if (!stored) {
+        throw new Error(`No credentials found for user ${userId} and server ${serverName}`);
+      }
+      if (stored.needs_reauth) {
+        throw new Error(`${manifest.displayName} access was revoked, please reconnect`);
+      }
+      tokenExpiry = stored.token_expiry;
+      credentials = {
+        refresh_token: stored.refresh_token,
+        access_token: stored.access_token
+      };
+
+      // Only stdio servers read a credentials file, and only for the life of this entry
+      if (manifest.transport.type === 'stdio') {
+        credentials.credentials_path = CredentialManager.materializeCredentialsFile(stored);
+        tokenExpiry = undefined;  // The server process refreshes its own tokens from the file
+      }
     }
-    
+
+    const client: MCPServerInterface = new MCPServerClient(manifest);
+
     try {
-      // Pass the persistent credentials path
-      await client.connect({
-        credentials_path: credentials.credentials_path,
-        refresh_token: credentials.refresh_token,
-        access_token: credentials.access_token
-      });
+      await client.connect(credentials);
 
       const entry: ConnectionEntry = {
         client,
-        userId,
+        ownerId,
         serverName,
+        connectionId,
         lastUsed: new Date(),
-        isConnected: true
+        isConnected: true,
+        credentialsPath: credentials.credentials_path,
+        tokenExpiry
       };
 
       this.connections.set(key, entry);
       console.log(`Created new MCP connection for user ${userId}, server: ${serverName}`);
       
-      return client;
+      return new AuditedMCPClient(client, audit);
     } catch (error: any) {
       console.error(`Failed to connect MCP client for user ${userId}:`, error);
+      if (credentials.credentials_path) {
+        CredentialManager.removeCredentialsFile(credentials.credentials_path);
+      }
       throw error;
     }
   }
 
   /**
-   * Close a specific connection
+   * Disconnect an entry's client and remove its temp credentials file
    */
-  async closeConnection(userId: string, serverName: string = 'google-analytics'): Promise<void> {
-    const key = this.getConnectionKey(userId, serverName);
-    const entry = this.connections.get(key);
+  private async closeEntry(entry: ConnectionEntry): Promise<void> {
+    try {
+      await entry.client.disconnect();
+    } finally {
+      if (entry.credentialsPath) {
+        CredentialManager.removeCredentialsFile(entry.credentialsPath);
+      }
+    }
+  }
+
+  /**
+   * Close a specific connection, or every linked account's connection to the server.
+   * `ownerId` is the workspace for workspace connections.
+   */
+  async closeConnection(ownerId: string, serverName: string, connectionId?: string): Promise<void> {
+    const matching = Array.from(this.connections.entries()).filter(([_, entry]) =>
+      entry.ownerId === ownerId &&
+      entry.serverName === serverName &&
+      (!connectionId || entry.connectionId === connectionId)
+    );
 
-    if (entry) {
+    for (const [key, entry] of matching) {
       try {
-        await entry.client.disconnect();
-        console.log(`Closed MCP connection for user ${userId}`);
+        await this.closeEntry(entry);
+        console.log(`Closed MCP connection for ${ownerId}`);
       } catch (error) {
-        console.error(`Error closing connection for user ${userId}:`, error);
+        console.error(`Error closing connection for ${ownerId}:`, error);
       }
       this.connections.delete(key);
     }
@@ -121,11 +183,11 @@ export class MCPConnectionPool {
    */
   async closeUserConnections(userId: string): Promise<void> {
     const userConnections = Array.from(this.connections.entries())
-      .filter(([_, entry]) => entry.userId === userId);
+      .filter(([_, entry]) => entry.ownerId === userId);
 
     for (const [key, entry] of userConnections) {
       try {
-        await entry.client.disconnect();
+        await this.closeEntry(entry);
       } catch (error) {
         console.error(`Error closing connection ${key}:`, error);
       }
@@ -156,7 +218,7 @@ export class MCPConnectionPool {
       const entry = this.connections.get(key);
       if (entry) {
         try {
-          await entry.client.disconnect();
+          await this.closeEntry(entry);
           console.log(`Cleaned up idle connection: ${key}`);
         } catch (error) {
           console.error(`Error cleaning up connection ${key}:`, error);
@@ -189,10 +251,10 @@ export class MCPConnectionPool {
         stats.activeConnections++;
       }
 
-      if (!stats.userBreakdown[entry.userId]) {
-        stats.userBreakdown[entry.userId] = 0;
+      if (!stats.userBreakdown[entry.ownerId]) {
+        stats.userBreakdown[entry.ownerId] = 0;
       }
-      stats.userBreakdown[entry.userId]++;
+      stats.userBreakdown[entry.ownerId]++;
     }
 
     return stats;
@@ -210,7 +272,7 @@ export class MCPConnectionPool {
     console.log(`Shutting down MCP connection pool (${this.connections.size} connections)...`);
 
     const closePromises = Array.from(this.connections.values()).map(entry =>
-      entry.client.disconnect().catch(err => 
+      this.closeEntry(entry).catch(err => 
         console.error(`Error closing connection during shutdown:`, err)
       )
     );
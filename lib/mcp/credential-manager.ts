@@ -1,40 +1,193 @@
-// MCP Credential Manager - Handles persistent credential storage
+// MCP Credential Manager - Handles encrypted credential storage
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { randomUUID } from 'crypto';
+import { encryptRecord, decryptRecord } from '../crypto/envelope';
+import { refreshGoogleToken, isInvalidGrantError, getGoogleAccountEmail } from '../auth/google';
+import { listMemberships, WorkspaceRole } from '../workspaces/workspaces';
+import { recordAuditEvent } from '../audit/audit-log';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
 export interface MCPCredentials {
   id: string;
-  user_id: string;
+  user_id: string;            // Who linked the account
+  workspace_id?: string;      // Shared with this workspace's members instead of private to the user
   server_name: string;
-  credentials_path: string;
+  account_email?: string;     // Google account the tokens belong to
+  default_resource?: string;  // Pinned GA4 property or GSC site
   access_token?: string;
   refresh_token: string;
   token_expiry?: Date;
   is_active: boolean;
+  needs_reauth: boolean;  // Refresh token was revoked; the user must reconnect
 }
 
-export class CredentialManager {
-  private static credentialsDir = path.join(process.cwd(), 'mcp-credentials');
+// Refresh access tokens this long before they expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Where installs before encryption kept one credentials file per connection
+const LEGACY_CREDENTIALS_DIR = path.join(process.cwd(), 'mcp-credentials');
+
+// In-flight refreshes, so concurrent requests for one connection refresh once
+const pendingRefreshes = new Map<string, Promise<MCPCredentials>>();
+
+/**
+ * Whether a token expiring at `expiry` should be refreshed now. Unknown expiry counts as expiring.
+ */
+export function isTokenExpiring(expiry?: Date): boolean {
+  return !expiry || expiry.getTime() - Date.now() < REFRESH_MARGIN_MS;
+}
+
+/**
+ * A linked account without its tokens, for listing and status checks
+ */
+export interface MCPConnectionSummary {
+  id: string;
+  server_name: string;
+  account_email?: string;
+  default_resource?: string;
+  needs_reauth: boolean;
+  workspace_id?: string;          // Set for workspace connections
+  workspace_name?: string;
+  workspace_role?: WorkspaceRole; // The user's role in that workspace
+}
+
+const SUMMARY_COLUMNS = 'id, server_name, account_email, default_resource, needs_reauth, workspace_id';
+
+/**
+ * PostgREST `or` filter for the connections a user can use: their personal ones
+ * and their workspaces'. With `manage`, only workspaces they administer.
+ */
+async function accessFilter(
+  supabase: SupabaseClient,
+  userId: string,
+  manage: boolean = false
+): Promise<{ filter: string; roles: Record<string, { name: string; role: WorkspaceRole }> }> {
+  const roles: Record<string, { name: string; role: WorkspaceRole }> = {};
+  for (const membership of await listMemberships(supabase, userId)) {
+    if (!manage || membership.role === 'admin') {
+      roles[membership.workspace_id] = { name: membership.workspace_name, role: membership.role };
+    }
+  }
+
+  const personal = `and(user_id.eq.${userId},workspace_id.is.null)`;
+  const workspaceIds = Object.keys(roles);
+  return {
+    filter: workspaceIds.length > 0 ? `${personal},workspace_id.in.(${workspaceIds.join(',')})` : personal,
+    roles
+  };
+}
+
+function toSummary(row: any, roles: Record<string, { name: string; role: WorkspaceRole }>): MCPConnectionSummary {
+  const workspace = row.workspace_id ? roles[row.workspace_id] : undefined;
+  return {
+    id: row.id,
+    server_name: row.server_name,
+    account_email: row.account_email || undefined,
+    default_resource: row.default_resource || undefined,
+    needs_reauth: !!row.needs_reauth,
+    ...(row.workspace_id && {
+      workspace_id: row.workspace_id,
+      workspace_name: workspace?.name,
+      workspace_role: workspace?.role
+    })
+  };
+}
+
+interface StoredTokens {
+  access_token?: string;
+  refresh_token: string;
+}
+
+type ConnectionKey = { id: string; user_id: string; server_name: string };
+
+/**
+ * Tokens are bound to their row, so a ciphertext copied onto another connection
+ * (even the same user's, for the same server) doesn't decrypt
+ */
+function tokensAad(connection: ConnectionKey): string {
+  return `${connection.user_id}:${connection.server_name}:${connection.id}`;
+}
+
+/**
+ * Encrypted columns for mcp_connections. Plaintext token columns are cleared.
+ */
+export function encryptConnectionTokens(connection: ConnectionKey, tokens: StoredTokens) {
+  const record = encryptRecord(JSON.stringify(tokens), tokensAad(connection));
+
+  return {
+    encrypted_tokens: record.ciphertext,
+    encrypted_data_key: record.encryptedDataKey,
+    master_key_id: record.keyId,
+    access_token: null,
+    refresh_token: null,
+    credentials_path: null
+  };
+}
+
+/**
+ * Decrypt a mcp_connections row. Rows written before encryption still carry
+ * plaintext columns until `npm run credentials:rotate` migrates them.
+ */
+export function decryptConnectionTokens(row: any): StoredTokens {
+  if (!row.encrypted_tokens) {
+    console.warn(`Plaintext credentials for ${row.server_name}, user ${row.user_id}; run credentials:rotate`);
+    return { access_token: row.access_token || undefined, refresh_token: row.refresh_token };
+  }
+
+  try {
+    return JSON.parse(decryptRecord({
+      ciphertext: row.encrypted_tokens,
+      encryptedDataKey: row.encrypted_data_key,
+      keyId: row.master_key_id
+    }, tokensAad(row)));
+  } catch (error: any) {
+    throw new Error(`Could not decrypt credentials for connection ${row.id} (run credentials:rotate if they predate row-bound encryption): ${error.message}`);
+  }
+}
+
+/**
+ * Remove a credentials file left by a pre-encryption install. Only regular files
+ * inside the old credentials directory are touched, whatever path the row holds.
+ */
+export function removeLegacyCredentialsFile(credentialsPath: string | null | undefined): void {
+  if (!credentialsPath) {
+    return;
+  }
+
+  const resolved = path.resolve(LEGACY_CREDENTIALS_DIR, credentialsPath);
+  const relative = path.relative(LEGACY_CREDENTIALS_DIR, resolved);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    console.warn(`Not removing credentials file outside ${LEGACY_CREDENTIALS_DIR}: ${credentialsPath}`);
+    return;
+  }
 
-  static {
-    // Ensure credentials directory exists on startup
-    if (!fs.existsSync(this.credentialsDir)) {
-      fs.mkdirSync(this.credentialsDir, { recursive: true, mode: 0o700 });
+  try {
+    if (fs.lstatSync(resolved).isFile()) {
+      fs.unlinkSync(resolved);
+    }
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Error removing credentials file ${resolved}:`, error.message);
     }
   }
+}
 
+export class CredentialManager {
   /**
-   * Create and store credentials for a user's MCP server connection
+   * Create and store credentials for a user's MCP server connection, or one the
+   * user links for a workspace
    */
   static async createCredentials(
     userId: string,
     serverName: string,
-    tokens: { access_token?: string; refresh_token: string; expiry_date?: number }
+    tokens: { access_token?: string; refresh_token: string; expiry_date?: number },
+    accountEmail?: string,
+    workspaceId?: string
   ): Promise<MCPCredentials> {
     // Use service role key to bypass RLS (server-side operation)
     const supabase = createClient(supabaseUrl, supabaseServiceKey, {
@@ -44,61 +197,63 @@ export class CredentialManager {
       }
     });
 
-    // Create credentials file
-    const credentialsPath = path.join(
-      this.credentialsDir,
-      `${userId}-${serverName}.json`
-    );
+    console.log("Credentials Expiry Date: ", tokens.expiry_date);
 
-    const credentialsData = {
-      type: 'authorized_user',
-      client_id: process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID,
-      client_secret: process.env.GOOGLE_CLIENT_SECRET,
-      refresh_token: tokens.refresh_token,
-      ...(tokens.access_token && { access_token: tokens.access_token })
-    };
-    
-    // Write credentials file with restricted permissions
-    fs.writeFileSync(credentialsPath, JSON.stringify(credentialsData, null, 2), {
-      mode: 0o600 // Only owner can read/write
-    });
+    // Reconnecting the same Google account keeps its row id, which the tokens are bound to
+    let existingQuery = supabase
+      .from('mcp_connections')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('server_name', serverName);
+    existingQuery = accountEmail ? existingQuery.eq('account_email', accountEmail) : existingQuery.is('account_email', null);
+    existingQuery = workspaceId ? existingQuery.eq('workspace_id', workspaceId) : existingQuery.is('workspace_id', null);
 
-    console.log("Writing credentials to file: ", credentialsPath);
-    console.log("Credentials Expiry Date: ", tokens.expiry_date);
+    const { data: existing, error: existingError } = await existingQuery.maybeSingle();
+    if (existingError) {
+      throw new Error(`Failed to store credentials: ${existingError.message}`);
+    }
+    const id: string = existing?.id || randomUUID();
 
-    // Store in database
+    // Store in database, encrypted under a fresh data key
     const { data, error } = await supabase
       .from('mcp_connections')
       .upsert({
+        id,
         user_id: userId,
+        workspace_id: workspaceId || null,
         server_name: serverName,
-        credentials_path: credentialsPath,
-        access_token: tokens.access_token,
-        refresh_token: tokens.refresh_token,
+        account_email: accountEmail || null,
+        ...encryptConnectionTokens({ id, user_id: userId, server_name: serverName }, {
+          refresh_token: tokens.refresh_token,
+          ...(tokens.access_token && { access_token: tokens.access_token })
+        }),
         token_expiry: tokens.expiry_date ? new Date(tokens.expiry_date) : null,
         is_active: true,
+        needs_reauth: false,
         updated_at: new Date()
       }, {
-        onConflict: 'user_id,server_name'
+        // Reconnecting the same Google account replaces its tokens
+        onConflict: 'user_id,server_name,account_email,workspace_id'
       })
       .select()
       .single();
 
     if (error) {
-      // Clean up file if DB insert failed
-      fs.unlinkSync(credentialsPath);
       throw new Error(`Failed to store credentials: ${error.message}`);
     }
 
-    return data as MCPCredentials;
+    return toCredentials(data);
   }
 
   /**
-   * Get credentials for a user's MCP server connection
+   * Get credentials for one of the linked accounts a user can use, their own or
+   * a workspace's. Without a connection id this is the server's default account,
+   * the first one linked.
    */
   static async getCredentials(
     userId: string,
-    serverName: string
+    serverName: string,
+    connectionId?: string
   ): Promise<MCPCredentials | null> {
     // Use service role key to bypass RLS (server-side operation)
     const supabase = createClient(supabaseUrl, supabaseServiceKey, {
@@ -108,36 +263,127 @@ export class CredentialManager {
       }
     });
 
-    const { data, error } = await supabase
+    const { filter } = await accessFilter(supabase, userId);
+    let query = supabase
       .from('mcp_connections')
       .select('*')
-      .eq('user_id', userId)
+      .or(filter)
       .eq('server_name', serverName)
-      .eq('is_active', true)
-      .single();
+      .eq('is_active', true);
+
+    if (connectionId) {
+      query = query.eq('id', connectionId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
 
     if (error || !data) {
       return null;
     }
 
-    // Verify file still exists
-    if (!fs.existsSync(data.credentials_path)) {
-      // File missing, mark as inactive
-      await this.deactivateCredentials(userId, serverName);
-      return null;
+    return toCredentials(data);
+  }
+
+  /**
+   * List the linked accounts a user can use across all servers, their own and
+   * their workspaces', oldest first
+   */
+  static async listConnections(userId: string): Promise<MCPConnectionSummary[]> {
+    // Use service role key to bypass RLS (server-side operation)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { filter, roles } = await accessFilter(supabase, userId);
+    const { data, error } = await supabase
+      .from('mcp_connections')
+      .select(SUMMARY_COLUMNS)
+      .or(filter)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list connections: ${error.message}`);
     }
 
-    return data as MCPCredentials;
+    return (data || []).map(row => toSummary(row, roles));
   }
 
   /**
-   * Update credentials (e.g., after token refresh)
+   * Get credentials with an access token that is valid for at least a few more
+   * minutes, refreshing and persisting it first if needed. A revoked refresh token
+   * marks the connection `needs_reauth` and is returned as such instead of throwing.
    */
-  static async updateCredentials(
+  static async getValidCredentials(
     userId: string,
     serverName: string,
-    tokens: { access_token?: string; refresh_token?: string; expiry_date?: number }
-  ): Promise<void> {
+    connectionId?: string
+  ): Promise<MCPCredentials | null> {
+    const credentials = await this.getCredentials(userId, serverName, connectionId);
+    if (!credentials || credentials.needs_reauth) {
+      return credentials;
+    }
+
+    if (credentials.access_token && !isTokenExpiring(credentials.token_expiry)) {
+      return credentials;
+    }
+
+    let refresh = pendingRefreshes.get(credentials.id);
+    if (!refresh) {
+      refresh = this.refreshCredentials(credentials).finally(() => pendingRefreshes.delete(credentials.id));
+      pendingRefreshes.set(credentials.id, refresh);
+    }
+    return refresh;
+  }
+
+  /**
+   * Refresh the access token and store the result
+   */
+  private static async refreshCredentials(credentials: MCPCredentials): Promise<MCPCredentials> {
+    const { user_id: userId, server_name: serverName } = credentials;
+
+    try {
+      const tokens = await refreshGoogleToken(credentials.refresh_token);
+
+      // Connections linked before accounts were labelled pick up their email here
+      const accountEmail = credentials.account_email
+        || (tokens.access_token ? await getGoogleAccountEmail(tokens.access_token) : undefined);
+
+      await this.updateCredentials(credentials, {
+        access_token: tokens.access_token || undefined,
+        refresh_token: tokens.refresh_token || undefined,
+        expiry_date: tokens.expiry_date || undefined,
+        account_email: accountEmail
+      });
+      console.log(`Refreshed access token for ${serverName}, user:`, userId);
+
+      return {
+        ...credentials,
+        account_email: accountEmail,
+        access_token: tokens.access_token || credentials.access_token,
+        refresh_token: tokens.refresh_token || credentials.refresh_token,
+        token_expiry: tokens.expiry_date ? new Date(tokens.expiry_date) : credentials.token_expiry
+      };
+    } catch (error: any) {
+      if (isInvalidGrantError(error)) {
+        console.warn(`Refresh token revoked for ${serverName}, user ${userId}; reconnect required`);
+        await this.markNeedsReauth(credentials.id);
+        return { ...credentials, needs_reauth: true };
+      }
+      throw new Error(`Failed to refresh access token: ${error.message}`);
+    }
+  }
+
+  /**
+   * Flag a connection whose refresh token no longer works
+   */
+  static async markNeedsReauth(connectionId: string): Promise<void> {
     // Use service role key to bypass RLS (server-side operation)
     const supabase = createClient(supabaseUrl, supabaseServiceKey, {
       auth: {
@@ -146,42 +392,134 @@ export class CredentialManager {
       }
     });
 
-    const credentials = await this.getCredentials(userId, serverName);
-    if (!credentials) {
-      throw new Error('Credentials not found');
+    const { data, error } = await supabase
+      .from('mcp_connections')
+      .update({ needs_reauth: true, updated_at: new Date() })
+      .eq('id', connectionId)
+      .select('id, user_id, server_name, account_email, workspace_id');
+
+    if (error) {
+      throw new Error(`Failed to flag credentials for reconnect: ${error.message}`);
     }
 
-    // Update the credentials file
-    const currentData = JSON.parse(fs.readFileSync(credentials.credentials_path, 'utf-8'));
-    const updatedData = {
-      ...currentData,
-      ...(tokens.access_token && { access_token: tokens.access_token }),
-      ...(tokens.refresh_token && { refresh_token: tokens.refresh_token })
-    };
+    for (const row of data || []) {
+      await recordAuditEvent({
+        event: 'credential_deactivated',
+        userId: row.user_id,
+        workspaceId: row.workspace_id,
+        serverName: row.server_name,
+        connectionId: row.id,
+        accountEmail: row.account_email,
+        details: { reason: 'refresh token revoked' }
+      });
+    }
+  }
 
-    fs.writeFileSync(credentials.credentials_path, JSON.stringify(updatedData, null, 2), {
-      mode: 0o600
+  /**
+   * Update a connection's credentials (e.g., after token refresh)
+   */
+  static async updateCredentials(
+    credentials: MCPCredentials,
+    tokens: { access_token?: string; refresh_token?: string; expiry_date?: number; account_email?: string }
+  ): Promise<void> {
+    // Use service role key to bypass RLS (server-side operation)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
     });
 
-    // Update database
+    // Re-encrypt the merged tokens
     const updateData: any = {
+      ...encryptConnectionTokens(credentials, {
+        access_token: tokens.access_token || credentials.access_token,
+        refresh_token: tokens.refresh_token || credentials.refresh_token
+      }),
       updated_at: new Date()
     };
-    if (tokens.access_token) updateData.access_token = tokens.access_token;
-    if (tokens.refresh_token) updateData.refresh_token = tokens.refresh_token;
     if (tokens.expiry_date) updateData.token_expiry = new Date(tokens.expiry_date);
+    if (tokens.account_email) updateData.account_email = tokens.account_email;
 
     const { error } = await supabase
       .from('mcp_connections')
       .update(updateData)
-      .eq('user_id', userId)
-      .eq('server_name', serverName);
+      .eq('id', credentials.id);
 
     if (error) {
       throw new Error(`Failed to update credentials: ${error.message}`);
     }
   }
 
+  /**
+   * Write an authorized_user credentials file for a spawned MCP server process.
+   * The file lives in its own private temp directory; remove it with removeCredentialsFile.
+   */
+  static materializeCredentialsFile(credentials: MCPCredentials): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-credentials-'));
+    fs.chmodSync(dir, 0o700);
+
+    const credentialsPath = path.join(dir, 'credentials.json');
+    const credentialsData = {
+      type: 'authorized_user',
+      client_id: process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID,
+      client_secret: process.env.GOOGLE_CLIENT_SECRET,
+      refresh_token: credentials.refresh_token,
+      ...(credentials.access_token && { access_token: credentials.access_token })
+    };
+
+    // Write credentials file with restricted permissions
+    fs.writeFileSync(credentialsPath, JSON.stringify(credentialsData, null, 2), {
+      mode: 0o600 // Only owner can read/write
+    });
+
+    return credentialsPath;
+  }
+
+  /**
+   * Remove a file written by materializeCredentialsFile, along with its temp directory
+   */
+  static removeCredentialsFile(credentialsPath: string): void {
+    try {
+      fs.rmSync(path.dirname(credentialsPath), { recursive: true, force: true });
+    } catch (error) {
+      console.error(`Failed to remove credentials file ${credentialsPath}:`, error);
+    }
+  }
+
+  /**
+   * Pin a connection to a GA4 property or GSC site (null clears it). Workspace
+   * connections are shared, so only workspace admins can change theirs.
+   */
+  static async setDefaultResource(
+    userId: string,
+    connectionId: string,
+    resource: string | null
+  ): Promise<MCPConnectionSummary | null> {
+    // Use service role key to bypass RLS (server-side operation)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+
+    const { filter, roles } = await accessFilter(supabase, userId, true);
+    const { data, error } = await supabase
+      .from('mcp_connections')
+      .update({ default_resource: resource, updated_at: new Date() })
+      .eq('id', connectionId)
+      .or(filter)
+      .select(SUMMARY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update connection: ${error.message}`);
+    }
+
+    return data && toSummary(data, roles);
+  }
+
   /**
    * Deactivate credentials (soft delete)
    */
@@ -194,21 +532,39 @@ export class CredentialManager {
       }
     });
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('mcp_connections')
       .update({ is_active: false, updated_at: new Date() })
       .eq('user_id', userId)
-      .eq('server_name', serverName);
+      .is('workspace_id', null)
+      .eq('server_name', serverName)
+      .select('id, account_email');
 
     if (error) {
       throw new Error(`Failed to deactivate credentials: ${error.message}`);
     }
+
+    for (const row of data || []) {
+      await recordAuditEvent({
+        event: 'credential_deactivated',
+        userId,
+        serverName,
+        connectionId: row.id,
+        accountEmail: row.account_email
+      });
+    }
   }
 
   /**
-   * Delete credentials completely
+   * Delete credentials completely: one linked account (a workspace's too, for its
+   * admins), or all of the user's own accounts for the server. Returns the
+   * accounts deleted.
    */
-  static async deleteCredentials(userId: string, serverName: string): Promise<void> {
+  static async deleteCredentials(
+    userId: string,
+    serverName: string,
+    connectionId?: string
+  ): Promise<{ id: string; account_email: string | null; workspace_id: string | null }[]> {
     // Use service role key to bypass RLS (server-side operation)
     const supabase = createClient(supabaseUrl, supabaseServiceKey, {
       auth: {
@@ -217,26 +573,35 @@ export class CredentialManager {
       }
     });
 
-    const credentials = await this.getCredentials(userId, serverName);
-    if (!credentials) {
-      return; // Already deleted
-    }
-
-    // Delete file
-    if (fs.existsSync(credentials.credentials_path)) {
-      fs.unlinkSync(credentials.credentials_path);
-    }
-
     // Delete from database
-    const { error } = await supabase
+    let query = supabase
       .from('mcp_connections')
       .delete()
-      .eq('user_id', userId)
       .eq('server_name', serverName);
 
+    if (connectionId) {
+      const { filter } = await accessFilter(supabase, userId, true);
+      query = query.eq('id', connectionId).or(filter);
+    } else {
+      query = query.eq('user_id', userId).is('workspace_id', null);
+    }
+
+    const { data, error } = await query.select('id, account_email, workspace_id, credentials_path');
+
     if (error) {
       throw new Error(`Failed to delete credentials: ${error.message}`);
     }
+
+    // Delete any credentials file left by a pre-encryption install
+    for (const row of data || []) {
+      removeLegacyCredentialsFile(row.credentials_path);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      account_email: row.account_email,
+      workspace_id: row.workspace_id
+    }));
   }
 
   /**
@@ -267,10 +632,8 @@ export class CredentialManager {
 
     if (oldCredentials) {
       for (const cred of oldCredentials) {
-        // Delete file
-        if (fs.existsSync(cred.credentials_path)) {
-          fs.unlinkSync(cred.credentials_path);
-        }
+        // Delete any credentials file left by a pre-encryption install
+        removeLegacyCredentialsFile(cred.credentials_path);
 
         // Delete from database
         await supabase
@@ -282,3 +645,20 @@ export class CredentialManager {
   }
 }
 
+function toCredentials(row: any): MCPCredentials {
+  const tokens = decryptConnectionTokens(row);
+
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    workspace_id: row.workspace_id || undefined,
+    server_name: row.server_name,
+    account_email: row.account_email || undefined,
+    default_resource: row.default_resource || undefined,
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    token_expiry: row.token_expiry ? new Date(row.token_expiry) : undefined,
+    is_active: row.is_active,
+    needs_reauth: !!row.needs_reauth
+  };
+}
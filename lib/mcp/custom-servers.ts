@@ -0,0 +1,283 @@
+// Custom MCP Servers - User-registered servers stored in custom_mcp_servers
+import { SupabaseClient } from '@supabase/supabase-js';
+import { MCP_SERVERS } from './manifest';
+import { MCPServerClient } from './servers/mcp-server-client';
+import { MCPServerManifest, MCPTool } from './types';
+import { encryptRecord, decryptRecord } from '../crypto/envelope';
+import { assertPublicUrl } from '../net/public-url';
+
+const CUSTOM_SERVER_PREFIX = 'custom:';
+const TOOL_PREFIX_PATTERN = /^[a-z][a-z0-9]{1,19}$/;
+
+export interface CustomMCPServer {
+  id: string;
+  user_id: string;
+  name: string;
+  tool_prefix: string;
+  transport: 'stdio' | 'http' | 'sse';
+  command: string | null;
+  args: string[];
+  url: string | null;
+  api_key: string | null;             // Plaintext, only on rows saved before encryption
+  encrypted_api_key: string | null;   // Envelope-encrypted (see lib/crypto/envelope.ts)
+  encrypted_data_key: string | null;
+  master_key_id: string | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fields a user submits when registering or testing a server
+ */
+export interface CustomMCPServerInput {
+  name: string;
+  tool_prefix: string;
+  transport: CustomMCPServer['transport'];
+  command?: string | null;
+  args?: string[];
+  url?: string | null;
+  api_key?: string | null;
+}
+
+/**
+ * Command lines users may launch as stdio servers, from MCP_STDIO_ALLOWLIST
+ * (comma-separated, each the full command and its arguments, e.g.
+ * "npx -y @modelcontextprotocol/server-everything"). Users pick one as is; a
+ * bare interpreter would let them run anything through its arguments.
+ * Empty means stdio servers are disabled.
+ */
+export function getStdioAllowlist(): string[] {
+  return (process.env.MCP_STDIO_ALLOWLIST || '')
+    .split(',')
+    .map(commandLine => commandLine.trim().split(/\s+/).join(' '))
+    .filter(Boolean);
+}
+
+/**
+ * Whether a command and arguments exactly match one of the allowlisted command lines
+ */
+export function isAllowedStdioCommand(command: string | null | undefined, args: string[] = []): boolean {
+  const argv = [command, ...args];
+  return getStdioAllowlist().some(commandLine => {
+    const allowed = commandLine.split(' ');
+    return allowed.length === argv.length && allowed.every((part, i) => part === argv[i]);
+  });
+}
+
+export function isCustomServerId(serverName: string): boolean {
+  return serverName.startsWith(CUSTOM_SERVER_PREFIX);
+}
+
+/**
+ * Pool and tool-settings id of a stored custom server
+ */
+export function customServerId(serverId: string): string {
+  return `${CUSTOM_SERVER_PREFIX}${serverId}`;
+}
+
+/**
+ * Columns storing an API key, encrypted and bound to the user and server row
+ */
+export function encryptApiKey(userId: string, serverId: string, apiKey: string | null | undefined) {
+  if (!apiKey) {
+    return { api_key: null, encrypted_api_key: null, encrypted_data_key: null, master_key_id: null };
+  }
+
+  const record = encryptRecord(apiKey, `${userId}:${customServerId(serverId)}`);
+
+  return {
+    api_key: null,
+    encrypted_api_key: record.ciphertext,
+    encrypted_data_key: record.encryptedDataKey,
+    master_key_id: record.keyId
+  };
+}
+
+function decryptApiKey(server: CustomMCPServer): string | null {
+  if (!server.encrypted_api_key) {
+    if (server.api_key) {
+      console.warn(`Plaintext API key for custom server ${server.id}; run credentials:rotate`);
+    }
+    return server.api_key;
+  }
+
+  return decryptRecord({
+    ciphertext: server.encrypted_api_key,
+    encryptedDataKey: server.encrypted_data_key!,
+    keyId: server.master_key_id!
+  }, `${server.user_id}:${customServerId(server.id)}`);
+}
+
+/**
+ * Normalize a request body into server input, dropping fields the transport doesn't use
+ */
+export function parseCustomServerInput(body: any): CustomMCPServerInput {
+  const transport = body?.transport;
+  const isStdio = transport === 'stdio';
+
+  return {
+    name: typeof body?.name === 'string' ? body.name.trim() : '',
+    tool_prefix: typeof body?.tool_prefix === 'string' ? body.tool_prefix.trim().toLowerCase() : '',
+    transport,
+    command: isStdio ? body.command || null : null,
+    args: isStdio && Array.isArray(body.args) ? body.args : [],
+    url: isStdio ? null : body?.url || null,
+    api_key: isStdio ? null : body?.api_key || null
+  };
+}
+
+/**
+ * Validate user input, returning an error message or null. Remote URLs are
+ * resolved, and rejected if they point at a private or local address.
+ */
+export async function validateCustomServerInput(input: CustomMCPServerInput): Promise<string | null> {
+  if (!input.name || !input.name.trim()) {
+    return 'Name is required';
+  }
+
+  if (!TOOL_PREFIX_PATTERN.test(input.tool_prefix || '')) {
+    return 'Tool prefix must be 2-20 lowercase letters or digits, starting with a letter';
+  }
+
+  if (MCP_SERVERS.some(server => server.toolPrefix === input.tool_prefix)) {
+    return `Tool prefix "${input.tool_prefix}" is reserved`;
+  }
+
+  if (input.transport === 'stdio') {
+    if (input.args && !input.args.every(arg => typeof arg === 'string')) {
+      return 'Arguments must be strings';
+    }
+    if (!isAllowedStdioCommand(input.command, input.args)) {
+      return 'Command is not on the approved stdio allowlist';
+    }
+    return null;
+  }
+
+  if (input.transport === 'http' || input.transport === 'sse') {
+    if (!input.url) {
+      return 'A valid server URL is required';
+    }
+    try {
+      await assertPublicUrl(input.url);
+    } catch (error: any) {
+      return error.message;
+    }
+    return null;
+  }
+
+  return 'Transport must be stdio, http or sse';
+}
+
+/**
+ * Build a manifest so custom servers flow through the same pool and chat code as built-in ones.
+ * Stored rows are checked against the allowlist again, since it may have changed
+ * since they were saved; a command no longer on it throws.
+ */
+export function toCustomManifest(server: Pick<CustomMCPServer, 'id' | 'name' | 'tool_prefix'> & CustomMCPServerInput): MCPServerManifest {
+  const id = customServerId(server.id);
+
+  if (server.transport === 'stdio' && !isAllowedStdioCommand(server.command, server.args || [])) {
+    throw new Error(`${server.name}: command is not on the approved stdio allowlist`);
+  }
+  if (server.transport !== 'stdio' && server.transport !== 'http' && server.transport !== 'sse') {
+    throw new Error(`${server.name}: unknown transport ${server.transport}`);
+  }
+
+  return {
+    id,
+    key: id,
+    displayName: server.name,
+    shortName: server.name,
+    description: `Custom MCP server (${server.transport})`,
+    toolPrefix: server.tool_prefix,
+    userDefined: true,
+    transport: server.transport === 'stdio'
+      ? { type: 'stdio', command: server.command || '', args: server.args || [] }
+      : {
+          type: server.transport,
+          url: server.url || '',
+          ...(server.api_key && { headers: { Authorization: `Bearer ${server.api_key}` } })
+        }
+  };
+}
+
+/**
+ * Load a user's custom servers (enabled only, unless includeDisabled)
+ */
+export async function loadCustomServers(
+  supabase: SupabaseClient,
+  userId: string,
+  includeDisabled: boolean = false
+): Promise<CustomMCPServer[]> {
+  let query = supabase
+    .from('custom_mcp_servers')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (!includeDisabled) {
+    query = query.eq('enabled', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load custom servers: ${error.message}`);
+  }
+
+  return (data || []) as CustomMCPServer[];
+}
+
+/**
+ * Built-in servers followed by the user's enabled custom servers. A failure to load
+ * custom servers, or a stored server that no longer validates, is logged rather
+ * than hiding the others.
+ */
+export async function loadAvailableServers(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<MCPServerManifest[]> {
+  let customServers: CustomMCPServer[];
+  try {
+    customServers = await loadCustomServers(supabase, userId);
+  } catch (error) {
+    console.error('Error loading custom MCP servers:', error);
+    return MCP_SERVERS;
+  }
+
+  const manifests: MCPServerManifest[] = [];
+  for (const server of customServers) {
+    try {
+      manifests.push(toCustomManifest({ ...server, api_key: decryptApiKey(server) }));
+    } catch (error: any) {
+      console.error(`Skipping custom MCP server ${server.id}:`, error.message);
+    }
+  }
+
+  return [...MCP_SERVERS, ...manifests];
+}
+
+/**
+ * Connect to a server outside the pool, list its tools and disconnect
+ */
+export async function testCustomServer(input: CustomMCPServerInput): Promise<MCPTool[]> {
+  const client = new MCPServerClient(toCustomManifest({ ...input, id: 'test' }));
+
+  try {
+    await client.connect({});
+    return await client.listTools();
+  } finally {
+    await client.disconnect().catch(error =>
+      console.error('Error closing test connection:', error)
+    );
+  }
+}
+
+/**
+ * Strip secrets before returning a server to the browser
+ */
+export function toPublicCustomServer(server: CustomMCPServer) {
+  const { api_key, encrypted_api_key, encrypted_data_key, master_key_id, ...rest } = server;
+  return { ...rest, has_api_key: !!(api_key || encrypted_api_key) };
+}
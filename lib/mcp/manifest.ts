@@ -0,0 +1,111 @@
+// MCP Server Manifest - Declarative list of the MCP servers this app can connect to
+import { GA4_SCOPES, GSC_SCOPES } from '../auth/google';
+import { MCPServerManifest, MCPStdioTransportConfig, MCPTransportConfig } from './types';
+
+/**
+ * Use a shared server when `<PREFIX>_MCP_URL` is set, otherwise spawn a local stdio process.
+ * The user's Google access token is forwarded as a bearer header.
+ */
+function transportFromEnv(prefix: string, stdio: MCPStdioTransportConfig): MCPTransportConfig {
+  const url = process.env[`${prefix}_MCP_URL`];
+  if (!url) {
+    return stdio;
+  }
+
+  return {
+    type: process.env[`${prefix}_MCP_TRANSPORT`] === 'sse' ? 'sse' : 'http',
+    url,
+    bearerCredential: 'access_token'
+  };
+}
+
+export const MCP_SERVERS: MCPServerManifest[] = [
+  {
+    // Official Python GA4 MCP server; use the installed executable directly to avoid Windows issues
+    id: 'google-analytics',
+    key: 'ga4',
+    displayName: 'Google Analytics 4',
+    shortName: 'GA4',
+    description: 'Query and analyze Google Analytics 4 data via official MCP server',
+    toolPrefix: 'ga4',
+    transport: transportFromEnv('GA4', {
+      type: 'stdio',
+      command: 'analytics-mcp',
+      args: []
+    }),
+    credentialEnv: {
+      GOOGLE_APPLICATION_CREDENTIALS: 'credentials_path'
+    },
+    env: {
+      GOOGLE_PROJECT_ID: process.env.GOOGLE_PROJECT_ID || ''
+    },
+    readOnlyTools: [
+      'get_account_summaries',
+      'get_property_details',
+      'list_google_ads_links',
+      'get_custom_dimensions_and_metrics',
+      'run_report',
+      'run_realtime_report'
+    ],
+    oauth: {
+      provider: 'google',
+      scopes: GA4_SCOPES,
+      resource: {
+        kind: 'ga4_property',
+        label: 'property',
+        placeholder: 'properties/123456789'
+      }
+    }
+  },
+  {
+    id: 'google-search-console',
+    key: 'gsc',
+    displayName: 'Google Search Console',
+    shortName: 'GSC',
+    description: 'Access Search Console data, search analytics, and optimization insights',
+    toolPrefix: 'gsc',
+    transport: transportFromEnv('GSC', {
+      type: 'stdio',
+      command: 'npx',
+      args: ['-y', 'mcp-server-gsc']
+    }),
+    credentialEnv: {
+      GOOGLE_APPLICATION_CREDENTIALS: 'credentials_path'
+    },
+    // Not submit_sitemap, which changes the property
+    readOnlyTools: ['list_sites', 'search_analytics', 'index_inspect', 'list_sitemaps', 'get_sitemap'],
+    oauth: {
+      provider: 'google',
+      scopes: GSC_SCOPES,
+      resource: {
+        kind: 'gsc_site',
+        label: 'site',
+        placeholder: 'sc-domain:example.com'
+      }
+    }
+  }
+];
+
+/**
+ * Look up a server by its id (the `server_name` stored in mcp_connections)
+ */
+export function getServerManifest(serverId: string): MCPServerManifest | undefined {
+  return MCP_SERVERS.find(server => server.id === serverId);
+}
+
+/**
+ * Look up a server by its short key (e.g. 'ga4')
+ */
+export function getServerManifestByKey(key: string): MCPServerManifest | undefined {
+  return MCP_SERVERS.find(server => server.key === key);
+}
+
+/**
+ * Resolve an OAuth `service` parameter ('all' or a server key) to the servers it covers
+ */
+export function resolveOAuthServers(service: string): MCPServerManifest[] {
+  const oauthServers = MCP_SERVERS.filter(server => server.oauth?.provider === 'google');
+  return service === 'all'
+    ? oauthServers
+    : oauthServers.filter(server => server.key === service);
+}
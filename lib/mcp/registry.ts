@@ -1,31 +1,21 @@
 // MCP Server Registry
 import { mcpClientManager } from './client';
-import { googleAnalyticsMCPClient } from './servers/google-analytics-client';
-import { googleSearchConsoleMCPClient } from './servers/google-search-console-client';
+import { MCP_SERVERS } from './manifest';
+import { MCPServerClient } from './servers/mcp-server-client';
 
-// Register all available MCP servers
+// Register all servers declared in the manifest
 export async function initializeMCPServers() {
-  // Register Google Analytics MCP Server (connects to official Python server)
-  await mcpClientManager.registerServer('google-analytics', {
-    server: {
-      name: 'Google Analytics 4',
-      description: 'Query and analyze Google Analytics 4 data via official MCP server',
-      version: '1.0.0',
-      enabled: true
-    },
-    isConnected: false
-  }, googleAnalyticsMCPClient);
-
-  // Register Google Search Console MCP Server
-  await mcpClientManager.registerServer('google-search-console', {
-    server: {
-      name: 'Google Search Console',
-      description: 'Access Search Console data, search analytics, and optimization insights',
-      version: '1.0.0',
-      enabled: true
-    },
-    isConnected: false
-  }, googleSearchConsoleMCPClient);
+  for (const manifest of MCP_SERVERS) {
+    await mcpClientManager.registerServer(manifest.id, {
+      server: {
+        name: manifest.displayName,
+        description: manifest.description,
+        version: '1.0.0',
+        enabled: true
+      },
+      isConnected: false
+    }, new MCPServerClient(manifest));
+  }
 }
 
 // Initialize servers on module load
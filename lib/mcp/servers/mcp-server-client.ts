@@ -0,0 +1,193 @@
+// Generic MCP Server Client - Connects to any server described by an MCPServerManifest
+// over stdio (child process), Streamable HTTP or SSE
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  MCPServerInterface,
+  MCPServerManifest,
+  MCPConnectionCredentials,
+  MCPStdioTransportConfig,
+  MCPRemoteTransportConfig,
+  MCPTool,
+  MCPResource
+} from '../types';
+import { fetchPublicUrl } from '../../net/public-url';
+
+// The only variables a user-defined stdio server inherits; the app's own
+// environment holds the service role key, master key and API keys
+const USER_DEFINED_INHERITED_ENV = ['PATH', 'HOME'];
+
+export class MCPServerClient implements MCPServerInterface {
+  private client: Client | null = null;
+  private transport: Transport | null = null;
+  private isConnected: boolean = false;
+  private cachedTools: MCPTool[] = [];
+
+  constructor(private manifest: MCPServerManifest) {}
+
+  async connect(credentials: MCPConnectionCredentials): Promise<void> {
+    if (this.isConnected && this.client) {
+      return; // Already connected
+    }
+
+    try {
+      this.transport = this.createTransport(credentials);
+
+      this.client = new Client({
+        name: `${this.manifest.key}-chat-client`,
+        version: '1.0.0'
+      }, {
+        capabilities: {}
+      });
+
+      await this.client.connect(this.transport);
+      this.isConnected = true;
+
+      console.log(`Successfully connected to ${this.manifest.shortName} MCP server`);
+
+      // Fetch and cache tools immediately after connection
+      await this.refreshTools();
+    } catch (error: any) {
+      this.isConnected = false;
+      console.error(`Failed to connect to ${this.manifest.shortName} MCP server:`, error);
+      throw new Error(`Failed to connect to ${this.manifest.displayName} MCP server: ${error.message}`);
+    }
+  }
+
+  private createTransport(credentials: MCPConnectionCredentials): Transport {
+    const transport = this.manifest.transport;
+
+    return transport.type === 'stdio'
+      ? this.createStdioTransport(transport, credentials)
+      : this.createRemoteTransport(transport, credentials);
+  }
+
+  private createStdioTransport(
+    transport: MCPStdioTransportConfig,
+    credentials: MCPConnectionCredentials
+  ): StdioClientTransport {
+    const { command, args } = transport;
+
+    // Map credential fields into the server's environment
+    const credentialEnv: Record<string, string> = {};
+    for (const [name, field] of Object.entries(this.manifest.credentialEnv || {})) {
+      const value = credentials[field];
+      if (!value) {
+        throw new Error(`Missing ${field} for ${this.manifest.displayName}`);
+      }
+      credentialEnv[name] = value;
+    }
+
+    const inherited: Record<string, string> = {};
+    if (this.manifest.userDefined) {
+      for (const name of USER_DEFINED_INHERITED_ENV) {
+        if (process.env[name]) inherited[name] = process.env[name]!;
+      }
+    } else {
+      Object.assign(inherited, process.env);
+    }
+
+    const env = {
+      ...inherited,
+      ...this.manifest.env,
+      ...credentialEnv
+    };
+
+    console.log(`Starting ${this.manifest.shortName} MCP server: ${command} ${args.join(' ')}`);
+
+    return new StdioClientTransport({ command, args, env });
+  }
+
+  private createRemoteTransport(
+    transport: MCPRemoteTransportConfig,
+    credentials: MCPConnectionCredentials
+  ): Transport {
+    const headers: Record<string, string> = { ...transport.headers };
+
+    if (transport.bearerCredential) {
+      const token = credentials[transport.bearerCredential];
+      if (!token) {
+        throw new Error(`Missing ${transport.bearerCredential} for ${this.manifest.displayName}`);
+      }
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const url = new URL(transport.url);
+    const requestInit: RequestInit = { headers };
+
+    console.log(`Connecting to ${this.manifest.shortName} MCP server over ${transport.type}: ${url.origin}${url.pathname}`);
+
+    // User-defined servers are checked on every request, redirects included
+    const fetch = this.manifest.userDefined ? fetchPublicUrl : undefined;
+
+    return transport.type === 'sse'
+      ? new SSEClientTransport(url, { requestInit, fetch })
+      : new StreamableHTTPClientTransport(url, { requestInit, fetch });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+      this.client = null;
+    }
+    this.transport = null;
+    this.isConnected = false;
+    this.cachedTools = [];
+  }
+
+  private async refreshTools(): Promise<void> {
+    if (!this.client) {
+      throw new Error('Client not connected');
+    }
+
+    const result = await this.client.listTools();
+    this.cachedTools = result.tools as MCPTool[];
+  }
+
+  async listTools(): Promise<MCPTool[]> {
+    if (!this.isConnected || !this.client) {
+      throw new Error(`Not connected to ${this.manifest.displayName} MCP server`);
+    }
+
+    // Return cached tools if available, otherwise refresh
+    if (this.cachedTools.length === 0) {
+      await this.refreshTools();
+    }
+
+    return this.cachedTools;
+  }
+
+  async listResources(): Promise<MCPResource[]> {
+    if (!this.isConnected || !this.client) {
+      throw new Error(`Not connected to ${this.manifest.displayName} MCP server`);
+    }
+
+    const result = await this.client.listResources();
+    return result.resources as MCPResource[];
+  }
+
+  async callTool(name: string, args: any): Promise<any> {
+    if (!this.isConnected || !this.client) {
+      throw new Error(`Not connected to ${this.manifest.displayName} MCP server`);
+    }
+
+    const result = await this.client.callTool({
+      name,
+      arguments: args
+    });
+
+    return result;
+  }
+
+  async readResource(uri: string): Promise<any> {
+    if (!this.isConnected || !this.client) {
+      throw new Error(`Not connected to ${this.manifest.displayName} MCP server`);
+    }
+
+    const result = await this.client.readResource({ uri });
+    return result;
+  }
+}
@@ -0,0 +1,315 @@
+// MCP Tool Cache - Reuses recent tool results instead of re-running identical GA4/GSC queries
+//
+// Entries are keyed by user, linked account (or server), tool and normalized
+// arguments. How long a result stays fresh depends on the dates it covers:
+// closed historical ranges for a day, ranges reaching today for minutes.
+// An in-memory LRU always sits in front; TOOL_CACHE=postgres adds a shared
+// store so several app instances and restarts reuse the same results.
+import { createHash } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { MCPServerInterface } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+const ttlFromEnv = (name: string, fallbackSeconds: number) =>
+  Number(process.env[name] || fallbackSeconds) * 1000;
+
+// Closed date ranges that ended before yesterday; GA4 and GSC data has settled
+const HISTORICAL_TTL_MS = ttlFromEnv('TOOL_CACHE_TTL_HISTORICAL', 24 * 60 * 60);
+// Ranges that include today or yesterday, which are still filling in
+const RECENT_TTL_MS = ttlFromEnv('TOOL_CACHE_TTL_RECENT', 5 * 60);
+// Tools without dates (lists, metadata) and custom server tools
+const DEFAULT_TTL_MS = ttlFromEnv('TOOL_CACHE_TTL_DEFAULT', 10 * 60);
+
+const MAX_MEMORY_ENTRIES = Number(process.env.TOOL_CACHE_MAX_ENTRIES || 500);
+
+// Results bigger than this are fetched each time rather than held in memory
+const MAX_ENTRY_CHARS = 1024 * 1024;
+
+/**
+ * Per-tool TTLs by original tool name; null means never cache. Everything else
+ * is timed by the dates in its arguments.
+ */
+const TOOL_TTLS: Record<string, number | null> = {
+  run_realtime_report: null,
+  get_account_summaries: 60 * MINUTE_MS,
+  get_property_details: 60 * MINUTE_MS,
+  list_google_ads_links: 60 * MINUTE_MS,
+  get_custom_dimensions_and_metrics: 60 * MINUTE_MS,
+  list_sites: 60 * MINUTE_MS
+};
+
+interface CacheEntry {
+  result: any;
+  expiresAt: number;
+}
+
+/**
+ * Where cached results are kept beyond the in-memory LRU
+ */
+interface ToolCacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, userId: string, entry: CacheEntry): Promise<void>;
+}
+
+/**
+ * Least-recently-used map; a Map iterates in insertion order, so re-inserting
+ * on access keeps the oldest entry first
+ */
+class MemoryToolCache {
+  private entries: Map<string, CacheEntry> = new Map();
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): CacheEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Shared store in the `tool_cache` table, written with the service role key
+ */
+class PostgresToolCacheStore implements ToolCacheStore {
+  private supabase: SupabaseClient;
+  private lastPurgeAt = 0;
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const { data, error } = await this.supabase
+      .from('tool_cache')
+      .select('result, expires_at')
+      .eq('key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read tool cache: ${error.message}`);
+    }
+
+    return data ? { result: data.result, expiresAt: new Date(data.expires_at).getTime() } : null;
+  }
+
+  async set(key: string, userId: string, entry: CacheEntry): Promise<void> {
+    const { error } = await this.supabase
+      .from('tool_cache')
+      .upsert({
+        key,
+        user_id: userId,
+        result: entry.result,
+        expires_at: new Date(entry.expiresAt).toISOString()
+      }, { onConflict: 'key' });
+
+    if (error) {
+      throw new Error(`Failed to write tool cache: ${error.message}`);
+    }
+
+    // Expired rows are skipped on read; clear them out now and then
+    if (Date.now() - this.lastPurgeAt > 60 * MINUTE_MS) {
+      this.lastPurgeAt = Date.now();
+      await this.supabase.from('tool_cache').delete().lt('expires_at', new Date().toISOString());
+    }
+  }
+}
+
+/**
+ * Which tool is being called, and as which account
+ */
+export interface CachedToolCall {
+  userId: string;
+  service: string;
+  connectionId?: string;
+  toolName: string;   // Original (unprefixed) tool name
+  args: any;
+}
+
+export interface ToolCallResult {
+  result: any;
+  cached: boolean;
+}
+
+const globalForToolCache = globalThis as unknown as {
+  toolCacheMemory?: MemoryToolCache;
+  toolCacheStore?: ToolCacheStore | null;
+};
+
+function getMemoryCache(): MemoryToolCache {
+  if (!globalForToolCache.toolCacheMemory) {
+    globalForToolCache.toolCacheMemory = new MemoryToolCache(MAX_MEMORY_ENTRIES);
+  }
+  return globalForToolCache.toolCacheMemory;
+}
+
+function getSharedStore(): ToolCacheStore | null {
+  if (globalForToolCache.toolCacheStore === undefined) {
+    globalForToolCache.toolCacheStore = process.env.TOOL_CACHE === 'postgres' && process.env.SUPABASE_SERVICE_ROLE_KEY
+      ? new PostgresToolCacheStore()
+      : null;
+  }
+  return globalForToolCache.toolCacheStore;
+}
+
+export function isToolCacheEnabled(): boolean {
+  return process.env.TOOL_CACHE !== 'off';
+}
+
+/**
+ * Call a tool through the cache. With `bypass` the cached copy is ignored but
+ * the fresh result still replaces it. Error results are never cached.
+ */
+export async function callToolCached(
+  client: MCPServerInterface,
+  call: CachedToolCall,
+  bypass: boolean = false
+): Promise<ToolCallResult> {
+  const ttlMs = isToolCacheEnabled() ? getToolCacheTtl(call.toolName, call.args) : null;
+  if (ttlMs === null) {
+    return { result: await client.callTool(call.toolName, call.args), cached: false };
+  }
+
+  const key = toolCacheKey(call);
+  const memory = getMemoryCache();
+  const store = getSharedStore();
+
+  if (!bypass) {
+    const hit = memory.get(key);
+    if (hit) {
+      await client.recordCachedCall?.(call.toolName, call.args, hit.result);
+      return { result: hit.result, cached: true };
+    }
+
+    if (store) {
+      try {
+        const shared = await store.get(key);
+        if (shared) {
+          memory.set(key, shared);
+          await client.recordCachedCall?.(call.toolName, call.args, shared.result);
+          return { result: shared.result, cached: true };
+        }
+      } catch (error) {
+        // A store outage just means a cache miss
+        console.error('Error reading tool cache:', error);
+      }
+    }
+  }
+
+  const result = await client.callTool(call.toolName, call.args);
+
+  if (!result?.isError && JSON.stringify(result).length <= MAX_ENTRY_CHARS) {
+    const entry = { result, expiresAt: Date.now() + ttlMs };
+    memory.set(key, entry);
+
+    if (store) {
+      store.set(key, call.userId, entry).catch(error => console.error('Error writing tool cache:', error));
+    }
+  }
+
+  return { result, cached: false };
+}
+
+/**
+ * Cache key: a hash of the account and the tool call with argument keys sorted,
+ * so `{a, b}` and `{b, a}` share an entry
+ */
+export function toolCacheKey(call: CachedToolCall): string {
+  return createHash('sha256')
+    .update(JSON.stringify([call.userId, call.connectionId || call.service, call.toolName, normalizeArgs(call.args)]))
+    .digest('hex');
+}
+
+/**
+ * Arguments with object keys sorted, undefined values dropped and strings trimmed
+ */
+export function normalizeArgs(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalizeArgs);
+  }
+
+  if (value && typeof value === 'object') {
+    const normalized: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (value[key] !== undefined) {
+        normalized[key] = normalizeArgs(value[key]);
+      }
+    }
+    return normalized;
+  }
+
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+/**
+ * How long a call's result stays fresh, or null to never cache it. Looks at
+ * every date in the arguments: GA4 relative dates (`today`, `yesterday`,
+ * `NdaysAgo`) and ISO dates.
+ */
+export function getToolCacheTtl(toolName: string, args: any, now: Date = new Date()): number | null {
+  if (toolName in TOOL_TTLS) {
+    return TOOL_TTLS[toolName];
+  }
+
+  const dates = collectStrings(args).filter(value =>
+    /^(today|yesterday|\d+daysAgo)$/.test(value) || /^\d{4}-\d{2}-\d{2}$/.test(value)
+  );
+  if (dates.length === 0) {
+    return DEFAULT_TTL_MS;
+  }
+
+  // Property and site timezones can be a day ahead of UTC, so yesterday counts as recent
+  const recentFrom = new Date(now.getTime() - 24 * 60 * MINUTE_MS).toISOString().substring(0, 10);
+  const isRecent = dates.some(value => /^\d{4}-/.test(value)
+    ? value >= recentFrom
+    : value === 'today' || value === 'yesterday' || value === '0daysAgo' || value === '1daysAgo'
+  );
+  if (isRecent) {
+    return RECENT_TTL_MS;
+  }
+
+  // Relative ranges shift at midnight, so their results expire with the day
+  if (dates.some(value => value.endsWith('daysAgo'))) {
+    const midnight = new Date(now);
+    midnight.setUTCHours(24, 0, 0, 0);
+    return Math.min(HISTORICAL_TTL_MS, midnight.getTime() - now.getTime());
+  }
+
+  return HISTORICAL_TTL_MS;
+}
+
+function collectStrings(value: any, found: string[] = []): string[] {
+  if (typeof value === 'string') {
+    found.push(value.trim());
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectStrings(item, found));
+  }
+  return found;
+}
@@ -0,0 +1,149 @@
+// MCP Tool Settings - Deployment tool policy plus per-user enable/disable and approval overrides
+import { SupabaseClient } from '@supabase/supabase-js';
+import { MCPServerManifest, MCPTool } from './types';
+
+export interface ToolSetting {
+  enabled: boolean;
+  requires_approval: boolean | null;  // null = follow the tool's annotations
+}
+
+/**
+ * A user's tool settings, keyed by `<server_name>:<tool_name>`
+ */
+export type ToolSettings = Map<string, ToolSetting>;
+
+/**
+ * Parse a comma-separated list of prefixed tool names with `*` wildcards
+ */
+function parseToolPatterns(value: string | undefined): RegExp[] {
+  return (value || '')
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(Boolean)
+    .map(pattern => new RegExp(
+      '^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+    ));
+}
+
+/**
+ * Check the deployment policy for a prefixed tool name (e.g. `ga4_run_report`).
+ * MCP_TOOL_ALLOWLIST, when set, limits tools to matching names; MCP_TOOL_DENYLIST always wins.
+ */
+export function isToolAllowedByPolicy(prefixedName: string): boolean {
+  const allowlist = parseToolPatterns(process.env.MCP_TOOL_ALLOWLIST);
+  const denylist = parseToolPatterns(process.env.MCP_TOOL_DENYLIST);
+
+  if (denylist.some(pattern => pattern.test(prefixedName))) {
+    return false;
+  }
+
+  return allowlist.length === 0 || allowlist.some(pattern => pattern.test(prefixedName));
+}
+
+/**
+ * Load a user's tool toggles
+ */
+export async function loadToolSettings(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ToolSettings> {
+  const { data, error } = await supabase
+    .from('tool_settings')
+    .select('server_name, tool_name, enabled, requires_approval')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load tool settings: ${error.message}`);
+  }
+
+  return new Map(
+    (data || []).map(row => [
+      `${row.server_name}:${row.tool_name}`,
+      { enabled: row.enabled, requires_approval: row.requires_approval }
+    ] as [string, ToolSetting])
+  );
+}
+
+/**
+ * Whether a tool may be advertised to the model: the deployment policy first, then
+ * the user's toggle. Tools without a saved toggle are enabled.
+ */
+export function isToolEnabled(
+  settings: ToolSettings,
+  serverName: string,
+  toolName: string,
+  prefixedName: string
+): boolean {
+  if (!isToolAllowedByPolicy(prefixedName)) {
+    return false;
+  }
+
+  return settings.get(`${serverName}:${toolName}`)?.enabled ?? true;
+}
+
+/**
+ * Whether the server's annotations mark a tool as side-effecting: an explicit
+ * `destructiveHint: true` or `readOnlyHint: false`. On the deployment's own servers,
+ * unannotated tools run without asking.
+ */
+export function isSideEffectingTool(tool: MCPTool): boolean {
+  const annotations = tool.annotations || {};
+  return annotations.destructiveHint === true || annotations.readOnlyHint === false;
+}
+
+/**
+ * Whether the server explicitly marks a tool as read-only (`readOnlyHint: true`).
+ * Unannotated tools don't count, so read-only access fails closed.
+ */
+export function isReadOnlyTool(tool: MCPTool): boolean {
+  return tool.annotations?.readOnlyHint === true;
+}
+
+/**
+ * Whether results may be served from the tool cache: the server declares the tool
+ * read-only, or the manifest lists it as such. Anything else runs every time, so
+ * a repeated write is never answered from the cache.
+ */
+export function isCacheableTool(manifest: MCPServerManifest, tool: MCPTool): boolean {
+  return isReadOnlyTool(tool) || !!manifest.readOnlyTools?.includes(tool.name);
+}
+
+/**
+ * Whether a tool call must be confirmed by the user: the user's override, otherwise
+ * the annotations. User-registered servers ask unless a tool is annotated read-only.
+ */
+export function toolRequiresApproval(
+  settings: ToolSettings,
+  manifest: MCPServerManifest,
+  tool: MCPTool
+): boolean {
+  const byAnnotations = manifest.userDefined ? !isReadOnlyTool(tool) : isSideEffectingTool(tool);
+  return settings.get(`${manifest.id}:${tool.name}`)?.requires_approval ?? byAnnotations;
+}
+
+/**
+ * Save a user's settings for one tool; omitted fields keep their current value
+ */
+export async function saveToolSetting(
+  supabase: SupabaseClient,
+  userId: string,
+  serverName: string,
+  toolName: string,
+  changes: Partial<ToolSetting>
+): Promise<void> {
+  const { error } = await supabase
+    .from('tool_settings')
+    .upsert({
+      user_id: userId,
+      server_name: serverName,
+      tool_name: toolName,
+      ...changes,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'user_id,server_name,tool_name'
+    });
+
+  if (error) {
+    throw new Error(`Failed to save tool setting: ${error.message}`);
+  }
+}
@@ -18,6 +18,18 @@ export interface MCPTool {
   name: string;
   description: string;
   inputSchema: any;
+  annotations?: MCPToolAnnotations;
+}
+
+/**
+ * Behaviour hints a server may attach to a tool (MCP spec `ToolAnnotations`)
+ */
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
 }
 
 export interface MCPResource {
@@ -28,10 +40,80 @@ export interface MCPResource {
 }
 
 export interface MCPServerInterface {
-  connect(credentials: any): Promise<void>;
+  connect(credentials: MCPConnectionCredentials): Promise<void>;
   disconnect(): Promise<void>;
   listTools(): Promise<MCPTool[]>;
   listResources(): Promise<MCPResource[]>;
   callTool(name: string, args: any): Promise<any>;
   readResource(uri: string): Promise<any>;
+  // Audit hook for a result served from the tool cache instead of callTool
+  recordCachedCall?(name: string, args: any, result: any): Promise<void>;
+}
+
+/**
+ * Credentials handed to a server client when it connects
+ */
+export interface MCPConnectionCredentials {
+  credentials_path?: string;  // Absent for servers that don't use OAuth
+  refresh_token?: string;
+  access_token?: string;
+}
+
+export interface MCPStdioTransportConfig {
+  type: 'stdio';
+  command: string;
+  args: string[];
+}
+
+/**
+ * A shared MCP server reached over the network instead of a per-user child process
+ */
+export interface MCPRemoteTransportConfig {
+  type: 'http' | 'sse';  // Streamable HTTP or the legacy HTTP+SSE transport
+  url: string;
+  // Static request headers, e.g. an API key for the shared server
+  headers?: Record<string, string>;
+  // Credential field sent as `Authorization: Bearer <value>`
+  bearerCredential?: keyof MCPConnectionCredentials;
+}
+
+export type MCPTransportConfig = MCPStdioTransportConfig | MCPRemoteTransportConfig;
+
+/**
+ * Google resources a linked account can be pinned to
+ */
+export type GoogleResourceKind = 'ga4_property' | 'gsc_site';
+
+/**
+ * Declarative description of an MCP server. Drives the connection pool,
+ * the chat route, the status route and the connections menu.
+ */
+export interface MCPServerManifest {
+  id: string;            // Stored as mcp_connections.server_name
+  key: string;           // Short id used by the OAuth `service` param and the status API
+  displayName: string;
+  shortName: string;     // Used to tag tool descriptions, e.g. "[GA4]"
+  description: string;
+  toolPrefix: string;    // Tools are exposed to the model as `<prefix>_<tool>`
+  transport: MCPTransportConfig;
+  // Environment variables filled from the user's credentials (stdio only)
+  credentialEnv?: Record<string, keyof MCPConnectionCredentials>;
+  // Static environment variables for the server process (stdio only)
+  env?: Record<string, string>;
+  // Registered by a user rather than the deployment: stdio processes get only
+  // PATH/HOME plus `env`, remote URLs must resolve to public addresses, and
+  // tools not annotated read-only ask for approval
+  userDefined?: boolean;
+  // Tools known to only read, whatever their annotations; their results may be cached
+  readOnlyTools?: string[];
+  oauth?: {
+    provider: 'google';
+    scopes: string[];
+    // What a linked account can be pinned to, e.g. a GA4 property or GSC site
+    resource?: {
+      kind: GoogleResourceKind;  // Lists the account's resources for the picker
+      label: string;
+      placeholder: string;
+    };
+  };
 }
@@ -0,0 +1,278 @@
+// Metric Monitors - Threshold and anomaly rules over a daily GA4/GSC metric
+import { SupabaseClient } from '@supabase/supabase-js';
+import { validateSchedule } from '../reports/reports';
+import { CredentialManager } from '../mcp/credential-manager';
+import { MONITOR_SOURCES } from './sources';
+
+// Fewer baseline points than this and a standard deviation means little
+const MIN_BASELINE_POINTS = 7;
+
+export type MonitorRule = 'change' | 'zscore' | 'threshold';
+export type MonitorDirection = 'drop' | 'rise' | 'either';
+
+export interface MetricMonitor {
+  id: string;
+  user_id: string;
+  name: string;
+  server_name: string;
+  connection_id: string;
+  resource: string;                 // GA4 property or GSC site
+  metric: string;
+  rule: MonitorRule;
+  direction: MonitorDirection;
+  threshold: number;                // Percent change, standard deviations or absolute value
+  baseline_days: number;
+  cron: string;
+  timezone: string;
+  open_conversation: boolean;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_checked_at: string | null;
+  last_value: number | null;
+  last_status: 'ok' | 'triggered' | 'failed' | null;
+  last_error: string | null;
+  last_alerted_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MonitorObservation {
+  observed_date: string;            // YYYY-MM-DD
+  value: number;
+}
+
+/**
+ * Fields a user submits when creating or editing a monitor
+ */
+export interface MetricMonitorInput {
+  name: string;
+  server_name: string;
+  connection_id: string;
+  resource: string;
+  metric: string;
+  rule: MonitorRule;
+  direction: MonitorDirection;
+  threshold: number;
+  baseline_days: number;
+  cron: string;
+  timezone: string;
+  open_conversation: boolean;
+  enabled: boolean;
+}
+
+/**
+ * Outcome of evaluating a monitor against its series
+ */
+export interface MonitorEvaluation {
+  triggered: boolean;
+  value: number;
+  observedDate: string;
+  expected: number | null;          // Previous day or baseline mean; null for thresholds
+  deviation: number | null;         // Percent change or z-score
+  summary: string;
+}
+
+/**
+ * Normalize a request body into monitor input
+ */
+export function parseMonitorInput(body: any): MetricMonitorInput {
+  const text = (value: any) => typeof value === 'string' ? value.trim() : '';
+
+  return {
+    name: text(body?.name),
+    server_name: text(body?.server_name),
+    connection_id: text(body?.connection_id),
+    resource: text(body?.resource),
+    metric: text(body?.metric),
+    rule: body?.rule,
+    direction: body?.direction || 'either',
+    threshold: Number(body?.threshold),
+    baseline_days: body?.baseline_days === undefined || body?.baseline_days === null ? 28 : Number(body.baseline_days),
+    cron: typeof body?.cron === 'string' && body.cron.trim() ? body.cron.trim().replace(/\s+/g, ' ') : '0 8 * * *',
+    timezone: typeof body?.timezone === 'string' && body.timezone ? body.timezone : 'UTC',
+    open_conversation: body?.open_conversation === true,
+    enabled: body?.enabled !== false
+  };
+}
+
+/**
+ * Validate user input, returning an error message or null
+ */
+export function validateMonitorInput(input: MetricMonitorInput): string | null {
+  if (!input.name) {
+    return 'Name is required';
+  }
+
+  const source = MONITOR_SOURCES[input.server_name];
+  if (!source) {
+    return 'Monitors support Google Analytics 4 and Google Search Console';
+  }
+
+  if (!input.connection_id) {
+    return 'Choose a Google account';
+  }
+
+  if (!input.resource) {
+    return `Choose a ${source.resourceLabel}`;
+  }
+
+  if (!source.metrics.some(metric => metric.id === input.metric)) {
+    return `Unknown ${source.label} metric "${input.metric}"`;
+  }
+
+  if (!['change', 'zscore', 'threshold'].includes(input.rule)) {
+    return 'Rule must be change, zscore or threshold';
+  }
+
+  if (!['drop', 'rise', 'either'].includes(input.direction)) {
+    return 'Direction must be drop, rise or either';
+  }
+
+  if (input.rule === 'threshold' && input.direction === 'either') {
+    return 'A threshold alert needs a direction: below (drop) or above (rise)';
+  }
+
+  if (!Number.isFinite(input.threshold) || (input.rule !== 'threshold' && input.threshold <= 0)) {
+    return input.rule === 'threshold' ? 'Threshold must be a number' : 'Threshold must be a positive number';
+  }
+
+  if (!Number.isInteger(input.baseline_days) || input.baseline_days < MIN_BASELINE_POINTS || input.baseline_days > 90) {
+    return `Baseline must be between ${MIN_BASELINE_POINTS} and 90 days`;
+  }
+
+  return validateSchedule(input.cron, input.timezone);
+}
+
+/**
+ * Describe a monitor's rule, e.g. "drops more than 25% day-over-day"
+ */
+export function describeRule(monitor: Pick<MetricMonitor, 'rule' | 'direction' | 'threshold' | 'baseline_days'>): string {
+  const { rule, direction, threshold } = monitor;
+
+  if (rule === 'threshold') {
+    return `${direction === 'drop' ? 'falls below' : 'rises above'} ${formatValue(threshold)}`;
+  }
+
+  const verb = direction === 'drop' ? 'drops' : direction === 'rise' ? 'rises' : 'moves';
+  return rule === 'change'
+    ? `${verb} more than ${threshold}% day-over-day`
+    : `${verb} more than ${threshold}σ from the ${monitor.baseline_days}-day baseline`;
+}
+
+/**
+ * Evaluate a monitor against its series (oldest first). The last observation is
+ * the day being checked; earlier ones form the comparison. Returns null when
+ * there isn't enough history yet.
+ */
+export function evaluateMonitor(monitor: MetricMonitor, series: MonitorObservation[]): MonitorEvaluation | null {
+  const latest = series[series.length - 1];
+  if (!latest) {
+    return null;
+  }
+
+  const value = latest.value;
+  const base = { value, observedDate: latest.observed_date };
+
+  if (monitor.rule === 'threshold') {
+    const triggered = monitor.direction === 'drop' ? value < monitor.threshold : value > monitor.threshold;
+    return {
+      ...base,
+      triggered,
+      expected: null,
+      deviation: null,
+      summary: `${monitor.metric} was ${formatValue(value)} on ${latest.observed_date} (alert when it ${describeRule(monitor)})`
+    };
+  }
+
+  if (monitor.rule === 'change') {
+    const previous = series[series.length - 2];
+    if (!previous || previous.value === 0) {
+      return null;
+    }
+
+    const change = ((value - previous.value) / Math.abs(previous.value)) * 100;
+    return {
+      ...base,
+      triggered: exceeds(change, monitor.threshold, monitor.direction),
+      expected: previous.value,
+      deviation: change,
+      summary: `${monitor.metric} was ${formatValue(value)} on ${latest.observed_date}, ${formatChange(change)} from ${formatValue(previous.value)} the day before`
+    };
+  }
+
+  const baseline = series.slice(0, -1).slice(-monitor.baseline_days).map(point => point.value);
+  if (baseline.length < MIN_BASELINE_POINTS) {
+    return null;
+  }
+
+  const mean = baseline.reduce((sum, point) => sum + point, 0) / baseline.length;
+  const variance = baseline.reduce((sum, point) => sum + (point - mean) ** 2, 0) / (baseline.length - 1);
+  const stdDev = Math.sqrt(variance);
+
+  // A perfectly flat baseline: any change at all is an infinite deviation
+  const zScore = stdDev === 0 ? (value === mean ? 0 : value > mean ? Infinity : -Infinity) : (value - mean) / stdDev;
+
+  return {
+    ...base,
+    triggered: exceeds(zScore, monitor.threshold, monitor.direction),
+    expected: mean,
+    deviation: zScore,
+    summary: `${monitor.metric} was ${formatValue(value)} on ${latest.observed_date}, ${formatZScore(zScore)} the ${baseline.length}-day mean of ${formatValue(mean)}`
+  };
+}
+
+function exceeds(deviation: number, threshold: number, direction: MonitorDirection): boolean {
+  if (direction === 'drop') return deviation <= -threshold;
+  if (direction === 'rise') return deviation >= threshold;
+  return Math.abs(deviation) >= threshold;
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+}
+
+function formatChange(change: number): string {
+  return `${change >= 0 ? 'up' : 'down'} ${Math.abs(change).toFixed(1)}%`;
+}
+
+function formatZScore(zScore: number): string {
+  const side = zScore >= 0 ? 'above' : 'below';
+  // Infinite against a flat baseline
+  return Number.isFinite(zScore) ? `${Math.abs(zScore).toFixed(1)}σ ${side}` : side;
+}
+
+/**
+ * Load one of a user's monitors
+ */
+export async function loadMonitor(
+  supabase: SupabaseClient,
+  userId: string,
+  monitorId: string
+): Promise<MetricMonitor | null> {
+  const { data, error } = await supabase
+    .from('metric_monitors')
+    .select('*')
+    .eq('id', monitorId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load monitor: ${error.message}`);
+  }
+
+  return data as MetricMonitor | null;
+}
+
+/**
+ * Whether the monitor's linked account is one the user can use (their own or a
+ * workspace's) for its server
+ */
+export async function isMonitorConnectionValid(
+  userId: string,
+  input: Pick<MetricMonitorInput, 'connection_id' | 'server_name'>
+): Promise<boolean> {
+  const connections = await CredentialManager.listConnections(userId);
+  return connections.some(connection =>
+    connection.id === input.connection_id && connection.server_name === input.server_name
+  );
+}
@@ -0,0 +1,204 @@
+// Monitor Runner - Checks one metric monitor and raises its alert
+import { SupabaseClient } from '@supabase/supabase-js';
+import { mcpConnectionPool } from '../mcp/connection-pool';
+import { CredentialManager } from '../mcp/credential-manager';
+import { getServerManifest } from '../mcp/manifest';
+import { loadToolSettings, isToolEnabled } from '../mcp/tool-settings';
+import { saveAssistantMessage } from '../chat/messages';
+import { VISUALIZATION_LANGUAGE } from '../chat/visualizations';
+import { MetricMonitor, MonitorEvaluation, MonitorObservation, evaluateMonitor, describeRule } from './monitors';
+import { MONITOR_SOURCES, fetchMetricSeries } from './sources';
+
+export interface MonitorCheck {
+  status: 'ok' | 'triggered' | 'failed';
+  evaluation: MonitorEvaluation | null;
+  alerted: boolean;                 // False when this day already alerted
+  conversation_id: string | null;
+  error: string | null;
+}
+
+/**
+ * Fetch the monitor's recent series, store it and evaluate the rule. Each
+ * observed day alerts at most once; failures are recorded on the monitor
+ * rather than thrown.
+ */
+export async function checkMonitor(supabase: SupabaseClient, monitor: MetricMonitor): Promise<MonitorCheck> {
+  let check: MonitorCheck = { status: 'ok', evaluation: null, alerted: false, conversation_id: null, error: null };
+
+  try {
+    const series = await fetchSeries(supabase, monitor);
+
+    if (series.length > 0) {
+      const { error } = await supabase
+        .from('monitor_observations')
+        .upsert(
+          series.map(point => ({ ...point, monitor_id: monitor.id, user_id: monitor.user_id })),
+          { onConflict: 'monitor_id,observed_date' }
+        );
+
+      if (error) {
+        console.error('Error saving monitor observations:', error);
+      }
+    }
+
+    const evaluation = evaluateMonitor(monitor, series);
+    check = { ...check, evaluation, status: evaluation?.triggered ? 'triggered' : 'ok' };
+
+    if (evaluation?.triggered && monitor.last_alerted_date !== evaluation.observedDate) {
+      check.conversation_id = monitor.open_conversation
+        ? await openAlertConversation(supabase, monitor, evaluation, series)
+        : null;
+      await notify(supabase, monitor, evaluation, check.conversation_id);
+      check.alerted = true;
+    }
+  } catch (error: any) {
+    console.error(`Monitor ${monitor.id} check failed:`, error);
+    check = { ...check, status: 'failed', error: error.message || 'Monitor check failed' };
+  }
+
+  const { error } = await supabase
+    .from('metric_monitors')
+    .update({
+      last_checked_at: new Date().toISOString(),
+      last_status: check.status,
+      last_error: check.error,
+      ...(check.evaluation && { last_value: check.evaluation.value }),
+      ...(check.alerted && { last_alerted_date: check.evaluation?.observedDate })
+    })
+    .eq('id', monitor.id);
+
+  if (error) {
+    console.error('Error saving monitor check:', error);
+  }
+
+  return check;
+}
+
+/**
+ * The monitor's metric by day, ending at the source's most recent settled day
+ * in the monitor's timezone
+ */
+async function fetchSeries(supabase: SupabaseClient, monitor: MetricMonitor): Promise<MonitorObservation[]> {
+  const source = MONITOR_SOURCES[monitor.server_name];
+  const manifest = getServerManifest(monitor.server_name);
+  if (!source || !manifest) {
+    throw new Error(`Monitors don't support ${monitor.server_name}`);
+  }
+
+  const account = (await CredentialManager.listConnections(monitor.user_id))
+    .find(connection => connection.id === monitor.connection_id);
+  if (!account) {
+    throw new Error(`The ${source.label} account for this monitor is no longer linked`);
+  }
+  if (account.needs_reauth) {
+    throw new Error(`Reconnect ${account.account_email || `your ${source.label} account`} to resume this monitor`);
+  }
+
+  // The deployment policy and the user's tool toggles apply without the model too
+  const toolSettings = await loadToolSettings(supabase, monitor.user_id);
+  if (!isToolEnabled(toolSettings, manifest.id, source.toolName, `${manifest.toolPrefix}_${source.toolName}`)) {
+    throw new Error(`The ${source.label} ${source.toolName} tool is disabled`);
+  }
+
+  // Today in the monitor's timezone, as YYYY-MM-DD
+  const today = new Intl.DateTimeFormat('en-CA', {
+    timeZone: monitor.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(new Date());
+
+  const endDate = addDays(today, -source.lagDays);
+  const startDate = addDays(endDate, -monitor.baseline_days);
+
+  const client = await mcpConnectionPool.getConnection(monitor.user_id, manifest.id, manifest, account.id);
+  return fetchMetricSeries(client, source, monitor.resource, monitor.metric, startDate, endDate);
+}
+
+function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().substring(0, 10);
+}
+
+function alertTitle(monitor: MetricMonitor): string {
+  return `${monitor.name}: ${monitor.metric} ${describeRule(monitor)}`;
+}
+
+/**
+ * Start a conversation about the alert on the monitor's account and property,
+ * seeded with the summary and the series so the user can ask why
+ */
+async function openAlertConversation(
+  supabase: SupabaseClient,
+  monitor: MetricMonitor,
+  evaluation: MonitorEvaluation,
+  series: MonitorObservation[]
+): Promise<string | null> {
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .insert({
+      user_id: monitor.user_id,
+      title: `Alert: ${monitor.name} · ${evaluation.observedDate}`,
+      connection_ids: [monitor.connection_id],
+      resource_selections: { [monitor.connection_id]: monitor.resource }
+    })
+    .select('id')
+    .single();
+
+  if (error || !conversation) {
+    console.error('Error creating alert conversation:', error);
+    return null;
+  }
+
+  const chart = {
+    type: 'line',
+    title: `${monitor.metric}, ${monitor.resource}`,
+    x: 'date',
+    y: [monitor.metric],
+    data: series.map(point => ({ date: point.observed_date, [monitor.metric]: point.value }))
+  };
+
+  const content = [
+    `**${alertTitle(monitor)}**`,
+    `${evaluation.summary}.`,
+    `\`\`\`${VISUALIZATION_LANGUAGE}\n${JSON.stringify(chart)}\n\`\`\``,
+    'Ask me what might explain this change, for example which channels, pages or queries moved the most.'
+  ].join('\n\n');
+
+  try {
+    await saveAssistantMessage(supabase, monitor.user_id, conversation.id, content, []);
+  } catch (saveError) {
+    console.error('Error seeding alert conversation:', saveError);
+  }
+
+  return conversation.id;
+}
+
+async function notify(
+  supabase: SupabaseClient,
+  monitor: MetricMonitor,
+  evaluation: MonitorEvaluation,
+  conversationId: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: monitor.user_id,
+      kind: 'monitor_alert',
+      title: alertTitle(monitor),
+      body: evaluation.summary,
+      monitor_id: monitor.id,
+      conversation_id: conversationId,
+      data: {
+        value: evaluation.value,
+        expected: evaluation.expected,
+        deviation: evaluation.deviation !== null && Number.isFinite(evaluation.deviation) ? evaluation.deviation : null,
+        observed_date: evaluation.observedDate
+      }
+    });
+
+  if (error) {
+    throw new Error(`Failed to create notification: ${error.message}`);
+  }
+}
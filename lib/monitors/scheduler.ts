@@ -0,0 +1,55 @@
+// Monitor Scheduler - Checks the metric monitors that are due (polled by lib/scheduler.ts)
+//
+// Claims work the same way as the report scheduler: `next_run_at` is moved
+// forward with a conditional update before the check runs.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getNextRunAt } from '../reports/reports';
+import { MetricMonitor } from './monitors';
+import { checkMonitor } from './runner';
+
+const BATCH_SIZE = 20;
+
+/**
+ * Claim and check every monitor that is due. Returns how many were checked.
+ */
+export async function runDueMonitors(supabase: SupabaseClient): Promise<number> {
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from('metric_monitors')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load due monitors: ${error.message}`);
+  }
+
+  let checked = 0;
+  for (const monitor of (data || []) as MetricMonitor[]) {
+    let nextRunAt: string | null;
+    try {
+      nextRunAt = getNextRunAt(monitor.cron, monitor.timezone, now).toISOString();
+    } catch (scheduleError) {
+      console.error(`Monitor ${monitor.id} has an invalid schedule, disabling it:`, scheduleError);
+      nextRunAt = null;
+    }
+
+    const { data: claimed } = await supabase
+      .from('metric_monitors')
+      .update({ next_run_at: nextRunAt, ...(nextRunAt ? {} : { enabled: false }) })
+      .eq('id', monitor.id)
+      .eq('next_run_at', monitor.next_run_at)
+      .select('id');
+
+    // Another instance got there first, or the schedule is broken
+    if (!claimed || claimed.length === 0 || !nextRunAt) continue;
+
+    await checkMonitor(supabase, monitor);
+    checked++;
+  }
+
+  return checked;
+}
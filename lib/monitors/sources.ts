@@ -0,0 +1,117 @@
+// Monitor Sources - How to fetch a daily metric series from each Google MCP server
+//
+// Monitors call the MCP tools directly, without the model, so each source
+// knows its tool, arguments and how far behind its data settles.
+import { MCPServerInterface } from '../mcp/types';
+import { extractResultTables } from '../chat/tables';
+import { MonitorObservation } from './monitors';
+
+export interface MonitorMetric {
+  id: string;
+  label: string;
+}
+
+export interface MonitorSource {
+  label: string;
+  resourceLabel: string;
+  toolName: string;
+  lagDays: number;                  // Most recent day with settled data, counting back from today
+  metrics: MonitorMetric[];
+  buildArgs(resource: string, metric: string, startDate: string, endDate: string): any;
+}
+
+/**
+ * Sources keyed by server id (mcp_connections.server_name)
+ */
+export const MONITOR_SOURCES: Record<string, MonitorSource> = {
+  'google-analytics': {
+    label: 'GA4',
+    resourceLabel: 'property',
+    toolName: 'run_report',
+    lagDays: 1,
+    metrics: [
+      { id: 'sessions', label: 'Sessions' },
+      { id: 'activeUsers', label: 'Active users' },
+      { id: 'newUsers', label: 'New users' },
+      { id: 'screenPageViews', label: 'Views' },
+      { id: 'eventCount', label: 'Event count' },
+      { id: 'keyEvents', label: 'Key events' },
+      { id: 'engagementRate', label: 'Engagement rate' },
+      { id: 'totalRevenue', label: 'Total revenue' }
+    ],
+    buildArgs: (resource, metric, startDate, endDate) => ({
+      property_id: resource,
+      date_ranges: [{ start_date: startDate, end_date: endDate }],
+      dimensions: ['date'],
+      metrics: [metric]
+    })
+  },
+  'google-search-console': {
+    label: 'GSC',
+    resourceLabel: 'site',
+    toolName: 'search_analytics',
+    lagDays: 3,
+    metrics: [
+      { id: 'clicks', label: 'Clicks' },
+      { id: 'impressions', label: 'Impressions' },
+      { id: 'ctr', label: 'CTR' },
+      { id: 'position', label: 'Average position' }
+    ],
+    buildArgs: (resource, _metric, startDate, endDate) => ({
+      siteUrl: resource,
+      startDate,
+      endDate,
+      dimensions: 'date',
+      rowLimit: 1000
+    })
+  }
+};
+
+/**
+ * Call the source's tool and return the metric's daily values, oldest first.
+ * Days with no data are left out.
+ */
+export async function fetchMetricSeries(
+  client: MCPServerInterface,
+  source: MonitorSource,
+  resource: string,
+  metric: string,
+  startDate: string,
+  endDate: string
+): Promise<MonitorObservation[]> {
+  const result = await client.callTool(source.toolName, source.buildArgs(resource, metric, startDate, endDate));
+
+  if (result?.isError) {
+    const message = (result.content || []).map((block: any) => block?.text).filter(Boolean).join(' ');
+    throw new Error(message || `${source.toolName} failed`);
+  }
+
+  const [table] = extractResultTables(source.toolName, JSON.stringify(result), { dimensions: ['date'] });
+  const dateIndex = table?.columns.indexOf('date') ?? -1;
+  const valueIndex = table?.columns.indexOf(metric) ?? -1;
+  if (!table || dateIndex === -1 || valueIndex === -1) {
+    throw new Error(`${source.toolName} returned no ${metric} by date`);
+  }
+
+  const observations: MonitorObservation[] = [];
+  for (const row of table.rows) {
+    const date = normalizeDate(row[dateIndex]);
+    const value = Number(row[valueIndex]);
+    if (date && Number.isFinite(value)) {
+      observations.push({ observed_date: date, value });
+    }
+  }
+
+  return observations.sort((a, b) => a.observed_date.localeCompare(b.observed_date));
+}
+
+/**
+ * GA4 reports dates as YYYYMMDD, GSC as YYYY-MM-DD
+ */
+function normalizeDate(value: unknown): string | null {
+  const text = String(value ?? '');
+  if (/^\d{8}$/.test(text)) {
+    return `${text.substring(0, 4)}-${text.substring(4, 6)}-${text.substring(6, 8)}`;
+  }
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null;
+}
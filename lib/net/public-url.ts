@@ -0,0 +1,202 @@
+// Public URLs - Keeps user-supplied URLs (custom MCP servers, report webhooks) off
+// loopback, private and link-local addresses, including cloud metadata endpoints
+import { lookup } from 'dns/promises';
+import * as dns from 'dns';
+import { isIP, LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+const MAX_REDIRECTS = 5;
+
+// Not forwarded when a redirect leaves the original origin
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+// IPv4 ranges that must not be reached: [network address, prefix length]
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],         // "This" network
+  ['10.0.0.0', 8],        // Private
+  ['100.64.0.0', 10],     // Carrier-grade NAT
+  ['127.0.0.0', 8],       // Loopback
+  ['169.254.0.0', 16],    // Link-local, including 169.254.169.254 metadata
+  ['172.16.0.0', 12],     // Private
+  ['192.0.0.0', 24],      // IETF protocol assignments
+  ['192.168.0.0', 16],    // Private
+  ['198.18.0.0', 15],     // Benchmarking
+  ['224.0.0.0', 4],       // Multicast
+  ['240.0.0.0', 4]        // Reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4.some(([range, prefix]) => {
+    const size = Math.pow(2, 32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(range) / size);
+  });
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups; a trailing dotted quad
+ * fills the last two
+ */
+function ipv6Groups(address: string): number[] {
+  let normalized = address.toLowerCase();
+
+  const dotted = normalized.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[2]);
+    normalized = `${dotted[1]}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+
+  const [head, tail] = normalized.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+
+  return [...headGroups, ...new Array(missing).fill(0), ...tailGroups];
+}
+
+function groupsToIpv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the
+ * public internet. IPv6 forms that embed an IPv4 address (mapped, NAT64, 6to4)
+ * are judged by that address. Anything that doesn't parse counts as blocked.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 4) {
+    return isBlockedIpv4(address);
+  }
+  if (version !== 6) {
+    return true;
+  }
+
+  const groups = ipv6Groups(address);
+  const [first, second] = groups;
+  const zeroUntil = (count: number) => groups.slice(0, count).every(group => group === 0);
+
+  // Unspecified (::) and loopback (::1)
+  if (zeroUntil(7) && groups[7] <= 1) {
+    return true;
+  }
+  // IPv4-mapped (::ffff:0:0/96) and IPv4-compatible (::/96) addresses reach the IPv4 host
+  if (zeroUntil(5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isBlockedIpv4(groupsToIpv4(groups[6], groups[7]));
+  }
+  // NAT64 (64:ff9b::/96) translates to the embedded IPv4 address
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isBlockedIpv4(groupsToIpv4(groups[6], groups[7]));
+  }
+  // 6to4 (2002::/16) tunnels to the IPv4 address in the next 32 bits
+  if (first === 0x2002) {
+    return isBlockedIpv4(groupsToIpv4(groups[1], groups[2]));
+  }
+
+  return (first === 0x64 && second === 0xff9b) ||   // Local-use NAT64 64:ff9b:1::/48
+    (first === 0x2001 && second === 0) ||           // Teredo 2001::/32, which hides the IPv4 address
+    (first & 0xfe00) === 0xfc00 ||                  // Unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 ||                  // Link-local fe80::/10
+    (first & 0xff00) === 0xff00;                    // Multicast ff00::/8
+}
+
+/**
+ * Parse an http(s) URL and check every address its host resolves to is public.
+ * Throws with a message fit to show the user.
+ */
+export async function assertPublicUrl(value: string | URL): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value.toString());
+  } catch {
+    throw new Error('A valid URL is required');
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('URL must use http or https');
+  }
+
+  // IPv6 literals keep their brackets in `hostname`
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: { address: string }[];
+  try {
+    addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Could not resolve ${host}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${host} resolves to a private or local address, which is not allowed`);
+  }
+
+  return url;
+}
+
+/**
+ * DNS lookup for outgoing connections that fails unless every address is public.
+ * Connecting to the addresses it checked closes the gap a DNS rebind between
+ * `assertPublicUrl` and the connect would otherwise leave.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private or local address, which is not allowed`), '', 0);
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const publicDispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * `fetch` for user-supplied URLs: checks the host before each request, connects
+ * only to the addresses checked, and follows redirects itself, so a public URL
+ * can't bounce the request to an internal one. Credentials aren't forwarded to
+ * another origin.
+ */
+export async function fetchPublicUrl(input: string | URL, init: RequestInit = {}): Promise<Response> {
+  let url = await assertPublicUrl(input);
+  let requestInit = init;
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(url, { ...requestInit, redirect: 'manual', dispatcher: publicDispatcher } as RequestInit);
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error('Too many redirects');
+    }
+
+    const next = await assertPublicUrl(new URL(location, url));
+
+    if (next.origin !== url.origin) {
+      const headers = new Headers(requestInit.headers);
+      CREDENTIAL_HEADERS.forEach(name => headers.delete(name));
+      requestInit = { ...requestInit, headers };
+    }
+    url = next;
+
+    // Like fetch, 303 (and 301/302 after a POST) continue as a bodiless GET
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && requestInit.method === 'POST')) {
+      const { body, ...rest } = requestInit;
+      requestInit = { ...rest, method: 'GET' };
+    }
+  }
+}
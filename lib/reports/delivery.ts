@@ -0,0 +1,115 @@
+// Report Delivery - Sends a report run's answer by SMTP email or to a Slack-compatible webhook
+import { splitVisualizations, parseVisualization } from '../chat/visualizations';
+import { conversationToMarkdown, exportFileName } from '../export/conversation';
+import { conversationToPdf } from '../export/pdf';
+import { sendEmail } from '../email';
+import { fetchPublicUrl } from '../net/public-url';
+import type { StoredMessage } from '../chat/messages';
+import { ScheduledReport, ReportRun } from './reports';
+
+// Slack section blocks hold at most 3000 characters
+const MAX_WEBHOOK_TEXT = 3000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface ReportOutcome {
+  run: ReportRun;
+  response: string | null;       // Assistant answer, null when the run failed
+  messages: StoredMessage[];     // The run's conversation, for the PDF attachment
+}
+
+/**
+ * Link to the run's conversation in the chat, when NEXT_PUBLIC_APP_URL is configured
+ */
+function conversationUrl(run: ReportRun): string | null {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl || !run.conversation_id) return null;
+  return `${appUrl.replace(/\/$/, '')}/chat?conversation=${run.conversation_id}`;
+}
+
+/**
+ * The answer with charts reduced to their titles, for channels that can't draw them
+ */
+function textSummary(response: string): string {
+  return splitVisualizations(response)
+    .map(segment => {
+      if (segment.type === 'text') return segment.text;
+      const title = parseVisualization(segment.source)?.title;
+      return title ? `[Chart: ${title}]` : '[Chart]';
+    })
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+async function sendReportEmail(report: ScheduledReport, outcome: ReportOutcome): Promise<void> {
+  const { run, response, messages } = outcome;
+  const link = conversationUrl(run);
+  const exported = { title: report.name, messages, exportedAt: new Date() };
+
+  const body = response
+    ? conversationToMarkdown(exported)
+    : `The scheduled report "${report.name}" failed:\n\n${run.error}`;
+
+  await sendEmail({
+    to: report.delivery_target!,
+    subject: response ? report.name : `Failed: ${report.name}`,
+    text: link ? `${body}\n\nOpen in chat: ${link}\n` : body,
+    // Charts only survive in the PDF
+    attachments: response
+      ? [{ filename: exportFileName(report.name, 'pdf'), content: await conversationToPdf(exported) }]
+      : []
+  });
+}
+
+async function postWebhook(report: ScheduledReport, outcome: ReportOutcome): Promise<void> {
+  const { run, response } = outcome;
+  const link = conversationUrl(run);
+
+  let summary = response ? textSummary(response) : `Failed: ${run.error}`;
+  if (summary.length > MAX_WEBHOOK_TEXT) {
+    summary = summary.substring(0, MAX_WEBHOOK_TEXT - 20) + '\n… (truncated)';
+  }
+
+  // `text` and `blocks` are what Slack reads; the rest is for other consumers
+  const payload = {
+    text: `${report.name}: ${response ? 'new report' : 'run failed'}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: report.name.substring(0, 150) } },
+      { type: 'section', text: { type: 'mrkdwn', text: summary || '(empty answer)' } },
+      ...(link ? [{ type: 'context', elements: [{ type: 'mrkdwn', text: `<${link}|Open in chat>` }] }] : [])
+    ],
+    report: { id: report.id, name: report.name },
+    run: { id: run.id, status: run.status, conversation_id: run.conversation_id, error: run.error },
+    response
+  };
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+  try {
+    // The target is checked again here (and on each redirect): DNS may have changed since it was saved
+    const result = await fetchPublicUrl(report.delivery_target!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: controller.signal
+    });
+
+    if (!result.ok) {
+      throw new Error(`Webhook responded with ${result.status} ${result.statusText}`);
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Deliver a finished run (successful or not) the way the report asks
+ */
+export async function deliverReport(report: ScheduledReport, outcome: ReportOutcome): Promise<void> {
+  if (report.delivery_method === 'email') {
+    await sendReportEmail(report, outcome);
+  } else if (report.delivery_method === 'webhook') {
+    await postWebhook(report, outcome);
+  }
+}
@@ -0,0 +1,265 @@
+// Scheduled Reports - Saved prompts that the agent runs on a cron schedule
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CronExpressionParser, CronExpression } from 'cron-parser';
+import { assertPublicUrl } from '../net/public-url';
+import { listMemberships, normalizeEmail } from '../workspaces/workspaces';
+
+// Shortest allowed gap between two runs (reports and monitors), so a typo can't run every minute
+const MIN_INTERVAL_MINUTES = Number(process.env.REPORT_MIN_INTERVAL_MINUTES || 60);
+const MINUTES_PER_DAY = 24 * 60;
+
+export type DeliveryMethod = 'email' | 'webhook' | 'none';
+
+export interface ScheduledReport {
+  id: string;
+  user_id: string;
+  name: string;
+  prompt: string;
+  cron: string;
+  timezone: string;
+  services: string[] | null;        // Server keys to use; null means every connected server
+  connection_ids: string[] | null;  // Linked Google accounts, as on a conversation
+  delivery_method: DeliveryMethod;
+  delivery_target: string | null;   // Email address or webhook URL
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReportRun {
+  id: string;
+  report_id: string;
+  user_id: string;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'succeeded' | 'failed';
+  conversation_id: string | null;
+  error: string | null;
+  delivery_status: 'sent' | 'failed' | 'skipped' | null;
+  delivery_error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+/**
+ * Fields a user submits when creating or editing a report
+ */
+export interface ScheduledReportInput {
+  name: string;
+  prompt: string;
+  cron: string;
+  timezone: string;
+  services: string[] | null;
+  connection_ids: string[] | null;
+  delivery_method: DeliveryMethod;
+  delivery_target: string | null;
+  enabled: boolean;
+}
+
+/**
+ * Normalize a request body into report input
+ */
+export function parseReportInput(body: any): ScheduledReportInput {
+  const stringList = (value: any) => Array.isArray(value) && value.length > 0
+    ? value.filter((item: any) => typeof item === 'string')
+    : null;
+  const deliveryMethod = body?.delivery_method || 'none';
+
+  return {
+    name: typeof body?.name === 'string' ? body.name.trim() : '',
+    prompt: typeof body?.prompt === 'string' ? body.prompt.trim() : '',
+    cron: typeof body?.cron === 'string' ? body.cron.trim().replace(/\s+/g, ' ') : '',
+    timezone: typeof body?.timezone === 'string' && body.timezone ? body.timezone : 'UTC',
+    services: stringList(body?.services),
+    connection_ids: stringList(body?.connection_ids),
+    delivery_method: deliveryMethod,
+    delivery_target: deliveryMethod === 'none' || typeof body?.delivery_target !== 'string'
+      ? null
+      : body.delivery_target.trim(),
+    enabled: body?.enabled !== false
+  };
+}
+
+/**
+ * Addresses a user's reports may be emailed to: their own confirmed address and
+ * the members of their workspaces. Anything wider would let any account have the
+ * server mail model output to strangers.
+ */
+export async function allowedReportRecipients(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const { data: { user }, error } = await supabase.auth.admin.getUserById(userId);
+  if (error) {
+    throw new Error(`Failed to load user: ${error.message}`);
+  }
+
+  const recipients = user?.email && user.email_confirmed_at ? [normalizeEmail(user.email)] : [];
+
+  const workspaceIds = (await listMemberships(supabase, userId)).map(membership => membership.workspace_id);
+  if (workspaceIds.length > 0) {
+    const { data: members, error: membersError } = await supabase
+      .from('workspace_members')
+      .select('email')
+      .in('workspace_id', workspaceIds)
+      .not('email', 'is', null);
+
+    if (membersError) {
+      throw new Error(`Failed to load workspace members: ${membersError.message}`);
+    }
+    recipients.push(...(members || []).map(member => normalizeEmail(member.email)));
+  }
+
+  return Array.from(new Set(recipients));
+}
+
+/**
+ * Whether a report's email recipient is one of `allowedRecipients`
+ */
+export function isAllowedRecipient(address: string | null, allowedRecipients: string[]): boolean {
+  return !!address && allowedRecipients.includes(normalizeEmail(address));
+}
+
+/**
+ * Validate user input, returning an error message or null. Email goes only to
+ * `allowedRecipients` (see allowedReportRecipients); webhook URLs are resolved,
+ * and rejected if they point at a private or local address.
+ */
+export async function validateReportInput(
+  input: ScheduledReportInput,
+  allowedRecipients: string[]
+): Promise<string | null> {
+  if (!input.name) {
+    return 'Name is required';
+  }
+
+  if (!input.prompt) {
+    return 'Prompt is required';
+  }
+
+  const scheduleError = validateSchedule(input.cron, input.timezone);
+  if (scheduleError) {
+    return scheduleError;
+  }
+
+  if (input.delivery_method === 'email') {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.delivery_target || '')) {
+      return 'A valid email address is required';
+    }
+    if (!isAllowedRecipient(input.delivery_target, allowedRecipients)) {
+      return 'Reports can only be emailed to your confirmed address or a member of one of your workspaces';
+    }
+    return null;
+  }
+
+  if (input.delivery_method === 'webhook') {
+    if (!input.delivery_target) {
+      return 'A valid webhook URL is required';
+    }
+    try {
+      await assertPublicUrl(input.delivery_target);
+    } catch (error: any) {
+      return `Webhook ${error.message.charAt(0).toLowerCase()}${error.message.slice(1)}`;
+    }
+    return null;
+  }
+
+  if (input.delivery_method !== 'none') {
+    return 'Delivery must be email, webhook or none';
+  }
+
+  return null;
+}
+
+/**
+ * Check a five-field cron expression and IANA timezone, returning an error message or null
+ */
+export function validateSchedule(cron: string, timezone: string): string | null {
+  if (cron.split(' ').length !== 5) {
+    return 'Schedule must be a five-field cron expression (minute hour day month weekday)';
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    return `Unknown timezone "${timezone}"`;
+  }
+
+  try {
+    const expression = CronExpressionParser.parse(cron, { tz: timezone });
+    if (smallestGapMinutes(expression) < MIN_INTERVAL_MINUTES) {
+      return `Schedules can run at most once every ${MIN_INTERVAL_MINUTES} minutes`;
+    }
+  } catch (error: any) {
+    return `Invalid schedule: ${error.message}`;
+  }
+
+  return null;
+}
+
+/**
+ * Smallest gap between two firings of a schedule, in minutes, over its whole cycle
+ * rather than from now. Within a day the firings are the minute and hour fields'
+ * combinations; the gap across midnight is counted as if the next day fires too,
+ * since day fields can only make gaps longer. Minimums longer than a day are
+ * checked against a year of actual firings, of which there are few.
+ */
+function smallestGapMinutes(expression: CronExpression): number {
+  const times: number[] = [];
+  for (const hour of expression.fields.hour.values) {
+    for (const minute of expression.fields.minute.values) {
+      times.push(hour * 60 + minute);
+    }
+  }
+  times.sort((a, b) => a - b);
+
+  let gap = times[0] + MINUTES_PER_DAY - times[times.length - 1];
+  for (let i = 1; i < times.length; i++) {
+    gap = Math.min(gap, times[i] - times[i - 1]);
+  }
+
+  if (gap < MINUTES_PER_DAY || MIN_INTERVAL_MINUTES <= MINUTES_PER_DAY) {
+    return gap;
+  }
+
+  // At most one firing a day: walk a year of them. Stopping after a year's worth
+  // at the minimum interval is safe, as two of those must already be closer.
+  const maxFirings = Math.floor(366 * MINUTES_PER_DAY / MIN_INTERVAL_MINUTES) + 1;
+  gap = Infinity;
+  let previous = expression.next().getTime();
+  const end = previous + 366 * MINUTES_PER_DAY * 60 * 1000;
+  for (let firings = 1; firings <= maxFirings && expression.hasNext(); firings++) {
+    const next = expression.next().getTime();
+    if (next > end) break;
+    gap = Math.min(gap, (next - previous) / 60000);
+    previous = next;
+  }
+  return gap;
+}
+
+/**
+ * Next time a schedule fires after `after`
+ */
+export function getNextRunAt(cron: string, timezone: string, after: Date = new Date()): Date {
+  return CronExpressionParser.parse(cron, { tz: timezone, currentDate: after }).next().toDate();
+}
+
+/**
+ * Load one of a user's reports
+ */
+export async function loadReport(
+  supabase: SupabaseClient,
+  userId: string,
+  reportId: string
+): Promise<ScheduledReport | null> {
+  const { data, error } = await supabase
+    .from('scheduled_reports')
+    .select('*')
+    .eq('id', reportId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load report: ${error.message}`);
+  }
+
+  return data as ScheduledReport | null;
+}
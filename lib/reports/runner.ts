@@ -0,0 +1,161 @@
+// Report Runner - Runs one scheduled report through the chat agent and delivers the answer
+import { SupabaseClient } from '@supabase/supabase-js';
+import { runAgentLoop, ToolInvocation } from '../chat/agent';
+import { prepareAgentSession, touchConversation, ConversationRow, CONVERSATION_COLUMNS } from '../chat/session';
+import { saveUserMessage, saveAssistantMessage, StoredMessage } from '../chat/messages';
+import { resolveLLMConfig, createLLMProvider } from '../llm/registry';
+import { getContextBudget } from '../chat/context';
+import { MeteredProvider } from '../usage/meter';
+import { recordUsage } from '../usage/usage';
+import { checkQuota, describeExceededQuota } from '../usage/quotas';
+import { deliverReport } from './delivery';
+import { ScheduledReport, ReportRun, allowedReportRecipients, isAllowedRecipient } from './reports';
+
+// Nobody is watching a scheduled run, so the model must not wait on the user
+const SCHEDULED_RUN_PROMPT = 'This request runs on a schedule and nobody is available to answer questions. Do not ask for clarification: make reasonable assumptions, state them briefly, and give the complete report.';
+
+/**
+ * Run a report now. Each run gets its own conversation and a `report_runs`
+ * record; failures are recorded on the run rather than thrown.
+ */
+export async function runReport(
+  supabase: SupabaseClient,
+  report: ScheduledReport,
+  trigger: ReportRun['trigger']
+): Promise<ReportRun> {
+  const { data: created, error: runError } = await supabase
+    .from('report_runs')
+    .insert({ report_id: report.id, user_id: report.user_id, trigger, status: 'running' })
+    .select()
+    .single();
+
+  if (runError || !created) {
+    throw new Error(`Failed to record report run: ${runError?.message}`);
+  }
+
+  let run = created as ReportRun;
+  let response: string | null = null;
+  let messages: StoredMessage[] = [];
+  let usage: { provider: MeteredProvider; model: string; toolCalls: ToolInvocation[] } | null = null;
+
+  try {
+    // Scheduled runs count against the same quotas as chat
+    const quota = await checkQuota(supabase, report.user_id);
+    if (quota.exceeded) {
+      throw new Error(describeExceededQuota(quota));
+    }
+
+    const startedAt = new Date(run.started_at);
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .insert({
+        user_id: report.user_id,
+        title: `${report.name} · ${startedAt.toISOString().substring(0, 10)}`,
+        connection_ids: report.connection_ids
+      })
+      .select(CONVERSATION_COLUMNS)
+      .single();
+
+    if (error || !conversation) {
+      throw new Error(`Failed to create conversation: ${error?.message}`);
+    }
+
+    run = { ...run, conversation_id: conversation.id };
+    await supabase.from('report_runs').update({ conversation_id: conversation.id }).eq('id', run.id);
+
+    const llmConfig = resolveLLMConfig();
+    const provider = new MeteredProvider(createLLMProvider(llmConfig));
+    usage = { provider, model: llmConfig.model, toolCalls: [] };
+
+    const session = await prepareAgentSession(supabase, report.user_id, conversation as ConversationRow, report.services);
+
+    // Tools that need approval can't run unattended
+    const tools = session.tools.filter(tool => !tool._requiresApproval);
+    if (tools.length === 0) {
+      throw new Error('None of the services this report uses are connected. Reconnect them in the chat and try again.');
+    }
+
+    const userMessage = await saveUserMessage(supabase, report.user_id, conversation.id, report.prompt);
+
+    const result = await runAgentLoop({
+      provider,
+      config: llmConfig,
+      messages: [
+        { role: 'system', content: `${session.systemContent}\n\n${SCHEDULED_RUN_PROMPT}` },
+        { role: 'user', content: report.prompt }
+      ],
+      tools,
+      mcpClients: session.mcpClients,
+      cache: { userId: report.user_id },
+      budget: getContextBudget(llmConfig)
+    });
+    usage.toolCalls = result.toolCalls;
+
+    const saved = await saveAssistantMessage(supabase, report.user_id, conversation.id, result.response, result.toolCalls);
+    await touchConversation(supabase, provider, llmConfig, conversation as ConversationRow, report.prompt, result.response);
+
+    response = result.response;
+    messages = [userMessage, saved.assistantMessage, ...saved.toolMessages];
+    run = { ...run, status: 'succeeded' };
+  } catch (error: any) {
+    console.error(`Scheduled report ${report.id} failed:`, error);
+    run = { ...run, status: 'failed', error: error.message || 'Report run failed' };
+  }
+
+  if (usage) {
+    await recordUsage(supabase, {
+      userId: report.user_id,
+      conversationId: run.conversation_id,
+      source: 'report',
+      model: usage.model,
+      meter: usage.provider,
+      toolCalls: usage.toolCalls,
+      startedAt: new Date(run.started_at).getTime(),
+      error: run.error
+    });
+  }
+
+  // Failures are delivered too, so a broken report doesn't go unnoticed
+  if (report.delivery_method === 'none') {
+    run = { ...run, delivery_status: 'skipped' };
+  } else {
+    try {
+      // Workspace membership may have changed since the report was saved
+      if (report.delivery_method === 'email' &&
+          !isAllowedRecipient(report.delivery_target, await allowedReportRecipients(supabase, report.user_id))) {
+        throw new Error(`${report.delivery_target} is no longer an allowed recipient for your reports`);
+      }
+
+      await deliverReport(report, { run, response, messages });
+      run = { ...run, delivery_status: 'sent' };
+    } catch (error: any) {
+      console.error(`Delivering report ${report.id} failed:`, error);
+      run = { ...run, delivery_status: 'failed', delivery_error: error.message || 'Delivery failed' };
+    }
+  }
+
+  const finishedAt = new Date().toISOString();
+  const { data: finished, error: finishError } = await supabase
+    .from('report_runs')
+    .update({
+      status: run.status,
+      error: run.error,
+      delivery_status: run.delivery_status,
+      delivery_error: run.delivery_error,
+      finished_at: finishedAt
+    })
+    .eq('id', run.id)
+    .select()
+    .single();
+
+  if (finishError) {
+    console.error('Error saving report run:', finishError);
+  }
+
+  await supabase
+    .from('scheduled_reports')
+    .update({ last_run_at: run.started_at })
+    .eq('id', report.id);
+
+  return (finished as ReportRun) || { ...run, finished_at: finishedAt };
+}
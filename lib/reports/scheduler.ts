@@ -0,0 +1,74 @@
+// Report Scheduler - Runs the scheduled reports that are due (polled by lib/scheduler.ts)
+//
+// The schedule lives in the database (`next_run_at`), so it survives restarts:
+// reports that came due while the server was down run once on the next poll.
+// Each due report is claimed by moving its `next_run_at` forward with a
+// conditional update, so several app instances never run the same slot twice.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ScheduledReport, getNextRunAt } from './reports';
+import { runReport } from './runner';
+
+const BATCH_SIZE = 10;
+
+// Runs still "running" this long after starting were cut off by a restart
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+/**
+ * Claim and run every report that is due. Returns how many ran.
+ */
+export async function runDueReports(supabase: SupabaseClient): Promise<number> {
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from('scheduled_reports')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load due reports: ${error.message}`);
+  }
+
+  let ran = 0;
+  for (const report of (data || []) as ScheduledReport[]) {
+    let nextRunAt: string | null;
+    try {
+      nextRunAt = getNextRunAt(report.cron, report.timezone, now).toISOString();
+    } catch (scheduleError) {
+      console.error(`Report ${report.id} has an invalid schedule, disabling it:`, scheduleError);
+      nextRunAt = null;
+    }
+
+    const { data: claimed } = await supabase
+      .from('scheduled_reports')
+      .update({ next_run_at: nextRunAt, ...(nextRunAt ? {} : { enabled: false }) })
+      .eq('id', report.id)
+      .eq('next_run_at', report.next_run_at)
+      .select('id');
+
+    // Another instance got there first, or the schedule is broken
+    if (!claimed || claimed.length === 0 || !nextRunAt) continue;
+
+    await runReport(supabase, report, 'schedule');
+    ran++;
+  }
+
+  return ran;
+}
+
+/**
+ * Mark runs interrupted by a restart as failed so they don't stay "running" forever
+ */
+export async function failInterruptedRuns(supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase
+    .from('report_runs')
+    .update({ status: 'failed', error: 'Interrupted by a server restart', finished_at: new Date().toISOString() })
+    .eq('status', 'running')
+    .lt('started_at', new Date(Date.now() - STALE_RUN_MS).toISOString());
+
+  if (error) {
+    console.error('Error closing interrupted report runs:', error);
+  }
+}
@@ -0,0 +1,90 @@
+// Scheduler - Background poller for scheduled reports and metric monitors
+//
+// Started once per server process from instrumentation.ts. Deployments that
+// can't keep a process running set SCHEDULER=off and call POST /api/cron from
+// an external cron instead.
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { runDueReports, failInterruptedRuns } from './reports/scheduler';
+import { runDueMonitors } from './monitors/scheduler';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export interface ScheduledJobsResult {
+  reports: number;
+  monitors: number;
+}
+
+/**
+ * Run everything that is due. One job type failing doesn't stop the other.
+ */
+export async function runScheduledJobs(supabase: SupabaseClient): Promise<ScheduledJobsResult> {
+  const result: ScheduledJobsResult = { reports: 0, monitors: 0 };
+
+  try {
+    result.reports = await runDueReports(supabase);
+  } catch (error) {
+    console.error('Error running due reports:', error);
+  }
+
+  try {
+    result.monitors = await runDueMonitors(supabase);
+  } catch (error) {
+    console.error('Error checking due monitors:', error);
+  }
+
+  return result;
+}
+
+export function createSchedulerClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+}
+
+const globalForScheduler = globalThis as unknown as { schedulerStarted?: boolean };
+
+/**
+ * Start polling in this process (no-op when SCHEDULER=off or already started)
+ */
+export function startScheduler(): void {
+  if (process.env.SCHEDULER === 'off' || globalForScheduler.schedulerStarted) {
+    return;
+  }
+
+  const supabase = createSchedulerClient();
+  if (!supabase) {
+    console.warn('Scheduler not started: SUPABASE_SERVICE_ROLE_KEY is required');
+    return;
+  }
+
+  globalForScheduler.schedulerStarted = true;
+
+  let polling = false;
+  const poll = async () => {
+    // A slow batch shouldn't overlap with the next tick
+    if (polling) return;
+    polling = true;
+
+    try {
+      const { reports, monitors } = await runScheduledJobs(supabase);
+      if (reports > 0 || monitors > 0) {
+        console.log(`Scheduler ran ${reports} report(s) and checked ${monitors} monitor(s)`);
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  failInterruptedRuns(supabase).finally(poll);
+  setInterval(poll, POLL_INTERVAL_MS);
+  console.log('Scheduler started');
+}
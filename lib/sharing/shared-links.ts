@@ -0,0 +1,233 @@
+// Shared Links - Read-only snapshots of a conversation or one answer at an unguessable URL
+//
+// The snapshot is copied when the link is created, so later messages aren't
+// exposed and viewers never touch the owner's MCP connections: the share page
+// only renders stored text, charts and tool results.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { StoredMessage } from '../chat/messages';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const TOKEN_BYTES = 24;
+const PASSWORD_KEY_LENGTH = 32;
+
+export const MAX_SHARE_PASSWORD_LENGTH = 200;
+
+// Fields viewers see; owner ids and token counts stay private
+const SNAPSHOT_COLUMNS = 'id, role, content, parent_message_id, tool_name, tool_service, tool_arguments, tool_result, tool_error, tool_cached, duration_ms, created_at';
+
+// Everything but the snapshot and password hash, for the owner's list; the hash
+// is only read when a viewer opens the link
+const LINK_COLUMNS = 'id, conversation_id, message_id, token, title, expires_at, view_count, last_viewed_at, created_at, has_password';
+
+export type SharedMessage = Omit<StoredMessage, 'user_id' | 'conversation_id' | 'token_count' | 'tool_tables'>;
+
+export interface SharedSnapshot {
+  title: string;
+  scope: 'conversation' | 'message';
+  messages: SharedMessage[];    // user, assistant and tool records, oldest first
+  shared_at: string;
+}
+
+export interface SharedLink {
+  id: string;
+  conversation_id: string;
+  message_id: string | null;
+  token: string;
+  title: string;
+  expires_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+  has_password: boolean;
+}
+
+export interface SharedLinkInput {
+  conversationId: string;
+  messageId?: string | null;
+  expiresAt?: Date | null;
+  password?: string | null;
+}
+
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt:${salt.toString('base64')}:${key.toString('base64')}`;
+}
+
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, expected] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !expected) {
+    return false;
+  }
+
+  const expectedKey = Buffer.from(expected, 'base64');
+  const key = await scryptAsync(password, Buffer.from(salt, 'base64'), expectedKey.length);
+  return timingSafeEqual(key, expectedKey);
+}
+
+/**
+ * Copy the messages to share: the whole conversation, or one answer with the
+ * question before it and the tool calls behind it. Returns null when there is
+ * nothing (or no such answer) to share.
+ */
+async function snapshotMessages(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  messageId: string | null
+): Promise<SharedMessage[] | null> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(SNAPSHOT_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load messages: ${error.message}`);
+  }
+
+  const messages = (data || []) as SharedMessage[];
+  if (!messageId) {
+    return messages.some(message => message.role === 'assistant') ? messages : null;
+  }
+
+  const answerIndex = messages.findIndex(message => message.id === messageId && message.role === 'assistant');
+  if (answerIndex === -1) {
+    return null;
+  }
+
+  let question: SharedMessage | undefined;
+  for (let i = answerIndex - 1; i >= 0 && !question; i--) {
+    if (messages[i].role === 'user') question = messages[i];
+  }
+
+  return [
+    ...(question ? [question] : []),
+    messages[answerIndex],
+    ...messages.filter(message => message.role === 'tool' && message.parent_message_id === messageId)
+  ];
+}
+
+/**
+ * Snapshot a conversation (or one of its answers) behind a new link. Returns
+ * null when the conversation or answer doesn't exist or has nothing to share.
+ */
+export async function createSharedLink(
+  supabase: SupabaseClient,
+  userId: string,
+  input: SharedLinkInput
+): Promise<SharedLink | null> {
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('id, title')
+    .eq('id', input.conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!conversation) {
+    return null;
+  }
+
+  const messageId = input.messageId || null;
+  const messages = await snapshotMessages(supabase, userId, conversation.id, messageId);
+  if (!messages) {
+    return null;
+  }
+
+  const title = conversation.title || 'Conversation';
+  const snapshot: SharedSnapshot = {
+    title,
+    scope: messageId ? 'message' : 'conversation',
+    messages,
+    shared_at: new Date().toISOString()
+  };
+
+  const { data, error } = await supabase
+    .from('shared_links')
+    .insert({
+      user_id: userId,
+      conversation_id: conversation.id,
+      message_id: messageId,
+      token: randomBytes(TOKEN_BYTES).toString('base64url'),
+      title,
+      snapshot,
+      password_hash: input.password ? await hashSharePassword(input.password) : null,
+      expires_at: input.expiresAt ? input.expiresAt.toISOString() : null
+    })
+    .select(LINK_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create shared link: ${error?.message}`);
+  }
+
+  return data as SharedLink;
+}
+
+export async function listSharedLinks(supabase: SupabaseClient, userId: string): Promise<SharedLink[]> {
+  const { data, error } = await supabase
+    .from('shared_links')
+    .select(LINK_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load shared links: ${error.message}`);
+  }
+
+  return (data || []) as SharedLink[];
+}
+
+/**
+ * A link as viewers reach it, by token. `expired` links are kept so the owner
+ * still sees them in their list, but their snapshot is never returned.
+ */
+export async function loadSharedLink(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ id: string; title: string; expired: boolean; passwordHash: string | null; snapshot: SharedSnapshot } | null> {
+  const { data, error } = await supabase
+    .from('shared_links')
+    .select('id, title, expires_at, password_hash, snapshot')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load shared link: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    title: data.title,
+    expired: !!data.expires_at && new Date(data.expires_at) <= new Date(),
+    passwordHash: data.password_hash,
+    snapshot: data.snapshot as SharedSnapshot
+  };
+}
+
+/**
+ * Count a view; best effort, a failed update doesn't block the page
+ */
+export async function recordSharedLinkView(supabase: SupabaseClient, linkId: string): Promise<void> {
+  const { data } = await supabase
+    .from('shared_links')
+    .select('view_count')
+    .eq('id', linkId)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from('shared_links')
+    .update({ view_count: (data?.view_count || 0) + 1, last_viewed_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) {
+    console.error('Error recording shared link view:', error);
+  }
+}
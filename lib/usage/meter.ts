@@ -0,0 +1,36 @@
+// Usage Meter - Counts the LLM tokens a request consumes across every completion it makes
+import { LLMProvider, LLMChatRequest, LLMChatOptions, LLMChatResponse } from '../llm/types';
+import { estimateMessageTokens, estimateTokens } from '../chat/context';
+
+/**
+ * Wraps a provider and adds up the usage of every completion made through it
+ * (agent turns, summaries and titles alike). Providers that don't report usage,
+ * such as some OpenAI-compatible servers, are counted with the token estimate.
+ */
+export class MeteredProvider implements LLMProvider {
+  promptTokens = 0;
+  completionTokens = 0;
+  calls = 0;
+
+  constructor(private provider: LLMProvider) {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  async chat(request: LLMChatRequest, options?: LLMChatOptions): Promise<LLMChatResponse> {
+    const response = await this.provider.chat(request, options);
+
+    this.calls++;
+    if (response.usage) {
+      this.promptTokens += response.usage.promptTokens;
+      this.completionTokens += response.usage.completionTokens;
+    } else {
+      this.promptTokens += request.messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+      this.completionTokens += estimateTokens(response.content) +
+        response.toolCalls.reduce((sum, call) => sum + estimateTokens(call.name) + estimateTokens(call.arguments), 0);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,166 @@
+// Usage Quotas - Daily and monthly limits on requests, tokens and tool calls, by plan or per user
+import { SupabaseClient } from '@supabase/supabase-js';
+import { loadUsageTotals, UsageTotals } from './usage';
+
+export type QuotaPeriod = 'day' | 'month';
+export type QuotaMetric = keyof UsageTotals;
+
+// null means unlimited
+export type UsageLimits = Record<QuotaPeriod, Record<QuotaMetric, number | null>>;
+
+const UNLIMITED: Record<QuotaMetric, null> = { requests: null, tokens: null, tool_calls: null };
+
+/**
+ * Built-in plans; USAGE_PLANS (JSON) overrides their limits or adds plans, e.g.
+ * `{"free": {"day": {"tokens": 100000}}, "team": {"month": {"requests": 20000}}}`
+ */
+const DEFAULT_PLANS: Record<string, UsageLimits> = {
+  free: {
+    day: { requests: 100, tokens: 500000, tool_calls: 500 },
+    month: { requests: 1000, tokens: 5000000, tool_calls: 5000 }
+  },
+  pro: {
+    day: { requests: 1000, tokens: 5000000, tool_calls: 5000 },
+    month: { requests: 20000, tokens: 100000000, tool_calls: 100000 }
+  },
+  unlimited: { day: UNLIMITED, month: UNLIMITED }
+};
+
+const PERIODS: QuotaPeriod[] = ['day', 'month'];
+const METRICS: QuotaMetric[] = ['requests', 'tokens', 'tool_calls'];
+
+const METRIC_LABELS: Record<QuotaMetric, string> = {
+  requests: 'request',
+  tokens: 'token',
+  tool_calls: 'tool call'
+};
+
+export function getUsagePlans(): Record<string, UsageLimits> {
+  let configured: Record<string, any> = {};
+  try {
+    configured = JSON.parse(process.env.USAGE_PLANS || '{}');
+  } catch {
+    console.error('USAGE_PLANS is not valid JSON; using the built-in plans');
+  }
+
+  const plans: Record<string, UsageLimits> = {};
+  for (const name of Array.from(new Set([...Object.keys(DEFAULT_PLANS), ...Object.keys(configured)]))) {
+    const base = DEFAULT_PLANS[name] || { day: UNLIMITED, month: UNLIMITED };
+    plans[name] = {
+      day: { ...base.day, ...configured[name]?.day },
+      month: { ...base.month, ...configured[name]?.month }
+    };
+  }
+  return plans;
+}
+
+export function getDefaultPlan(): string {
+  return process.env.USAGE_DEFAULT_PLAN || 'free';
+}
+
+export interface UsageQuota {
+  plan: string;
+  limits: UsageLimits;
+}
+
+/**
+ * The user's plan and limits: their `usage_quotas` row picks the plan and may
+ * override individual limits; without one the deployment's default plan applies
+ */
+export async function getUsageQuota(supabase: SupabaseClient, userId: string): Promise<UsageQuota> {
+  const { data, error } = await supabase
+    .from('usage_quotas')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load usage quota: ${error.message}`);
+  }
+
+  const plans = getUsagePlans();
+  const plan = data?.plan && plans[data.plan] ? data.plan : getDefaultPlan();
+  const base = plans[plan] || { day: UNLIMITED, month: UNLIMITED };
+
+  const limits: UsageLimits = { day: { ...base.day }, month: { ...base.month } };
+  for (const period of PERIODS) {
+    for (const metric of METRICS) {
+      // Columns like daily_tokens / monthly_tool_calls; -1 lifts the plan's limit
+      const override = data?.[`${period === 'day' ? 'daily' : 'monthly'}_${metric}`];
+      if (typeof override === 'number') {
+        limits[period][metric] = override < 0 ? null : override;
+      }
+    }
+  }
+
+  return { plan, limits };
+}
+
+export interface QuotaStatus extends UsageQuota {
+  usage: Record<QuotaPeriod, UsageTotals>;
+  resetsAt: Record<QuotaPeriod, string>;
+  exceeded: { period: QuotaPeriod; metric: QuotaMetric; limit: number; used: number } | null;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Start of the current UTC day and month, and when each quota period resets
+ */
+export function quotaPeriods(now: Date = new Date()) {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return {
+    dayStart,
+    monthStart,
+    dayEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+    monthEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+/**
+ * The user's usage this UTC day and month against their limits. `exceeded`
+ * names the first limit that is used up.
+ */
+export async function checkQuota(supabase: SupabaseClient, userId: string, now: Date = new Date()): Promise<QuotaStatus> {
+  const quota = await getUsageQuota(supabase, userId);
+  const { dayStart, monthStart, dayEnd, monthEnd } = quotaPeriods(now);
+
+  const [day, month] = await Promise.all([
+    loadUsageTotals(supabase, userId, dayStart),
+    loadUsageTotals(supabase, userId, monthStart)
+  ]);
+  const usage = { day, month };
+  const resets = { day: dayEnd, month: monthEnd };
+
+  let exceeded: QuotaStatus['exceeded'] = null;
+  for (const period of PERIODS) {
+    for (const metric of METRICS) {
+      const limit = quota.limits[period][metric];
+      if (!exceeded && limit !== null && usage[period][metric] >= limit) {
+        exceeded = { period, metric, limit, used: usage[period][metric] };
+      }
+    }
+  }
+
+  return {
+    ...quota,
+    usage,
+    resetsAt: { day: dayEnd.toISOString(), month: monthEnd.toISOString() },
+    exceeded,
+    retryAfterSeconds: exceeded ? Math.ceil((resets[exceeded.period].getTime() - now.getTime()) / 1000) : 0
+  };
+}
+
+/**
+ * User-facing message for a used-up quota
+ */
+export function describeExceededQuota(status: QuotaStatus): string {
+  if (!status.exceeded) {
+    return '';
+  }
+
+  const { period, metric, limit } = status.exceeded;
+  const resetsAt = new Date(status.resetsAt[period]);
+  return `${period === 'day' ? 'Daily' : 'Monthly'} ${METRIC_LABELS[metric]} quota of ${limit.toLocaleString('en-US')} on the ${status.plan} plan is used up. ` +
+    `It resets ${resetsAt.toISOString().replace('T', ' ').substring(0, 16)} UTC.`;
+}
@@ -0,0 +1,153 @@
+// Rate Limiter - Sliding-window request limits for the chat, OAuth, share password and report run routes
+//
+// Each key (a user id, or a client IP where there is no session yet) keeps the
+// timestamps of its recent requests. Limits are per app instance, like the
+// in-memory tool cache.
+import { NextRequest } from 'next/server';
+
+export interface RateLimit {
+  limit: number;      // Requests allowed per window; 0 disables the limit
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;  // Until the oldest request in the window expires
+}
+
+const limitFromEnv = (name: string, fallback: number) => {
+  const value = process.env[name];
+  return value && Number(value) >= 0 ? Number(value) : fallback;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const RATE_LIMITS = {
+  chat: { limit: limitFromEnv('RATE_LIMIT_CHAT_PER_MINUTE', 20), windowMs: MINUTE_MS },
+  oauth: { limit: limitFromEnv('RATE_LIMIT_OAUTH_PER_MINUTE', 10), windowMs: MINUTE_MS },
+  // Password attempts on a shared link, per client IP
+  share: { limit: limitFromEnv('RATE_LIMIT_SHARE_PASSWORD_PER_MINUTE', 10), windowMs: MINUTE_MS },
+  // Manual "run now" of scheduled reports, per user; each run may send an email or webhook
+  reportRun: { limit: limitFromEnv('RATE_LIMIT_REPORT_RUNS_PER_HOUR', 10), windowMs: 60 * MINUTE_MS }
+};
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+// Keys with no request inside any window are dropped at most this often
+const SWEEP_INTERVAL_MS = 5 * MINUTE_MS;
+
+class SlidingWindowRateLimiter {
+  private hits: Map<string, number[]> = new Map();
+  private lastSweepAt = Date.now();
+
+  constructor(private rateLimit: RateLimit) {}
+
+  /**
+   * Count a request for `key` if it fits in the window
+   */
+  consume(key: string, now: number = Date.now()): RateLimitResult {
+    const { limit, windowMs } = this.rateLimit;
+    if (limit === 0) {
+      return { allowed: true, limit, remaining: Infinity, retryAfterSeconds: 0 };
+    }
+
+    this.sweep(now);
+
+    const since = now - windowMs;
+    const hits = (this.hits.get(key) || []).filter(time => time > since);
+
+    if (hits.length >= limit) {
+      this.hits.set(key, hits);
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((hits[0] + windowMs - now) / 1000))
+      };
+    }
+
+    hits.push(now);
+    this.hits.set(key, hits);
+    return { allowed: true, limit, remaining: limit - hits.length, retryAfterSeconds: 0 };
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweepAt < SWEEP_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastSweepAt = now;
+    for (const [key, hits] of Array.from(this.hits.entries())) {
+      if (hits[hits.length - 1] <= now - this.rateLimit.windowMs) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+const globalForRateLimits = globalThis as unknown as {
+  rateLimiters?: Partial<Record<RateLimitName, SlidingWindowRateLimiter>>;
+};
+
+/**
+ * Count a request against the named limit for `key`
+ */
+export function checkRateLimit(name: RateLimitName, key: string): RateLimitResult {
+  if (!globalForRateLimits.rateLimiters) {
+    globalForRateLimits.rateLimiters = {};
+  }
+
+  let limiter = globalForRateLimits.rateLimiters[name];
+  if (!limiter) {
+    limiter = new SlidingWindowRateLimiter(RATE_LIMITS[name]);
+    globalForRateLimits.rateLimiters[name] = limiter;
+  }
+
+  return limiter.consume(`${name}:${key}`);
+}
+
+/**
+ * Headers for a 429 response (and informational ones for allowed requests)
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  if (!Number.isFinite(result.remaining)) {
+    return {};
+  }
+
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    ...(!result.allowed && { 'Retry-After': String(result.retryAfterSeconds) })
+  };
+}
+
+/**
+ * Client address for requests without a session: `request.ip` where the platform
+ * sets it, otherwise the X-Forwarded-For entry added by the first of our own
+ * proxies, counted from the right (TRUSTED_PROXY_COUNT). Entries to the left of
+ * it are whatever the client sent, so they are never used. With no proxies
+ * configured (the default) both headers are client-controlled and ignored, and
+ * all such clients share one 'unknown' bucket.
+ */
+export function clientAddress(request: NextRequest): string {
+  if (request.ip) {
+    return request.ip;
+  }
+
+  const trustedProxies = Math.max(Math.floor(Number(process.env.TRUSTED_PROXY_COUNT)) || 0, 0);
+  if (trustedProxies === 0) {
+    return 'unknown';
+  }
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+
+  if (hops.length >= trustedProxies) {
+    return hops[hops.length - trustedProxies];
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
@@ -0,0 +1,168 @@
+// Usage Records - One row per chat request or report run with the tokens, tool calls and latency it used
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ToolInvocation } from '../chat/agent';
+import { MeteredProvider } from './meter';
+
+export type UsageSource = 'chat' | 'report';
+
+// Rows per query when loading records (below Supabase's response cap)
+const USAGE_PAGE_SIZE = 1000;
+
+export interface UsageRecord {
+  id: string;
+  user_id: string;
+  conversation_id: string | null;
+  source: UsageSource;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  llm_calls: number;
+  tool_calls: number;
+  tool_calls_by_service: Record<string, number>;
+  tool_errors: number;
+  latency_ms: number;
+  status: 'succeeded' | 'failed';
+  error: string | null;
+  created_at: string;
+}
+
+export interface UsageTotals {
+  requests: number;
+  tokens: number;       // Prompt and completion tokens
+  tool_calls: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string;         // YYYY-MM-DD, UTC
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+/**
+ * Record a finished (or failed) request. Usage is bookkeeping, so failures
+ * are logged rather than thrown.
+ */
+export async function recordUsage(
+  supabase: SupabaseClient,
+  record: {
+    userId: string;
+    conversationId: string | null;
+    source: UsageSource;
+    model: string;
+    meter: MeteredProvider;
+    toolCalls: ToolInvocation[];
+    startedAt: number;
+    error?: string | null;
+  }
+): Promise<void> {
+  const byService: Record<string, number> = {};
+  for (const call of record.toolCalls) {
+    const service = call.service || 'unknown';
+    byService[service] = (byService[service] || 0) + 1;
+  }
+
+  const { error } = await supabase
+    .from('usage_records')
+    .insert({
+      user_id: record.userId,
+      conversation_id: record.conversationId,
+      source: record.source,
+      provider: record.meter.name,
+      model: record.model,
+      prompt_tokens: record.meter.promptTokens,
+      completion_tokens: record.meter.completionTokens,
+      llm_calls: record.meter.calls,
+      tool_calls: record.toolCalls.length,
+      tool_calls_by_service: byService,
+      tool_errors: record.toolCalls.filter(call => call.error).length,
+      latency_ms: Date.now() - record.startedAt,
+      status: record.error ? 'failed' : 'succeeded',
+      error: record.error || null
+    });
+
+  if (error) {
+    console.error('Error recording usage:', error);
+  }
+}
+
+/**
+ * A user's usage records since `since`, oldest first. Paged, so busy users'
+ * records aren't cut off at the response row limit.
+ */
+export async function loadUsageRecords(
+  supabase: SupabaseClient,
+  userId: string,
+  since: Date
+): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('usage_records')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .range(records.length, records.length + USAGE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load usage: ${error.message}`);
+    }
+
+    records.push(...((data || []) as UsageRecord[]));
+    if (!data || data.length < USAGE_PAGE_SIZE) {
+      return records;
+    }
+  }
+}
+
+/**
+ * A user's totals since `since`, summed in the database (`usage_totals`)
+ */
+export async function loadUsageTotals(
+  supabase: SupabaseClient,
+  userId: string,
+  since: Date
+): Promise<UsageTotals> {
+  const { data, error } = await supabase
+    .rpc('usage_totals', { p_user_id: userId, p_since: since.toISOString() })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load usage totals: ${error.message}`);
+  }
+
+  const totals = data as Partial<UsageTotals> | null;
+  return {
+    requests: Number(totals?.requests || 0),
+    tokens: Number(totals?.tokens || 0),
+    tool_calls: Number(totals?.tool_calls || 0)
+  };
+}
+
+/**
+ * Per-day totals from `since` through today, including days without usage
+ */
+export function dailyUsage(records: UsageRecord[], since: Date, now: Date = new Date()): DailyUsage[] {
+  const days: Record<string, DailyUsage> = {};
+  const day = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate()));
+  while (day <= now) {
+    const date = day.toISOString().substring(0, 10);
+    days[date] = { date, requests: 0, tokens: 0, prompt_tokens: 0, completion_tokens: 0, tool_calls: 0 };
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  for (const record of records) {
+    const totals = days[record.created_at.substring(0, 10)];
+    if (!totals) continue;
+
+    totals.requests++;
+    totals.prompt_tokens += record.prompt_tokens;
+    totals.completion_tokens += record.completion_tokens;
+    totals.tokens += record.prompt_tokens + record.completion_tokens;
+    totals.tool_calls += record.tool_calls;
+  }
+
+  return Object.values(days);
+}
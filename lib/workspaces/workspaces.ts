@@ -0,0 +1,303 @@
+// Workspaces - Teams that share Google connections, with viewer/analyst/admin roles
+//
+// An admin links the team's GA4/GSC accounts to the workspace once; every member
+// can then chat against them without doing OAuth. Viewers get read-only tools,
+// analysts every tool, and admins also manage the connections, members and invites.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sendEmail, isEmailConfigured } from '../email';
+
+export type WorkspaceRole = 'viewer' | 'analyst' | 'admin';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['viewer', 'analyst', 'admin'];
+
+// How long an invitation can be accepted
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A workspace the user belongs to, and their role in it
+ */
+export interface WorkspaceMembership {
+  workspace_id: string;
+  workspace_name: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by: string;
+  expires_at: string;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Whether `role` grants at least `required`
+ */
+export function hasWorkspaceRole(role: WorkspaceRole | null | undefined, required: WorkspaceRole): boolean {
+  return !!role && WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(required);
+}
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === 'string' && (WORKSPACE_ROLES as string[]).includes(value);
+}
+
+/**
+ * The workspaces a user belongs to, by name
+ */
+export async function listMemberships(supabase: SupabaseClient, userId: string): Promise<WorkspaceMembership[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id, role, workspaces(name)')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load workspaces: ${error.message}`);
+  }
+
+  return (data || [])
+    .map((row: any) => ({
+      workspace_id: row.workspace_id,
+      workspace_name: row.workspaces?.name || 'Workspace',
+      role: row.role as WorkspaceRole
+    }))
+    .sort((a, b) => a.workspace_name.localeCompare(b.workspace_name));
+}
+
+/**
+ * The user's role in a workspace, or null when they aren't a member
+ */
+export async function getWorkspaceRole(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load workspace membership: ${error.message}`);
+  }
+
+  return (data?.role as WorkspaceRole) || null;
+}
+
+/**
+ * Create a workspace with its creator as the first admin
+ */
+export async function createWorkspace(
+  supabase: SupabaseClient,
+  user: { id: string; email?: string | null },
+  name: string
+): Promise<Workspace> {
+  const { data: workspace, error } = await supabase
+    .from('workspaces')
+    .insert({ name, created_by: user.id })
+    .select()
+    .single();
+
+  if (error || !workspace) {
+    throw new Error(`Failed to create workspace: ${error?.message}`);
+  }
+
+  const { error: memberError } = await supabase
+    .from('workspace_members')
+    .insert({ workspace_id: workspace.id, user_id: user.id, email: user.email || null, role: 'admin' });
+
+  if (memberError) {
+    await supabase.from('workspaces').delete().eq('id', workspace.id);
+    throw new Error(`Failed to add workspace admin: ${memberError.message}`);
+  }
+
+  return workspace as Workspace;
+}
+
+/**
+ * Whether changing or removing this member would leave the workspace without an admin
+ */
+export async function isLastAdmin(supabase: SupabaseClient, workspaceId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('user_id')
+    .eq('workspace_id', workspaceId)
+    .eq('role', 'admin');
+
+  if (error) {
+    throw new Error(`Failed to load workspace admins: ${error.message}`);
+  }
+
+  return (data || []).length === 1 && data![0].user_id === userId;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * The user's email once they have confirmed it, otherwise null. Invitations are
+ * addressed by email, so an unconfirmed address can't claim them.
+ */
+export function confirmedEmail(user: { email?: string | null; email_confirmed_at?: string | null }): string | null {
+  return user.email && user.email_confirmed_at ? normalizeEmail(user.email) : null;
+}
+
+/**
+ * Link that opens the invitation on the workspaces page, when NEXT_PUBLIC_APP_URL is configured
+ */
+export function invitationUrl(invitation: WorkspaceInvitation): string | null {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) return null;
+  return `${appUrl.replace(/\/$/, '')}/settings/workspaces?invitation=${invitation.id}`;
+}
+
+/**
+ * Invite an email address to a workspace, replacing any pending invitation for
+ * it. The invitation is emailed when SMTP is configured; either way the invitee
+ * sees it on the workspaces page after signing in with that address.
+ */
+export async function inviteToWorkspace(
+  supabase: SupabaseClient,
+  workspace: Pick<Workspace, 'id' | 'name'>,
+  invitedBy: { id: string; email?: string | null },
+  email: string,
+  role: WorkspaceRole
+): Promise<{ invitation: WorkspaceInvitation; emailed: boolean }> {
+  const address = normalizeEmail(email);
+
+  await supabase
+    .from('workspace_invitations')
+    .delete()
+    .eq('workspace_id', workspace.id)
+    .eq('email', address)
+    .is('accepted_at', null);
+
+  const { data, error } = await supabase
+    .from('workspace_invitations')
+    .insert({
+      workspace_id: workspace.id,
+      email: address,
+      role,
+      invited_by: invitedBy.id,
+      expires_at: new Date(Date.now() + INVITATION_TTL_MS).toISOString()
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create invitation: ${error?.message}`);
+  }
+
+  const invitation = data as WorkspaceInvitation;
+  let emailed = false;
+
+  if (isEmailConfigured()) {
+    const link = invitationUrl(invitation);
+    try {
+      await sendEmail({
+        to: address,
+        subject: `You're invited to ${workspace.name}`,
+        text: `${invitedBy.email || 'A workspace admin'} invited you to join the ${workspace.name} workspace as ${role === 'admin' ? 'an' : 'a'} ${role}.\n\n` +
+          `Sign in with ${address} to accept${link ? `: ${link}` : ' on the Workspaces page'}.\n\n` +
+          `The invitation expires ${new Date(invitation.expires_at).toUTCString()}.\n`
+      });
+      emailed = true;
+    } catch (sendError) {
+      // The invitation still shows up for the invitee in the app
+      console.error('Error sending workspace invitation:', sendError);
+    }
+  }
+
+  return { invitation, emailed };
+}
+
+/**
+ * Pending, unexpired invitations addressed to this email
+ */
+export async function listInvitationsForEmail(
+  supabase: SupabaseClient,
+  email: string | null | undefined
+): Promise<(WorkspaceInvitation & { workspace_name: string })[]> {
+  if (!email) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('workspace_invitations')
+    .select('*, workspaces(name)')
+    .eq('email', normalizeEmail(email))
+    .is('accepted_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load invitations: ${error.message}`);
+  }
+
+  return (data || []).map(({ workspaces, ...invitation }: any) => ({
+    ...invitation,
+    workspace_name: workspaces?.name || 'Workspace'
+  }));
+}
+
+/**
+ * Accept an invitation addressed to the signed-in user's confirmed email. Returns
+ * null when there is no such pending invitation; an existing member keeps the
+ * higher of their current and invited roles.
+ */
+export async function acceptInvitation(
+  supabase: SupabaseClient,
+  user: { id: string; email?: string | null; email_confirmed_at?: string | null },
+  invitationId: string
+): Promise<WorkspaceMembership | null> {
+  const email = confirmedEmail(user);
+  const pending = await listInvitationsForEmail(supabase, email);
+  const invitation = pending.find(candidate => candidate.id === invitationId);
+  if (!invitation) {
+    return null;
+  }
+
+  const current = await getWorkspaceRole(supabase, invitation.workspace_id, user.id);
+  const role = hasWorkspaceRole(current, invitation.role) ? current! : invitation.role;
+
+  const { error } = await supabase
+    .from('workspace_members')
+    .upsert({
+      workspace_id: invitation.workspace_id,
+      user_id: user.id,
+      email,
+      role
+    }, { onConflict: 'workspace_id,user_id' });
+
+  if (error) {
+    throw new Error(`Failed to join workspace: ${error.message}`);
+  }
+
+  await supabase
+    .from('workspace_invitations')
+    .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+    .eq('id', invitation.id);
+
+  return { workspace_id: invitation.workspace_id, workspace_name: invitation.workspace_name, role };
+}
@@ -1,5 +1,11 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Starts the report and monitor scheduler (instrumentation.ts)
+    instrumentationHook: true,
+    // PDFKit reads its font metrics from disk at runtime, so it can't be bundled
+    serverComponentsExternalPackages: ['pdfkit', 'exceljs'],
+  },
+}
 
 module.exports = nextConfig
-
@@ -0,0 +1,173 @@
+// Credential Key Rotation - Re-wraps every stored data key with the current master key
+//
+// Usage: npm run credentials:rotate
+//
+// Set the new key as CREDENTIAL_MASTER_KEY / CREDENTIAL_MASTER_KEY_ID and list the old
+// one in CREDENTIAL_PREVIOUS_MASTER_KEYS, then run this once. Rows still holding
+// plaintext tokens from before encryption are encrypted and their credential files removed.
+// Tokens encrypted before they were bound to their row id are re-encrypted bound to it.
+// Custom MCP server API keys are rotated, and encrypted if still plaintext, the same way.
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { decryptRecord, rewrapRecord, getCurrentMasterKeyId } from '../lib/crypto/envelope';
+import { encryptApiKey } from '../lib/mcp/custom-servers';
+import { encryptConnectionTokens, decryptConnectionTokens, removeLegacyCredentialsFile } from '../lib/mcp/credential-manager';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+async function main() {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+
+  const currentKeyId = getCurrentMasterKeyId();
+  console.log(`Rotating credentials to master key ${currentKeyId}`);
+
+  const { data: rows, error } = await supabase
+    .from('mcp_connections')
+    .select('id, user_id, server_name, encrypted_tokens, encrypted_data_key, master_key_id, access_token, refresh_token, credentials_path');
+
+  if (error) {
+    throw new Error(`Failed to load credentials: ${error.message}`);
+  }
+
+  let rewrapped = 0;
+  let migrated = 0;
+  let rebound = 0;
+  let failed = 0;
+
+  for (const row of rows || []) {
+    try {
+      let update: Record<string, any> | null = null;
+
+      if (row.encrypted_tokens && !isBoundToRow(row)) {
+        // Encrypted under the old user:server binding
+        const tokens = JSON.parse(decryptRecord({
+          ciphertext: row.encrypted_tokens,
+          encryptedDataKey: row.encrypted_data_key,
+          keyId: row.master_key_id
+        }, `${row.user_id}:${row.server_name}`));
+        update = encryptConnectionTokens(row, tokens);
+        rebound++;
+      } else if (row.encrypted_tokens) {
+        if (row.master_key_id !== currentKeyId) {
+          const record = rewrapRecord({
+            ciphertext: row.encrypted_tokens,
+            encryptedDataKey: row.encrypted_data_key,
+            keyId: row.master_key_id
+          });
+          update = { encrypted_data_key: record.encryptedDataKey, master_key_id: record.keyId };
+          rewrapped++;
+        }
+      } else if (row.refresh_token) {
+        // Legacy plaintext row
+        update = encryptConnectionTokens(row, {
+          refresh_token: row.refresh_token,
+          ...(row.access_token && { access_token: row.access_token })
+        });
+        migrated++;
+      }
+
+      if (!update) continue;
+
+      const { error: updateError } = await supabase
+        .from('mcp_connections')
+        .update({ ...update, updated_at: new Date() })
+        .eq('id', row.id);
+
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+
+      if (update.credentials_path === null) {
+        removeLegacyCredentialsFile(row.credentials_path);
+      }
+    } catch (rowError: any) {
+      failed++;
+      console.error(`Failed to rotate ${row.server_name} for user ${row.user_id}:`, rowError.message);
+    }
+  }
+
+  console.log(`Re-wrapped ${rewrapped}, encrypted ${migrated} legacy rows, bound ${rebound} to their row, ${failed} failed`);
+
+  const servers = await rotateCustomServerKeys(supabase, currentKeyId);
+  console.log(`Custom servers: re-wrapped ${servers.rewrapped}, encrypted ${servers.migrated} legacy API keys, ${servers.failed} failed`);
+
+  if (failed > 0 || servers.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function isBoundToRow(row: any): boolean {
+  try {
+    decryptConnectionTokens(row);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function rotateCustomServerKeys(supabase: SupabaseClient, currentKeyId: string) {
+  const { data: rows, error } = await supabase
+    .from('custom_mcp_servers')
+    .select('id, user_id, api_key, encrypted_api_key, encrypted_data_key, master_key_id')
+    .or('api_key.not.is.null,encrypted_api_key.not.is.null');
+
+  if (error) {
+    throw new Error(`Failed to load custom servers: ${error.message}`);
+  }
+
+  let rewrapped = 0;
+  let migrated = 0;
+  let failed = 0;
+
+  for (const row of rows || []) {
+    try {
+      let update: Record<string, any> | null = null;
+
+      if (row.encrypted_api_key) {
+        if (row.master_key_id !== currentKeyId) {
+          const record = rewrapRecord({
+            ciphertext: row.encrypted_api_key,
+            encryptedDataKey: row.encrypted_data_key,
+            keyId: row.master_key_id
+          });
+          update = { encrypted_data_key: record.encryptedDataKey, master_key_id: record.keyId };
+          rewrapped++;
+        }
+      } else {
+        // Legacy plaintext key
+        update = encryptApiKey(row.user_id, row.id, row.api_key);
+        migrated++;
+      }
+
+      if (!update) continue;
+
+      const { error: updateError } = await supabase
+        .from('custom_mcp_servers')
+        .update({ ...update, updated_at: new Date() })
+        .eq('id', row.id);
+
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+    } catch (rowError: any) {
+      failed++;
+      console.error(`Failed to rotate custom server ${row.id} for user ${row.user_id}:`, rowError.message);
+    }
+  }
+
+  return { rewrapped, migrated, failed };
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});